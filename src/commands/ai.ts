@@ -0,0 +1,279 @@
+// AI command - inspect what kunj sends to the configured model
+
+import chalk from "chalk";
+import * as fs from "fs";
+import { BaseCommand } from "../lib/command";
+import { checkGitRepo, getCommitsSinceBranch, getCurrentBranch, getFileStatuses, getMainBranch } from "../lib/git";
+import { loadConfig } from "../lib/config";
+import { getBranchMetadataItem } from "../lib/metadata";
+import { buildCommitPrompt, getCommitDiff } from "../lib/ai-commit";
+import { buildPRPrompt, getPRDiff } from "../lib/ai-pr";
+import { GenerationPrompt } from "../lib/diff-summarizer";
+import { redactPrompt, summarizeRedactions, RedactionMatch } from "../lib/redaction";
+import { getAICacheStats, clearAICache } from "../lib/ai-cache";
+import {
+  readUsageLedger,
+  buildUsageReport,
+  getBudgetStatus,
+  getMonthStart,
+  formatBudget,
+  UsageBucket,
+} from "../lib/ai-usage";
+
+interface AIOptions {
+  pr?: boolean;
+  base?: string;
+  file?: string;
+  summary?: boolean;
+  days?: string;
+  month?: boolean;
+}
+
+export class AICommand extends BaseCommand {
+  constructor() {
+    super({
+      name: "ai",
+      description: "AI tools (preview: show the prompt that would be sent to the model after redaction; cache stats|clear; usage: tokens and cost)",
+      arguments: "<action> [subaction]",
+      options: [
+        { flags: "--pr", description: "Preview the PR description prompt instead of the commit message prompt" },
+        { flags: "--base <branch>", description: "Base branch for --pr (default: config or main/master)" },
+        { flags: "-f, --file <path>", description: "Preview an arbitrary file" },
+        { flags: "--summary", description: "Only show the redaction audit, not the content" },
+        { flags: "--days <n>", description: "Usage report window in days", defaultValue: "30" },
+        { flags: "--month", description: "Usage report for the current calendar month" },
+      ],
+    });
+  }
+
+  async execute(action: string, subaction?: string, options: AIOptions = {}): Promise<void> {
+    switch (action) {
+      case "preview":
+        await this.preview(options);
+        break;
+      case "cache":
+        this.cache(subaction || "stats");
+        break;
+      case "usage":
+        this.usage(options);
+        break;
+      default:
+        throw new Error(`Unknown action '${action}'. Available: preview, cache, usage`);
+    }
+  }
+
+  // Inspect or empty the response cache in ~/.kunj/ai-cache
+  private cache(subaction: string): void {
+    if (subaction === "clear") {
+      const removed = clearAICache();
+      if (this.jsonMode) {
+        this.outputJSON({ cleared: removed });
+        return;
+      }
+      console.log(chalk.green(`✓ Removed ${removed} cached response(s)`));
+      return;
+    }
+
+    if (subaction !== "stats") {
+      throw new Error(`Unknown cache action '${subaction}'. Available: stats, clear`);
+    }
+
+    const stats = getAICacheStats();
+    if (this.jsonMode) {
+      this.outputJSON({ ...stats, enabled: loadConfig().ai?.cache?.enabled !== false });
+      return;
+    }
+
+    const lookups = stats.hits + stats.misses;
+    const toMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(2);
+
+    console.log(chalk.bold("\n⚡ AI response cache"));
+    if (loadConfig().ai?.cache?.enabled === false) {
+      console.log(chalk.yellow("  Disabled (ai.cache.enabled=false)"));
+    }
+    console.log(`  ${chalk.gray("Location:")}  ${stats.dir}`);
+    console.log(`  ${chalk.gray("Entries:")}   ${stats.entries}`);
+    console.log(`  ${chalk.gray("Size:")}      ${toMB(stats.sizeBytes)} MB of ${toMB(stats.maxSizeBytes)} MB`);
+    console.log(`  ${chalk.gray("TTL:")}       ${stats.ttlHours}h`);
+    console.log(
+      `  ${chalk.gray("Hit rate:")}  ${lookups > 0 ? Math.round((stats.hits / lookups) * 100) : 0}% (${stats.hits} hits, ${stats.misses} misses)`
+    );
+    if (stats.oldest && stats.newest) {
+      console.log(`  ${chalk.gray("Oldest:")}    ${stats.oldest}`);
+      console.log(`  ${chalk.gray("Newest:")}    ${stats.newest}`);
+    }
+  }
+
+  // Show every prompt exactly as it would leave the machine, with an audit of redactions.
+  // Never calls the model: large diffs are chunked but not summarized (dry run).
+  private async preview(options: AIOptions): Promise<void> {
+    let source: string;
+    let prompts: Array<{ label: string; content: string }>;
+
+    if (options.file) {
+      if (!fs.existsSync(options.file)) {
+        throw new Error(`File not found: ${options.file}`);
+      }
+      source = options.file;
+      prompts = [{ label: options.file, content: fs.readFileSync(options.file, "utf8") }];
+    } else {
+      if (!(await checkGitRepo())) {
+        throw new Error("Not a git repository");
+      }
+
+      const currentBranch = await getCurrentBranch();
+      let built: GenerationPrompt | null;
+      if (options.pr) {
+        const base =
+          options.base ||
+          loadConfig().preferences?.defaultBaseBranch?.trim() ||
+          (await getMainBranch());
+        source = `PR prompt for ${currentBranch} → ${base}`;
+        const diff = await getPRDiff(base);
+        built = diff.trim()
+          ? await buildPRPrompt(currentBranch, base, getBranchMetadataItem(currentBranch), await getCommitsSinceBranch(base), diff, { dryRun: true })
+          : null;
+      } else {
+        const files = (await getFileStatuses()).map((f) => f.path);
+        source = "commit message prompt";
+        const diff = await getCommitDiff(files);
+        built = diff.trim()
+          ? await buildCommitPrompt(files, await getCommitsSinceBranch(), currentBranch, diff, { dryRun: true })
+          : null;
+      }
+
+      prompts = built
+        ? [
+            ...built.chunkPrompts.map((content, i, all) => ({ label: `diff summary ${i + 1} of ${all.length}`, content })),
+            { label: source, content: built.prompt },
+          ]
+        : [];
+    }
+
+    const enabled = loadConfig().ai?.redaction?.enabled !== false;
+    const redacted = prompts.map(({ label, content }) => ({ label, ...redactPrompt(content) }));
+    const matches = redacted.flatMap((prompt) => prompt.matches);
+
+    if (this.jsonMode) {
+      this.outputJSON({
+        source,
+        redactionEnabled: enabled,
+        summary: summarizeRedactions(matches),
+        prompts: redacted.map((prompt) => ({
+          label: prompt.label,
+          redactions: prompt.matches,
+          ...(options.summary ? {} : { content: prompt.text }),
+        })),
+      });
+      return;
+    }
+
+    if (!prompts.some((prompt) => prompt.content.trim())) {
+      console.log(chalk.yellow(`Nothing to preview (${options.file ? `${source} is empty` : "no changes"})`));
+      return;
+    }
+
+    if (!options.summary) {
+      const rule = chalk.gray("─".repeat(Math.min(80, process.stdout.columns || 80)));
+      redacted.forEach((prompt, i) => {
+        const position = redacted.length > 1 ? `prompt ${i + 1} of ${redacted.length}, ` : "";
+        console.log(chalk.cyan(`\n📤 Content sent to the model (${position}${prompt.label}):`));
+        console.log(rule);
+        console.log(prompt.text.replace(/\[REDACTED:[^\]]+\]/g, (p) => chalk.bgYellow.black(p)));
+        console.log(rule);
+      });
+    }
+
+    if (!enabled) {
+      console.log(chalk.yellow("\n⚠ Redaction is disabled (ai.redaction.enabled=false) — content is sent as-is"));
+      return;
+    }
+
+    console.log(chalk.bold(`\n🔒 ${summarizeRedactions(matches)}`));
+    for (const prompt of redacted) {
+      if (redacted.length > 1 && prompt.matches.length > 0) {
+        console.log(chalk.cyan(`  ${prompt.label}`));
+      }
+      this.printAudit(prompt.matches);
+    }
+  }
+
+  // Token and cost report from the usage ledger, per day and per feature
+  private usage(options: AIOptions): void {
+    let since: Date;
+    if (options.month) {
+      since = getMonthStart();
+    } else {
+      const days = parseInt(options.days || "30", 10);
+      if (isNaN(days) || days <= 0) {
+        throw new Error(`Invalid --days value: ${options.days}`);
+      }
+      since = new Date();
+      since.setHours(0, 0, 0, 0);
+      since.setDate(since.getDate() - (days - 1));
+    }
+
+    const report = buildUsageReport(readUsageLedger(since), since);
+    const budget = getBudgetStatus();
+
+    if (this.jsonMode) {
+      this.outputJSON({ ...report, budget });
+      return;
+    }
+
+    const { total } = report;
+    console.log(chalk.bold(`\n📊 AI usage since ${since.toLocaleDateString()}`));
+
+    if (total.calls === 0) {
+      console.log(chalk.gray("  No AI requests recorded"));
+    } else {
+      console.log(
+        `  ${total.calls} request(s) (${total.cachedCalls} from cache), ` +
+          `${total.inputTokens.toLocaleString()} input / ${total.outputTokens.toLocaleString()} output tokens, ` +
+          chalk.bold(`$${total.costUSD.toFixed(4)}`)
+      );
+      this.printUsageTable("By day", report.byDay);
+      this.printUsageTable("By feature", report.byFeature);
+      this.printUsageTable("By model", report.byModel);
+    }
+
+    if (budget) {
+      const pct = Math.round((budget.spentUSD / budget.monthlyUSD) * 100);
+      const color = budget.exceeded ? chalk.red : pct >= 80 ? chalk.yellow : chalk.green;
+      console.log(
+        `\n  ${chalk.gray("Monthly budget:")} ${color(`${formatBudget(budget)} (${pct}%)`)}` +
+          (budget.exceeded ? chalk.red(budget.action === "block" ? " — non-essential generations blocked" : " — exceeded") : "")
+      );
+    }
+
+    if (total.unpricedModels.length > 0) {
+      console.log(
+        chalk.yellow(`\n  ⚠ No price for ${total.unpricedModels.join(", ")} — add it with ai.usage.prices ("model=input/output" per 1M tokens)`)
+      );
+    }
+  }
+
+  private printUsageTable(title: string, buckets: Record<string, UsageBucket>): void {
+    const rows = Object.entries(buckets).sort(([a], [b]) => a.localeCompare(b));
+    const width = Math.max(12, ...rows.map(([name]) => name.length));
+
+    console.log(chalk.cyan(`\n  ${title}`));
+    console.log(
+      chalk.gray(`  ${"".padEnd(width)}  ${"Calls".padStart(6)}  ${"Input".padStart(10)}  ${"Output".padStart(10)}  ${"Cost".padStart(10)}`)
+    );
+    for (const [name, bucket] of rows) {
+      console.log(
+        `  ${name.padEnd(width)}  ${String(bucket.calls).padStart(6)}  ${bucket.inputTokens.toLocaleString().padStart(10)}  ` +
+          `${bucket.outputTokens.toLocaleString().padStart(10)}  ${`$${bucket.costUSD.toFixed(4)}`.padStart(10)}`
+      );
+    }
+  }
+
+  private printAudit(matches: RedactionMatch[]): void {
+    for (const match of matches) {
+      console.log(
+        `  ${chalk.gray(`line ${String(match.line).padStart(4)}`)}  ${chalk.yellow(match.placeholder.padEnd(32))} ${chalk.gray(match.masked)}`
+      );
+    }
+  }
+}
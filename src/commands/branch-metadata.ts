@@ -11,6 +11,7 @@ export class BranchNoteCommand extends BaseCommand {
     super({
       name: 'branch-note',
       description: 'Add or view notes for a branch',
+      journal: true,
       arguments: '[branch] [note...]',
       options: [
         { flags: '-c, --clear', description: 'Clear the notes for the branch' }
@@ -65,6 +66,7 @@ export class BranchTagCommand extends BaseCommand {
     super({
       name: 'branch-tag',
       description: 'Add or view tags for a branch',
+      journal: true,
       arguments: '[branch] [tags...]',
       options: [
         { flags: '-c, --clear', description: 'Clear all tags for the branch' },
@@ -136,6 +138,7 @@ export class BranchDescCommand extends BaseCommand {
     super({
       name: 'branch-desc',
       description: 'Set or view description for a branch',
+      journal: true,
       arguments: '[branch] [description...]',
       options: [
         { flags: '-c, --clear', description: 'Clear the description for the branch' }
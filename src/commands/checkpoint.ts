@@ -0,0 +1,150 @@
+// Checkpoint command - save, inspect and restore working tree snapshots kept on hidden refs
+
+import chalk from 'chalk';
+import { BaseCommand } from '../lib/command';
+import { checkGitRepo, getCurrentBranch } from '../lib/git';
+import { formatDiff } from '../lib/diff-formatter';
+import { getRelativeTime } from '../lib/utils';
+import {
+  Checkpoint,
+  saveCheckpoint,
+  listCheckpoints,
+  resolveCheckpoint,
+  diffCheckpoint,
+  restoreCheckpoint,
+  dropCheckpoints,
+} from '../lib/checkpoint';
+
+interface CheckpointOptions {
+  message?: string;
+  files?: string[];
+  branch?: string;
+  all?: boolean;
+  stat?: boolean;
+}
+
+export class CheckpointCommand extends BaseCommand {
+  constructor() {
+    super({
+      name: 'checkpoint',
+      description: 'Snapshot the working tree, untracked files included, without touching stashes or history (save|list|diff|restore|drop)',
+      arguments: '[action] [checkpoint]',
+      options: [
+        { flags: '-m, --message <message>', description: 'Message for the checkpoint (save)' },
+        { flags: '-f, --files <paths...>', description: 'Only diff or restore these files' },
+        { flags: '-b, --branch <name>', description: 'Use the checkpoints of another branch' },
+        { flags: '-a, --all', description: 'List checkpoints of every branch, or drop all of the branch\'s checkpoints' },
+        { flags: '--stat', description: 'Show a diffstat instead of the full diff' },
+      ],
+    });
+  }
+
+  async execute(action: string = 'save', target?: string, options: CheckpointOptions = {}): Promise<void> {
+    if (!(await checkGitRepo())) {
+      throw new Error('Not a git repository');
+    }
+    const branch = options.branch ?? (await getCurrentBranch());
+
+    switch (action) {
+      case 'save':
+        await this.save(options.message || target);
+        break;
+      case 'list':
+        await this.list(options.all ? undefined : branch);
+        break;
+      case 'diff':
+        await this.diff(await resolveCheckpoint(branch, target), options);
+        break;
+      case 'restore':
+        await this.restore(await resolveCheckpoint(branch, target), options.files || []);
+        break;
+      case 'drop':
+        await this.drop(branch, target, options.all);
+        break;
+      default:
+        throw new Error(`Unknown action '${action}'. Available: save, list, diff, restore, drop`);
+    }
+  }
+
+  private async save(message?: string): Promise<void> {
+    const checkpoint = await saveCheckpoint(message);
+    if (this.jsonMode) {
+      this.outputJSON(checkpoint);
+      return;
+    }
+    console.log(chalk.green(`✓ Saved checkpoint ${checkpoint.id} of ${checkpoint.branch}: ${checkpoint.message}`));
+    console.log(chalk.gray("  Use 'kunj checkpoint diff' to compare or 'kunj checkpoint restore' to bring it back"));
+  }
+
+  private async list(branch?: string): Promise<void> {
+    const checkpoints = await listCheckpoints(branch);
+    if (this.jsonMode) {
+      this.outputJSON({ checkpoints });
+      return;
+    }
+    if (checkpoints.length === 0) {
+      console.log(chalk.yellow(branch !== undefined ? `No checkpoints for ${branch || 'detached HEAD'}` : 'No checkpoints'));
+      return;
+    }
+
+    console.log(chalk.blue(`Checkpoints${branch !== undefined ? ` of ${branch || 'detached HEAD'}` : ''} (most recent first):\n`));
+    checkpoints.forEach((checkpoint, index) => {
+      const owner = branch === undefined ? chalk.cyan(`${checkpoint.branch} `) : '';
+      console.log(
+        `${chalk.yellow(String(index).padStart(3))}  ${chalk.gray(checkpoint.id)}  ${owner}${checkpoint.message} ` +
+          chalk.gray(`(${getRelativeTime(new Date(checkpoint.date))})`)
+      );
+    });
+  }
+
+  private async diff(checkpoint: Checkpoint, options: CheckpointOptions): Promise<void> {
+    const diff = await diffCheckpoint(checkpoint, options.files || [], { stat: options.stat });
+    if (this.jsonMode) {
+      this.outputJSON({ checkpoint, diff });
+      return;
+    }
+    console.log(chalk.blue(`Changes since checkpoint ${checkpoint.id}: ${checkpoint.message}\n`));
+    if (!diff.trim()) {
+      console.log(chalk.gray('No changes; the working tree matches the checkpoint'));
+    } else if (options.stat) {
+      console.log(diff.trimEnd());
+    } else {
+      console.log(formatDiff(diff, { showLineNumbers: true, highlightWords: true, maxWidth: process.stdout.columns || 120 }));
+    }
+  }
+
+  private async restore(checkpoint: Checkpoint, files: string[]): Promise<void> {
+    const result = await restoreCheckpoint(checkpoint, files);
+    if (this.jsonMode) {
+      this.outputJSON(result);
+      return;
+    }
+    if (!result.backup) {
+      console.log(chalk.gray(`The working tree already matches checkpoint ${checkpoint.id}`));
+      return;
+    }
+
+    const scope = files.length > 0 ? files.join(', ') : 'the working tree';
+    console.log(chalk.green(`✓ Restored ${scope} from checkpoint ${checkpoint.id}: ${checkpoint.message}`));
+    if (result.removed.length > 0) {
+      console.log(chalk.gray(`  Removed files created since: ${result.removed.join(', ')}`));
+    }
+    console.log(chalk.gray(`  The previous state was saved as checkpoint ${result.backup.id}; restore it to go back`));
+  }
+
+  private async drop(branch: string, target: string | undefined, all?: boolean): Promise<void> {
+    const checkpoints = all ? await listCheckpoints(branch) : [await resolveCheckpoint(branch, target)];
+    await dropCheckpoints(checkpoints);
+    if (this.jsonMode) {
+      this.outputJSON({ dropped: checkpoints });
+      return;
+    }
+    if (checkpoints.length === 0) {
+      console.log(chalk.yellow(`No checkpoints for ${branch || 'detached HEAD'}`));
+      return;
+    }
+    for (const checkpoint of checkpoints) {
+      console.log(chalk.green(`✓ Dropped checkpoint ${checkpoint.id}: ${checkpoint.message}`));
+    }
+  }
+}
@@ -0,0 +1,173 @@
+// Cleanup command - prune merged and stale branches along with their metadata
+
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { BaseCommand } from '../lib/command';
+import { checkGitRepo } from '../lib/git';
+import { loadConfig } from '../lib/config';
+import { CleanupCandidate, CleanupPlan, CleanupReason, buildCleanupPlan, applyCleanupPlan } from '../lib/cleanup';
+
+interface CleanupOptions {
+  dryRun?: boolean;
+  yes?: boolean;
+  remote?: boolean;
+  stale?: string;
+  includeStale?: boolean;
+  prCheck?: boolean;
+}
+
+const REASON_LABELS: Record<CleanupReason, string> = {
+  merged: 'merged',
+  'squash-merged': 'squash-merged',
+  'pr-merged': 'PR merged',
+  stale: 'stale',
+};
+
+export class CleanupCommand extends BaseCommand {
+  constructor() {
+    super({
+      name: 'cleanup',
+      description: 'Delete merged and stale branches and prune orphaned metadata',
+      journal: true,
+      options: [
+        { flags: '--dry-run', description: 'Show the cleanup plan without changing anything' },
+        { flags: '-y, --yes', description: 'Apply without prompting (merged branches; add --include-stale for stale ones)' },
+        { flags: '-r, --remote', description: 'Also delete the branches on their push remote' },
+        { flags: '--stale <days>', description: 'Days without commits before a branch is stale (default: preferences.staleBranchDays)' },
+        { flags: '--include-stale', description: 'Select stale branches for deletion too' },
+        { flags: '--no-pr-check', description: 'Skip looking up PR state for branches with a recorded PR' },
+      ],
+    });
+  }
+
+  async execute(options: CleanupOptions = {}): Promise<void> {
+    if (!(await checkGitRepo())) {
+      throw new Error('Not a git repository');
+    }
+
+    const config = loadConfig();
+    const staleDays = options.stale !== undefined ? parseInt(options.stale, 10) : config.preferences.staleBranchDays || 90;
+    if (!Number.isInteger(staleDays) || staleDays < 1) {
+      throw new Error(`Invalid --stale value '${options.stale}': expected a number of days`);
+    }
+
+    this.log(chalk.blue('Checking branches...'));
+    const plan = await buildCleanupPlan({ staleDays, checkPRs: options.prCheck !== false });
+    if (options.includeStale) {
+      plan.branches.forEach((candidate) => (candidate.selected = true));
+    }
+
+    const nothingToDo = plan.branches.length === 0 && plan.orphanedMetadata.length === 0 && plan.staleStashRecords.length === 0;
+
+    // JSON without --yes is always a plan; there is no way to review it interactively
+    if (options.dryRun || nothingToDo || (this.jsonMode && !options.yes)) {
+      if (this.jsonMode) {
+        this.outputJSON({ dryRun: true, staleDays, plan });
+        return;
+      }
+      this.printPlan(plan, staleDays);
+      if (nothingToDo) {
+        console.log(chalk.green('\n✓ Nothing to clean up'));
+      } else {
+        console.log(chalk.gray('\nDry run: nothing was changed. Run without --dry-run to apply.'));
+      }
+      return;
+    }
+
+    if (!this.jsonMode) {
+      this.printPlan(plan, staleDays);
+    }
+
+    if (!options.yes) {
+      if (!process.stdin.isTTY) {
+        throw new Error('Refusing to delete branches without a terminal; re-run with --yes or --dry-run');
+      }
+      if (plan.branches.length > 0) {
+        const { selected } = await inquirer.prompt([
+          {
+            type: 'checkbox',
+            name: 'selected',
+            message: `Branches to delete${options.remote ? ' (locally and on their remote)' : ''}:`,
+            pageSize: config.preferences.pageSize,
+            choices: plan.branches.map((candidate) => ({
+              name: `${candidate.branch} ${chalk.gray(`(${REASON_LABELS[candidate.reason]}, ${candidate.ageDays}d)`)}`,
+              value: candidate.branch,
+              checked: candidate.selected,
+            })),
+          },
+        ]);
+        plan.branches.forEach((candidate) => (candidate.selected = selected.includes(candidate.branch)));
+      }
+      const selectedCount = plan.branches.filter((c) => c.selected).length;
+      const { confirm } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: `Delete ${selectedCount} branch(es) and prune ${plan.orphanedMetadata.length} metadata entr${plan.orphanedMetadata.length === 1 ? 'y' : 'ies'}?`,
+          default: true,
+        },
+      ]);
+      if (!confirm) {
+        console.log(chalk.yellow('Cleanup cancelled'));
+        return;
+      }
+    }
+
+    const outcome = await applyCleanupPlan(plan, { remote: options.remote });
+
+    if (this.jsonMode) {
+      this.outputJSON({ dryRun: false, staleDays, plan, outcome });
+      return;
+    }
+
+    for (const branch of outcome.deleted) {
+      const candidate = plan.branches.find((c) => c.branch === branch);
+      const remote = outcome.remoteDeleted.includes(branch) && candidate ? chalk.gray(` (and ${candidate.remote})`) : '';
+      console.log(chalk.green(`✓ Deleted ${branch}`) + remote);
+    }
+    for (const failure of outcome.failed) {
+      console.log(chalk.red(`✗ ${failure.branch}: ${failure.error}`));
+    }
+    if (outcome.purgedMetadata.length > 0 || outcome.purgedStashRecords > 0) {
+      console.log(chalk.green(`✓ Pruned metadata for ${outcome.purgedMetadata.length} branch(es) and ${outcome.purgedStashRecords} stale stash record(s)`));
+    }
+    if (outcome.remoteDeleted.length > 0) {
+      console.log(chalk.gray("\nTip: Use 'kunj undo' to restore the local branches and metadata; branches deleted on the remote must be pushed again"));
+    } else {
+      console.log(chalk.gray("\nTip: Use 'kunj undo' to restore what was deleted"));
+    }
+  }
+
+  private printPlan(plan: CleanupPlan, staleDays: number): void {
+    console.log(chalk.bold(`\nCleanup plan`) + chalk.gray(` (merged into ${plan.targets.join(', ') || 'nothing'}; stale after ${staleDays} days)\n`));
+
+    if (plan.branches.length > 0) {
+      const width = Math.max(6, ...plan.branches.map((c) => c.branch.length));
+      console.log(chalk.gray(`  ${'Branch'.padEnd(width)}  ${'Reason'.padEnd(14)}  ${'Last commit'.padEnd(12)}  ${'Remote'.padEnd(6)}  Action`));
+      for (const candidate of plan.branches) {
+        this.printCandidate(candidate, width);
+      }
+    }
+
+    if (plan.orphanedMetadata.length > 0) {
+      console.log(chalk.yellow(`\n  Metadata for missing branches (${plan.orphanedMetadata.length}):`));
+      console.log(chalk.gray(`    ${plan.orphanedMetadata.join(', ')}`));
+    }
+    if (plan.staleStashRecords.length > 0) {
+      console.log(chalk.yellow(`\n  Stash records with no matching git stash (${plan.staleStashRecords.length}):`));
+      for (const record of plan.staleStashRecords) {
+        console.log(chalk.gray(`    ${record.branch}: ${record.message}`));
+      }
+    }
+  }
+
+  private printCandidate(candidate: CleanupCandidate, width: number): void {
+    const reason = REASON_LABELS[candidate.reason] + (candidate.target ? ` → ${candidate.target}` : '');
+    const reasonColor = candidate.reason === 'stale' ? chalk.yellow : chalk.green;
+    const action = candidate.selected ? chalk.red('delete') : chalk.gray('keep');
+    console.log(
+      `  ${candidate.branch.padEnd(width)}  ${reasonColor(reason.padEnd(14))}  ` +
+        `${`${candidate.ageDays}d ago`.padEnd(12)}  ${(candidate.hasRemote ? 'yes' : '-').padEnd(6)}  ${action}`
+    );
+  }
+}
@@ -1,5 +1,6 @@
 // Commit command - interactive file selection and commit
 
+import { execFileSync } from "child_process";
 import chalk from "chalk";
 import inquirer from "inquirer";
 import { BaseCommand } from "../lib/command";
@@ -16,21 +17,81 @@ import {
   getFileDiffWithMain,
   revertFile,
   deleteFile,
+  unstageAll,
+  saveIndex,
+  restoreIndex,
+  getFileHunks,
+  stageHunks,
 } from "../lib/git";
-import { generateAICommitMessage, checkAWSCredentials, getAWSConfigInfo, generateWorkLogEntry } from "../lib/ai-commit";
+import { DiffHunk, changedLineIndexes } from "../lib/hunks";
+import { generateAICommitMessage, generateWorkLogEntry, formatCommitMessage } from "../lib/ai-commit";
+import { commitStyles, getCommitStyle, validateCommitSubject } from "../lib/commit-styles";
+import { loadConfig } from "../lib/config";
+import { checkAICredentials, getAIConfigInfo } from "../lib/ai-providers";
 import { updateBranchMetadata } from "../lib/metadata";
 import { appendToWorkLog } from "../lib/work-log";
 import { formatDiff, formatSideBySideDiff } from "../lib/diff-formatter";
-import { exec } from "child_process";
-import { promisify } from "util";
+import { autoCheckpoint } from "../lib/checkpoint";
+import {
+  collectChangeUnits,
+  generateCommitSplitPlan,
+  stageChangeUnits,
+  CommitGroup,
+  CommitSplitPlan,
+} from "../lib/commit-split";
+import { runGit, runGitOrThrow } from "../lib/runner";
+
+// Strip ANSI escape codes for visible length calculation
+const stripAnsi = (s: string) => s.replace(/\x1b\[[0-9;]*m/g, '');
+
+// Truncate a string with ANSI codes to at most maxLen visible characters
+const truncateAnsi = (str: string, maxLen: number): string => {
+  let visible = 0;
+  let result = '';
+  let i = 0;
+  while (i < str.length) {
+    if (str[i] === '\x1b' && str[i + 1] === '[') {
+      // ANSI escape sequence — copy it whole
+      const end = str.indexOf('m', i + 2);
+      if (end !== -1) {
+        result += str.slice(i, end + 1);
+        i = end + 1;
+      } else {
+        i++;
+      }
+    } else {
+      if (visible >= maxLen) break;
+      result += str[i];
+      visible++;
+      i++;
+    }
+  }
+  return result + '\x1b[0m';
+};
+
+// Hunk picker opened on a file from the file list
+interface HunkView {
+  file: string;
+  hunks: DiffHunk[];
+  picked: Set<number>[]; // picked changed-line indexes, per hunk
+  expanded: Set<number>; // hunks split into single lines
+  cursor: number; // row index (always a selectable row)
+  scrollTop: number;
+}
 
-const execAsync = promisify(exec);
+interface HunkRow {
+  text: string;
+  hunk: number;
+  line?: number; // undefined for the hunk header row
+  selectable: boolean;
+}
 
 interface CommitOptions {
   all?: boolean;
   message?: string;
   amend?: boolean;
   auto?: boolean;
+  split?: boolean;
 }
 
 export class CommitCommand extends BaseCommand {
@@ -38,6 +99,7 @@ export class CommitCommand extends BaseCommand {
     super({
       name: "commit",
       description: "Interactive commit - select files and commit with message",
+      journal: true,
       ui: { category: 'action', widget: 'form-only', label: 'Commit', icon: 'check', order: 22 },
       options: [
         {
@@ -53,6 +115,11 @@ export class CommitCommand extends BaseCommand {
           flags: "--auto",
           description: "Auto mode: use AI for commit message and auto-push",
         },
+        {
+          flags: "--split",
+          description: "Let AI split all changes into several logical commits (implies --all)",
+        },
+        { flags: "--no-cache", description: "Regenerate AI output instead of reusing a cached response" },
       ],
     });
   }
@@ -85,6 +152,12 @@ export class CommitCommand extends BaseCommand {
         return;
       }
 
+      // AI-assisted split of all changes into several commits
+      if (options.split) {
+        await this.splitCommit(currentBranch, options);
+        return;
+      }
+
       // Separate staged and unstaged files
       const stagedFiles = files.filter((f) => f.staged);
       const unstagedFiles = files.filter((f) => !f.staged);
@@ -107,22 +180,28 @@ export class CommitCommand extends BaseCommand {
         } else if (unstagedFiles.length > 0) {
         // Interactive file selection
         try {
-          filesToCommit = await this.selectFiles(files);
+          const selection = await this.selectFiles(files);
+          filesToCommit = [...selection.files, ...selection.partial];
 
           if (filesToCommit.length === 0) {
             return;
           }
 
-          // Stage selected files
-          console.log(
-            chalk.cyan(`Staging ${filesToCommit.length} selected files...`)
-          );
-          const stageResult = await stageFiles(filesToCommit);
-          if (!stageResult.success) {
-            console.error(
-              chalk.red(`Failed to stage files: ${stageResult.message}`)
+          // Stage selected files; hunk selections were staged in the picker already
+          if (selection.files.length > 0) {
+            console.log(
+              chalk.cyan(`Staging ${selection.files.length} selected files...`)
             );
-            process.exit(1);
+            const stageResult = await stageFiles(selection.files);
+            if (!stageResult.success) {
+              console.error(
+                chalk.red(`Failed to stage files: ${stageResult.message}`)
+              );
+              process.exit(1);
+            }
+          }
+          if (selection.partial.length > 0) {
+            console.log(chalk.cyan(`Committing staged hunks of ${selection.partial.join(', ')}`));
           }
         } catch (err) {
           // Handle Ctrl-C gracefully
@@ -171,8 +250,14 @@ export class CommitCommand extends BaseCommand {
       }
 
       // Create the commit
-      console.log(chalk.blue("Creating commit..."));
-      const commitResult = await createCommit(commitMessage);
+      if (options.amend) {
+        const checkpoint = await autoCheckpoint("kunj commit --amend");
+        if (checkpoint) {
+          console.log(chalk.gray(`Saved checkpoint ${checkpoint.id} before amending`));
+        }
+      }
+      console.log(chalk.blue(options.amend ? "Amending last commit..." : "Creating commit..."));
+      const commitResult = await createCommit(commitMessage, options.amend);
 
       if (commitResult.success) {
         console.log(chalk.green("✓ Commit created successfully"));
@@ -245,21 +330,17 @@ export class CommitCommand extends BaseCommand {
         if (pushAction === "push" || pushAction === "pr") {
           console.log(chalk.blue("\nPushing to remote..."));
           try {
-            const { exec } = require("child_process");
-            const { promisify } = require("util");
-            const execAsync = promisify(exec);
-
             // First check if we need to set upstream
             const currentBranch = await getCurrentBranch();
-            const { stdout: trackingBranch } = await execAsync(
-              `git rev-parse --abbrev-ref --symbolic-full-name @{u} 2>/dev/null || echo ""`
+            const { stdout: trackingBranch } = await runGit(
+              ["rev-parse", "--abbrev-ref", "--symbolic-full-name", "@{u}"]
             );
 
             if (!trackingBranch.trim()) {
               // No upstream branch, push with -u
               console.log(chalk.gray(`Setting upstream branch...`));
-              const { stderr } = await execAsync(
-                `git push -u origin ${currentBranch}`
+              const { stderr } = await runGitOrThrow(
+                ["push", "-u", "origin", currentBranch]
               );
               if (stderr && !stderr.includes("Everything up-to-date")) {
                 console.log(chalk.yellow(stderr));
@@ -267,7 +348,7 @@ export class CommitCommand extends BaseCommand {
               console.log(chalk.green("✓ Pushed and set upstream branch"));
             } else {
               // Upstream exists, normal push
-              const { stderr } = await execAsync("git push");
+              const { stderr } = await runGitOrThrow(["push"]);
               if (stderr && !stderr.includes("Everything up-to-date")) {
                 console.log(chalk.yellow(stderr));
               }
@@ -296,35 +377,7 @@ export class CommitCommand extends BaseCommand {
     }
   }
 
-  private async selectFiles(files: FileStatus[]): Promise<string[]> {
-    // Strip ANSI escape codes for visible length calculation
-    const stripAnsi = (s: string) => s.replace(/\x1b\[[0-9;]*m/g, '');
-
-    // Truncate a string with ANSI codes to at most maxLen visible characters
-    const truncateAnsi = (str: string, maxLen: number): string => {
-      let visible = 0;
-      let result = '';
-      let i = 0;
-      while (i < str.length) {
-        if (str[i] === '\x1b' && str[i + 1] === '[') {
-          // ANSI escape sequence — copy it whole
-          const end = str.indexOf('m', i + 2);
-          if (end !== -1) {
-            result += str.slice(i, end + 1);
-            i = end + 1;
-          } else {
-            i++;
-          }
-        } else {
-          if (visible >= maxLen) break;
-          result += str[i];
-          visible++;
-          i++;
-        }
-      }
-      return result + '\x1b[0m';
-    };
-
+  private async selectFiles(files: FileStatus[]): Promise<{ files: string[]; partial: string[] }> {
     const termWidth  = () => process.stdout.columns || 120;
     const termHeight = () => process.stdout.rows    || 40;
 
@@ -335,6 +388,8 @@ export class CommitCommand extends BaseCommand {
 
     let availableFiles = [...files];
     let selected       = new Set<string>(files.filter(f => f.staged).map(f => f.path));
+    const partial      = new Set<string>(); // files with only picked hunks staged
+    let hunkView: HunkView | null = null;
     let cursorIdx      = 0;
     let fileScrollTop  = 0;
     let diffLines: string[] = [];
@@ -355,6 +410,24 @@ export class CommitCommand extends BaseCommand {
     // Enter alternate screen buffer, clear, hide cursor
     process.stdout.write('\x1b[?1049h\x1b[2J\x1b[H\x1b[?25l');
 
+    const hunkRows = (view: HunkView): HunkRow[] => {
+      const rows: HunkRow[] = [];
+      view.hunks.forEach((hunk, h) => {
+        const changed = changedLineIndexes(hunk);
+        const count   = changed.filter(i => view.picked[h].has(i)).length;
+        const mark    = count === 0 ? chalk.gray('○') : count === changed.length ? chalk.green('◉') : chalk.yellow('◐');
+        const split   = view.expanded.has(h);
+        rows.push({ text: `${mark} ${chalk.cyan(hunk.header)}`, hunk: h, selectable: true });
+        hunk.lines.forEach((line, i) => {
+          const isChange = line.startsWith('+') || line.startsWith('-');
+          const color    = line.startsWith('+') ? chalk.green : line.startsWith('-') ? chalk.red : chalk.gray;
+          const lineMark = split && isChange ? (view.picked[h].has(i) ? chalk.green('◉') : chalk.gray('○')) : ' ';
+          rows.push({ text: `  ${lineMark} ${color(line)}`, hunk: h, line: i, selectable: split && isChange });
+        });
+      });
+      return rows;
+    };
+
     const render = () => {
       const lw = leftWidth();
       const rw = rightWidth();
@@ -365,8 +438,9 @@ export class CommitCommand extends BaseCommand {
       // ── Header ──────────────────────────────────────────────────────────
       const curFile   = availableFiles[cursorIdx];
       const modeLabel = withMain ? ' [vs main]' : '';
-      const lHead = ` Files  ${selected.size}/${availableFiles.length} selected`;
-      const rHead = curFile ? ` Diff: ${curFile.path}${modeLabel}` : ' Diff';
+      const rows      = hunkView ? hunkRows(hunkView) : [];
+      const lHead = ` Files  ${selected.size}/${availableFiles.length} selected` + (partial.size ? `, ${partial.size} partial` : '');
+      const rHead = hunkView ? ` Hunks: ${hunkView.file}` : curFile ? ` Diff: ${curFile.path}${modeLabel}` : ' Diff';
       buf += chalk.bgBlue.bold.white(lHead.padEnd(lw).slice(0, lw));
       buf += chalk.bgBlue.white(' │ ');
       buf += chalk.bgBlue.white(rHead.padEnd(rw).slice(0, rw));
@@ -384,7 +458,7 @@ export class CommitCommand extends BaseCommand {
           const file      = availableFiles[fi];
           const isCursor  = fi === cursorIdx;
           const isChecked = selected.has(file.path);
-          const checkbox  = isChecked ? chalk.green('◉') : chalk.gray('○');
+          const checkbox  = isChecked ? chalk.green('◉') : partial.has(file.path) ? chalk.yellow('◐') : chalk.gray('○');
           const icon      = this.getStatusIcon(file.status);
           const name      = file.oldPath ? `${file.oldPath}→${file.path}` : file.path;
 
@@ -415,8 +489,15 @@ export class CommitCommand extends BaseCommand {
         // Divider
         buf += chalk.gray(' │ ');
 
-        // Right pane — diff row
-        if (diffLoading && i === 0) {
+        // Right pane — hunk picker or diff row
+        if (hunkView) {
+          const ri = hunkView.scrollTop + i;
+          if (ri < rows.length) {
+            buf += ri === hunkView.cursor
+              ? chalk.bgCyan.whiteBright(stripAnsi(rows[ri].text).slice(0, rw).padEnd(rw))
+              : truncateAnsi(rows[ri].text, rw);
+          }
+        } else if (diffLoading && i === 0) {
           buf += chalk.gray('Loading diff…');
         } else if (di < diffLines.length) {
           buf += truncateAnsi(diffLines[di], rw);
@@ -427,7 +508,9 @@ export class CommitCommand extends BaseCommand {
 
       // ── Footer ───────────────────────────────────────────────────────────
       buf += chalk.gray('─'.repeat(tw)) + '\x1b[0K\n';
-      const footerKeys = '[↑↓] Nav  [Spc] Select  [a] All  [m] Toggle main  [j/k] Scroll diff  [r] Revert  [d] Delete  [Enter] Done  [q] Cancel';
+      const footerKeys = hunkView
+        ? '[↑↓] Nav  [Spc] Pick hunk/line  [→] Split into lines  [←] Join  [a] All  [Enter] Stage picked  [Esc] Back'
+        : '[↑↓] Nav  [Spc] Select  [h] Hunks  [a] All  [m] Toggle main  [j/k] Scroll diff  [r] Revert  [d] Delete  [Enter] Done  [q] Cancel';
       if (statusMsg) {
         buf += chalk.yellow(statusMsg.padEnd(tw).slice(0, tw)) + '\x1b[0K';
       } else {
@@ -470,7 +553,7 @@ export class CommitCommand extends BaseCommand {
       availableFiles = await getFileStatuses();
       diffCache.clear();
       if (cursorIdx >= availableFiles.length) cursorIdx = Math.max(0, availableFiles.length - 1);
-      selected = new Set(availableFiles.filter(f => f.staged).map(f => f.path));
+      selected = new Set(availableFiles.filter(f => f.staged && !partial.has(f.path)).map(f => f.path));
       if (availableFiles.length > 0) await loadDiff(availableFiles[cursorIdx].path);
       else render();
     };
@@ -478,12 +561,111 @@ export class CommitCommand extends BaseCommand {
     await new Promise<void>((resolve) => {
       let processing = false;
 
+      const onHunkKey = async (view: HunkView, key: string) => {
+        const rows = hunkRows(view);
+        const moveTo = (row: number) => {
+          view.cursor = row;
+          const cl = contentLines();
+          if (row < view.scrollTop) view.scrollTop = row;
+          if (row >= view.scrollTop + cl) view.scrollTop = row - cl + 1;
+        };
+        const row = rows[view.cursor];
+
+        // Esc / q — back to the file list without staging
+        if (key === '\x1b' || key === 'q') { hunkView = null; render(); return; }
+
+        if (key === '\x1b[A' || key === '\x1b[B') {
+          const step = key === '\x1b[A' ? -1 : 1;
+          for (let r = view.cursor + step; r >= 0 && r < rows.length; r += step) {
+            if (rows[r].selectable) { moveTo(r); break; }
+          }
+          render(); return;
+        }
+
+        // Space — toggle the hunk (all its changes) or a single line
+        if (key === ' ' && row) {
+          const picked = view.picked[row.hunk];
+          if (row.line === undefined) {
+            const changed = changedLineIndexes(view.hunks[row.hunk]);
+            if (changed.every(i => picked.has(i))) picked.clear();
+            else changed.forEach(i => picked.add(i));
+          } else if (picked.has(row.line)) {
+            picked.delete(row.line);
+          } else {
+            picked.add(row.line);
+          }
+          render(); return;
+        }
+
+        // a — toggle every change in the file
+        if (key === 'a') {
+          const all = view.hunks.every((hunk, h) => changedLineIndexes(hunk).every(i => view.picked[h].has(i)));
+          view.hunks.forEach((hunk, h) => {
+            view.picked[h].clear();
+            if (!all) changedLineIndexes(hunk).forEach(i => view.picked[h].add(i));
+          });
+          render(); return;
+        }
+
+        // → / ← — split a hunk into lines, or join it back
+        if ((key === '\x1b[C' || key === '\x1b[D') && row) {
+          if (key === '\x1b[C') view.expanded.add(row.hunk);
+          else view.expanded.delete(row.hunk);
+          moveTo(hunkRows(view).findIndex(r => r.hunk === row.hunk && r.line === undefined));
+          render(); return;
+        }
+
+        // Enter — stage the picked lines and return to the file list
+        if (key === '\r' || key === '\n') {
+          const selections = view.hunks
+            .map((_, h) => ({ file: view.file, hunk: h, lines: [...view.picked[h]] }))
+            .filter(s => s.lines.length > 0);
+          if (selections.length === 0) { statusMsg = 'Nothing picked; press Esc to go back'; render(); return; }
+
+          processing = true;
+          const res = await stageHunks(selections);
+          processing = false;
+          if (!res.success) { statusMsg = `✗ ${res.message}`; render(); return; }
+
+          partial.add(view.file);
+          selected.delete(view.file);
+          hunkView = null;
+          statusMsg = `✓ ${res.message} of ${view.file}`;
+          availableFiles = await getFileStatuses();
+          diffCache.clear();
+          if (cursorIdx >= availableFiles.length) cursorIdx = Math.max(0, availableFiles.length - 1);
+          if (availableFiles.length > 0) await loadDiff(availableFiles[cursorIdx].path);
+          else render();
+          return;
+        }
+      };
+
       const onKey = async (key: string) => {
         if (isDone || processing) return;
         statusMsg = '';
 
         // Ctrl-C
         if (key === '\x03') { cancelled = true; isDone = true; resolve(); return; }
+
+        if (hunkView) {
+          await onHunkKey(hunkView, key);
+          return;
+        }
+
+        // h / → — pick hunks or lines of the current file
+        if (key === 'h' || key === '\x1b[C') {
+          const f = availableFiles[cursorIdx];
+          if (!f) return;
+          processing = true;
+          const hunks = await getFileHunks(f.path);
+          processing = false;
+          if (hunks.length === 0) {
+            statusMsg = f.status === 'new' || f.status === 'deleted' ? 'New and deleted files can only be staged whole' : 'No unstaged hunks in this file';
+            render(); return;
+          }
+          hunkView = { file: f.path, hunks, picked: hunks.map(() => new Set<number>()), expanded: new Set(), cursor: 0, scrollTop: 0 };
+          render(); return;
+        }
         // q
         if (key === 'q') { cancelled = true; isDone = true; resolve(); return; }
         // Enter
@@ -607,15 +789,19 @@ export class CommitCommand extends BaseCommand {
 
     if (cancelled) {
       console.log(chalk.yellow('\nCommit cancelled'));
-      return [];
+      if (partial.size > 0) {
+        console.log(chalk.gray(`Hunks staged for ${[...partial].join(', ')} are still in the index`));
+      }
+      return { files: [], partial: [] };
     }
 
-    if (selected.size === 0) {
+    const partialOnly = [...partial].filter(p => !selected.has(p));
+    if (selected.size === 0 && partialOnly.length === 0) {
       console.log(chalk.yellow('No files selected'));
-      return [];
+      return { files: [], partial: [] };
     }
 
-    return Array.from(selected);
+    return { files: Array.from(selected), partial: partialOnly };
   }
 
   private async showScrollableDiff(filePath: string, withMain: boolean): Promise<void> {
@@ -681,23 +867,21 @@ export class CommitCommand extends BaseCommand {
     // Suggest a commit type based on files
     const suggestedType = this.suggestCommitType(files);
 
-    const aiAvailable = await checkAWSCredentials();
-    const aiInfo = await getAWSConfigInfo();
+    const aiAvailable = await checkAICredentials();
+    const aiInfo = await getAIConfigInfo();
 
+    // Types come from the active commit style, including user-defined ones;
+    // styles that define none (like simple) keep the conventional list
+    const commitStyle = loadConfig().ai?.commitStyle || "conventional";
+    const style = getCommitStyle(commitStyle);
+    const types = style.types && style.types.length > 0 ? style.types : commitStyles.conventional.types || [];
     const commitTypeChoices = [
       { name: chalk.cyan("🤖 AI: Generate message with AI"), value: "ai" },
       { name: "──────────────────────", value: "", disabled: true },
-      { name: "feat: A new feature", value: "feat" },
-      { name: "fix: A bug fix", value: "fix" },
-      { name: "docs: Documentation changes", value: "docs" },
-      { name: "style: Code style changes (formatting, etc)", value: "style" },
-      { name: "refactor: Code refactoring", value: "refactor" },
-      { name: "test: Adding or updating tests", value: "test" },
-      { name: "chore: Maintenance tasks", value: "chore" },
-      { name: "build: Build system changes", value: "build" },
-      { name: "ci: CI configuration changes", value: "ci" },
-      { name: "perf: Performance improvements", value: "perf" },
-      { name: "revert: Revert a previous commit", value: "revert" },
+      ...types.map((t) => ({
+        name: t.description ? `${t.value}: ${t.description}` : t.value,
+        value: t.value,
+      })),
       { name: "(none): No prefix", value: "" },
     ];
 
@@ -711,7 +895,7 @@ export class CommitCommand extends BaseCommand {
         };
       } else {
         commitTypeChoices[0] = {
-          name: chalk.gray("🤖 AI: Not configured (set AWS credentials)"),
+          name: chalk.gray(`🤖 AI: Not configured (${aiInfo.setupHint})`),
           value: "ai",
           disabled: true,
         };
@@ -771,6 +955,15 @@ export class CommitCommand extends BaseCommand {
             if (input.length > 100) {
               return "Commit message should be less than 100 characters";
             }
+            if (commitType) {
+              const styleError = validateCommitSubject(
+                commitStyle,
+                formatCommitMessage(commitStyle, commitType, input.trim())
+              );
+              if (styleError) {
+                return styleError;
+              }
+            }
             return true;
           },
         },
@@ -783,10 +976,7 @@ export class CommitCommand extends BaseCommand {
       ]);
 
       // Construct the final commit message manually
-      message = manualAnswers.commitMessage;
-      if (commitType) {
-        message = `${commitType}: ${message}`;
-      }
+      message = formatCommitMessage(commitStyle, commitType, manualAnswers.commitMessage.trim());
       if (manualAnswers.commitBody && manualAnswers.commitBody.trim()) {
         message += `\n\n${manualAnswers.commitBody.trim()}`;
       }
@@ -809,6 +999,339 @@ export class CommitCommand extends BaseCommand {
     }
   }
 
+  // Split all changes into AI-proposed commits, let the user edit the plan, then commit each group
+  private async splitCommit(currentBranch: string, options: CommitOptions): Promise<void> {
+    const aiAvailable = await checkAICredentials();
+    if (!aiAvailable) {
+      const aiInfo = await getAIConfigInfo();
+      console.error(chalk.red(`AI is required for --split (${aiInfo.enabled ? aiInfo.setupHint : "enable with: kunj config --set ai.enabled=true"})`));
+      process.exit(1);
+    }
+
+    // Start from a clean index so every change can be regrouped, keeping the staged state
+    // to put back if nothing ends up committed
+    let indexTree: string;
+    try {
+      indexTree = await saveIndex();
+    } catch (error: any) {
+      console.error(chalk.red(`Cannot split while the index has unresolved conflicts: ${error.message}`));
+      process.exit(1);
+    }
+    const resetResult = await unstageAll();
+    if (!resetResult.success) {
+      console.error(chalk.red(`Failed to unstage changes: ${resetResult.message}`));
+      process.exit(1);
+    }
+    // Ctrl-C exits from the SIGINT handler, so the index has to be put back synchronously
+    let committed = 0;
+    const restoreOnInterrupt = () => {
+      if (committed === 0) {
+        execFileSync("git", ["read-tree", indexTree], { stdio: "ignore" });
+      }
+    };
+    process.prependListener("SIGINT", restoreOnInterrupt);
+    try {
+      const units = await collectChangeUnits();
+      if (units.length === 0) {
+        await restoreIndex(indexTree);
+        console.log(chalk.yellow("No changes to commit"));
+        return;
+      }
+
+      const branchCommits = await getCommitsSinceBranch();
+      let plan: CommitSplitPlan;
+      try {
+        plan = await generateCommitSplitPlan(units, branchCommits, currentBranch);
+      } catch (error: any) {
+        await restoreIndex(indexTree);
+        console.error(chalk.red(`AI split failed: ${error.message}`));
+        console.log(chalk.gray("Run kunj commit without --split to commit interactively"));
+        process.exit(1);
+      }
+
+      // --auto commits the plan as proposed; otherwise review it in the TUI
+      const groups = options.auto ? plan.groups : await this.reviewSplitPlan(plan);
+      if (!groups) {
+        await restoreIndex(indexTree);
+        console.log(chalk.yellow("Commit cancelled"));
+        return;
+      }
+
+      for (const [i, group] of groups.entries()) {
+        let message = group.message.trim();
+        if (!message) {
+          const answer = await inquirer.prompt([
+            {
+              type: "input",
+              name: "message",
+              message: `Commit message for group ${i + 1} (${group.units.length} change(s)):`,
+              validate: (input: string) => (input.trim() ? true : "Commit message cannot be empty"),
+            },
+          ]);
+          message = answer.message.trim();
+        }
+
+        const stageResult = await stageChangeUnits(group.units);
+        if (!stageResult.success) {
+          console.error(chalk.red(`✗ Failed to stage group ${i + 1}: ${stageResult.message}`));
+          break;
+        }
+
+        const commitResult = await createCommit(message);
+        if (!commitResult.success) {
+          console.error(chalk.red(`✗ Commit ${i + 1} failed: ${commitResult.message}`));
+          break;
+        }
+
+        committed++;
+        console.log(chalk.green(`✓ ${message.split("\n")[0]}`));
+        const files = Array.from(new Set(group.units.map((u) => u.file)));
+        console.log(chalk.gray(`  ${group.units.length} change(s) in ${files.join(", ")}`));
+      }
+
+      // The saved index only makes sense against the old HEAD; after partial success just unstage
+      if (committed === 0) {
+        await restoreIndex(indexTree);
+      } else if (committed < groups.length) {
+        await unstageAll();
+      }
+
+      console.log(chalk.cyan(`\nCreated ${committed} of ${groups.length} commit(s)`));
+      if (committed < groups.length) {
+        console.log(chalk.yellow("Remaining changes were left in the working tree (nothing was lost)"));
+      }
+      if (committed > 0) {
+        console.log(chalk.gray("Push with: git push"));
+      }
+    } finally {
+      process.removeListener("SIGINT", restoreOnInterrupt);
+    }
+  }
+
+  // Raw-mode editor for a split plan: move hunks between commits, edit messages, reorder
+  private async reviewSplitPlan(plan: CommitSplitPlan): Promise<CommitGroup[] | null> {
+    const groups: CommitGroup[] = plan.groups.map((g) => ({ message: g.message, units: [...g.units] }));
+    const skipped = [...plan.unassigned];
+
+    type Row = { kind: "group"; gi: number } | { kind: "unit"; gi: number; ui: number };
+
+    // gi === groups.length is the "leave uncommitted" bucket
+    const bucket = (gi: number) => (gi < groups.length ? groups[gi].units : skipped);
+    const buildRows = (): Row[] => {
+      const rows: Row[] = [];
+      for (let gi = 0; gi <= groups.length; gi++) {
+        rows.push({ kind: "group", gi });
+        bucket(gi).forEach((_, ui) => rows.push({ kind: "unit", gi, ui }));
+      }
+      return rows;
+    };
+
+    const termWidth   = () => process.stdout.columns || 120;
+    const termHeight  = () => process.stdout.rows    || 40;
+    const leftWidth   = () => Math.min(60, Math.floor(termWidth() * 0.45));
+    const rightWidth  = () => termWidth() - leftWidth() - 3;
+    const contentLines = () => termHeight() - 4;
+
+    let rows = buildRows();
+    let cursor = 0;
+    let scrollTop = 0;
+    let previewScroll = 0;
+    let statusMsg = "";
+    let cancelled = false;
+
+    const stdin  = process.stdin;
+    const wasRaw = stdin.isRaw;
+    if (stdin.setRawMode) stdin.setRawMode(true);
+    stdin.resume();
+    stdin.setEncoding("utf8");
+    process.stdout.write("\x1b[?1049h\x1b[2J\x1b[H\x1b[?25l");
+
+    const previewLines = (): string[] => {
+      const row = rows[cursor];
+      if (!row) return [];
+      if (row.kind === "group") {
+        if (row.gi === groups.length) {
+          return [chalk.gray("Changes here are left in the working tree, uncommitted.")];
+        }
+        const message = groups[row.gi].message || chalk.gray("(no message — press e to write one)");
+        return message.split("\n");
+      }
+      const unit = bucket(row.gi)[row.ui];
+      return [chalk.bold.cyan(`${unit.file}  ${unit.label}`), ...formatDiff(unit.preview, { maxWidth: rightWidth() }).split("\n")];
+    };
+
+    const render = () => {
+      const lw = leftWidth();
+      const rw = rightWidth();
+      const cl = contentLines();
+      const tw = termWidth();
+      const preview = previewLines();
+      let buf = "\x1b[H";
+
+      const lHead = ` Commit plan  ${groups.length} commit(s)`;
+      buf += chalk.bgBlue.bold.white(lHead.padEnd(lw).slice(0, lw));
+      buf += chalk.bgBlue.white(" │ ");
+      buf += chalk.bgBlue.white(" Preview".padEnd(rw).slice(0, rw));
+      buf += "\x1b[0K\n";
+      buf += chalk.gray("─".repeat(lw) + "─┼─" + "─".repeat(Math.max(0, rw)));
+      buf += "\x1b[0K\n";
+
+      for (let i = 0; i < cl; i++) {
+        const ri = scrollTop + i;
+        const row = rows[ri];
+        let entry = "";
+        if (row?.kind === "group") {
+          const title = row.gi === groups.length
+            ? `Leave uncommitted (${skipped.length})`
+            : `${row.gi + 1}. ${(groups[row.gi].message.split("\n")[0] || "(no message)")} (${groups[row.gi].units.length})`;
+          entry = row.gi === groups.length ? chalk.gray.bold(` ${title}`) : chalk.bold(` ${title}`);
+        } else if (row) {
+          const unit = bucket(row.gi)[row.ui];
+          entry = `    ${chalk.gray(unit.kind === "hunk" ? "▸" : "■")} ${unit.file} ${chalk.gray(unit.label)}`;
+        }
+
+        if (row && ri === cursor) {
+          buf += chalk.bgCyan.whiteBright.bold(("▶" + stripAnsi(entry).slice(1)).slice(0, lw).padEnd(lw));
+        } else {
+          buf += truncateAnsi(entry, lw) + " ".repeat(Math.max(0, lw - stripAnsi(entry).length));
+        }
+
+        buf += chalk.gray(" │ ");
+        const pi = previewScroll + i;
+        if (pi < preview.length) {
+          buf += truncateAnsi(preview[pi], rw);
+        }
+        buf += "\x1b[0K\n";
+      }
+
+      buf += chalk.gray("─".repeat(tw)) + "\x1b[0K\n";
+      const footerKeys = "[↑↓] Nav  [←→] Move change  [n] New commit  [e] Edit message  [K/J] Reorder  [j/k] Scroll  [Enter] Commit all  [q] Cancel";
+      buf += statusMsg
+        ? chalk.yellow(statusMsg.padEnd(tw).slice(0, tw)) + "\x1b[0K"
+        : chalk.gray(footerKeys.slice(0, tw)) + "\x1b[0K";
+
+      process.stdout.write(buf);
+    };
+
+    const moveCursor = (to: number) => {
+      cursor = Math.max(0, Math.min(rows.length - 1, to));
+      const cl = contentLines();
+      if (cursor < scrollTop) scrollTop = cursor;
+      if (cursor >= scrollTop + cl) scrollTop = cursor - cl + 1;
+      previewScroll = 0;
+    };
+
+    // Move the unit under the cursor into another bucket and keep the cursor on it
+    const moveUnit = (targetGi: number) => {
+      const row = rows[cursor];
+      if (!row || row.kind !== "unit") { statusMsg = "Select a change (not a commit) to move it"; return; }
+      const [unit] = bucket(row.gi).splice(row.ui, 1);
+      bucket(targetGi).push(unit);
+      rows = buildRows();
+      moveCursor(rows.findIndex((r) => r.kind === "unit" && r.gi === targetGi && r.ui === bucket(targetGi).length - 1));
+    };
+
+    const editMessage = async (gi: number) => {
+      stdin.removeListener("data", onKey);
+      process.stdout.write("\x1b[?1049l\x1b[?25h");
+      if (stdin.setRawMode) stdin.setRawMode(false);
+      try {
+        const { message } = await inquirer.prompt([
+          {
+            type: "editor",
+            name: "message",
+            message: `Commit message for commit ${gi + 1}:`,
+            default: groups[gi].message,
+          },
+        ]);
+        groups[gi].message = message.trim();
+      } catch { /* cancelled */ }
+      if (stdin.setRawMode) stdin.setRawMode(true);
+      stdin.resume();
+      process.stdout.write("\x1b[?1049h\x1b[2J\x1b[H\x1b[?25l");
+      stdin.on("data", onKey);
+    };
+
+    let finish: () => void = () => {};
+    let processing = false;
+
+    const onKey = async (key: string) => {
+      if (processing) return;
+      statusMsg = "";
+      const row = rows[cursor];
+
+      if (key === "\x03" || key === "q") { cancelled = true; finish(); return; }
+      if (key === "\r" || key === "\n") { finish(); return; }
+
+      if (key === "\x1b[A") { moveCursor(cursor - 1); render(); return; }
+      if (key === "\x1b[B") { moveCursor(cursor + 1); render(); return; }
+      if (key === "j" || key === "\x1b[6~") { previewScroll = Math.min(Math.max(0, previewLines().length - contentLines()), previewScroll + Math.floor(contentLines() / 2)); render(); return; }
+      if (key === "k" || key === "\x1b[5~") { previewScroll = Math.max(0, previewScroll - Math.floor(contentLines() / 2)); render(); return; }
+
+      // ← / → — move change to the previous / next commit (last bucket = leave uncommitted)
+      if (key === "\x1b[D" && row?.kind === "unit") { if (row.gi > 0) moveUnit(row.gi - 1); render(); return; }
+      if (key === "\x1b[C" && row?.kind === "unit") { if (row.gi < groups.length) moveUnit(row.gi + 1); render(); return; }
+
+      // n — move change into a new commit and ask for its message
+      if (key === "n") {
+        if (!row || row.kind !== "unit") { statusMsg = "Select a change to start a new commit with it"; render(); return; }
+        groups.push({ message: "", units: [] });
+        // The skipped bucket index shifted by one
+        const fromGi = row.gi === groups.length - 1 ? groups.length : row.gi;
+        const [unit] = bucket(fromGi).splice(row.ui, 1);
+        groups[groups.length - 1].units.push(unit);
+        rows = buildRows();
+        moveCursor(rows.findIndex((r) => r.kind === "group" && r.gi === groups.length - 1));
+        processing = true;
+        await editMessage(groups.length - 1);
+        processing = false;
+        render(); return;
+      }
+
+      // e — edit the message of the commit under the cursor
+      if (key === "e") {
+        if (!row || row.gi === groups.length) { statusMsg = "Uncommitted changes have no message"; render(); return; }
+        processing = true;
+        await editMessage(row.gi);
+        processing = false;
+        render(); return;
+      }
+
+      // K / J — reorder commits
+      if ((key === "K" || key === "J") && row && row.gi < groups.length) {
+        const target = key === "K" ? row.gi - 1 : row.gi + 1;
+        if (target >= 0 && target < groups.length) {
+          [groups[row.gi], groups[target]] = [groups[target], groups[row.gi]];
+          rows = buildRows();
+          moveCursor(rows.findIndex((r) => r.kind === "group" && r.gi === target));
+        }
+        render(); return;
+      }
+    };
+
+    render();
+    await new Promise<void>((resolve) => {
+      finish = resolve;
+      stdin.on("data", onKey);
+    });
+    stdin.removeListener("data", onKey);
+
+    process.stdout.write("\x1b[?1049l\x1b[?25h");
+    if (stdin.setRawMode) stdin.setRawMode(wasRaw || false);
+    stdin.pause();
+
+    if (cancelled) {
+      return null;
+    }
+
+    const result = groups.filter((g) => g.units.length > 0);
+    if (result.length === 0) {
+      console.log(chalk.yellow("No commits in plan"));
+      return null;
+    }
+    return result;
+  }
+
   private getStatusIcon(status: FileStatus["status"]): string {
     switch (status) {
       case "new":
@@ -16,7 +16,7 @@ import {
 import { defaultConfig } from '../constants';
 import { formatConfigValue, formatBoolValue, parseKeyValue } from '../lib/utils';
 import { settingsRegistry, SettingDefinition } from '../settings';
-import { listBedrockModels, validateBedrockModel } from '../lib/ai-commit';
+import { listBedrockModels, validateBedrockModel } from '../lib/ai-providers';
 import { checkSlackCredentials, listSlackChannels } from '../lib/slack';
 
 interface ConfigOptions {
@@ -607,8 +607,9 @@ export class ConfigCommand extends BaseCommand {
         changed = newValue !== currentValue;
 
       } else if (item.type === "string") {
-        // Special handling for ai.model: offer AWS model browser
-        if (item.value === 'ai.model' || item.value === 'ai.modelSmall') {
+        // Special handling for ai.model: offer AWS model browser (Bedrock only)
+        const isBedrock = (mergedConfig.ai?.provider || 'bedrock') === 'bedrock';
+        if (isBedrock && (item.value === 'ai.model' || item.value === 'ai.modelSmall')) {
           const { inputMode } = await inquirer.prompt([{
             type: 'list',
             name: 'inputMode',
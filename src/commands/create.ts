@@ -6,8 +6,9 @@ import { checkGitRepo, executeGitCommand, getCurrentBranch } from '../lib/git';
 import { createStash } from '../lib/stash';
 import { updateBranchMetadata } from '../lib/metadata';
 import { loadConfig } from '../lib/config';
-import { BranchMetadata } from '../types';
+import { BranchMetadata, GitCommandResult } from '../types';
 import { extractJiraKey, getIssue } from '../lib/jira';
+import { ensureWorktree, printWorktreeHint } from '../lib/worktree';
 
 interface CreateOptions {
   stash?: boolean;
@@ -20,6 +21,7 @@ export class CreateCommand extends BaseCommand {
     super({
       name: 'create <branch>',
       description: 'Create a new branch and switch to it',
+      journal: true,
       ui: { category: 'action', widget: 'form-only', label: 'Create Branch', icon: 'plus', order: 20 },
       options: [
         { flags: '--no-stash', description: 'Disable automatic stashing of changes' },
@@ -47,21 +49,39 @@ export class CreateCommand extends BaseCommand {
     // Get current branch before creating new one
     const currentBranch = await getCurrentBranch();
 
+    // In worktree mode the new branch gets its own worktree, so nothing needs stashing
+    const worktreeMode = config.preferences.switchMode === 'worktree';
+    let worktreePath: string | undefined;
+
     // Use config autoStash preference unless explicitly overridden
-    const shouldStash = options.stash !== false && config.preferences.autoStash;
+    const shouldStash = !worktreeMode && options.stash !== false && config.preferences.autoStash;
     if (shouldStash) {
       await createStash(currentBranch);
     }
 
     // Create and checkout the branch
-    const result = await executeGitCommand(`git switch -c ${branchName}`);
+    let result: GitCommandResult;
+    if (worktreeMode) {
+      try {
+        worktreePath = (await ensureWorktree(branchName, { create: true })).path;
+        result = { success: true, message: worktreePath };
+      } catch (error: any) {
+        result = { success: false, message: error.message };
+      }
+    } else {
+      result = await executeGitCommand(['switch', '-c', branchName]);
+    }
 
     if (result.success) {
-      console.log(
-        chalk.green(
-          `✓ Successfully created and switched to branch '${branchName}'`
-        )
-      );
+      if (worktreePath) {
+        printWorktreeHint(branchName, worktreePath, true);
+      } else {
+        console.log(
+          chalk.green(
+            `✓ Successfully created and switched to branch '${branchName}'`
+          )
+        );
+      }
 
       // Save metadata for the new branch if provided
       const metadata: Partial<BranchMetadata> = {
@@ -110,6 +130,7 @@ export class CreateCommand extends BaseCommand {
           success: true,
           branch: branchName,
           previousBranch: currentBranch,
+          worktreePath: worktreePath || null,
           description: metadata.description || null,
           tags: metadata.tags || [],
         });
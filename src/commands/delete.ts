@@ -13,6 +13,7 @@ export class DeleteCommand extends BaseCommand {
     super({
       name: 'delete <branch>',
       description: 'Delete a branch',
+      journal: true,
       ui: { category: 'action', widget: 'form-only', label: 'Delete Branch', icon: 'trash', order: 21 },
       options: [
         { flags: '-f, --force', description: 'Force delete the branch' }
@@ -43,7 +44,7 @@ export class DeleteCommand extends BaseCommand {
     console.log(chalk.blue(`Deleting branch '${branchName}'...`));
 
     const result = await executeGitCommand(
-      `git branch ${deleteFlag} ${branchName}`
+      ["branch", deleteFlag, "--", branchName]
     );
 
     if (result.success) {
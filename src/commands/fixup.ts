@@ -0,0 +1,122 @@
+// Fixup command - commit staged changes as a fixup of an earlier branch commit, and autosquash them
+
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { BaseCommand } from '../lib/command';
+import { checkGitRepo, getStagedFiles } from '../lib/git';
+import { runGit, runGitOrThrow } from '../lib/runner';
+import { FixupCandidate, autosquash, createFixupCommit, rankFixupTargets } from '../lib/fixup';
+
+interface FixupOptions {
+  all?: boolean;
+  yes?: boolean;
+  squash?: boolean;
+}
+
+export class FixupCommand extends BaseCommand {
+  constructor() {
+    super({
+      name: 'fixup',
+      description: 'Commit staged changes as a fixup of the branch commit they touch; --squash folds fixups in',
+      journal: true,
+      arguments: '[commit]',
+      options: [
+        { flags: '-a, --all', description: 'Stage all tracked changes first' },
+        { flags: '-y, --yes', description: 'Use the best-matching commit without asking' },
+        { flags: '--squash', description: 'Autosquash the branch\'s fixup commits into their targets (no editor)' },
+      ],
+    });
+  }
+
+  async execute(commit?: string, options: FixupOptions = {}): Promise<void> {
+    if (!(await checkGitRepo())) {
+      throw new Error('Not a git repository');
+    }
+    if (options.all) {
+      await runGitOrThrow(['add', '-u']);
+    }
+
+    const staged = await getStagedFiles();
+    if (staged.length === 0 && !options.squash) {
+      throw new Error('No staged changes; stage the fix first (or pass --all)');
+    }
+
+    if (staged.length > 0) {
+      const candidates = await rankFixupTargets();
+      if (candidates.length === 0) {
+        throw new Error('No commits on this branch to fix up');
+      }
+      const target = commit ? await this.resolveTarget(commit, candidates) : await this.pickTarget(candidates, options.yes);
+      if (!target) {
+        this.log(chalk.yellow('Fixup cancelled'));
+        return;
+      }
+
+      const fixup = await createFixupCommit(target.sha);
+      if (this.jsonMode && !options.squash) {
+        this.outputJSON({ target, fixup, candidates });
+        return;
+      }
+      this.log(chalk.green(`✓ Created ${fixup.subject}`) + chalk.gray(` (${fixup.sha.substring(0, 7)})`));
+    }
+
+    if (!options.squash) {
+      this.log(chalk.gray("  Run 'kunj fixup --squash' to fold it into its target"));
+      return;
+    }
+
+    const result = await autosquash();
+    if (this.jsonMode) {
+      this.outputJSON(result);
+      return;
+    }
+    if (result.status === 'up-to-date') {
+      console.log(chalk.gray('No fixup commits to squash'));
+    } else if (result.status === 'squashed') {
+      console.log(chalk.green(`✓ Squashed ${result.fixups} fixup commit(s) into their targets`));
+    } else {
+      console.log(chalk.red('✗ Autosquash stopped on a conflict'));
+      if (result.conflicts.length > 0) {
+        console.log(chalk.yellow(`  Conflicts in: ${result.conflicts.join(', ')}`));
+      }
+      console.log(chalk.gray("  Resolve them and run 'git rebase --continue', or 'git rebase --abort' to undo"));
+      process.exitCode = 1;
+    }
+  }
+
+  // An explicit target must be one of the branch's own commits, so squashing never rewrites the base
+  private async resolveTarget(commit: string, candidates: FixupCandidate[]): Promise<FixupCandidate> {
+    const resolved = await runGit(['rev-parse', '--verify', '--quiet', `${commit}^{commit}`]);
+    const target = resolved.success && candidates.find((c) => c.sha === resolved.stdout.trim());
+    if (!target) {
+      throw new Error(`'${commit}' is not a commit on this branch`);
+    }
+    return target;
+  }
+
+  private async pickTarget(candidates: FixupCandidate[], yes?: boolean): Promise<FixupCandidate | null> {
+    if (yes || this.jsonMode || candidates.length === 1) {
+      return candidates[0];
+    }
+
+    const { sha } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'sha',
+        message: 'Fix up which commit?',
+        choices: [
+          ...candidates.map((c) => ({
+            name:
+              `${chalk.yellow(c.sha.substring(0, 7))} ${c.subject}` +
+              (c.overlap > 0 ? chalk.gray(` (${c.overlap} line${c.overlap === 1 ? '' : 's'} touched)`) : ''),
+            value: c.sha,
+          })),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: '' },
+        ],
+        pageSize: 15,
+      },
+    ]);
+    return candidates.find((c) => c.sha === sha) ?? null;
+  }
+}
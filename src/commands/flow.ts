@@ -15,6 +15,7 @@ import {
   createHotfixBranch,
   finishHotfixBranch
 } from '../lib/git-flow';
+import { autoCheckpoint } from '../lib/checkpoint';
 
 export class FlowCommand extends BaseCommand {
   constructor() {
@@ -46,9 +47,9 @@ export class FlowCommand extends BaseCommand {
       .argument('[name]', 'Feature name')
       .action(async (action, name) => {
         if (action === 'start') {
-          await this.startFeature(name);
+          await this.mutating('feature start', () => this.startFeature(name));
         } else if (action === 'finish') {
-          await this.finishFeature(name);
+          await this.mutating('feature finish', () => this.finishFeature(name));
         } else {
           console.log(chalk.yellow('Usage:'));
           console.log(chalk.gray('  kunj flow feature start <name>  ') + '- Start a new feature');
@@ -64,9 +65,9 @@ export class FlowCommand extends BaseCommand {
       .argument('[version]', 'Release version')
       .action(async (action, version) => {
         if (action === 'start') {
-          await this.startRelease(version);
+          await this.mutating('release start', () => this.startRelease(version));
         } else if (action === 'finish') {
-          await this.finishRelease(version);
+          await this.mutating('release finish', () => this.finishRelease(version));
         } else {
           console.log(chalk.yellow('Usage:'));
           console.log(chalk.gray('  kunj flow release start <version>  ') + '- Start a new release');
@@ -82,9 +83,9 @@ export class FlowCommand extends BaseCommand {
       .argument('[version]', 'Hotfix version')
       .action(async (action, version) => {
         if (action === 'start') {
-          await this.startHotfix(version);
+          await this.mutating('hotfix start', () => this.startHotfix(version));
         } else if (action === 'finish') {
-          await this.finishHotfix(version);
+          await this.mutating('hotfix finish', () => this.finishHotfix(version));
         } else {
           console.log(chalk.yellow('Usage:'));
           console.log(chalk.gray('  kunj flow hotfix start <version>  ') + '- Start a new hotfix');
@@ -93,6 +94,15 @@ export class FlowCommand extends BaseCommand {
       });
   }
 
+  // Journal a flow operation, checkpointing uncommitted work first when auto-checkpoints are on
+  private async mutating(operation: string, action: () => Promise<void>): Promise<void> {
+    const checkpoint = await autoCheckpoint(`kunj flow ${operation}`);
+    if (checkpoint) {
+      console.log(chalk.gray(`Saved checkpoint ${checkpoint.id} before ${operation}`));
+    }
+    await this.journaled(action);
+  }
+
   private async initFlow(): Promise<void> {
     try {
       console.log(chalk.blue.bold('\nGit Flow Initialization\n'));
@@ -1,13 +1,9 @@
 // Graph command - visualize git commit history in subway map style
 
 import chalk from 'chalk';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { BaseCommand } from '../lib/command';
-import { executeGitCommand, getGitRoot } from '../lib/git';
 import { loadConfig } from '../lib/config';
-
-const execAsync = promisify(exec);
+import { runGit, runGitOrThrow } from '../lib/runner';
 
 interface GraphOptions {
   all?: boolean;
@@ -90,36 +86,30 @@ export class GraphCommand extends BaseCommand {
       const colorScheme = this.getColorScheme(style);
       const format = this.getFormat(options.oneline || false, terminalWidth, colorScheme);
 
-      // Build git log command
-      const args = [
-        'git log',
-        '--graph',
-        '--color=always',
-        `--format="${format}"`,
-        `-n ${limit}`,
-      ];
-
-      // Add branch scope
+      // Branch scope and filters shared by the graph and JSON queries
+      const filters: string[] = [];
       if (options.all) {
-        args.push('--all');
+        filters.push('--all');
       }
-
-      // Add filters
       if (options.author) {
-        args.push(`--author="${options.author}"`);
+        filters.push(`--author=${options.author}`);
       }
       if (options.since) {
-        args.push(`--since="${options.since}"`);
+        filters.push(`--since=${options.since}`);
       }
       if (options.until) {
-        args.push(`--until="${options.until}"`);
+        filters.push(`--until=${options.until}`);
       }
 
-      const gitCommand = args.join(' ');
-
       // Execute git log from git root
-      const gitRoot = await getGitRoot();
-      const { stdout, stderr } = await execAsync(gitCommand, { cwd: gitRoot });
+      const { stdout, stderr } = await runGit([
+        'log',
+        '--graph',
+        '--color=always',
+        `--format=${format}`,
+        '-n', String(limit),
+        ...filters,
+      ]);
 
       if (stderr && !stdout) {
         console.error(chalk.red('\n❌ Error generating commit graph'));
@@ -138,16 +128,12 @@ export class GraphCommand extends BaseCommand {
 
       if (this.jsonMode) {
         // Re-run with parseable format for JSON
-        const jsonArgs = [
-          'git log',
-          `--format=%H%x00%an%x00%aI%x00%D%x00%s`,
-          `-n ${limit}`,
-        ];
-        if (options.all) jsonArgs.push('--all');
-        if (options.author) jsonArgs.push(`--author="${options.author}"`);
-        if (options.since) jsonArgs.push(`--since="${options.since}"`);
-        if (options.until) jsonArgs.push(`--until="${options.until}"`);
-        const { stdout: jsonOut } = await execAsync(jsonArgs.join(' '), { cwd: gitRoot });
+        const { stdout: jsonOut } = await runGitOrThrow([
+          'log',
+          '--format=%H%x00%an%x00%aI%x00%D%x00%s',
+          '-n', String(limit),
+          ...filters,
+        ]);
         const commits = jsonOut.trim().split('\n').filter(Boolean).map((line: string) => {
           const [hash, author, date, refs, message] = line.split('\x00');
           return { hash, author, date, refs: refs || null, message };
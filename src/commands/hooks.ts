@@ -0,0 +1,153 @@
+// Hooks command - install kunj's git hooks next to existing hook scripts or husky
+
+import chalk from "chalk";
+import { BaseCommand } from "../lib/command";
+import {
+  checkGitRepo,
+  getCurrentBranch,
+  getCommitsSinceBranch,
+  getStagedFiles,
+} from "../lib/git";
+import { loadConfig } from "../lib/config";
+import { generateAICommitMessage, getCommitDiff } from "../lib/ai-commit";
+import { hasAICredentials } from "../lib/ai-providers";
+import {
+  KUNJ_HOOKS,
+  getKunjHook,
+  installHookBlock,
+  uninstallHookBlock,
+  getHookStatus,
+  prefillCommitMessageFile,
+} from "../lib/hooks";
+
+export class HooksCommand extends BaseCommand {
+  constructor() {
+    super({
+      name: "hooks",
+      description: "Manage kunj git hooks (install|uninstall|status [hook...])",
+      arguments: "<action> [args...]",
+    });
+  }
+
+  async execute(action: string, args: string[] = []): Promise<void> {
+    if (!(await checkGitRepo())) {
+      throw new Error("Not a git repository");
+    }
+
+    switch (action) {
+      case "install":
+        await this.install(args.length > 0 ? args : ["prepare-commit-msg"]);
+        break;
+      case "uninstall":
+        await this.uninstall(args.length > 0 ? args : KUNJ_HOOKS.map((h) => h.hook));
+        break;
+      case "status":
+        await this.status();
+        break;
+      case "run":
+        // Called from the hook scripts themselves
+        await this.run(args[0], args.slice(1));
+        break;
+      default:
+        throw new Error(`Unknown action '${action}'. Available: install, uninstall, status`);
+    }
+  }
+
+  private async install(hooks: string[]): Promise<void> {
+    const installed: Array<{ hook: string; path: string }> = [];
+
+    for (const name of hooks) {
+      const { hook, id, script } = getKunjHook(name);
+      installed.push({ hook, path: await installHookBlock(hook, id, script) });
+    }
+
+    if (this.jsonMode) {
+      this.outputJSON({ installed });
+      return;
+    }
+    for (const { hook, path } of installed) {
+      console.log(chalk.green(`✓ ${hook} installed`) + chalk.gray(` (${path})`));
+    }
+  }
+
+  private async uninstall(hooks: string[]): Promise<void> {
+    const removed: string[] = [];
+
+    for (const name of hooks) {
+      const { hook, id } = getKunjHook(name);
+      if (await uninstallHookBlock(hook, id)) {
+        removed.push(hook);
+      }
+    }
+
+    if (this.jsonMode) {
+      this.outputJSON({ removed });
+      return;
+    }
+    if (removed.length === 0) {
+      console.log(chalk.gray("No kunj hooks were installed"));
+    }
+    removed.forEach((hook) => console.log(chalk.green(`✓ ${hook} removed`)));
+  }
+
+  private async status(): Promise<void> {
+    const statuses = await Promise.all(KUNJ_HOOKS.map(({ hook, id }) => getHookStatus(hook, id)));
+
+    if (this.jsonMode) {
+      this.outputJSON({ hooks: statuses });
+      return;
+    }
+
+    console.log(chalk.bold("\nkunj git hooks\n"));
+    statuses.forEach((status, i) => {
+      const icon = status.installed ? chalk.green("●") : chalk.dim("○");
+      const notes = [
+        status.installed ? "installed" : "not installed",
+        status.hasOtherContent ? "shares the script with other commands" : "",
+        status.manager === "husky" ? "via husky" : "",
+      ].filter(Boolean);
+
+      console.log(`  ${icon} ${chalk.bold(status.hook.padEnd(20))} ${chalk.gray(notes.join(", "))}`);
+      console.log(`    ${chalk.dim(KUNJ_HOOKS[i].description)}`);
+      console.log(`    ${chalk.dim(status.path)}`);
+    });
+    console.log(chalk.gray("\n  Install with: kunj hooks install [prepare-commit-msg] [commit-msg]"));
+  }
+
+  private async run(hook: string, args: string[]): Promise<void> {
+    if (hook !== "prepare-commit-msg") {
+      throw new Error(`No runner for hook '${hook}'`);
+    }
+
+    const [messageFile, source] = args;
+    // Only fill in a message when git was not given one (-m, -F, template, merge, squash, amend)
+    if (!messageFile || source) {
+      return;
+    }
+
+    // Runs on every commit, so only check that credentials are configured (no model call)
+    if (!loadConfig().ai?.enabled || !hasAICredentials()) {
+      return;
+    }
+
+    const files = await getStagedFiles();
+    if (files.length === 0) {
+      return;
+    }
+
+    const [branch, branchCommits, diff] = await Promise.all([
+      getCurrentBranch(),
+      getCommitsSinceBranch(),
+      getCommitDiff(files),
+    ]);
+    const result = await generateAICommitMessage(files, branchCommits, branch, diff);
+
+    // Leave the editor empty rather than suggest the heuristic fallback
+    if (!result.fromAI) {
+      return;
+    }
+    if (result.fullMessage && prefillCommitMessageFile(messageFile, result.fullMessage)) {
+      console.log(chalk.gray("kunj: pre-filled an AI commit message — edit it or save to accept"));
+    }
+  }
+}
@@ -19,6 +19,20 @@ export { CompletionCommand } from './completion';
 export { PromptInfoCommand } from './prompt-info';
 export { IssueCommand } from './issue';
 export { TeamCommand } from './team';
+export { ReviewCommand } from './review';
+export { AICommand } from './ai';
+export { LintCommitsCommand } from './lint-commits';
+export { HooksCommand } from './hooks';
+export { WorktreeCommand } from './worktree';
+export { UndoCommand, HistoryCommand } from './undo';
+export { StackCommand } from './stack';
+export { SyncCommand } from './sync';
+export { CleanupCommand } from './cleanup';
+export { MetaCommand } from './meta';
+export { RenameCommand } from './rename';
+export { CheckpointCommand } from './checkpoint';
+export { PatchCommand } from './patch';
+export { FixupCommand } from './fixup';
 export { UICommand } from '../ui';
 
 // Import all command classes here as they are created
@@ -44,6 +58,20 @@ import { CompletionCommand } from './completion';
 import { PromptInfoCommand } from './prompt-info';
 import { IssueCommand } from './issue';
 import { TeamCommand } from './team';
+import { ReviewCommand } from './review';
+import { AICommand } from './ai';
+import { LintCommitsCommand } from './lint-commits';
+import { HooksCommand } from './hooks';
+import { WorktreeCommand } from './worktree';
+import { UndoCommand, HistoryCommand } from './undo';
+import { StackCommand } from './stack';
+import { SyncCommand } from './sync';
+import { CleanupCommand } from './cleanup';
+import { MetaCommand } from './meta';
+import { RenameCommand } from './rename';
+import { CheckpointCommand } from './checkpoint';
+import { PatchCommand } from './patch';
+import { FixupCommand } from './fixup';
 import { UICommand } from '../ui';
 
 // Export a function that returns all command instances
@@ -70,6 +98,21 @@ export function getAllCommands(): BaseCommand[] {
     new PromptInfoCommand(),
     new IssueCommand(),
     new TeamCommand(),
+    new ReviewCommand(),
+    new AICommand(),
+    new LintCommitsCommand(),
+    new HooksCommand(),
+    new WorktreeCommand(),
+    new UndoCommand(),
+    new HistoryCommand(),
+    new StackCommand(),
+    new SyncCommand(),
+    new CleanupCommand(),
+    new MetaCommand(),
+    new RenameCommand(),
+    new CheckpointCommand(),
+    new PatchCommand(),
+    new FixupCommand(),
     new UICommand(),
   ];
 }
\ No newline at end of file
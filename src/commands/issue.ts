@@ -3,13 +3,10 @@
 import chalk from "chalk";
 import inquirer from "inquirer";
 import * as fs from "fs";
-import { exec } from "child_process";
-import { promisify } from "util";
 import { BaseCommand } from "../lib/command";
 import { checkGitRepo, getCurrentBranch, createTag } from "../lib/git";
 import { updateBranchMetadata } from "../lib/metadata";
-
-const execAsync = promisify(exec);
+import { runTool, runToolOrThrow } from "../lib/runner";
 
 interface IssueOptions {
   title?: string;
@@ -24,6 +21,7 @@ export class IssueCommand extends BaseCommand {
     super({
       name: "issue",
       description: "Create a GitHub issue",
+      journal: true,
       ui: { category: 'action', widget: 'form-only', label: 'Create Issue', icon: 'tag', order: 23 },
       options: [
         { flags: "-t, --title <title>", description: "Issue title" },
@@ -93,23 +91,17 @@ export class IssueCommand extends BaseCommand {
     // --- Create the issue ---
     console.log(chalk.blue("\nCreating issue..."));
 
-    let ghCommand = `gh issue create --title ${JSON.stringify(title)}`;
-
-    if (body.trim()) {
-      ghCommand += ` --body ${JSON.stringify(body)}`;
-    } else {
-      ghCommand += ` --body ""`;
-    }
+    const ghArgs = ["issue", "create", "--title", title!, "--body", body.trim() ? body : ""];
 
     for (const label of selectedLabels) {
-      ghCommand += ` --label ${JSON.stringify(label)}`;
+      ghArgs.push("--label", label);
     }
 
     let issueUrl = "";
     let issueNumber: string | null = null;
 
     try {
-      const { stdout } = await execAsync(ghCommand);
+      const { stdout } = await runToolOrThrow("gh", ghArgs);
       issueUrl = stdout.trim();
 
       const match = issueUrl.match(/\/issues\/(\d+)/);
@@ -191,7 +183,7 @@ export class IssueCommand extends BaseCommand {
     if (options.web === false) {
       // --no-web: skip prompt entirely
     } else if (options.web) {
-      await execAsync(`gh issue view ${issueNumber || ""} --web`);
+      await this.openInBrowser(issueNumber);
     } else {
       const { openInBrowser } = await inquirer.prompt([
         {
@@ -202,19 +194,20 @@ export class IssueCommand extends BaseCommand {
         },
       ]);
       if (openInBrowser) {
-        await execAsync(`gh issue view ${issueNumber || ""} --web`);
+        await this.openInBrowser(issueNumber);
       }
     }
   }
 
+  private async openInBrowser(issueNumber: string | null): Promise<void> {
+    await runTool("gh", ["issue", "view", ...(issueNumber ? [issueNumber] : []), "--web"]);
+  }
+
   private async checkGhCli(): Promise<boolean> {
-    try {
-      await execAsync("gh --version");
-      await execAsync("gh auth status");
-      return true;
-    } catch {
+    if (!(await runTool("gh", ["--version"])).success) {
       return false;
     }
+    return (await runTool("gh", ["auth", "status"])).success;
   }
 
   private async selectLabels(preselected?: string): Promise<string[]> {
@@ -226,7 +219,7 @@ export class IssueCommand extends BaseCommand {
     let availableLabels: Array<{ name: string; color: string; description: string }> = [];
 
     try {
-      const { stdout } = await execAsync("gh label list --json name,color,description --limit 100");
+      const { stdout } = await runToolOrThrow("gh", ["label", "list", "--json", "name,color,description", "--limit", "100"]);
       availableLabels = JSON.parse(stdout || "[]");
     } catch {
       console.log(chalk.yellow("⚠ Could not fetch labels from GitHub"));
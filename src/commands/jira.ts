@@ -18,7 +18,7 @@ import {
   getBoardId,
 } from '../lib/jira';
 import { generateAIJiraTicket } from '../lib/ai-pr';
-import { checkAWSCredentials } from '../lib/ai-commit';
+import { checkAICredentials } from '../lib/ai-providers';
 
 export class JiraCommand extends BaseCommand {
   constructor() {
@@ -79,7 +79,7 @@ export class JiraCommand extends BaseCommand {
       .description('Link current branch to a Jira ticket')
       .argument('<key>', 'Jira issue key (e.g., PROJ-123)')
       .action(async (key) => {
-        await this.linkTicket(key);
+        await this.journaled(() => this.linkTicket(key));
       });
 
     // jira create - Create new ticket
@@ -94,7 +94,7 @@ export class JiraCommand extends BaseCommand {
       .option('--ai', 'Use AI to generate ticket from branch commits')
       .option('--no-ai', 'Disable AI generation (manual input)')
       .action(async (options) => {
-        await this.createTicket(options);
+        await this.journaled(() => this.createTicket(options));
       });
   }
 
@@ -396,9 +396,9 @@ export class JiraCommand extends BaseCommand {
 
       if (shouldUseAI && !options.summary && !options.description) {
         try {
-          // Check AWS credentials
-          const hasAWSCreds = await checkAWSCredentials();
-          if (hasAWSCreds) {
+          // Check AI provider credentials
+          const hasAICreds = await checkAICredentials();
+          if (hasAICreds) {
             // Get branch metadata
             const branchMetadata = getBranchMetadataItem(currentBranch);
 
@@ -0,0 +1,141 @@
+// Lint-commits command - check commit messages against the configured commit style
+
+import chalk from "chalk";
+import * as fs from "fs";
+import { BaseCommand } from "../lib/command";
+import { checkGitRepo, getMainBranch, getCommitMessagesInRange } from "../lib/git";
+import { loadConfig } from "../lib/config";
+import {
+  lintCommitMessage,
+  cleanCommitMessage,
+  getCommitLintOptions,
+  hasLintErrors,
+  describeCommitStyle,
+  CommitLintResult,
+} from "../lib/commit-lint";
+import { installHookBlock, uninstallHookBlock, getKunjHook } from "../lib/hooks";
+
+interface LintCommitsOptions {
+  base?: string;
+  file?: string;
+  installHook?: boolean;
+  uninstallHook?: boolean;
+}
+
+export class LintCommitsCommand extends BaseCommand {
+  constructor() {
+    super({
+      name: "lint-commits",
+      description: "Check commit messages against ai.commitStyle, ai.subjectMaxLength and the Jira key rule",
+      arguments: "[range]",
+      options: [
+        { flags: "--base <branch>", description: "Lint <base>..HEAD when no range is given (default: config or main/master)" },
+        { flags: "-f, --file <path>", description: "Lint a commit message file (used by the commit-msg hook)" },
+        { flags: "--install-hook", description: "Install a commit-msg hook that lints every new commit" },
+        { flags: "--uninstall-hook", description: "Remove the commit-msg hook" },
+      ],
+    });
+  }
+
+  async execute(range?: string, options: LintCommitsOptions = {}): Promise<void> {
+    if (!(await checkGitRepo())) {
+      throw new Error("Not a git repository");
+    }
+
+    if (options.installHook || options.uninstallHook) {
+      await this.manageHook(!!options.installHook);
+      return;
+    }
+
+    const lintOptions = getCommitLintOptions();
+    let target: string;
+    let results: CommitLintResult[];
+
+    if (options.file) {
+      if (!fs.existsSync(options.file)) {
+        throw new Error(`File not found: ${options.file}`);
+      }
+      target = options.file;
+      results = [lintCommitMessage(cleanCommitMessage(fs.readFileSync(options.file, "utf8")), lintOptions)];
+    } else {
+      if (!range) {
+        const base =
+          options.base ||
+          loadConfig().preferences?.defaultBaseBranch?.trim() ||
+          (await getMainBranch());
+        range = `${base}..HEAD`;
+      }
+      target = range;
+      results = (await getCommitMessagesInRange(range)).map(({ sha, message }) => ({
+        sha,
+        ...lintCommitMessage(message, lintOptions),
+      }));
+    }
+
+    const failed = hasLintErrors(results);
+
+    if (this.jsonMode) {
+      this.outputJSON({
+        target,
+        style: lintOptions.style,
+        passed: !failed,
+        errors: results.reduce((n, r) => n + r.issues.filter((i) => i.severity === "error").length, 0),
+        warnings: results.reduce((n, r) => n + r.issues.filter((i) => i.severity === "warning").length, 0),
+        results,
+      });
+    } else {
+      this.printResults(target, results, options.file ? undefined : lintOptions.style);
+      if (failed) {
+        console.log(chalk.gray(`\n  Expected style: ${describeCommitStyle(lintOptions.style)}`));
+      }
+    }
+
+    if (failed) {
+      process.exit(1);
+    }
+  }
+
+  private printResults(target: string, results: CommitLintResult[], style?: string): void {
+    if (results.length === 0) {
+      console.log(chalk.gray(`No commits in ${target}`));
+      return;
+    }
+
+    if (style) {
+      console.log(chalk.bold(`\nLinting ${results.length} commit(s) in ${target} (${style} style)\n`));
+    }
+
+    for (const result of results) {
+      const sha = result.sha ? chalk.yellow(result.sha.substring(0, 7)) + " " : "";
+      const hasError = result.issues.some((i) => i.severity === "error");
+      const icon = result.skipped ? chalk.gray("-") : hasError ? chalk.red("✗") : result.issues.length > 0 ? chalk.yellow("!") : chalk.green("✓");
+
+      console.log(`${icon} ${sha}${result.subject}${result.skipped ? chalk.gray(` (skipped: ${result.skipped})`) : ""}`);
+      for (const issue of result.issues) {
+        const color = issue.severity === "error" ? chalk.red : chalk.yellow;
+        console.log(`    ${color(issue.severity.padEnd(7))} ${issue.message} ${chalk.gray(`[${issue.rule}]`)}`);
+      }
+    }
+  }
+
+  private async manageHook(install: boolean): Promise<void> {
+    if (install) {
+      const { hook, id, script } = getKunjHook("commit-msg");
+      const hookPath = await installHookBlock(hook, id, script);
+      if (this.jsonMode) {
+        this.outputJSON({ installed: true, path: hookPath });
+        return;
+      }
+      console.log(chalk.green(`✓ commit-msg hook installed: ${hookPath}`));
+      return;
+    }
+
+    const { hook, id } = getKunjHook("commit-msg");
+    const removed = await uninstallHookBlock(hook, id);
+    if (this.jsonMode) {
+      this.outputJSON({ removed });
+      return;
+    }
+    console.log(removed ? chalk.green("✓ commit-msg hook removed") : chalk.gray("commit-msg hook was not installed"));
+  }
+}
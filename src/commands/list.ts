@@ -7,6 +7,7 @@ import { getAllStashesWithBranch } from '../lib/stash';
 import { loadBranchMetadata } from '../lib/metadata';
 import { loadConfig } from '../lib/config';
 import { isBranchWIP, getRelativeTime } from '../lib/utils';
+import { listWorktrees, syncWorktreeMetadata } from '../lib/worktree';
 import { BranchInfo } from '../types';
 
 interface ListOptions {
@@ -58,6 +59,9 @@ export class ListCommand extends BaseCommand {
 
     const config = loadConfig();
     const currentBranch = await getCurrentBranch();
+
+    // Record worktree paths (including ones added with plain git) before reading metadata
+    syncWorktreeMetadata(await listWorktrees().catch(() => []));
     const branchMetadata = loadBranchMetadata();
 
     // Get branches sorted by preference
@@ -94,6 +98,7 @@ export class ListCommand extends BaseCommand {
           description: metadata.description || null,
           tags: metadata.tags || [],
           notes: metadata.notes || null,
+          worktreePath: metadata.worktreePath || null,
           jiraIssueKey: metadata.jiraIssueKey || null,
           jiraIssueStatus: metadata.jiraIssueStatus || null,
           jiraIssueTitle: metadata.jiraIssueTitle || null,
@@ -229,6 +234,10 @@ export class ListCommand extends BaseCommand {
       console.log(chalk.cyan(`  │ Tags: ${tagStr}`));
     }
 
+    if (metadata.worktreePath) {
+      console.log(chalk.cyan(`  │ Worktree: `) + chalk.gray(metadata.worktreePath));
+    }
+
     if (options.verbose && metadata.notes) {
       console.log(chalk.yellow(`  │ Note: ${metadata.notes}`));
     }
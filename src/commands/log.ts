@@ -58,6 +58,10 @@ export class LogCommand extends BaseCommand {
           flags: '--ai',
           description: 'Use AI to generate super concise standup bullets (5-8 words each)',
         },
+        {
+          flags: '--no-cache',
+          description: 'Regenerate AI output instead of reusing a cached response',
+        },
       ],
     });
   }
@@ -0,0 +1,86 @@
+// Meta command - share branch metadata with a remote (push|pull)
+
+import chalk from 'chalk';
+import { BaseCommand } from '../lib/command';
+import { checkGitRepo } from '../lib/git';
+import { loadConfig } from '../lib/config';
+import { MetadataSyncResult, pullMetadata, pushMetadata } from '../lib/metadata-sync';
+
+interface MetaOptions {
+  remote?: string;
+  ours?: boolean;
+  theirs?: boolean;
+}
+
+export class MetaCommand extends BaseCommand {
+  constructor() {
+    super({
+      name: 'meta',
+      description: 'Share branch descriptions, notes, tags and links through git (push|pull)',
+      journal: true,
+      arguments: '<action>',
+      options: [
+        { flags: '--remote <name>', description: 'Remote to sync with (default: metadata.remote)' },
+        { flags: '--ours', description: 'Keep local values when both sides changed a field' },
+        { flags: '--theirs', description: 'Take remote values when both sides changed a field' },
+      ],
+    });
+  }
+
+  async execute(action: string, options: MetaOptions = {}): Promise<void> {
+    if (!(await checkGitRepo())) {
+      throw new Error('Not a git repository');
+    }
+    if (options.ours && options.theirs) {
+      throw new Error('Use either --ours or --theirs, not both');
+    }
+
+    const config = loadConfig();
+    const remote = options.remote || config.metadata?.remote?.trim() || 'origin';
+    const prefer = options.theirs ? 'theirs' : options.ours ? 'ours' : config.metadata?.conflictStrategy || 'ours';
+
+    let result: MetadataSyncResult;
+    switch (action) {
+      case 'pull':
+        this.log(chalk.blue(`Pulling branch metadata from ${remote}...`));
+        result = await pullMetadata(remote, prefer);
+        break;
+      case 'push':
+        this.log(chalk.blue(`Pushing branch metadata to ${remote}...`));
+        result = await pushMetadata(remote, prefer);
+        break;
+      default:
+        throw new Error(`Unknown action '${action}'. Available: push, pull`);
+    }
+
+    if (this.jsonMode) {
+      this.outputJSON(result);
+      return;
+    }
+
+    if (action === 'pull' && !result.pulled) {
+      console.log(chalk.yellow(`No shared metadata on ${remote} yet`));
+      console.log(chalk.gray("Tip: Use 'kunj meta push' to publish yours"));
+      return;
+    }
+
+    if (result.changedBranches.length > 0) {
+      console.log(chalk.green(`✓ Updated metadata for ${result.changedBranches.length} branch(es) from ${remote}:`));
+      console.log(chalk.gray(`  ${result.changedBranches.join(', ')}`));
+    } else if (result.pulled) {
+      console.log(chalk.gray(`  Local metadata already includes everything on ${remote}`));
+    }
+
+    if (result.conflicts.length > 0) {
+      console.log(chalk.yellow(`\n⚠ ${result.conflicts.length} field(s) changed on both sides; kept ${prefer === 'ours' ? 'local' : 'remote'} values:`));
+      for (const conflict of result.conflicts) {
+        const other = prefer === 'ours' ? conflict.theirs : conflict.ours;
+        console.log(chalk.gray(`  ${conflict.branch} ${conflict.field}: discarded ${JSON.stringify(other)}`));
+      }
+    }
+
+    if (result.pushed) {
+      console.log(chalk.green(`✓ Pushed branch metadata to ${remote}`));
+    }
+  }
+}
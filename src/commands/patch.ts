@@ -0,0 +1,148 @@
+// Patch command - export work as a patch with its branch metadata, and apply one onto a new branch
+
+import chalk from 'chalk';
+import { BaseCommand } from '../lib/command';
+import { checkGitRepo } from '../lib/git';
+import { formatDiff, formatDiffSummary } from '../lib/diff-formatter';
+import { parseStashIndex } from '../lib/stash';
+import { PatchSidecar, applyPatch, createPatch, exportPatch, patchDiff, readPatch } from '../lib/patch';
+
+interface PatchOptions {
+  stash?: string;
+  working?: boolean;
+  output?: string;
+  branch?: string;
+  base?: string;
+  preview?: boolean;
+}
+
+export class PatchCommand extends BaseCommand {
+  constructor() {
+    super({
+      name: 'patch',
+      description: 'Hand work over without pushing: export commits, a stash or uncommitted changes as a patch, or apply one (export|apply)',
+      journal: true,
+      arguments: '<action> [target]',
+      options: [
+        { flags: '--stash <index>', description: 'Export a stash instead of commits' },
+        { flags: '--working', description: 'Export uncommitted changes, untracked files included' },
+        { flags: '-o, --output <file>', description: 'Patch file to write (default: <branch>.patch)' },
+        { flags: '-b, --branch <name>', description: 'Branch to create when applying (default: the exported branch)' },
+        { flags: '--base <ref>', description: 'Commit to apply onto (default: the exported base when available, else HEAD)' },
+        { flags: '-p, --preview', description: 'Show the diff without writing or applying anything' },
+      ],
+    });
+  }
+
+  async execute(action: string, target?: string, options: PatchOptions = {}): Promise<void> {
+    if (!(await checkGitRepo())) {
+      throw new Error('Not a git repository');
+    }
+
+    switch (action) {
+      case 'export':
+        await this.export(target, options);
+        break;
+      case 'apply':
+        if (!target) {
+          throw new Error('Usage: kunj patch apply <file>');
+        }
+        await this.apply(target, options);
+        break;
+      default:
+        throw new Error(`Unknown action '${action}'. Available: export, apply`);
+    }
+  }
+
+  private async export(range: string | undefined, options: PatchOptions): Promise<void> {
+    const exportOptions = {
+      range,
+      stash: options.stash !== undefined ? parseStashIndex(options.stash) : undefined,
+      working: options.working,
+      output: options.output,
+    };
+
+    if (options.preview) {
+      const { patch, sidecar } = await createPatch(exportOptions);
+      if (this.jsonMode) {
+        this.outputJSON({ sidecar, patch });
+        return;
+      }
+      this.describe(sidecar);
+      this.preview(patch, true);
+      return;
+    }
+
+    const result = await exportPatch(exportOptions);
+    if (this.jsonMode) {
+      this.outputJSON({ file: result.file, sidecarFile: result.sidecarFile, sidecar: result.sidecar });
+      return;
+    }
+    this.describe(result.sidecar);
+    this.preview(result.patch, false);
+    console.log(chalk.green(`\n✓ Wrote ${result.file}`));
+    console.log(chalk.gray(`  Metadata in ${result.sidecarFile}; apply both with 'kunj patch apply ${result.file}'`));
+  }
+
+  private async apply(file: string, options: PatchOptions): Promise<void> {
+    if (options.preview) {
+      const { patch, sidecar } = readPatch(file);
+      if (this.jsonMode) {
+        this.outputJSON({ sidecar, patch });
+        return;
+      }
+      if (sidecar) {
+        this.describe(sidecar);
+      }
+      this.preview(patch, true);
+      return;
+    }
+
+    const result = await applyPatch(file, { branch: options.branch, base: options.base });
+    if (this.jsonMode) {
+      this.outputJSON(result);
+      return;
+    }
+
+    console.log(chalk.green(`✓ Created branch ${result.branch} at ${result.base.substring(0, 7)}`));
+    const restored = Object.keys(result.metadata);
+    if (restored.length > 0) {
+      console.log(chalk.gray(`  Restored metadata: ${restored.join(', ')}`));
+    }
+
+    if (result.status === 'conflict') {
+      console.log(chalk.yellow('\n⚠ The patch did not apply cleanly'));
+      if (result.conflictedFiles.length > 0) {
+        console.log(chalk.yellow(`  Conflicts in: ${result.conflictedFiles.join(', ')}`));
+      }
+      if (result.message) {
+        console.log(chalk.gray(result.message.split('\n').map((line) => `  ${line}`).join('\n')));
+      }
+      console.log(chalk.gray("  Resolve the conflicts, then 'git am --continue' for commits or 'git add' for a plain diff"));
+      process.exitCode = 1;
+      return;
+    }
+    console.log(chalk.green('✓ Patch applied'));
+  }
+
+  private describe(sidecar: PatchSidecar): void {
+    const source =
+      sidecar.kind === 'commits' ? `commits ${sidecar.range}` : sidecar.kind === 'stash' ? 'a stash' : 'uncommitted changes';
+    console.log(chalk.blue(`Patch of ${source} from ${sidecar.branch || 'detached HEAD'} (base ${sidecar.base.substring(0, 7)})`));
+    if (sidecar.metadata.description) {
+      console.log(chalk.gray(`  ${sidecar.metadata.description}`));
+    }
+    if (sidecar.metadata.jiraIssueKey) {
+      console.log(chalk.gray(`  Jira: ${sidecar.metadata.jiraIssueKey}`));
+    }
+  }
+
+  private preview(patch: string, full: boolean): void {
+    const diff = patchDiff(patch);
+    console.log(formatDiffSummary(diff));
+    if (full) {
+      console.log('');
+      console.log(formatDiff(diff, { showLineNumbers: true, highlightWords: true, maxWidth: process.stdout.columns || 120 }));
+    }
+  }
+}
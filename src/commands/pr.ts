@@ -2,8 +2,6 @@
 
 import chalk from "chalk";
 import inquirer from "inquirer";
-import { exec } from "child_process";
-import { promisify } from "util";
 import { BaseCommand } from "../lib/command";
 import {
   checkGitRepo,
@@ -14,10 +12,10 @@ import {
 import { getBranchMetadataItem } from "../lib/metadata";
 import { loadConfig } from "../lib/config";
 import { generateAIPRDescription, getPRDiff } from "../lib/ai-pr";
-import { checkAWSCredentials, generatePRLogEntry } from "../lib/ai-commit";
+import { generatePRLogEntry } from "../lib/ai-commit";
+import { checkAICredentials } from "../lib/ai-providers";
 import { appendToWorkLog } from "../lib/work-log";
-
-const execAsync = promisify(exec);
+import { runGit, runGitOrThrow, runTool, runToolOrThrow } from "../lib/runner";
 
 interface PrOptions {
   title?: string;
@@ -35,6 +33,7 @@ export class PrCommand extends BaseCommand {
     super({
       name: "pr",
       description: "Create or view pull requests on GitHub",
+      journal: true,
       arguments: "[prNumber]",
       ui: {
         category: 'dashboard',
@@ -64,6 +63,7 @@ export class PrCommand extends BaseCommand {
         { flags: "-s, --status", description: "View status of current branch's PR" },
         { flags: "-l, --list", description: "List all open PRs" },
         { flags: "--detailed", description: "Show detailed GitHub Actions steps" },
+        { flags: "--no-cache", description: "Regenerate AI output instead of reusing a cached response" },
       ],
     });
   }
@@ -122,8 +122,8 @@ export class PrCommand extends BaseCommand {
 
     const currentBranch = await getCurrentBranch();
 
-    // Determine base branch: CLI option > config setting > auto-detect
-    let baseBranch = options.base;
+    // Determine base branch: CLI option > stack parent > config setting > auto-detect
+    let baseBranch = options.base || getBranchMetadataItem(currentBranch).stackParent;
 
     if (!baseBranch) {
       const config = await loadConfig();
@@ -179,8 +179,8 @@ export class PrCommand extends BaseCommand {
 
       if (shouldUseAI) {
         try {
-          // Check if AWS credentials are available
-          const hasCredentials = await checkAWSCredentials();
+          // Check if AI provider credentials are available
+          const hasCredentials = await checkAICredentials();
 
           if (hasCredentials) {
             // Get the diff for AI context
@@ -196,7 +196,7 @@ export class PrCommand extends BaseCommand {
             );
             console.log(chalk.green("✓ Generated PR description with AI"));
           } else {
-            console.log(chalk.yellow("⚠ AWS credentials not configured, using heuristic generation"));
+            console.log(chalk.yellow("⚠ AI provider not configured, using heuristic generation"));
             suggestions = await this.generatePrSuggestions(
               currentBranch,
               branchDescription,
@@ -257,17 +257,17 @@ export class PrCommand extends BaseCommand {
       await this.ensurePushed(currentBranch);
 
       // Build gh command
-      let ghCommand = `gh pr create --title "${title!.replace(/"/g, '\\"')}" --body "${body!.replace(/"/g, '\\"')}" --base ${baseBranch}`;
+      const ghArgs = ["pr", "create", "--title", title!, "--body", body!, "--base", baseBranch];
 
       if (options.draft) {
-        ghCommand += " --draft";
+        ghArgs.push("--draft");
       }
 
       if (options.web) {
-        ghCommand += " --web";
+        ghArgs.push("--web");
       }
 
-      const { stdout, stderr } = await execAsync(ghCommand);
+      const { stdout, stderr } = await runToolOrThrow("gh", ghArgs);
 
       if (stderr && !stderr.includes("Opening")) {
         console.error(chalk.yellow(stderr));
@@ -325,7 +325,7 @@ export class PrCommand extends BaseCommand {
           ]);
 
           if (openInBrowser) {
-            await execAsync(`gh pr view --web`);
+            await runTool("gh", ["pr", "view", "--web"]);
           }
         }
       }
@@ -345,7 +345,7 @@ export class PrCommand extends BaseCommand {
         ]);
 
         if (viewExisting) {
-          await execAsync(`gh pr view --web`);
+          await runTool("gh", ["pr", "view", "--web"]);
         }
       }
       process.exit(1);
@@ -353,37 +353,34 @@ export class PrCommand extends BaseCommand {
   }
 
   private async checkGhCli(): Promise<boolean> {
-    try {
-      await execAsync("gh --version");
-      // Check if authenticated
-      await execAsync("gh auth status");
-      return true;
-    } catch {
+    if (!(await runTool("gh", ["--version"])).success) {
       return false;
     }
+    // Check if authenticated
+    return (await runTool("gh", ["auth", "status"])).success;
   }
 
   private async ensurePushed(branch: string): Promise<void> {
     try {
       // Check if branch has upstream
-      const { stdout: upstream } = await execAsync(
-        `git rev-parse --abbrev-ref --symbolic-full-name @{u} 2>/dev/null || echo ""`
+      const { stdout: upstream } = await runGit(
+        ["rev-parse", "--abbrev-ref", "--symbolic-full-name", "@{u}"]
       );
 
       if (!upstream.trim()) {
         // No upstream, push with -u
         console.log(chalk.gray("Setting upstream branch..."));
-        await execAsync(`git push -u origin ${branch}`);
+        await runGitOrThrow(["push", "-u", "origin", branch]);
         console.log(chalk.green("✓ Pushed to remote"));
       } else {
         // Check if we have unpushed commits
-        const { stdout: unpushed } = await execAsync(
-          `git rev-list --count @{u}..HEAD`
+        const { stdout: unpushed } = await runGitOrThrow(
+          ["rev-list", "--count", "@{u}..HEAD"]
         );
 
         if (parseInt(unpushed.trim()) > 0) {
           console.log(chalk.gray("Pushing latest commits..."));
-          await execAsync("git push");
+          await runGitOrThrow(["push"]);
           console.log(chalk.green("✓ Pushed to remote"));
         }
       }
@@ -460,8 +457,8 @@ export class PrCommand extends BaseCommand {
   private async selectBaseBranch(): Promise<string> {
     try {
       // Get all branches (local and remote)
-      const { stdout } = await execAsync(
-        `git branch -a --format='%(refname:short)' 2>/dev/null`
+      const { stdout } = await runGitOrThrow(
+        ["branch", "-a", "--format=%(refname:short)"]
       );
 
       const allBranches = stdout
@@ -507,8 +504,8 @@ export class PrCommand extends BaseCommand {
 
   private async checkExistingPr(branch: string): Promise<boolean> {
     try {
-      const { stdout } = await execAsync(
-        `gh pr list --head ${branch} --json number --jq '.[0].number' 2>/dev/null || echo ""`
+      const { stdout } = await runTool(
+        "gh", ["pr", "list", "--head", branch, "--json", "number", "--jq", ".[0].number"]
       );
       return stdout.trim() !== "";
     } catch {
@@ -519,12 +516,12 @@ export class PrCommand extends BaseCommand {
   private async showPrStatus(detailed: boolean = false, prNumber?: string): Promise<void> {
     try {
       let branchInfo = "";
-      let ghCommand = "gh pr view";
+      const viewArgs = ["pr", "view"];
 
       if (prNumber) {
         // Viewing a specific PR by number
         branchInfo = `PR #${prNumber}`;
-        ghCommand = `gh pr view ${prNumber}`;
+        viewArgs.push(prNumber);
       } else {
         // Viewing PR for current branch
         const currentBranch = await getCurrentBranch();
@@ -534,8 +531,8 @@ export class PrCommand extends BaseCommand {
       console.log(chalk.blue(`\n📋 PR Status for ${branchInfo}\n`));
 
       // Get PR details
-      const { stdout: prJson } = await execAsync(
-        `${ghCommand} --json number,title,state,url,isDraft,mergeable,reviews,statusCheckRollup,additions,deletions,author,headRefName 2>/dev/null || echo "{}"`
+      const { stdout: prJson } = await runTool(
+        "gh", [...viewArgs, "--json", "number,title,state,url,isDraft,mergeable,reviews,statusCheckRollup,additions,deletions,author,headRefName"]
       );
 
       const pr = JSON.parse(prJson || "{}");
@@ -616,8 +613,8 @@ export class PrCommand extends BaseCommand {
           try {
             // Get the workflow runs for this PR - use headRefName from PR data
             const branch = pr.headRefName;
-            const { stdout: runsJson } = await execAsync(
-              `gh run list --branch=${branch} --json databaseId,name,status,conclusion,workflowName --limit=5`
+            const { stdout: runsJson } = await runToolOrThrow(
+              "gh", ["run", "list", `--branch=${branch}`, "--json", "databaseId,name,status,conclusion,workflowName", "--limit=5"]
             );
             const runs = JSON.parse(runsJson || "[]");
 
@@ -629,8 +626,8 @@ export class PrCommand extends BaseCommand {
 
                 // Get detailed jobs and steps for each run
                 try {
-                  const { stdout: jobsJson } = await execAsync(
-                    `gh run view ${run.databaseId} --json jobs`
+                  const { stdout: jobsJson } = await runToolOrThrow(
+                    "gh", ["run", "view", String(run.databaseId), "--json", "jobs"]
                   );
                   const jobsData = JSON.parse(jobsJson || "{}");
 
@@ -682,8 +679,8 @@ export class PrCommand extends BaseCommand {
   }
 
   private async listPrsJSON(): Promise<void> {
-    const { stdout } = await execAsync(
-      `gh pr list --json number,title,author,isDraft,headRefName,baseRefName,reviews,statusCheckRollup,url,additions,deletions,createdAt,updatedAt --limit 50`
+    const { stdout } = await runToolOrThrow(
+      "gh", ["pr", "list", "--json", "number,title,author,isDraft,headRefName,baseRefName,reviews,statusCheckRollup,url,additions,deletions,createdAt,updatedAt", "--limit", "50"]
     );
     const prs = JSON.parse(stdout || "[]");
     const result = prs.map((pr: any) => {
@@ -716,8 +713,8 @@ export class PrCommand extends BaseCommand {
     try {
       console.log(chalk.blue("\n📋 Open Pull Requests:\n"));
 
-      const { stdout } = await execAsync(
-        `gh pr list --json number,title,author,isDraft,headRefName,reviews,statusCheckRollup --limit 20`
+      const { stdout } = await runToolOrThrow(
+        "gh", ["pr", "list", "--json", "number,title,author,isDraft,headRefName,reviews,statusCheckRollup", "--limit", "20"]
       );
 
       const prs = JSON.parse(stdout || "[]");
@@ -1,9 +1,6 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { BaseCommand } from '../lib/command';
 import { getBranchMetadataItem } from '../lib/metadata';
-
-const execAsync = promisify(exec);
+import { runGitOrThrow, runToolOrThrow } from '../lib/runner';
 
 interface PromptInfoOptions {
   format?: 'simple' | 'detailed' | 'json';
@@ -30,7 +27,7 @@ export class PromptInfoCommand extends BaseCommand {
 
   async execute(options: PromptInfoOptions = {}): Promise<void> {
     try {
-      const { stdout: branch } = await execAsync('git rev-parse --abbrev-ref HEAD 2>/dev/null');
+      const { stdout: branch } = await runGitOrThrow(['rev-parse', '--abbrev-ref', 'HEAD']);
       const currentBranch = branch.trim();
 
       if (!currentBranch || currentBranch === 'HEAD') return;
@@ -83,8 +80,8 @@ export class PromptInfoCommand extends BaseCommand {
 
     // Fall back to gh CLI
     try {
-      const { stdout } = await execAsync(
-        `gh pr list --head ${branch} --json number --jq '.[0].number' 2>/dev/null`
+      const { stdout } = await runToolOrThrow(
+        'gh', ['pr', 'list', '--head', branch, '--json', 'number', '--jq', '.[0].number']
       );
       const num = stdout.trim();
       return num || null;
@@ -95,8 +92,8 @@ export class PromptInfoCommand extends BaseCommand {
 
   private async getPrStatus(prNumber: string): Promise<string | null> {
     try {
-      const { stdout } = await execAsync(
-        `gh pr view ${prNumber} --json state --jq '.state' 2>/dev/null`
+      const { stdout } = await runToolOrThrow(
+        'gh', ['pr', 'view', prNumber, '--json', 'state', '--jq', '.state']
       );
       return stdout.trim() || null;
     } catch {
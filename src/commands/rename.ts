@@ -0,0 +1,65 @@
+// Rename command - rename a branch and carry its metadata, stashes and PR along
+
+import chalk from 'chalk';
+import { BaseCommand } from '../lib/command';
+import { checkGitRepo } from '../lib/git';
+import { loadConfig } from '../lib/config';
+import { getPRProvider } from '../lib/pr-providers';
+import { renameBranch } from '../lib/rename';
+
+interface RenameOptions {
+  remote?: boolean;
+}
+
+export class RenameCommand extends BaseCommand {
+  constructor() {
+    super({
+      name: 'rename',
+      description: 'Rename a branch, keeping its description, tags, notes, stashes and PR',
+      journal: true,
+      arguments: '<old> <new>',
+      options: [
+        { flags: '-r, --remote', description: 'Also rename the branch on its push remote (and the head of its open PR)' },
+      ],
+    });
+  }
+
+  async execute(oldName: string, newName: string, options: RenameOptions = {}): Promise<void> {
+    if (!(await checkGitRepo())) {
+      throw new Error('Not a git repository');
+    }
+
+    const config = loadConfig();
+    const provider = options.remote ? getPRProvider(config.flow?.prProvider || 'github') : null;
+
+    this.log(chalk.blue(`Renaming '${oldName}' to '${newName}'...`));
+    const result = await renameBranch(oldName, newName, { remote: options.remote, provider });
+
+    if (this.jsonMode) {
+      this.outputJSON(result);
+      return;
+    }
+
+    console.log(chalk.green(`✓ Renamed branch '${oldName}' to '${newName}'`));
+    if (result.metadataMoved) {
+      console.log(chalk.gray('  Moved description, tags, notes and links'));
+    }
+    if (result.stashesRewritten > 0) {
+      console.log(chalk.gray(`  Re-labelled ${result.stashesRewritten} auto-stash(es)`));
+    }
+    if (result.stackChildren.length > 0) {
+      console.log(chalk.gray(`  Updated stack parent of ${result.stackChildren.join(', ')}`));
+    }
+
+    if (result.remote) {
+      if (result.remote.renamed) {
+        console.log(chalk.green(`✓ ${result.remote.message}`));
+      } else {
+        console.log(chalk.yellow(`⚠ Remote not renamed: ${result.remote.message}`));
+        process.exitCode = 1;
+      }
+    } else {
+      console.log(chalk.gray("\nTip: Use 'kunj rename --remote' to rename the branch on the remote and its PR too"));
+    }
+  }
+}
@@ -0,0 +1,210 @@
+// Review command - AI first-pass code review of the current branch
+
+import chalk from "chalk";
+import { BaseCommand } from "../lib/command";
+import {
+  checkGitRepo,
+  getCurrentBranch,
+  getCommitsSinceBranch,
+  getMainBranch,
+} from "../lib/git";
+import { loadConfig } from "../lib/config";
+import { getPRDiff } from "../lib/ai-pr";
+import { checkAICredentials, getAIConfigInfo } from "../lib/ai-providers";
+import {
+  generateAIReview,
+  describeReviewGaps,
+  AIReviewResult,
+  getCommentableLines,
+  extractDiffExcerpt,
+  ReviewFinding,
+  ReviewSeverity,
+  REVIEW_SEVERITIES,
+} from "../lib/ai-review";
+import { formatDiff } from "../lib/diff-formatter";
+import { getPRProvider, PRReviewComment } from "../lib/pr-providers";
+
+interface ReviewOptions {
+  base?: string;
+  severity?: string;
+  post?: boolean;
+  excerpt?: boolean;
+  json?: boolean;
+}
+
+const SEVERITY_STYLE: Record<ReviewSeverity, { icon: string; color: (s: string) => string }> = {
+  critical: { icon: "🛑", color: chalk.red.bold },
+  warning: { icon: "⚠️ ", color: chalk.yellow },
+  suggestion: { icon: "💡", color: chalk.cyan },
+  nit: { icon: "·", color: chalk.gray },
+};
+
+export class ReviewCommand extends BaseCommand {
+  constructor() {
+    super({
+      name: "review",
+      description: "AI code review of the current branch against its base",
+      options: [
+        { flags: "--base <branch>", description: "Base branch to diff against (default: config or main/master)" },
+        { flags: "-s, --severity <level>", description: "Minimum severity to show (critical, warning, suggestion, nit)", defaultValue: "nit" },
+        { flags: "--post", description: "Post findings as review comments on the branch's PR" },
+        { flags: "--no-excerpt", description: "Hide the diff excerpt under each finding" },
+        { flags: "--no-cache", description: "Regenerate the review instead of reusing a cached response" },
+      ],
+    });
+  }
+
+  async execute(options: ReviewOptions = {}): Promise<void> {
+    const isGitRepo = await checkGitRepo();
+    if (!isGitRepo) {
+      throw new Error("Not a git repository");
+    }
+
+    const minSeverity = (options.severity || "nit").toLowerCase() as ReviewSeverity;
+    if (!REVIEW_SEVERITIES.includes(minSeverity)) {
+      throw new Error(`Invalid severity '${options.severity}'. Use one of: ${REVIEW_SEVERITIES.join(", ")}`);
+    }
+
+    const config = loadConfig();
+    if (!config.ai?.enabled) {
+      throw new Error("AI features are disabled (kunj config --set ai.enabled=true)");
+    }
+    if (!(await checkAICredentials())) {
+      throw new Error(`AI provider not configured (${(await getAIConfigInfo()).setupHint})`);
+    }
+
+    const currentBranch = await getCurrentBranch();
+    const baseBranch =
+      options.base ||
+      config.preferences?.defaultBaseBranch?.trim() ||
+      (await getMainBranch());
+
+    if (currentBranch === baseBranch) {
+      throw new Error(`Cannot review ${baseBranch} against itself — switch to a feature branch or pass --base`);
+    }
+
+    const diff = await getPRDiff(baseBranch);
+    if (!diff.trim()) {
+      if (this.jsonMode) {
+        this.outputJSON({ branch: currentBranch, base: baseBranch, findings: [] });
+        return;
+      }
+      console.log(chalk.yellow(`No changes between ${baseBranch} and ${currentBranch}`));
+      return;
+    }
+
+    const commits = await getCommitsSinceBranch(baseBranch);
+
+    this.log(chalk.blue(`🤖 Reviewing ${currentBranch} → ${baseBranch} with AI...`));
+    const review = await generateAIReview(diff, {
+      branch: currentBranch,
+      baseBranch,
+      commits,
+    });
+
+    const threshold = REVIEW_SEVERITIES.indexOf(minSeverity);
+    const findings = review.findings.filter((f) => REVIEW_SEVERITIES.indexOf(f.severity) <= threshold);
+
+    let posted: { success: boolean; message: string } | undefined;
+    if (options.post) {
+      posted = await this.postFindings(currentBranch, diff, findings, review);
+    }
+
+    if (this.jsonMode) {
+      this.outputJSON({
+        branch: currentBranch,
+        base: baseBranch,
+        findings,
+        failedParts: review.failedParts,
+        totalParts: review.totalParts,
+        ...(posted ? { posted } : {}),
+      });
+      return;
+    }
+
+    this.renderFindings(findings, diff, options.excerpt !== false, describeReviewGaps(review));
+
+    if (posted) {
+      console.log(posted.success ? chalk.green(`\n✓ ${posted.message}`) : chalk.red(`\n✗ ${posted.message}`));
+    }
+  }
+
+  private renderFindings(findings: ReviewFinding[], diff: string, showExcerpt: boolean, gaps: string | null): void {
+    if (findings.length === 0) {
+      console.log(
+        gaps
+          ? chalk.yellow(`\n⚠ No findings in the reviewed parts, but ${gaps}`)
+          : chalk.green("\n✓ No findings — looks good for human review")
+      );
+      return;
+    }
+
+    console.log();
+    for (const finding of findings) {
+      const style = SEVERITY_STYLE[finding.severity];
+      console.log(
+        `${style.icon} ${style.color(finding.severity.toUpperCase())} ${chalk.bold(`${finding.file}:${finding.line}`)} ${chalk.gray(`[${finding.category}]`)}`
+      );
+      console.log(`   ${finding.message}`);
+      if (finding.suggestion) {
+        console.log(chalk.green(`   → ${finding.suggestion}`));
+      }
+
+      if (showExcerpt) {
+        const excerpt = extractDiffExcerpt(diff, finding.file, finding.line);
+        if (excerpt) {
+          const formatted = formatDiff(excerpt, { compactMode: true }).split("\n");
+          console.log(formatted.map((line) => `   ${line}`).join("\n"));
+        }
+      }
+      console.log();
+    }
+
+    const counts = REVIEW_SEVERITIES
+      .map((severity) => ({ severity, count: findings.filter((f) => f.severity === severity).length }))
+      .filter((c) => c.count > 0)
+      .map((c) => SEVERITY_STYLE[c.severity].color(`${c.count} ${c.severity}`));
+    console.log(chalk.bold(`${findings.length} finding${findings.length === 1 ? "" : "s"}: `) + counts.join(", "));
+    if (gaps) {
+      console.log(chalk.yellow(`⚠ Incomplete review: ${gaps}`));
+    }
+  }
+
+  // Post findings through the configured PR provider. Findings on lines outside
+  // the diff cannot be anchored, so they go into the review body instead.
+  private async postFindings(
+    branch: string,
+    diff: string,
+    findings: ReviewFinding[],
+    review: AIReviewResult
+  ): Promise<{ success: boolean; message: string }> {
+    const provider = getPRProvider(loadConfig().flow?.prProvider || "github");
+    const commentable = getCommentableLines(diff);
+
+    const comments: PRReviewComment[] = [];
+    const unanchored: string[] = [];
+
+    for (const finding of findings) {
+      const text = `**${finding.severity}** (${finding.category}): ${finding.message}${finding.suggestion ? `\n\nSuggestion: ${finding.suggestion}` : ""}`;
+      if (commentable.get(finding.file)?.has(finding.line)) {
+        comments.push({ path: finding.file, line: finding.line, body: text });
+      } else {
+        unanchored.push(`- \`${finding.file}:${finding.line}\` ${text.replace(/\n+/g, " ")}`);
+      }
+    }
+
+    let body = findings.length === 0
+      ? "AI first-pass review: no findings."
+      : `AI first-pass review: ${findings.length} finding${findings.length === 1 ? "" : "s"}.`;
+    const gaps = describeReviewGaps(review);
+    if (gaps) {
+      body += ` Incomplete: ${gaps}.`;
+    }
+    if (unanchored.length > 0) {
+      body += `\n\n${unanchored.join("\n")}`;
+    }
+
+    this.log(chalk.gray(`Posting review via ${provider.name}...`));
+    return provider.postReview(branch, body, comments);
+  }
+}
@@ -1,10 +1,10 @@
 import { BaseCommand } from '../lib/command';
-import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
+import { runToolOrThrow } from '../lib/runner';
 
 export class SetupCommand extends BaseCommand {
   constructor() {
@@ -114,9 +114,10 @@ export class SetupCommand extends BaseCommand {
     if (sourceNow) {
       try {
         // Source the config file
+        // The path goes through the environment so it is never parsed as shell code
         const sourceCommand = shell === 'fish' ? 'source' : '.';
-        execSync(`${sourceCommand} ${configFile}`, {
-          shell: this.getShellPath(shell),
+        await runToolOrThrow(this.getShellPath(shell), ['-c', `${sourceCommand} "$KUNJ_SHELL_CONFIG"`], {
+          env: { ...process.env, KUNJ_SHELL_CONFIG: configFile },
           stdio: 'inherit'
         });
         console.log(chalk.green('\n✓ Changes applied to current session'));
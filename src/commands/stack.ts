@@ -0,0 +1,296 @@
+// Stack command - stacked branches (create|show|restack|submit)
+
+import chalk from 'chalk';
+import { BaseCommand } from '../lib/command';
+import { checkGitRepo, getCurrentBranch, getMainBranch, getCommitMessagesInRange, branchExists, getPushRemote } from '../lib/git';
+import { loadConfig } from '../lib/config';
+import { loadBranchMetadata, updateBranchMetadata } from '../lib/metadata';
+import { getPRProvider } from '../lib/pr-providers';
+import { runGit } from '../lib/runner';
+import {
+  RestackResult,
+  StackNode,
+  buildStackTree,
+  createStackedBranch,
+  getStackBranches,
+  getStackTrunk,
+  getStackTrunks,
+  renderStackNav,
+  restackBranches,
+  upsertStackNav,
+} from '../lib/stack';
+
+interface StackOptions {
+  parent?: string;
+}
+
+interface StackBranchInfo {
+  branch: string;
+  parent: string;
+  commits: number;
+  needsRestack: boolean;
+  prUrl: string | null;
+}
+
+export class StackCommand extends BaseCommand {
+  constructor() {
+    super({
+      name: 'stack',
+      description: 'Stacked branches (create|show|restack|submit)',
+      journal: true,
+      arguments: '[action] [branch]',
+      options: [
+        { flags: '-p, --parent <branch>', description: 'create: parent branch (default: current branch)' },
+      ],
+    });
+  }
+
+  async execute(action: string = 'show', branch?: string, options: StackOptions = {}): Promise<void> {
+    if (!(await checkGitRepo())) {
+      throw new Error('Not a git repository');
+    }
+
+    switch (action) {
+      case 'create':
+        if (!branch) {
+          throw new Error('Usage: kunj stack create <branch> [--parent <branch>]');
+        }
+        await this.create(branch, options);
+        break;
+      case 'show':
+      case 'tree':
+        await this.show();
+        break;
+      case 'restack':
+        await this.restack();
+        break;
+      case 'submit':
+        await this.submit();
+        break;
+      default:
+        throw new Error(`Unknown action '${action}'. Available: create, show, restack, submit`);
+    }
+  }
+
+  private async create(branch: string, options: StackOptions): Promise<void> {
+    const parent = options.parent || (await getCurrentBranch());
+    if (!(await branchExists(parent))) {
+      throw new Error(`Parent branch '${parent}' does not exist`);
+    }
+    await createStackedBranch(branch, parent);
+
+    if (this.jsonMode) {
+      this.outputJSON({ branch, parent });
+      return;
+    }
+    console.log(chalk.green(`✓ Created '${branch}' stacked on '${parent}'`));
+    console.log(chalk.gray("  Tip: Use 'kunj stack' to see the stack, 'kunj stack restack' after changing a parent"));
+  }
+
+  private async describeBranch(branch: string, parent: string, prUrl?: string): Promise<StackBranchInfo> {
+    const [count, ancestor] = await Promise.all([
+      runGit(['rev-list', '--count', `${parent}..${branch}`]),
+      runGit(['merge-base', '--is-ancestor', parent, branch]),
+    ]);
+    return {
+      branch,
+      parent,
+      commits: parseInt(count.stdout.trim(), 10) || 0,
+      needsRestack: !ancestor.success,
+      prUrl: prUrl || null,
+    };
+  }
+
+  private async show(): Promise<void> {
+    const metadata = loadBranchMetadata();
+    const current = await getCurrentBranch();
+    const inStack = getStackBranches(current, metadata).length > 0;
+    const trunks = inStack ? [getStackTrunk(current, metadata)] : getStackTrunks(metadata);
+
+    const stacks = [];
+    for (const trunk of trunks) {
+      const branches = [];
+      for (const branch of getStackBranches(trunk, metadata)) {
+        const data = metadata.branches[branch];
+        branches.push(await this.describeBranch(branch, data.stackParent as string, data.prUrl));
+      }
+      stacks.push({ trunk, tree: buildStackTree(trunk, metadata), branches });
+    }
+
+    if (this.jsonMode) {
+      this.outputJSON({ current, stacks });
+      return;
+    }
+
+    if (stacks.length === 0) {
+      console.log(chalk.yellow('No stacked branches yet'));
+      console.log(chalk.gray('Tip: Use \'kunj stack create <branch>\' to start a branch on top of the current one'));
+      return;
+    }
+
+    for (const stack of stacks) {
+      const info = new Map(stack.branches.map((b) => [b.branch, b]));
+      console.log(stack.trunk === current ? chalk.green(`● ${stack.trunk}`) : chalk.bold(stack.trunk));
+      this.printTree(stack.tree, '', info, current);
+      console.log('');
+    }
+  }
+
+  private printTree(node: StackNode, indent: string, info: Map<string, StackBranchInfo>, current: string): void {
+    node.children.forEach((child, index) => {
+      const last = index === node.children.length - 1;
+      const details = info.get(child.branch);
+      const name = child.branch === current ? chalk.green(`${child.branch} ●`) : child.branch;
+      const parts = details
+        ? [
+            chalk.gray(`${details.commits} commit${details.commits === 1 ? '' : 's'}`),
+            details.needsRestack ? chalk.yellow('needs restack') : '',
+            details.prUrl ? chalk.cyan(details.prUrl) : '',
+          ].filter(Boolean)
+        : [];
+      console.log(`${indent}${last ? '└─' : '├─'} ${name}  ${parts.join('  ')}`);
+      this.printTree(child, indent + (last ? '   ' : '│  '), info, current);
+    });
+  }
+
+  private async restack(): Promise<void> {
+    const current = await getCurrentBranch();
+    const branches = getStackBranches(current);
+    if (branches.length === 0) {
+      throw new Error(`'${current}' is not part of a stack`);
+    }
+
+    const trunk = getStackTrunk(current);
+    const fallbackTrunk = (await branchExists(trunk)) ? trunk : await getMainBranch();
+    const results = await restackBranches(branches, fallbackTrunk);
+    const conflict = results.find((r) => r.status === 'conflict');
+    const { retargeted, warnings } = await this.retargetPRs(results);
+
+    if (this.jsonMode) {
+      this.outputJSON({ results, conflict: conflict?.branch || null, retargeted, warnings });
+      return;
+    }
+
+    for (const result of results) {
+      if (result.reparented) {
+        console.log(chalk.gray(`  '${result.reparented}' is gone; '${result.branch}' now stacks on '${result.parent}'`));
+      }
+      if (retargeted.includes(result.branch)) {
+        console.log(chalk.green(`✓ Retargeted the PR for '${result.branch}' to '${result.parent}'`));
+      }
+      if (result.status === 'rebased') {
+        console.log(chalk.green(`✓ Rebased '${result.branch}' onto '${result.parent}'`));
+      } else if (result.status === 'up-to-date') {
+        console.log(chalk.gray(`  '${result.branch}' is up to date with '${result.parent}'`));
+      }
+    }
+
+    for (const warning of warnings) {
+      console.log(chalk.yellow(`⚠ ${warning}`));
+    }
+
+    if (conflict) {
+      console.log(chalk.red(`\n✗ Conflict while rebasing '${conflict.branch}' onto '${conflict.parent}'`));
+      console.log(chalk.yellow('  Resolve the conflicts, then run:'));
+      console.log(chalk.gray('    git add <files> && git rebase --continue'));
+      console.log(chalk.gray('    kunj stack restack'));
+      console.log(chalk.gray('  Or give up with: git rebase --abort'));
+      process.exitCode = 1;
+    }
+  }
+
+  // A reparented branch's PR still targets the deleted parent; point it at the new one
+  private async retargetPRs(results: RestackResult[]): Promise<{ retargeted: string[]; warnings: string[] }> {
+    const retargeted: string[] = [];
+    const warnings: string[] = [];
+    const moved = results.filter((r) => r.reparented && loadBranchMetadata().branches[r.branch]?.prUrl);
+    if (moved.length === 0) {
+      return { retargeted, warnings };
+    }
+
+    const provider = getPRProvider(loadConfig().flow?.prProvider || 'github');
+    const available = await provider.checkCLIAvailable();
+    for (const result of moved) {
+      const outcome = available
+        ? await provider.updatePRBase(result.branch, result.parent)
+        : { success: false, message: `${provider.name === 'gitlab' ? 'glab' : 'gh'} is not installed` };
+      if (outcome.success) {
+        retargeted.push(result.branch);
+      } else {
+        warnings.push(`The PR for '${result.branch}' still targets '${result.reparented}'; retarget it to '${result.parent}' (${outcome.message})`);
+      }
+    }
+    return { retargeted, warnings };
+  }
+
+  private async submit(): Promise<void> {
+    const current = await getCurrentBranch();
+    const branches = getStackBranches(current);
+    if (branches.length === 0) {
+      throw new Error(`'${current}' is not part of a stack`);
+    }
+
+    const config = loadConfig();
+    const provider = getPRProvider(config.flow?.prProvider || 'github');
+    if (!(await provider.checkCLIAvailable())) {
+      throw new Error(`The ${provider.name === 'gitlab' ? 'GitLab CLI (glab)' : 'GitHub CLI (gh)'} is not installed`);
+    }
+
+    const trunk = getStackTrunk(current);
+    const created: string[] = [];
+
+    // Push every branch and open a PR against its parent where there is none yet
+    for (const branch of branches) {
+      const data = loadBranchMetadata().branches[branch];
+      const parent = data.stackParent as string;
+
+      this.log(chalk.blue(`Pushing '${branch}'...`));
+      const push = await runGit(['push', '--force-with-lease', '-u', await getPushRemote(branch), branch]);
+      if (!push.success) {
+        throw new Error(`Failed to push '${branch}': ${push.stderr.trim()}`);
+      }
+
+      if (data.prUrl) {
+        continue;
+      }
+      const commits = await getCommitMessagesInRange(`${parent}..${branch}`).catch(() => []);
+      const title = data.description || commits[0]?.message.split('\n')[0] || branch;
+      const result = await provider.createPR(branch, parent, title, data.description);
+      if (!result.success) {
+        throw new Error(`Failed to create PR for '${branch}': ${result.message}`);
+      }
+      updateBranchMetadata(branch, { prUrl: result.prUrl });
+      created.push(branch);
+      this.log(chalk.green(`✓ Opened PR for '${branch}' → '${parent}'`) + chalk.gray(` ${result.prUrl}`));
+    }
+
+    // Add or refresh the navigation block in every PR of the stack
+    const metadata = loadBranchMetadata();
+    const items = branches.map((branch) => ({ branch, prUrl: metadata.branches[branch]?.prUrl }));
+    const warnings: string[] = [];
+    for (const item of items) {
+      // A failed lookup is not an empty body; rewriting it would wipe the description
+      const body = await provider.getPRBody(item.branch);
+      if (body === null) {
+        warnings.push(`Could not read the PR body for '${item.branch}'; its navigation was not updated`);
+        continue;
+      }
+      const updated = upsertStackNav(body, renderStackNav(trunk, items, item.branch));
+      if (updated !== body) {
+        const result = await provider.updatePRBody(item.branch, updated);
+        if (!result.success) {
+          warnings.push(`Could not update the PR body for '${item.branch}': ${result.message}`);
+        }
+      }
+    }
+
+    if (this.jsonMode) {
+      this.outputJSON({ trunk, prs: items, created, warnings });
+      return;
+    }
+    for (const warning of warnings) {
+      console.log(chalk.yellow(`⚠ ${warning}`));
+    }
+    console.log(chalk.green(`\n✓ Submitted ${items.length} stacked PR${items.length === 1 ? '' : 's'} (${created.length} new)`));
+  }
+}
@@ -2,13 +2,11 @@
 
 import chalk from 'chalk';
 import inquirer from 'inquirer';
-import { exec, spawn } from 'child_process';
-import { promisify } from 'util';
 import { BaseCommand } from '../lib/command';
 import { checkGitRepo, getFileStatuses } from '../lib/git';
 import { generateStashMessage } from '../lib/ai-commit';
-
-const execAsync = promisify(exec);
+import { runStashDoctor, stashToBranch, moveStash, parseStashIndex } from '../lib/stash';
+import { runGit, runGitOrThrow, runTool } from '../lib/runner';
 
 interface StashOptions {
   list?: boolean;
@@ -17,6 +15,7 @@ interface StashOptions {
   drop?: number;
   message?: string;
   includeUntracked?: boolean;
+  dryRun?: boolean;
 }
 
 export class StashCommand extends BaseCommand {
@@ -24,7 +23,8 @@ export class StashCommand extends BaseCommand {
     super({
       name: 'stash',
       description: 'Stash changes with AI-generated messages',
-      arguments: '[action]',
+      journal: true,
+      arguments: '[action] [index] [branch]',
       ui: {
         category: 'data',
         widget: 'table',
@@ -63,11 +63,19 @@ export class StashCommand extends BaseCommand {
           flags: '-u, --include-untracked',
           description: 'Include untracked files in stash',
         },
+        {
+          flags: '--dry-run',
+          description: 'With doctor: report problems without fixing them',
+        },
+        {
+          flags: '--no-cache',
+          description: 'Regenerate the AI stash message instead of reusing a cached response',
+        },
       ],
     });
   }
 
-  async execute(action?: string, options: StashOptions = {}): Promise<void> {
+  async execute(action?: string, index?: string, branch?: string, options: StashOptions = {}): Promise<void> {
     // Check if we're in a git repository
     const isGitRepo = await checkGitRepo();
     if (!isGitRepo) {
@@ -87,6 +95,23 @@ export class StashCommand extends BaseCommand {
       return;
     }
 
+    if (action === 'doctor') {
+      await this.doctor(options);
+      return;
+    }
+
+    if (action === 'to-branch' || action === 'move') {
+      if (index === undefined || !branch) {
+        throw new Error(`Usage: kunj stash ${action} <index> <branch>`);
+      }
+      if (action === 'to-branch') {
+        await this.toBranch(parseStashIndex(index), branch);
+      } else {
+        await this.moveToBranch(parseStashIndex(index), branch);
+      }
+      return;
+    }
+
     // Handle apply flag
     if (options.apply !== undefined) {
       await this.applyStash(options.apply);
@@ -168,9 +193,9 @@ export class StashCommand extends BaseCommand {
       }
 
       // Create the stash
-      const includeUntrackedFlag = options.includeUntracked ? ' --include-untracked' : '';
-      const { stdout } = await execAsync(
-        `git stash push${includeUntrackedFlag} -m "${stashMessage.replace(/"/g, '\\"')}"`
+      const includeUntrackedArgs = options.includeUntracked ? ['--include-untracked'] : [];
+      const { stdout } = await runGitOrThrow(
+        ['stash', 'push', ...includeUntrackedArgs, '-m', stashMessage]
       );
 
       console.log(chalk.green('\n✓ Changes stashed successfully!'));
@@ -187,9 +212,70 @@ export class StashCommand extends BaseCommand {
     }
   }
 
+  private async toBranch(index: number, newBranch: string): Promise<void> {
+    this.log(chalk.blue(`Creating branch '${newBranch}' from stash@{${index}}...`));
+    const result = await stashToBranch(index, newBranch);
+
+    if (this.jsonMode) {
+      this.outputJSON({ branch: newBranch, stash: result.stash, sourceBranch: result.sourceBranch });
+      return;
+    }
+    console.log(chalk.green(`✓ Switched to new branch '${newBranch}' with the stashed changes applied`));
+    if (result.sourceBranch) {
+      console.log(chalk.gray(`  Removed the stash from '${result.sourceBranch}'`));
+    }
+  }
+
+  private async moveToBranch(index: number, targetBranch: string): Promise<void> {
+    const result = await moveStash(index, targetBranch);
+
+    if (this.jsonMode) {
+      this.outputJSON({ branch: targetBranch, stash: result.stash, sourceBranch: result.sourceBranch });
+      return;
+    }
+    const from = result.sourceBranch ? ` from '${result.sourceBranch}'` : '';
+    console.log(chalk.green(`✓ Moved stash@{${index}}${from} to '${targetBranch}'`));
+    console.log(chalk.gray(`  It will be restored the next time you switch to '${targetBranch}'`));
+  }
+
+  private async doctor(options: StashOptions): Promise<void> {
+    const report = await runStashDoctor({ dryRun: options.dryRun });
+
+    if (this.jsonMode) {
+      this.outputJSON({ dryRun: !!options.dryRun, ...report });
+      return;
+    }
+
+    const verb = (done: string, planned: string) => (options.dryRun ? planned : done);
+    console.log(chalk.cyan('\n🩺 Checking auto-stash records against the stash list\n'));
+
+    if (report.linked.length > 0) {
+      console.log(chalk.green(`✓ ${verb('Linked', 'Would link')} ${report.linked.length} record(s) to their stash commit`));
+    }
+    if (report.removed.length > 0) {
+      console.log(chalk.green(`✓ ${verb('Removed', 'Would remove')} ${report.removed.length} record(s) whose stash no longer exists:`));
+      report.removed.forEach((r) => console.log(chalk.gray(`    ${r.branch}: ${r.message}`)));
+    }
+    if (report.adopted.length > 0) {
+      console.log(chalk.green(`✓ ${verb('Adopted', 'Would adopt')} ${report.adopted.length} untracked auto-stash(es):`));
+      report.adopted.forEach((a) => console.log(chalk.gray(`    ${a.ref} → ${a.branch}`)));
+    }
+    if (report.orphaned.length > 0) {
+      console.log(chalk.yellow(`⚠ ${report.orphaned.length} auto-stash(es) belong to branches that no longer exist:`));
+      report.orphaned.forEach((e) => console.log(chalk.gray(`    stash@{${e.index}}: ${e.message}`)));
+      console.log(chalk.gray('  Apply one with "kunj stash --apply <index>" or drop it with "kunj stash --drop <index>"'));
+    }
+
+    if (report.linked.length + report.removed.length + report.adopted.length + report.orphaned.length === 0) {
+      console.log(chalk.green('✓ Stash records match the stash list'));
+    } else if (options.dryRun) {
+      console.log(chalk.gray('\nDry run: nothing was changed. Run "kunj stash doctor" to apply.'));
+    }
+  }
+
   private async listStashes(): Promise<void> {
     try {
-      const { stdout } = await execAsync('git stash list');
+      const { stdout } = await runGitOrThrow(['stash', 'list']);
 
       if (!stdout.trim()) {
         console.log(chalk.gray('No stashes found'));
@@ -261,6 +347,8 @@ export class StashCommand extends BaseCommand {
             { name: 'Pop (apply and remove)', value: 'pop' },
             { name: 'Apply (keep in stash list)', value: 'apply' },
             { name: 'Show diff', value: 'show' },
+            { name: 'Move to another branch', value: 'move' },
+            { name: 'Create a branch from it', value: 'to-branch' },
             { name: 'Drop (delete)', value: 'drop' },
             { name: chalk.gray('Cancel'), value: 'cancel' },
           ],
@@ -298,6 +386,33 @@ export class StashCommand extends BaseCommand {
             await this.dropStash(selectedStash);
           }
           break;
+        case 'move': {
+          const { stdout: branchList } = await runGitOrThrow(['for-each-ref', '--format=%(refname:short)', 'refs/heads']);
+          const { targetBranch } = await inquirer.prompt([
+            {
+              type: 'list',
+              name: 'targetBranch',
+              message: 'Move the stash to:',
+              choices: branchList.split('\n').filter((b) => b.trim()),
+              pageSize: 15,
+            },
+          ]);
+          await this.moveToBranch(selectedStash, targetBranch);
+          break;
+        }
+        case 'to-branch': {
+          const { newBranch } = await inquirer.prompt([
+            {
+              type: 'input',
+              name: 'newBranch',
+              message: 'New branch name:',
+              validate: async (input: string) =>
+                (await runGit(['check-ref-format', '--branch', input.trim()])).success || 'Not a valid branch name',
+            },
+          ]);
+          await this.toBranch(selectedStash, newBranch.trim());
+          break;
+        }
         case 'drop':
           await this.dropStash(selectedStash);
           break;
@@ -317,14 +432,14 @@ export class StashCommand extends BaseCommand {
   private async popStash(): Promise<void> {
     try {
       // Check if there are any stashes
-      const { stdout: listOutput } = await execAsync('git stash list');
+      const { stdout: listOutput } = await runGitOrThrow(['stash', 'list']);
       if (!listOutput.trim()) {
         console.log(chalk.yellow('No stashes to pop'));
         return;
       }
 
       console.log(chalk.blue('Popping latest stash...'));
-      const { stdout } = await execAsync('git stash pop');
+      const { stdout } = await runGitOrThrow(['stash', 'pop']);
 
       console.log(chalk.green('✓ Stash popped successfully!'));
       if (stdout.trim()) {
@@ -346,15 +461,13 @@ export class StashCommand extends BaseCommand {
       const stashRef = `stash@{${index}}`;
 
       // Check if stash exists
-      try {
-        await execAsync(`git stash show ${stashRef}`);
-      } catch {
+      if (!(await runGit(['stash', 'show', stashRef])).success) {
         console.error(chalk.red(`Error: Stash ${stashRef} does not exist`));
         process.exit(1);
       }
 
       console.log(chalk.blue(`Popping stash ${stashRef}...`));
-      const { stdout } = await execAsync(`git stash pop ${stashRef}`);
+      const { stdout } = await runGitOrThrow(['stash', 'pop', stashRef]);
 
       console.log(chalk.green(`✓ Stash ${stashRef} popped successfully!`));
       if (stdout.trim()) {
@@ -376,9 +489,7 @@ export class StashCommand extends BaseCommand {
       const stashRef = `stash@{${index}}`;
 
       // Check if stash exists
-      try {
-        await execAsync(`git stash show ${stashRef}`);
-      } catch {
+      if (!(await runGit(['stash', 'show', stashRef])).success) {
         console.error(chalk.red(`Error: Stash ${stashRef} does not exist`));
         process.exit(1);
       }
@@ -386,24 +497,11 @@ export class StashCommand extends BaseCommand {
       console.log(chalk.cyan(`\n📋 Stash ${stashRef} diff:\n`));
 
       // Show the diff with less for scrolling
-      const less = spawn('less', ['-R', '-F', '-X'], {
-        stdio: ['pipe', process.stdout, process.stderr],
-      });
-
-      const { stdout: diff } = await execAsync(`git stash show -p --color=always ${stashRef}`);
-      less.stdin.write(diff);
-      less.stdin.end();
-
-      await new Promise<void>((resolve, reject) => {
-        less.on('close', (code: number) => {
-          if (code === 0 || code === null) {
-            resolve();
-          } else {
-            reject(new Error(`less exited with code ${code}`));
-          }
-        });
-        less.on('error', reject);
-      });
+      const { stdout: diff } = await runGitOrThrow(['stash', 'show', '-p', '--color=always', stashRef]);
+      const less = await runTool('less', ['-R', '-F', '-X'], { input: diff, stdio: 'inherit' });
+      if (less.code !== 0 && less.code !== null) {
+        throw new Error(`less exited with code ${less.code}`);
+      }
 
       console.log(); // Add newline after less exits
     } catch (error: any) {
@@ -417,16 +515,14 @@ export class StashCommand extends BaseCommand {
       const stashRef = `stash@{${index}}`;
 
       // Check if stash exists
-      try {
-        await execAsync(`git stash show ${stashRef}`);
-      } catch {
+      if (!(await runGit(['stash', 'show', stashRef])).success) {
         console.error(chalk.red(`Error: Stash ${stashRef} does not exist`));
         console.log(chalk.gray('Use "kunj stash --list" to see available stashes'));
         process.exit(1);
       }
 
       console.log(chalk.blue(`Applying stash ${stashRef}...`));
-      const { stdout } = await execAsync(`git stash apply ${stashRef}`);
+      const { stdout } = await runGitOrThrow(['stash', 'apply', stashRef]);
 
       console.log(chalk.green(`✓ Stash ${stashRef} applied successfully!`));
       if (stdout.trim()) {
@@ -450,16 +546,15 @@ export class StashCommand extends BaseCommand {
       const stashRef = `stash@{${index}}`;
 
       // Check if stash exists
-      try {
-        await execAsync(`git stash show ${stashRef}`);
-      } catch {
+      if (!(await runGit(['stash', 'show', stashRef])).success) {
         console.error(chalk.red(`Error: Stash ${stashRef} does not exist`));
         console.log(chalk.gray('Use "kunj stash --list" to see available stashes'));
         process.exit(1);
       }
 
       // Get stash description
-      const { stdout: stashInfo } = await execAsync(`git stash list | grep "${stashRef}"`);
+      const { stdout: stashList } = await runGitOrThrow(['stash', 'list']);
+      const stashInfo = stashList.split('\n').find((line) => line.startsWith(`${stashRef}:`)) || stashRef;
 
       // Confirm deletion
       const { confirm } = await inquirer.prompt([
@@ -476,7 +571,7 @@ export class StashCommand extends BaseCommand {
         return;
       }
 
-      await execAsync(`git stash drop ${stashRef}`);
+      await runGitOrThrow(['stash', 'drop', stashRef]);
 
       console.log(chalk.green(`✓ Stash ${stashRef} dropped`));
     } catch (error: any) {
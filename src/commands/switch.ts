@@ -8,6 +8,7 @@ import { createStash, popStashForBranch, getAllStashesWithBranch } from '../lib/
 import { loadBranchMetadata, updateBranchMetadata } from '../lib/metadata';
 import { loadConfig } from '../lib/config';
 import { isBranchWIP } from '../lib/utils';
+import { ensureWorktree, printWorktreeHint } from '../lib/worktree';
 import { BranchInfo } from '../types';
 
 interface SwitchOptions {
@@ -25,6 +26,7 @@ export class SwitchCommand extends BaseCommand {
     super({
       name: 'switch',
       description: 'Switch to a branch (interactive if no branch specified)',
+      journal: true,
       arguments: '[branch]',
       options: [
         { flags: '--no-stash', description: 'Disable automatic stashing of changes' },
@@ -83,7 +85,7 @@ export class SwitchCommand extends BaseCommand {
     }
 
     // Check if branch exists
-    const checkResult = await executeGitCommand(`git show-ref --verify --quiet refs/heads/${targetBranch}`);
+    const checkResult = await executeGitCommand(['show-ref', '--verify', '--quiet', `refs/heads/${targetBranch}`]);
     const branchExists = checkResult.success;
 
     if (!branchExists && options.create) {
@@ -98,6 +100,11 @@ export class SwitchCommand extends BaseCommand {
     }
 
     const config = loadConfig();
+    if (config.preferences.switchMode === 'worktree') {
+      await this.openWorktree(targetBranch, currentBranch, false);
+      return;
+    }
+
     console.log(chalk.blue(`Switching to branch '${targetBranch}'...`));
 
     // Use config autoStash preference unless explicitly overridden
@@ -107,7 +114,7 @@ export class SwitchCommand extends BaseCommand {
     }
 
     // Switch to the target branch
-    const result = await executeGitCommand(`git switch ${targetBranch}`);
+    const result = await executeGitCommand(['switch', targetBranch]);
 
     if (result.success) {
       console.log(
@@ -131,6 +138,9 @@ export class SwitchCommand extends BaseCommand {
       }
     } else {
       console.error(chalk.red(`✗ Failed to switch: ${result.message}`));
+      if (/already (checked out|used by worktree)/.test(result.message)) {
+        console.log(chalk.gray(`Tip: '${targetBranch}' is open in another worktree: kunj worktree open ${targetBranch}`));
+      }
       process.exit(1);
     }
   }
@@ -252,6 +262,10 @@ export class SwitchCommand extends BaseCommand {
         displayName += chalk.cyan(` ${tagStr}`);
       }
 
+      if (metadata.worktreePath) {
+        displayName += chalk.gray(` [worktree]`);
+      }
+
       // Add stash indicator if there are stashes
       if (branchStashes && branchStashes.length > 0) {
         const stashInfo = branchStashes.map(s => {
@@ -288,6 +302,10 @@ export class SwitchCommand extends BaseCommand {
     options: SwitchOptions
   ): Promise<void> {
     const config = loadConfig();
+    if (config.preferences.switchMode === 'worktree') {
+      await this.openWorktree(branchName, currentBranch, true, options);
+      return;
+    }
 
     console.log(chalk.blue(`Creating branch '${branchName}' and switching to it...`));
 
@@ -298,7 +316,7 @@ export class SwitchCommand extends BaseCommand {
     }
 
     // Create and checkout the branch
-    const result = await executeGitCommand(`git switch -c ${branchName}`);
+    const result = await executeGitCommand(['switch', '-c', branchName]);
 
     if (result.success) {
       console.log(
@@ -340,4 +358,39 @@ export class SwitchCommand extends BaseCommand {
       process.exit(1);
     }
   }
+
+  // Worktree switch mode: open (or create) the branch's own worktree instead of stashing
+  private async openWorktree(
+    branchName: string,
+    currentBranch: string,
+    create: boolean,
+    options: SwitchOptions = {}
+  ): Promise<void> {
+    let worktree: { path: string; created: boolean };
+    try {
+      worktree = await ensureWorktree(branchName, { create });
+    } catch (error: any) {
+      console.error(chalk.red(`✗ Failed to open worktree: ${error.message}`));
+      process.exit(1);
+    }
+
+    const metadata: any = {
+      lastSwitched: new Date().toISOString()
+    };
+    if (create && options.desc) {
+      metadata.description = options.desc;
+    }
+    if (create && options.tag && options.tag.length > 0) {
+      metadata.tags = options.tag;
+    }
+    updateBranchMetadata(branchName, metadata);
+
+    if (currentBranch) {
+      updateBranchMetadata(currentBranch, {
+        lastSwitched: new Date().toISOString()
+      });
+    }
+
+    printWorktreeHint(branchName, worktree.path, worktree.created);
+  }
 }
\ No newline at end of file
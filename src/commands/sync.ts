@@ -0,0 +1,277 @@
+// Sync command - rebase or merge branches onto their base with autostash and conflict guidance
+
+import chalk from 'chalk';
+import { BaseCommand } from '../lib/command';
+import { checkGitRepo, getCurrentBranch, getAllBranches, getPushRemote } from '../lib/git';
+import { loadConfig } from '../lib/config';
+import { loadBranchMetadata } from '../lib/metadata';
+import { createStash, popStashForBranch } from '../lib/stash';
+import { isBranchWIP } from '../lib/utils';
+import { runGit } from '../lib/runner';
+import { getStackTrunk } from '../lib/stack';
+import {
+  SyncResult,
+  SyncState,
+  SyncStrategy,
+  getConflictedFiles,
+  getOperationInProgress,
+  hasRemote,
+  loadSyncState,
+  resolveOperationInProgress,
+  resolveSyncBase,
+  saveSyncState,
+  syncBranch,
+} from '../lib/sync';
+
+interface SyncOptions {
+  rebase?: boolean;
+  merge?: boolean;
+  all?: boolean;
+  fetch?: boolean;
+  continue?: boolean;
+  abort?: boolean;
+}
+
+export class SyncCommand extends BaseCommand {
+  constructor() {
+    super({
+      name: 'sync',
+      description: 'Update the current branch (or all WIP branches) from its base branch',
+      journal: true,
+      options: [
+        { flags: '--rebase', description: 'Rebase onto the base branch (default: preferences.syncStrategy)' },
+        { flags: '--merge', description: 'Merge the base branch in' },
+        { flags: '-a, --all', description: 'Sync every work-in-progress branch' },
+        { flags: '--no-fetch', description: "Skip fetching from the branches' push remotes" },
+        { flags: '--continue', description: 'Continue after resolving conflicts' },
+        { flags: '--abort', description: 'Abort the sync in progress and restore stashed changes' },
+      ],
+    });
+  }
+
+  async execute(options: SyncOptions = {}): Promise<void> {
+    if (!(await checkGitRepo())) {
+      throw new Error('Not a git repository');
+    }
+
+    if (options.continue) {
+      await this.continueSync();
+      return;
+    }
+    if (options.abort) {
+      await this.abortSync();
+      return;
+    }
+
+    const inProgress = await getOperationInProgress();
+    if (inProgress) {
+      throw new Error(`A ${inProgress} is in progress. Finish it with 'kunj sync --continue' or 'kunj sync --abort'`);
+    }
+
+    if (options.rebase && options.merge) {
+      throw new Error('Use either --rebase or --merge, not both');
+    }
+    const config = loadConfig();
+    const strategy: SyncStrategy = options.merge ? 'merge' : options.rebase ? 'rebase' : config.preferences.syncStrategy || 'rebase';
+
+    const originalBranch = await getCurrentBranch();
+    const branches = options.all ? await this.getWIPBranches(originalBranch) : [originalBranch];
+
+    if (options.fetch !== false) {
+      const remotes = new Set<string>();
+      for (const branch of branches) {
+        remotes.add(await getPushRemote(branch));
+      }
+      for (const remote of remotes) {
+        if (!(await hasRemote(remote))) {
+          continue;
+        }
+        this.log(chalk.blue(`Fetching ${remote}...`));
+        const fetch = await runGit(['fetch', '--prune', remote]);
+        if (!fetch.success) {
+          this.log(chalk.yellow(`⚠ Fetch failed, syncing with local refs: ${fetch.stderr.trim()}`));
+        }
+      }
+    }
+
+    const stashed = await createStash(originalBranch, { quiet: this.jsonMode });
+    await this.run({ originalBranch, stashed, strategy, remaining: branches, results: [] });
+  }
+
+  // WIP branches in stack order (parents before children) so children see updated parents
+  private async getWIPBranches(currentBranch: string): Promise<string[]> {
+    const config = loadConfig();
+    const metadata = loadBranchMetadata();
+    const depth = (branch: string) => {
+      let count = 0;
+      for (let b = branch; metadata.branches[b]?.stackParent && count < 50; b = metadata.branches[b].stackParent as string) {
+        count++;
+      }
+      return count;
+    };
+
+    const wip: string[] = [];
+    for (const branch of await getAllBranches()) {
+      if (await isBranchWIP(branch.name, config, currentBranch)) {
+        wip.push(branch.name);
+      }
+    }
+    return wip.sort((a, b) => depth(a) - depth(b) || getStackTrunk(a, metadata).localeCompare(getStackTrunk(b, metadata)));
+  }
+
+  // Sync the remaining branches; stops (saving state) at the first conflict
+  private async run(state: SyncState): Promise<void> {
+    while (state.remaining.length > 0) {
+      const branch = state.remaining[0];
+
+      if ((await getCurrentBranch()) !== branch) {
+        const switched = await runGit(['switch', branch]);
+        if (!switched.success) {
+          const { base } = await resolveSyncBase(branch);
+          state.results.push({
+            branch, base, upstream: base, strategy: state.strategy, status: 'skipped', behind: 0,
+            reason: switched.stderr.trim().split('\n')[0],
+          });
+          state.remaining.shift();
+          continue;
+        }
+      }
+
+      this.log(chalk.blue(`Syncing '${branch}'...`));
+      const result = await syncBranch(branch, state.strategy);
+      state.results.push(result);
+      state.remaining.shift();
+
+      if (result.status === 'conflict') {
+        saveSyncState(state);
+        this.reportConflict(result, state);
+        return;
+      }
+    }
+
+    await this.finish(state);
+  }
+
+  private async finish(state: SyncState): Promise<void> {
+    saveSyncState(null);
+    if ((await getCurrentBranch()) !== state.originalBranch) {
+      await runGit(['switch', state.originalBranch]);
+    }
+    if (state.stashed) {
+      await popStashForBranch(state.originalBranch, { quiet: this.jsonMode });
+    }
+
+    if (this.jsonMode) {
+      this.outputJSON({ strategy: state.strategy, results: state.results });
+      return;
+    }
+
+    for (const result of state.results) {
+      this.printResult(result);
+    }
+    const stacked = state.results.some(
+      (r) => r.status === 'updated' && Object.values(loadBranchMetadata().branches).some((m) => m.stackParent === r.branch)
+    );
+    if (stacked) {
+      console.log(chalk.gray("Tip: Branches are stacked on updated ones; run 'kunj stack restack' to move them too"));
+    }
+  }
+
+  private printResult(result: SyncResult): void {
+    const from = result.upstream;
+    switch (result.status) {
+      case 'updated':
+        console.log(chalk.green(`✓ ${result.strategy === 'merge' ? 'Merged' : 'Rebased'} '${result.branch}' onto '${from}'`) +
+          chalk.gray(` (${result.behind} new commit${result.behind === 1 ? '' : 's'})`));
+        break;
+      case 'up-to-date':
+        console.log(chalk.gray(`  '${result.branch}' is up to date with '${from}'`));
+        break;
+      case 'skipped':
+        console.log(chalk.yellow(`  Skipped '${result.branch}': ${result.reason}`));
+        break;
+      case 'conflict':
+        console.log(chalk.red(`✗ '${result.branch}' has conflicts with '${from}'`));
+        break;
+    }
+  }
+
+  private reportConflict(result: SyncResult, state: SyncState): void {
+    process.exitCode = 1;
+    if (this.jsonMode) {
+      this.outputJSON({ strategy: state.strategy, results: state.results, conflict: result, remaining: state.remaining });
+      return;
+    }
+
+    const verb = result.strategy === 'merge' ? 'merging' : 'rebasing';
+    console.log(chalk.red(`\n✗ Conflict while ${verb} '${result.branch}' onto '${result.upstream}'`));
+    if (result.conflicts && result.conflicts.length > 0) {
+      console.log(chalk.yellow('\nConflicted files:'));
+      for (const file of result.conflicts) {
+        console.log(chalk.red(`  ${file}`));
+      }
+    } else if (result.reason) {
+      console.log(chalk.gray(result.reason));
+    }
+
+    console.log(chalk.yellow('\nTo resume:'));
+    console.log(chalk.gray('  1. Fix the files and mark them resolved: git add <files>'));
+    console.log(chalk.gray('  2. Run: kunj sync --continue'));
+    console.log(chalk.yellow('To give up:'));
+    console.log(chalk.gray(`  kunj sync --abort  (restores '${result.branch}'${state.stashed ? ' and your stashed changes' : ''})`));
+    if (state.remaining.length > 0) {
+      console.log(chalk.gray(`\n${state.remaining.length} more branch(es) will be synced after this one`));
+    }
+  }
+
+  private async continueSync(): Promise<void> {
+    const saved = loadSyncState();
+    if (!saved && !(await getOperationInProgress())) {
+      throw new Error('No sync in progress');
+    }
+    const state: SyncState = saved || {
+      originalBranch: await getCurrentBranch(),
+      stashed: false,
+      strategy: (await getOperationInProgress()) || 'rebase',
+      remaining: [],
+      results: [],
+    };
+
+    const conflicts = await getConflictedFiles();
+    if (conflicts.length > 0) {
+      throw new Error(`Resolve and 'git add' these files first: ${conflicts.join(', ')}`);
+    }
+    if (!(await resolveOperationInProgress('continue'))) {
+      const remaining = await getConflictedFiles();
+      saveSyncState(state);
+      this.log(chalk.red('✗ More conflicts came up while continuing'));
+      for (const file of remaining) {
+        this.log(chalk.red(`  ${file}`));
+      }
+      this.log(chalk.gray("Resolve them, 'git add' them, and run 'kunj sync --continue' again"));
+      process.exitCode = 1;
+      return;
+    }
+
+    const last = state.results[state.results.length - 1];
+    if (last && last.status === 'conflict') {
+      last.status = 'updated';
+    }
+    await this.run(state);
+  }
+
+  private async abortSync(): Promise<void> {
+    const state = loadSyncState();
+    if (!(await resolveOperationInProgress('abort'))) {
+      throw new Error('Could not abort the rebase/merge in progress');
+    }
+    if (!state) {
+      this.log(chalk.green('✓ Aborted'));
+      return;
+    }
+    state.remaining = [];
+    state.results = state.results.filter((r) => r.status !== 'conflict');
+    this.log(chalk.green('✓ Aborted the sync'));
+    await this.finish(state);
+  }
+}
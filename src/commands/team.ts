@@ -3,16 +3,11 @@
 import chalk from "chalk";
 import * as fs from "fs";
 import * as path from "path";
-import { exec } from "child_process";
-import { promisify } from "util";
 import { BaseCommand } from "../lib/command";
 import { checkGitRepo } from "../lib/git";
 import { getKunjDir, loadConfig } from "../lib/config";
-import {
-  checkAWSCredentials,
-  getDefaultModelId,
-  getAWSRegion,
-} from "../lib/ai-commit";
+import { checkAICredentials, invokeModel } from "../lib/ai-providers";
+import { getBudgetBlock, formatBudget } from "../lib/ai-usage";
 import {
   analyzeTeamActivity,
   buildTeamContext,
@@ -27,13 +22,13 @@ import {
   fetchMultiChannelHistory,
   SlackMessage,
 } from "../lib/slack";
-
-const execAsync = promisify(exec);
+import { runTool, runToolOrThrow } from "../lib/runner";
 
 interface TeamOptions {
   ai?: boolean;
   limit?: string;
   force?: boolean;
+  cache?: boolean;
 }
 
 interface PRCacheEntry {
@@ -133,6 +128,10 @@ export class TeamCommand extends BaseCommand {
           flags: "-f, --force",
           description: "Force re-fetch all diffs, ignoring cache",
         },
+        {
+          flags: "--no-cache",
+          description: "Regenerate AI summaries instead of reusing cached responses",
+        },
       ],
     });
   }
@@ -412,12 +411,23 @@ export class TeamCommand extends BaseCommand {
     }
 
     // Generate report
-    const useAI = options.ai !== false && config.ai?.enabled;
+    let useAI = options.ai !== false && config.ai?.enabled;
     let reportContent: string;
+
+    // Team reports are the first generation to go when the monthly AI budget runs out
+    const budgetBlock = useAI ? getBudgetBlock("team") : null;
+    if (budgetBlock) {
+      console.log(
+        chalk.yellow(
+          `\nMonthly AI budget exceeded (${formatBudget(budgetBlock)}). Generating structured report.`
+        )
+      );
+      useAI = false;
+    }
     let summaries: PRSummary[] | null = null;
 
     if (useAI) {
-      const hasCredentials = await checkAWSCredentials();
+      const hasCredentials = await checkAICredentials();
       if (hasCredentials) {
         try {
           // Map phase: summarize each PR individually
@@ -427,7 +437,7 @@ export class TeamCommand extends BaseCommand {
             diffs,
             recentActivity,
             newCache,
-            !!options.force
+            !!options.force || options.cache === false
           );
 
           // Save summaries to disk
@@ -485,7 +495,7 @@ export class TeamCommand extends BaseCommand {
               jiraIssues,
               newCache,
               teamDir,
-              !!options.force
+              !!options.force || options.cache === false
             );
           }
         } catch (error: any) {
@@ -505,7 +515,7 @@ export class TeamCommand extends BaseCommand {
       } else {
         console.log(
           chalk.yellow(
-            "AWS credentials not configured. Generating structured report."
+            "AI provider not configured. Generating structured report."
           )
         );
         reportContent = this.generateStructuredReport(
@@ -581,19 +591,17 @@ export class TeamCommand extends BaseCommand {
   }
 
   private async checkGhCli(): Promise<boolean> {
-    try {
-      await execAsync("gh auth status");
-      return true;
-    } catch {
-      return false;
-    }
+    return (await runTool("gh", ["auth", "status"])).success;
   }
 
   private async fetchOpenPRs(limit: number): Promise<PRData[]> {
     try {
-      const { stdout } = await execAsync(
-        `gh pr list --json number,title,author,headRefName,headRefOid,baseRefName,isDraft,additions,deletions,createdAt,updatedAt,labels,url --state open --limit ${limit}`
-      );
+      const { stdout } = await runToolOrThrow("gh", [
+        "pr", "list",
+        "--json", "number,title,author,headRefName,headRefOid,baseRefName,isDraft,additions,deletions,createdAt,updatedAt,labels,url",
+        "--state", "open",
+        "--limit", String(limit),
+      ]);
       return JSON.parse(stdout || "[]");
     } catch (error: any) {
       console.error(chalk.red("Failed to fetch PRs:"), error.message);
@@ -609,8 +617,8 @@ export class TeamCommand extends BaseCommand {
     let reviews: PRReview[] = [];
 
     try {
-      const { stdout: commentsJson } = await execAsync(
-        `gh pr view ${prNumber} --json comments --jq '.comments'`
+      const { stdout: commentsJson } = await runToolOrThrow(
+        "gh", ["pr", "view", String(prNumber), "--json", "comments", "--jq", ".comments"]
       );
       const allComments: PRComment[] = JSON.parse(commentsJson || "[]");
       comments = allComments.filter((c) => c.createdAt >= since);
@@ -619,8 +627,8 @@ export class TeamCommand extends BaseCommand {
     }
 
     try {
-      const { stdout: reviewsJson } = await execAsync(
-        `gh pr view ${prNumber} --json reviews --jq '.reviews'`
+      const { stdout: reviewsJson } = await runToolOrThrow(
+        "gh", ["pr", "view", String(prNumber), "--json", "reviews", "--jq", ".reviews"]
       );
       const allReviews: PRReview[] = JSON.parse(reviewsJson || "[]");
       reviews = allReviews.filter(
@@ -712,9 +720,7 @@ export class TeamCommand extends BaseCommand {
 
   private async fetchPRDiff(prNumber: number): Promise<string> {
     try {
-      const { stdout } = await execAsync(`gh pr diff ${prNumber}`, {
-        maxBuffer: 10 * 1024 * 1024,
-      });
+      const { stdout } = await runToolOrThrow("gh", ["pr", "diff", String(prNumber)]);
       return stdout || "";
     } catch (error: any) {
       console.error(
@@ -724,26 +730,6 @@ export class TeamCommand extends BaseCommand {
     }
   }
 
-  private async getSmallClient(): Promise<any> {
-    const { ChatBedrockConverse } = require("@langchain/aws");
-    const { defaultProvider } = require("@aws-sdk/credential-provider-node");
-    const config = loadConfig();
-    // Use modelSmall if set, otherwise fall back to the same model selection as everything else
-    const modelId =
-      config.ai?.modelSmall ||
-      process.env.BEDROCK_MODEL_SMALL ||
-      getDefaultModelId();
-    const region = await getAWSRegion();
-
-    return new ChatBedrockConverse({
-      model: modelId,
-      region,
-      credentials: defaultProvider(),
-      temperature: 0.3,
-      maxTokens: 500,
-    });
-  }
-
   private buildMapPrompt(
     pr: PRData,
     diff: string,
@@ -844,8 +830,6 @@ DISCUSSION: <summary of recent discussion if any, or "None">`;
         )
       );
 
-      const client = await this.getSmallClient();
-
       // Process in batches
       for (let i = 0; i < toSummarize.length; i += CONCURRENCY) {
         const batch = toSummarize.slice(i, i + CONCURRENCY);
@@ -863,10 +847,13 @@ DISCUSSION: <summary of recent discussion if any, or "None">`;
             const activity = recentActivity.get(pr.number);
             const prompt = this.buildMapPrompt(pr, diff, activity);
 
-            const response = await client.invoke([
-              { role: "user", content: prompt },
-            ]);
-            const content = response.content?.toString() || "";
+            // Use modelSmall for the map phase — one call per PR adds up
+            const content = await invokeModel(prompt, {
+              small: true,
+              temperature: 0.3,
+              maxTokens: 500,
+              feature: "team",
+            });
             return { pr, summary: this.parseSummaryResponse(pr, content) };
           })
         );
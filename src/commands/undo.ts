@@ -0,0 +1,136 @@
+// Undo and history commands - revert kunj operations recorded in the operation journal
+
+import chalk from 'chalk';
+import { BaseCommand } from '../lib/command';
+import { checkGitRepo } from '../lib/git';
+import { finishPendingOperation, loadJournal, getUndoableEntries, undoEntry, describeEntry, JournalEntry } from '../lib/journal';
+import { getRelativeTime } from '../lib/utils';
+
+interface HistoryOptions {
+  limit?: string;
+  all?: boolean;
+}
+
+interface UndoOptions {
+  force?: boolean;
+  dryRun?: boolean;
+}
+
+function printEntry(entry: JournalEntry, label: string): void {
+  const when = getRelativeTime(new Date(entry.timestamp));
+  console.log(
+    `${chalk.yellow(label)} ${chalk.bold(entry.command)} ${chalk.gray(`(${when})`)}` +
+      (entry.undoneAt ? chalk.magenta(' [undone]') : '')
+  );
+  for (const line of describeEntry(entry)) {
+    console.log(chalk.gray(`    ${line}`));
+  }
+}
+
+export class HistoryCommand extends BaseCommand {
+  constructor() {
+    super({
+      name: 'history',
+      description: 'Show recent kunj operations that can be undone',
+      options: [
+        { flags: '-n, --limit <count>', description: 'Number of operations to show', defaultValue: '10' },
+        { flags: '-a, --all', description: 'Include operations that were already undone' },
+      ],
+    });
+  }
+
+  async execute(options: HistoryOptions = {}): Promise<void> {
+    if (!(await checkGitRepo())) {
+      throw new Error('Not a git repository');
+    }
+
+    await finishPendingOperation();
+    const limit = parseInt(options.limit || '10', 10) || 10;
+    const entries = loadJournal()
+      .reverse()
+      .filter((entry) => options.all || !entry.undoneAt)
+      .slice(0, limit);
+
+    if (this.jsonMode) {
+      this.outputJSON({ entries });
+      return;
+    }
+
+    if (entries.length === 0) {
+      console.log(chalk.yellow('No operations recorded yet'));
+      return;
+    }
+
+    console.log(chalk.blue('Recent operations (most recent first):\n'));
+    let undoable = 0;
+    for (const entry of entries) {
+      printEntry(entry, entry.undoneAt ? '   ' : `${String(++undoable).padStart(2)}.`);
+    }
+    console.log(chalk.gray("\nTip: Use 'kunj undo' to revert the last operation, 'kunj undo <n>' for the last n"));
+  }
+}
+
+export class UndoCommand extends BaseCommand {
+  constructor() {
+    super({
+      name: 'undo',
+      description: 'Undo the last n kunj operations (branches, stashes and branch metadata)',
+      arguments: '[n]',
+      options: [
+        { flags: '-f, --force', description: 'Undo even if branches moved since the operation' },
+        { flags: '--dry-run', description: 'Show what would be undone without changing anything' },
+      ],
+    });
+  }
+
+  async execute(count?: string, options: UndoOptions = {}): Promise<void> {
+    if (!(await checkGitRepo())) {
+      throw new Error('Not a git repository');
+    }
+
+    const n = count === undefined ? 1 : parseInt(count, 10);
+    if (!Number.isInteger(n) || n < 1) {
+      throw new Error(`Invalid count '${count}': expected a positive number`);
+    }
+
+    const entries = (await getUndoableEntries()).slice(0, n);
+    if (entries.length === 0) {
+      throw new Error('Nothing to undo');
+    }
+    if (entries.length < n) {
+      this.log(chalk.yellow(`Only ${entries.length} operation(s) can be undone`));
+    }
+
+    if (options.dryRun) {
+      if (this.jsonMode) {
+        this.outputJSON({ dryRun: true, entries });
+        return;
+      }
+      console.log(chalk.blue('Would undo:\n'));
+      entries.forEach((entry, index) => printEntry(entry, `${String(index + 1).padStart(2)}.`));
+      return;
+    }
+
+    const results = [];
+    for (const entry of entries) {
+      const result = await undoEntry(entry, { force: options.force });
+      results.push(result);
+
+      if (!this.jsonMode) {
+        printEntry(entry, chalk.green('✓ Undid'));
+        if (result.savedStash) {
+          console.log(chalk.yellow(`    Uncommitted changes were stashed as '${result.savedStash}'`));
+        }
+        for (const warning of result.warnings) {
+          console.log(chalk.yellow(`    ⚠ ${warning}`));
+        }
+      }
+    }
+
+    if (this.jsonMode) {
+      this.outputJSON({
+        undone: results.map((r) => ({ id: r.entry.id, command: r.entry.command, warnings: r.warnings, savedStash: r.savedStash || null })),
+      });
+    }
+  }
+}
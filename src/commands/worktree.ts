@@ -0,0 +1,147 @@
+// Worktree command - manage one worktree per branch (add|list|remove|open)
+
+import chalk from "chalk";
+import { BaseCommand } from "../lib/command";
+import { checkGitRepo, branchExists } from "../lib/git";
+import { loadBranchMetadata } from "../lib/metadata";
+import { runTool } from "../lib/runner";
+import {
+  listWorktrees,
+  ensureWorktree,
+  removeWorktree,
+  syncWorktreeMetadata,
+  printWorktreeHint,
+} from "../lib/worktree";
+
+interface WorktreeOptions {
+  path?: string;
+  create?: boolean;
+  base?: string;
+  force?: boolean;
+  print?: boolean;
+}
+
+export class WorktreeCommand extends BaseCommand {
+  constructor() {
+    super({
+      name: "worktree",
+      description: "Manage branch worktrees (add|list|remove|open)",
+      journal: true,
+      arguments: "<action> [branch]",
+      options: [
+        { flags: "-p, --path <dir>", description: "Worktree location for add (default: preferences.worktreeDir/<repo>-<branch>)" },
+        { flags: "-c, --create", description: "Create the branch if it does not exist" },
+        { flags: "--base <branch>", description: "Start point for a new branch (default: HEAD)" },
+        { flags: "-f, --force", description: "Remove a worktree even with uncommitted changes" },
+        { flags: "--print", description: "open: print the path instead of starting a shell there" },
+      ],
+    });
+  }
+
+  async execute(action: string, branch?: string, options: WorktreeOptions = {}): Promise<void> {
+    if (!(await checkGitRepo())) {
+      throw new Error("Not a git repository");
+    }
+
+    if (action === "list") {
+      await this.list();
+      return;
+    }
+
+    if (!branch) {
+      throw new Error(`Usage: kunj worktree ${action} <branch>`);
+    }
+
+    switch (action) {
+      case "add":
+        await this.add(branch, options);
+        break;
+      case "remove":
+        await this.remove(branch, options);
+        break;
+      case "open":
+        await this.open(branch, options);
+        break;
+      default:
+        throw new Error(`Unknown action '${action}'. Available: add, list, remove, open`);
+    }
+  }
+
+  private async resolve(branch: string, options: WorktreeOptions): Promise<{ path: string; created: boolean }> {
+    const exists = await branchExists(branch);
+    if (!exists && !options.create) {
+      throw new Error(`Branch '${branch}' does not exist (use -c to create it)`);
+    }
+    return ensureWorktree(branch, { create: !exists, base: options.base, path: options.path });
+  }
+
+  private async add(branch: string, options: WorktreeOptions): Promise<void> {
+    const { path, created } = await this.resolve(branch, options);
+
+    if (this.jsonMode) {
+      this.outputJSON({ branch, path, created });
+      return;
+    }
+    printWorktreeHint(branch, path, created);
+  }
+
+  private async list(): Promise<void> {
+    const worktrees = await listWorktrees();
+    syncWorktreeMetadata(worktrees);
+
+    if (this.jsonMode) {
+      this.outputJSON({ worktrees });
+      return;
+    }
+
+    const metadata = loadBranchMetadata();
+    console.log(chalk.bold("\nWorktrees\n"));
+    for (const wt of worktrees) {
+      const name = wt.branch || chalk.gray(`(detached ${wt.head.substring(0, 7)})`);
+      const flags = [
+        wt.main ? "main" : "",
+        wt.locked ? "locked" : "",
+        wt.prunable ? "prunable" : "",
+      ].filter(Boolean);
+      const description = wt.branch ? metadata.branches[wt.branch]?.description : undefined;
+
+      console.log(
+        `  ${wt.main ? chalk.green("●") : chalk.cyan("◆")} ${chalk.bold(name)}` +
+          (flags.length > 0 ? chalk.gray(` [${flags.join(", ")}]`) : "") +
+          (description ? chalk.cyan(` - ${description}`) : "")
+      );
+      console.log(chalk.gray(`    ${wt.path}`));
+    }
+    console.log(chalk.gray("\n  Open one with: kunj worktree open <branch>"));
+  }
+
+  private async remove(branch: string, options: WorktreeOptions): Promise<void> {
+    const path = await removeWorktree(branch, !!options.force);
+
+    if (this.jsonMode) {
+      this.outputJSON({ branch, path, removed: true });
+      return;
+    }
+    console.log(chalk.green(`✓ Removed worktree for '${branch}'`) + chalk.gray(` (${path})`));
+    console.log(chalk.gray(`  The branch is kept; delete it with: kunj delete ${branch}`));
+  }
+
+  private async open(branch: string, options: WorktreeOptions): Promise<void> {
+    const { path, created } = await this.resolve(branch, options);
+
+    if (this.jsonMode) {
+      this.outputJSON({ branch, path, created });
+      return;
+    }
+
+    // Print just the path for `cd "$(kunj worktree open <branch> --print)"` and non-interactive use
+    if (options.print || !process.stdin.isTTY) {
+      console.log(path);
+      return;
+    }
+
+    const shell = process.env.SHELL || "/bin/sh";
+    console.log(chalk.blue(`Opening a shell in ${path} (exit to return)`));
+    await runTool(shell, [], { cwd: path, stdio: "inherit" });
+  }
+}
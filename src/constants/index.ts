@@ -16,4 +16,7 @@ export const defaultConfig: KunjConfig = {
 
 export const KUNJ_DIR = ".kunj";
 export const CONFIG_FILE = "config.json";
-export const BRANCHES_FILE = "branches.json";
\ No newline at end of file
+export const BRANCHES_FILE = "branches.json";
+export const JOURNAL_FILE = "journal.jsonl";
+export const JOURNAL_PENDING_FILE = "journal-pending.json";
+export const SYNC_STATE_FILE = "sync-state.json";
\ No newline at end of file
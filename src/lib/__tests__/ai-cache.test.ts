@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  getCachedResponse,
+  setCachedResponse,
+  getAICacheKey,
+  getAICacheStats,
+  clearAICache,
+  pruneAICache,
+  setAICacheBypass,
+} from '../ai-cache';
+
+// The real ~/.kunj must never be touched, and os.homedir() ignores process.env.HOME under jest
+let mockHome = '';
+jest.mock('../config', () => ({
+  ...(jest.requireActual('../config') as object),
+  getGlobalKunjDir: () => require('path').join(mockHome, '.kunj'),
+}));
+
+describe('AI response cache', () => {
+  let workDir: string;
+  const originalCwd = process.cwd();
+
+  const writeConfig = (cache: Record<string, unknown>) => {
+    fs.mkdirSync(path.join(workDir, '.kunj'), { recursive: true });
+    fs.writeFileSync(path.join(workDir, '.kunj', 'config.json'), JSON.stringify({ ai: { cache } }));
+  };
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-ai-cache-'));
+    mockHome = workDir;
+    process.chdir(workDir);
+    writeConfig({});
+  });
+
+  afterEach(() => {
+    setAICacheBypass(false);
+    process.chdir(originalCwd);
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should key on provider, model and whitespace-normalized prompt', () => {
+    const key = getAICacheKey('openai', 'gpt-4o', 'Summarize:\n+ added line');
+
+    expect(getAICacheKey('openai', 'gpt-4o', 'Summarize:  \r\n+ added line\n\n')).toBe(key);
+    expect(getAICacheKey('openai', 'gpt-4o-mini', 'Summarize:\n+ added line')).not.toBe(key);
+    expect(getAICacheKey('anthropic', 'gpt-4o', 'Summarize:\n+ added line')).not.toBe(key);
+    expect(getAICacheKey('openai', 'gpt-4o', 'Summarize:\n+ added line', { temperature: 0 })).not.toBe(key);
+    expect(getAICacheKey('openai', 'gpt-4o', 'Summarize:\n+ added line', { maxTokens: 500 })).not.toBe(key);
+  });
+
+  it('should return stored responses and count hits and misses', () => {
+    expect(getCachedResponse('openai', 'gpt-4o', 'prompt')).toBeNull();
+
+    setCachedResponse('openai', 'gpt-4o', 'prompt', 'feat: add cache');
+    expect(getCachedResponse('openai', 'gpt-4o', 'prompt  ')?.content).toBe('feat: add cache');
+
+    const stats = getAICacheStats();
+    expect(stats).toMatchObject({ entries: 1, hits: 1, misses: 1 });
+
+    expect(clearAICache()).toBe(1);
+    expect(getAICacheStats()).toMatchObject({ entries: 0, hits: 0, misses: 0 });
+  });
+
+  it('should ignore expired entries and honor the bypass', () => {
+    setCachedResponse('openai', 'gpt-4o', 'old prompt', 'stale');
+    const [file] = fs.readdirSync(path.join(workDir, '.kunj', 'ai-cache')).filter((f) => f !== '_stats.json');
+    const entryFile = path.join(workDir, '.kunj', 'ai-cache', file);
+    const entry = JSON.parse(fs.readFileSync(entryFile, 'utf8'));
+    entry.createdAt = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+    fs.writeFileSync(entryFile, JSON.stringify(entry));
+
+    writeConfig({ ttlHours: 1 });
+    expect(getCachedResponse('openai', 'gpt-4o', 'old prompt')).toBeNull();
+    expect(fs.existsSync(entryFile)).toBe(false);
+
+    setCachedResponse('openai', 'gpt-4o', 'fresh prompt', 'fresh');
+    setAICacheBypass(true);
+    expect(getCachedResponse('openai', 'gpt-4o', 'fresh prompt')).toBeNull();
+  });
+
+  it('should evict the oldest entries when over the size bound', () => {
+    setCachedResponse('openai', 'gpt-4o', 'first', 'a'.repeat(1000));
+    const cacheDir = path.join(workDir, '.kunj', 'ai-cache');
+    const past = new Date(Date.now() - 60 * 1000);
+    fs.readdirSync(cacheDir).forEach((f) => fs.utimesSync(path.join(cacheDir, f), past, past));
+    setCachedResponse('openai', 'gpt-4o', 'second', 'b'.repeat(1000));
+
+    expect(pruneAICache(1500)).toBe(1);
+    expect(getCachedResponse('openai', 'gpt-4o', 'first')).toBeNull();
+    expect(getCachedResponse('openai', 'gpt-4o', 'second')?.content).toBe('b'.repeat(1000));
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { invokeModel } from '../ai-providers';
+import { AICommand } from '../../commands/ai';
+
+// A preview must never upload anything, not even the diff chunks of the map phase
+jest.mock('../ai-providers', () => ({
+  ...(jest.requireActual('../ai-providers') as object),
+  invokeModel: jest.fn(async () => {
+    throw new Error('invokeModel called during preview');
+  }),
+}));
+
+describe('kunj ai preview', () => {
+  let repoDir: string;
+  const originalCwd = process.cwd();
+  const originalHome = process.env.HOME;
+
+  beforeAll(() => {
+    repoDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-ai-preview-')));
+    process.env.HOME = repoDir;
+    process.chdir(repoDir);
+    execSync('git init -q -b main && git config user.name test && git config user.email test@example.com');
+    fs.writeFileSync('app.txt', 'start\n');
+    execSync('git add app.txt && git commit -q -m init');
+
+    fs.mkdirSync('.kunj');
+    fs.writeFileSync(
+      path.join('.kunj', 'config.json'),
+      JSON.stringify({ ai: { enabled: true, provider: 'anthropic', diffTokenBudget: 100, diffChunkTokens: 50 } })
+    );
+    const lines = Array.from({ length: 40 }, (_, i) => `line ${i} owned by dev${i}@example.com`);
+    fs.writeFileSync('app.txt', `start\n${lines.join('\n')}\n`);
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    process.env.HOME = originalHome;
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should audit every chunk prompt and the final prompt without calling the model', async () => {
+    const command = new AICommand() as any;
+    command.jsonMode = true;
+    let stdout = '';
+    const write = jest.spyOn(process.stdout, 'write').mockImplementation((chunk: any) => {
+      stdout += String(chunk);
+      return true;
+    });
+    const log = jest.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      await command.execute('preview', undefined, {});
+    } finally {
+      write.mockRestore();
+      log.mockRestore();
+    }
+
+    expect(invokeModel).not.toHaveBeenCalled();
+    const output = JSON.parse(stdout);
+    const chunks = output.prompts.slice(0, -1);
+    const final = output.prompts[output.prompts.length - 1];
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].label).toBe(`diff summary 1 of ${chunks.length}`);
+    expect(chunks.every((p: any) => p.redactions.some((m: any) => m.rule === 'email'))).toBe(true);
+    expect(final.label).toBe('commit message prompt');
+    expect(final.content).toContain('<summary of this part by the model>');
+    expect(output.summary).toMatch(/email ×40/);
+    expect(JSON.stringify(output)).not.toContain('@example.com');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { invokeModel } from '../ai-providers';
+import {
+  generateAIReview,
+  annotateDiffWithLineNumbers,
+  getCommentableLines,
+  extractDiffExcerpt,
+  parseReviewResponse,
+  sortFindings,
+} from '../ai-review';
+
+jest.mock('../ai-providers', () => ({ invokeModel: jest.fn() }));
+jest.mock('../config', () => ({
+  ...(jest.requireActual('../config') as object),
+  loadConfig: () => ({ ai: { enabled: true, diffTokenBudget: 60, diffChunkTokens: 60 } }),
+}));
+
+const fileDiff = (file: string) => `diff --git a/${file} b/${file}
+--- a/${file}
++++ b/${file}
+@@ -1,1 +1,2 @@
+ export const value = 1;
++export const other = computeSomethingLong(value, 'with a few arguments');
+`;
+
+const DIFF = `diff --git a/src/api.ts b/src/api.ts
+index 1111111..2222222 100644
+--- a/src/api.ts
++++ b/src/api.ts
+@@ -10,4 +10,5 @@ export function handler(req: Request) {
+   const id = req.params.id;
+-  const user = db.find(id);
++  const user = db.query(\`SELECT * FROM users WHERE id = \${id}\`);
++  log(user);
+   return user;
+ }
+`;
+
+describe('ai-review', () => {
+  it('should number added and context lines by their new-file line', () => {
+    const annotated = annotateDiffWithLineNumbers(DIFF).split('\n');
+
+    expect(annotated).toContain('  10    const id = req.params.id;');
+    expect(annotated).toContain('     -  const user = db.find(id);');
+    expect(annotated).toContain('  12 +  log(user);');
+    expect(annotated).toContain('+++ b/src/api.ts');
+  });
+
+  it('should list the lines that can carry inline comments', () => {
+    const lines = getCommentableLines(DIFF);
+
+    expect([...lines.get('src/api.ts')!]).toEqual([10, 11, 12, 13, 14]);
+  });
+
+  it('should cut a hunk excerpt around a finding', () => {
+    const excerpt = extractDiffExcerpt(DIFF, 'src/api.ts', 12, 0);
+
+    expect(excerpt).toBe('@@ -12,0 +12,1 @@\n+  log(user);');
+    expect(extractDiffExcerpt(DIFF, 'src/missing.ts', 12)).toBeNull();
+  });
+
+  it('should parse findings and normalize bad fields', () => {
+    const content = `Here is the review:
+[
+  {"file": "b/src/api.ts", "line": "11", "severity": "CRITICAL", "category": "Security", "message": "SQL injection", "suggestion": "Use a parameterized query"},
+  {"file": "src/api.ts", "line": 12, "severity": "blocker", "category": "debug", "message": "Stray log"},
+  {"line": 3, "message": "no file"}
+]`;
+    const findings = parseReviewResponse(content);
+
+    expect(findings).toEqual([
+      { file: 'src/api.ts', line: 11, severity: 'critical', category: 'security', message: 'SQL injection', suggestion: 'Use a parameterized query' },
+      { file: 'src/api.ts', line: 12, severity: 'suggestion', category: 'debug', message: 'Stray log', suggestion: '' },
+    ]);
+    expect(() => parseReviewResponse('No issues found.')).toThrow('no JSON array');
+  });
+
+  it('should sort findings by severity then location', () => {
+    const base = { category: 'bug', message: 'm', suggestion: '' };
+    const sorted = sortFindings([
+      { ...base, file: 'b.ts', line: 1, severity: 'nit' },
+      { ...base, file: 'b.ts', line: 9, severity: 'critical' },
+      { ...base, file: 'a.ts', line: 5, severity: 'critical' },
+    ]);
+
+    expect(sorted.map((f) => `${f.severity}:${f.file}:${f.line}`)).toEqual([
+      'critical:a.ts:5',
+      'critical:b.ts:9',
+      'nit:b.ts:1',
+    ]);
+  });
+
+  it('should report parts that failed and throw when none could be reviewed', async () => {
+    const model = invokeModel as jest.MockedFunction<typeof invokeModel>;
+    const diff = fileDiff('a.ts') + fileDiff('b.ts');
+    const quiet = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    model.mockImplementation(async (prompt: string) => {
+      if (prompt.includes('b/b.ts')) {
+        throw new Error('throttled');
+      }
+      return '[{"file": "a.ts", "line": 2, "severity": "nit", "message": "Long line"}]';
+    });
+    const partial = await generateAIReview(diff);
+    expect(partial.findings.map((f) => f.file)).toEqual(['a.ts']);
+    expect(partial).toMatchObject({ failedParts: 1, totalParts: 2 });
+
+    model.mockRejectedValue(new Error('invalid credentials'));
+    await expect(generateAIReview(diff)).rejects.toThrow('AI review failed for all 2 parts: invalid credentials');
+    quiet.mockRestore();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  recordUsage,
+  readUsageLedger,
+  buildUsageReport,
+  findModelPrice,
+  getPriceTable,
+  enforceBudget,
+  getBudgetBlock,
+  getMonthStart,
+} from '../ai-usage';
+
+// Keep the ledger out of the real ~/.kunj
+let mockHome = '';
+jest.mock('../config', () => ({
+  ...(jest.requireActual('../config') as object),
+  getGlobalKunjDir: () => require('path').join(mockHome, '.kunj'),
+}));
+
+describe('AI usage ledger', () => {
+  let workDir: string;
+  const originalCwd = process.cwd();
+
+  const writeConfig = (ai: Record<string, unknown>) => {
+    fs.mkdirSync(path.join(workDir, '.kunj'), { recursive: true });
+    fs.writeFileSync(path.join(workDir, '.kunj', 'config.json'), JSON.stringify({ ai }));
+  };
+
+  const call = (feature: 'commit' | 'team', model: string, inputTokens: number, outputTokens: number, cached = false) => ({
+    feature,
+    provider: 'anthropic',
+    model,
+    inputTokens,
+    outputTokens,
+    estimated: false,
+    latencyMs: 1200,
+    cached,
+  });
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-ai-usage-'));
+    mockHome = workDir;
+    process.chdir(workDir);
+    writeConfig({});
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should price models by the longest matching name, with config overrides', () => {
+    expect(findModelPrice('gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+    expect(findModelPrice('us.anthropic.claude-3-5-haiku-20241022-v1:0')).toEqual({ input: 0.8, output: 4 });
+    expect(findModelPrice('llama3:8b')).toBeNull();
+
+    writeConfig({ usage: { prices: ['llama3=0/0', 'gpt-4o=5/20'] } });
+    const table = getPriceTable();
+    expect(findModelPrice('llama3:8b', table)).toEqual({ input: 0, output: 0 });
+    expect(findModelPrice('gpt-4o-2024-08-06', table)).toEqual({ input: 5, output: 20 });
+  });
+
+  it('should aggregate recorded calls per feature and model', () => {
+    recordUsage(call('commit', 'claude-3-5-haiku-latest', 10_000, 1_000));
+    recordUsage(call('commit', 'claude-3-5-haiku-latest', 0, 0, true));
+    recordUsage(call('team', 'claude-sonnet-4-20250514', 100_000, 10_000));
+    recordUsage(call('team', 'my-local-model', 500, 50));
+
+    const since = getMonthStart();
+    const report = buildUsageReport(readUsageLedger(since), since);
+
+    expect(report.total).toMatchObject({ calls: 4, cachedCalls: 1, inputTokens: 110_500, outputTokens: 11_050 });
+    expect(report.total.unpricedModels).toEqual(['my-local-model']);
+    expect(report.byFeature.commit.costUSD).toBeCloseTo(0.012);
+    expect(report.byFeature.team.costUSD).toBeCloseTo(0.45);
+    expect(Object.keys(report.byDay)).toHaveLength(1);
+  });
+
+  it('should block only non-essential features once the monthly budget is spent', () => {
+    recordUsage(call('team', 'claude-opus-4-20250514', 1_000_000, 0));
+
+    writeConfig({ budget: { monthlyUSD: 10, action: 'warn' } });
+    expect(getBudgetBlock('team')).toBeNull();
+
+    writeConfig({ budget: { monthlyUSD: 10, action: 'block' } });
+    expect(getBudgetBlock('team')).toMatchObject({ spentUSD: 15, exceeded: true });
+    expect(() => enforceBudget('team')).toThrow(/Monthly AI budget exceeded \(\$15\.00 of \$10\.00\)/);
+
+    const warn = jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => enforceBudget('commit')).not.toThrow();
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
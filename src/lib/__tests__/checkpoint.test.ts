@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  saveCheckpoint,
+  listCheckpoints,
+  resolveCheckpoint,
+  diffCheckpoint,
+  restoreCheckpoint,
+  dropCheckpoints,
+} from '../checkpoint';
+
+const git = (args: string) => execSync(`git ${args}`).toString().trim();
+
+describe('checkpoints', () => {
+  let repoDir: string;
+  const originalCwd = process.cwd();
+
+  beforeAll(() => {
+    repoDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-checkpoint-')));
+    process.chdir(repoDir);
+    execSync('git init -q -b main && git config user.name test && git config user.email test@example.com');
+    fs.writeFileSync('a.txt', 'a\n');
+    fs.writeFileSync('b.txt', 'b\n');
+    git('add a.txt b.txt');
+    git('commit -q -m init');
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should snapshot tracked and untracked changes without touching the index', async () => {
+    fs.writeFileSync('a.txt', 'work in progress\n');
+    fs.writeFileSync('new.txt', 'untracked\n');
+    git('add a.txt');
+    const staged = git('diff --cached --name-only');
+
+    const checkpoint = await saveCheckpoint('before refactor');
+
+    expect(checkpoint.ref).toBe(`refs/kunj/checkpoints/main/${checkpoint.id}`);
+    expect(git(`show ${checkpoint.sha}:new.txt`)).toBe('untracked');
+    expect(git(`show ${checkpoint.sha}:a.txt`)).toBe('work in progress');
+    expect(git(`rev-parse ${checkpoint.sha}^`)).toBe(git('rev-parse HEAD'));
+    expect(git('diff --cached --name-only')).toBe(staged);
+    expect(git('status --porcelain -- new.txt')).toBe('?? new.txt');
+    expect(await resolveCheckpoint('main')).toEqual(checkpoint);
+  });
+
+  it('should list newest first and resolve by index or id', async () => {
+    const second = await saveCheckpoint('second');
+    const checkpoints = await listCheckpoints('main');
+
+    expect(checkpoints.map((cp) => cp.message)).toEqual(['second', 'before refactor']);
+    expect(await resolveCheckpoint('main', '1')).toEqual(checkpoints[1]);
+    expect(await resolveCheckpoint('main', second.id)).toEqual(second);
+    await expect(resolveCheckpoint('main', 'nope')).rejects.toThrow("Unknown checkpoint 'nope'");
+    await expect(listCheckpoints('other')).resolves.toEqual([]);
+
+    // Checkpoints of 'main/sub' share the ref prefix of 'main'
+    git(`update-ref refs/kunj/checkpoints/main/sub/1 ${second.sha}`);
+    expect((await listCheckpoints('main')).map((cp) => cp.ref)).toEqual(checkpoints.map((cp) => cp.ref));
+    git('update-ref -d refs/kunj/checkpoints/main/sub/1');
+
+    await dropCheckpoints([second]);
+    expect((await listCheckpoints()).map((cp) => cp.message)).toEqual(['before refactor']);
+  });
+
+  it('should diff and restore single files or the whole tree, keeping a backup', async () => {
+    const checkpoint = await resolveCheckpoint('main');
+    fs.writeFileSync('a.txt', 'broken\n');
+    fs.unlinkSync('b.txt');
+    fs.writeFileSync('scratch.txt', 'scratch\n');
+
+    const diff = await diffCheckpoint(checkpoint, ['a.txt']);
+    expect(diff).toContain('-work in progress');
+    expect(diff).toContain('+broken');
+    expect(diff).not.toContain('scratch');
+
+    const partial = await restoreCheckpoint(checkpoint, ['a.txt']);
+    expect(fs.readFileSync('a.txt', 'utf8')).toBe('work in progress\n');
+    expect(fs.existsSync('b.txt')).toBe(false);
+    expect(partial.backup?.message).toBe(`Before restoring ${checkpoint.id}`);
+    await expect(restoreCheckpoint(checkpoint, ['missing.txt'])).rejects.toThrow('Not in checkpoint');
+
+    const whole = await restoreCheckpoint(checkpoint);
+    expect(fs.readFileSync('b.txt', 'utf8')).toBe('b\n');
+    expect(fs.readFileSync('new.txt', 'utf8')).toBe('untracked\n');
+    expect(fs.existsSync('scratch.txt')).toBe(false);
+    expect(whole.removed).toEqual(['scratch.txt']);
+    expect(git(`show ${whole.backup!.sha}:scratch.txt`)).toBe('scratch');
+
+    expect((await restoreCheckpoint(checkpoint)).backup).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildCleanupPlan, applyCleanupPlan, isSquashMerged } from '../cleanup';
+import { loadBranchMetadata, updateBranchMetadata } from '../metadata';
+
+const git = (args: string, env: Record<string, string> = {}) =>
+  execSync(`git ${args}`, { env: { ...process.env, ...env } }).toString().trim();
+
+const commitFile = (name: string, content: string, env: Record<string, string> = {}) => {
+  fs.writeFileSync(name, content);
+  git(`add ${name}`);
+  git(`commit -q -m "update ${name}"`, env);
+};
+
+describe('branch cleanup', () => {
+  let repoDir: string;
+  const originalCwd = process.cwd();
+  const old = '2020-01-01T00:00:00Z';
+
+  beforeAll(() => {
+    repoDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-cleanup-')));
+    process.chdir(repoDir);
+    execSync('git init -q -b main && git config user.name test && git config user.email test@example.com');
+    commitFile('base.txt', 'base\n');
+
+    // Merged with a merge commit
+    git('switch -q -c feat/merged');
+    commitFile('merged.txt', 'merged\n');
+    git('switch -q main');
+    git('merge -q --no-ff --no-edit feat/merged');
+
+    // Created, never committed to, and left behind as main moved on
+    git('branch feat/fresh');
+
+    // Two commits squashed into one on main
+    git('switch -q -c feat/squashed');
+    commitFile('squash.txt', 'one\n');
+    commitFile('squash.txt', 'two\n');
+    git('switch -q main');
+    git('merge -q --squash feat/squashed');
+    git('commit -q -m "squashed feature"');
+
+    // Unmerged work, one fresh and one untouched for years
+    git('switch -q -c feat/active');
+    commitFile('active.txt', 'active\n');
+    git('switch -q -c feat/old main');
+    commitFile('old.txt', 'old\n', { GIT_COMMITTER_DATE: old, GIT_AUTHOR_DATE: old });
+    git('switch -q main');
+
+    updateBranchMetadata('feat/gone', { description: 'deleted long ago' });
+    updateBranchMetadata('feat/child', { stackParent: 'feat/gone' });
+    updateBranchMetadata('feat/active', {
+      stashes: [{ ref: 'stash@{0}', message: 'kunj-auto-stash-feat/active-1', timestamp: old }],
+    });
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should detect squash merges by patch-id', async () => {
+    expect(await isSquashMerged('feat/squashed', 'main')).toBe(true);
+    expect(await isSquashMerged('feat/active', 'main')).toBe(false);
+  });
+
+  it('should plan merged, squash-merged and stale branches plus orphaned metadata', async () => {
+    const plan = await buildCleanupPlan({ staleDays: 90, checkPRs: false });
+
+    expect(plan.targets).toEqual(['main']);
+    expect(plan.branches.map((c) => [c.branch, c.reason, c.selected])).toEqual([
+      ['feat/merged', 'merged', true],
+      ['feat/squashed', 'squash-merged', true],
+      ['feat/old', 'stale', false],
+    ]);
+    expect(plan.orphanedMetadata).toEqual(['feat/child', 'feat/gone']);
+    expect(plan.staleStashRecords).toEqual([{ branch: 'feat/active', message: 'kunj-auto-stash-feat/active-1' }]);
+  });
+
+  it('should delete only selected branches and prune metadata', async () => {
+    const plan = await buildCleanupPlan({ staleDays: 90, checkPRs: false });
+    const outcome = await applyCleanupPlan(plan);
+
+    expect(outcome.deleted).toEqual(['feat/merged', 'feat/squashed']);
+    expect(outcome.failed).toEqual([]);
+    expect(git("branch --format='%(refname:short)'").split('\n').sort()).toEqual(['feat/active', 'feat/fresh', 'feat/old', 'main']);
+    expect(Object.keys(loadBranchMetadata().branches)).toEqual(['feat/active']);
+    expect(loadBranchMetadata().branches['feat/active'].stashes).toEqual([]);
+  });
+});
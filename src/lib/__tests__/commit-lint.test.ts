@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { lintCommitMessage, cleanCommitMessage, hasLintErrors } from '../commit-lint';
+import { getCommitMessagesInRange } from '../git';
+import { installHookBlock, uninstallHookBlock, getHookStatus } from '../hooks';
+
+// A global core.hooksPath (some CI images set /dev/null) must not redirect the test hooks
+let mockHooksDir = '';
+jest.mock('../git', () => ({
+  ...(jest.requireActual('../git') as object),
+  getHooksDir: async () => mockHooksDir,
+}));
+
+const conventional = { style: 'conventional', maxLength: 50 };
+
+describe('commit linting', () => {
+  it('should accept a valid conventional commit and report each broken rule', () => {
+    expect(lintCommitMessage('feat(auth): add token refresh\n\nRefresh before expiry.', conventional).issues).toEqual([]);
+
+    const result = lintCommitMessage('Added a really long subject line that keeps going on and on.\nno blank line', conventional);
+    expect(result.issues.map((i) => `${i.severity}:${i.rule}`)).toEqual([
+      'error:style',
+      'error:subject-max-length',
+      'warning:subject-full-stop',
+      'error:body-leading-blank',
+    ]);
+    expect(hasLintErrors([result])).toBe(true);
+  });
+
+  it('should require a Jira key when configured and skip git-generated messages', () => {
+    const withJira = { ...conventional, jiraKey: 'PROJ' };
+
+    expect(lintCommitMessage('fix: handle empty cart', withJira).issues.map((i) => i.rule)).toEqual(['jira-key']);
+    expect(lintCommitMessage('fix: handle empty cart\n\nRefs PROJ-42', withJira).issues).toEqual([]);
+    expect(lintCommitMessage("Merge branch 'main' into feature", withJira).skipped).toBe('merge commit');
+    expect(lintCommitMessage('fixup! fix: handle empty cart', withJira).skipped).toBe('autosquash commit');
+  });
+
+  it('should strip comments and the scissors section from a message file', () => {
+    const file = 'feat: add export\n\n# Please enter the commit message\nBody line\n# ------------------------ >8 ------------------------\ndiff --git a/x b/x';
+    expect(cleanCommitMessage(file)).toBe('feat: add export\n\nBody line');
+  });
+});
+
+describe('commit range and commit-msg hook', () => {
+  let repoDir: string;
+  const originalCwd = process.cwd();
+
+  beforeAll(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-lint-'));
+    mockHooksDir = path.join(repoDir, '.git', 'hooks');
+    process.chdir(repoDir);
+    const commit = (msg: string) =>
+      execSync(`git -c user.name=test -c user.email=test@example.com commit -q --allow-empty -F -`, { input: msg });
+    execSync('git init -q');
+    commit('chore: init');
+    execSync('git tag base');
+    commit('feat: first change\n\nWith a body.');
+    commit('second change');
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should read full messages for a range, oldest first', async () => {
+    const commits = await getCommitMessagesInRange('base..HEAD');
+    expect(commits.map((c) => c.message)).toEqual(['feat: first change\n\nWith a body.', 'second change']);
+    expect(commits[0].sha).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  it('should add its block next to an existing hook and remove only its own block', async () => {
+    const hookPath = path.join(repoDir, '.git', 'hooks', 'commit-msg');
+    fs.writeFileSync(hookPath, '#!/bin/sh\n./scripts/check-signoff "$1"\nexit 0\n');
+
+    await installHookBlock('commit-msg', 'lint-commits', 'kunj lint-commits --file "$1" || exit 1');
+    await installHookBlock('commit-msg', 'lint-commits', 'kunj lint-commits --file "$1" || exit 1');
+
+    const content = fs.readFileSync(hookPath, 'utf8');
+    expect(content.match(/>>> kunj:lint-commits >>>/g)).toHaveLength(1);
+    expect(content.indexOf('kunj lint-commits')).toBeLessThan(content.indexOf('exit 0'));
+    expect(await getHookStatus('commit-msg', 'lint-commits')).toMatchObject({ installed: true, hasOtherContent: true });
+
+    expect(await uninstallHookBlock('commit-msg', 'lint-commits')).toBe(true);
+    expect(fs.readFileSync(hookPath, 'utf8')).toBe('#!/bin/sh\n./scripts/check-signoff "$1"\nexit 0\n');
+  });
+});
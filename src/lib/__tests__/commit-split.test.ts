@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { collectChangeUnits, parseCommitSplitResponse, stageChangeUnits, ChangeUnit } from '../commit-split';
+
+describe('commit splitting', () => {
+  let repoDir: string;
+  let units: ChangeUnit[];
+  const originalCwd = process.cwd();
+
+  beforeAll(async () => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-split-'));
+    process.chdir(repoDir);
+
+    const lines = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`);
+    fs.writeFileSync('app.txt', lines.join('\n') + '\n');
+    execSync('git init -q && git add app.txt && git -c user.name=test -c user.email=test@example.com commit -q -m init');
+
+    // Two separate hunks in app.txt plus an untracked file
+    lines[1] = 'line 2 changed';
+    lines[27] = 'line 28 changed';
+    fs.writeFileSync('app.txt', lines.join('\n') + '\n');
+    fs.writeFileSync('notes.md', '# Notes\n');
+
+    units = await collectChangeUnits();
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should collect one unit per hunk and per new file', () => {
+    expect(units.map((u) => `${u.id}:${u.file}:${u.kind}`)).toEqual([
+      'u1:app.txt:hunk',
+      'u2:app.txt:hunk',
+      'u3:notes.md:file',
+    ]);
+    expect(units[2].preview).toBe('+# Notes\n+');
+  });
+
+  it('should parse the plan and leave unknown or unassigned units out', () => {
+    const plan = parseCommitSplitResponse(
+      `COMMIT:
+TYPE: fix
+MESSAGE: correct the second line
+BODY: none
+UNITS: u1, u9
+
+COMMIT:
+TYPE: docs
+MESSAGE: add notes
+BODY: Start a notes file.
+UNITS: u3, u1`,
+      units,
+      'conventional'
+    );
+
+    expect(plan.groups.map((g) => g.message)).toEqual([
+      'fix: correct the second line',
+      'docs: add notes\n\nStart a notes file.',
+    ]);
+    expect(plan.groups.map((g) => g.units.map((u) => u.id))).toEqual([['u1'], ['u3']]);
+    expect(plan.unassigned.map((u) => u.id)).toEqual(['u2']);
+  });
+
+  it('should stage only the hunks of a group', async () => {
+    const result = await stageChangeUnits([units[1], units[2]]);
+    expect(result.success).toBe(true);
+
+    const staged = execSync('git diff --cached --no-color').toString();
+    expect(staged).toContain('+line 28 changed');
+    expect(staged).not.toContain('+line 2 changed');
+    expect(staged).toContain('+++ b/notes.md');
+
+    // The other hunk still applies after its neighbour was staged
+    expect((await stageChangeUnits([units[0]])).success).toBe(true);
+    expect(execSync('git diff --no-color').toString()).toBe('');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getCommitStyleNames, getCommitStyle, getCommitStylePrompt, validateCommitSubject } from '../commit-styles';
+import { formatCommitMessage } from '../ai-commit';
+
+// Global styles come from a temp "home" instead of the real ~/.kunj
+let mockHome = '';
+jest.mock('../config', () => ({
+  ...(jest.requireActual('../config') as object),
+  getGlobalKunjDir: () => require('path').join(mockHome, '.kunj'),
+}));
+
+describe('user-defined commit styles', () => {
+  let workDir: string;
+  const originalCwd = process.cwd();
+
+  beforeAll(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-styles-'));
+    mockHome = path.join(workDir, 'home');
+    process.chdir(workDir);
+
+    const projectDir = path.join(workDir, '.kunj', 'commit-styles');
+    const globalDir = path.join(mockHome, '.kunj', 'commit-styles');
+    fs.mkdirSync(projectDir, { recursive: true });
+    fs.mkdirSync(globalDir, { recursive: true });
+
+    fs.writeFileSync(
+      path.join(projectDir, 'jira.json'),
+      JSON.stringify({
+        name: 'Jira Prefixed',
+        prompt: 'Write a commit subject of at most {maxLength} characters.',
+        types: [{ value: 'FEAT', description: 'New feature' }, 'FIX=Bug fix'],
+        format: '{type} PROJ-123 {message}',
+        pattern: '^(FEAT|FIX) [A-Z]+-\\d+ \\S',
+        examples: ['FEAT PROJ-42 add export button'],
+      })
+    );
+    fs.writeFileSync(
+      path.join(globalDir, 'terse.md'),
+      ['---', 'name: Terse', 'types: add, fix, drop', 'pattern: ^(add|fix|drop) ', '---', 'One short line. No body.'].join('\n')
+    );
+    fs.writeFileSync(path.join(projectDir, 'broken.json'), '{ not json');
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should list project and global styles next to the built-ins and skip invalid files', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const names = getCommitStyleNames();
+
+    expect(names).toEqual(expect.arrayContaining(['conventional', 'custom', 'jira', 'terse']));
+    expect(names).not.toContain('broken');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('broken.json'));
+    expect(getCommitStyle('terse').types?.map((t) => t.value)).toEqual(['add', 'fix', 'drop']);
+    warn.mockRestore();
+  });
+
+  it('should build prompts, format subjects and validate them with the style', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const prompt = getCommitStylePrompt('jira', 60, false);
+    expect(prompt).toContain('at most 60 characters');
+    expect(prompt).toContain('- FIX: Bug fix');
+    expect(prompt).toContain('- FEAT PROJ-42 add export button');
+
+    expect(formatCommitMessage('jira', 'FIX', 'handle empty export')).toBe('FIX PROJ-123 handle empty export');
+    expect(validateCommitSubject('jira', 'FIX PROJ-123 handle empty export')).toBeNull();
+    expect(validateCommitSubject('jira', 'fix: handle empty export')).toMatch(/Jira Prefixed/);
+    expect(validateCommitSubject('conventional', 'feat(ui): add button')).toBeNull();
+    expect(validateCommitSubject('conventional', 'Add button')).not.toBeNull();
+
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from '@jest/globals';
+import { chunkDiff, formatDiffSection } from '../diff-summarizer';
+import { estimateTokenCount } from '../ai-usage';
+
+function fileDiff(name: string, hunks: string[]): string {
+  return `diff --git a/${name} b/${name}
+index 1111111..2222222 100644
+--- a/${name}
++++ b/${name}
+${hunks.join('')}`;
+}
+
+function hunk(start: number, lines: number): string {
+  let body = `@@ -${start},${lines} +${start},${lines} @@\n`;
+  for (let i = 0; i < lines; i++) {
+    body += `+const value${start + i} = ${start + i};\n`;
+  }
+  return body;
+}
+
+describe('diff-summarizer', () => {
+  it('should pack small files into one chunk', () => {
+    const diff = fileDiff('a.ts', [hunk(1, 2)]) + fileDiff('b.ts', [hunk(1, 2)]);
+    const chunks = chunkDiff(diff, 1000);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].files).toEqual(['a.ts', 'b.ts']);
+    expect(chunks[0].content).toBe(diff);
+  });
+
+  it('should split a large file on hunk boundaries and repeat its header', () => {
+    const diff = fileDiff('big.ts', [hunk(1, 40), hunk(100, 40), hunk(200, 40)]);
+    const chunks = chunkDiff(diff, 400);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.files).toEqual(['big.ts']);
+      expect(chunk.content.startsWith('diff --git a/big.ts b/big.ts')).toBe(true);
+      expect(chunk.tokens).toBeLessThanOrEqual(400);
+    }
+    expect(chunks[0].part).toBe(`1/${chunks.length}`);
+  });
+
+  it('should split a single oversized hunk on line boundaries', () => {
+    const diff = fileDiff('huge.ts', [hunk(1, 500)]);
+    const chunks = chunkDiff(diff, 500);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((c) => c.tokens <= 500)).toBe(true);
+    // No added line is lost between chunks
+    const added = chunks.reduce((n, c) => n + (c.content.match(/^\+const/gm) || []).length, 0);
+    expect(added).toBe(500);
+  });
+
+  it('should keep small diffs verbatim in the prompt section', () => {
+    const diff = fileDiff('a.ts', [hunk(1, 1)]);
+    const section = formatDiffSection({ text: diff, summarized: false, chunkCount: 0 }, 'Diff');
+
+    expect(section).toBe('Diff:\n```diff\n' + diff + '\n```');
+    expect(estimateTokenCount(diff)).toBe(Math.ceil(diff.length / 4));
+  });
+});
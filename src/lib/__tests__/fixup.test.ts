@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { rankFixupTargets, createFixupCommit, autosquash } from '../fixup';
+
+const git = (args: string) => execSync(`git ${args}`).toString().trim();
+
+describe('fixup workflow', () => {
+  let repoDir: string;
+  const originalCwd = process.cwd();
+
+  beforeAll(() => {
+    repoDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-fixup-')));
+    process.chdir(repoDir);
+    execSync('git init -q -b main && git config user.name test && git config user.email test@example.com');
+    fs.writeFileSync('app.txt', 'one\ntwo\nthree\n');
+    git('add app.txt');
+    git('commit -q -m init');
+
+    git('switch -q -c feat/x');
+    fs.writeFileSync('app.txt', 'one\nTWO\nthree\n');
+    git('commit -q -am "Shout two"');
+    fs.writeFileSync('other.txt', 'a\nb\n');
+    git('add other.txt');
+    git('commit -q -m "Add other"');
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should rank branch commits by blame overlap with the staged lines', async () => {
+    fs.writeFileSync('app.txt', 'one\nTWO!\nthree\n');
+    git('add app.txt');
+
+    const candidates = await rankFixupTargets();
+
+    expect(candidates.map((c) => [c.subject, c.overlap])).toEqual([
+      ['Shout two', 1],
+      ['Add other', 0],
+    ]);
+  });
+
+  it('should create a fixup commit and autosquash it into its target', async () => {
+    const [target] = await rankFixupTargets();
+    const fixup = await createFixupCommit(target.sha);
+    expect(fixup.subject).toBe('fixup! Shout two');
+
+    // Insertions are matched through their neighbours
+    fs.writeFileSync('other.txt', 'a\nb\nc\n');
+    git('add other.txt');
+    expect((await rankFixupTargets())[0].subject).toBe('Add other');
+    git('reset -q');
+    fs.writeFileSync('scratch.txt', 'uncommitted\n');
+
+    const result = await autosquash();
+
+    expect(result).toMatchObject({ status: 'squashed', fixups: 1, base: git('rev-parse main') });
+    expect(git("log --format=%s main..HEAD")).toBe('Add other\nShout two');
+    expect(git('show HEAD~1:app.txt')).toBe('one\nTWO!\nthree');
+    expect(fs.readFileSync('other.txt', 'utf8')).toBe('a\nb\nc\n');
+    expect(await autosquash()).toMatchObject({ status: 'up-to-date', fixups: 0 });
+  });
+
+  it('should refuse to autosquash across merge commits', async () => {
+    git('checkout -q -- other.txt');
+    fs.rmSync('scratch.txt');
+    git('switch -q -c side main');
+    fs.writeFileSync('side.txt', 'side\n');
+    git('add side.txt');
+    git('commit -q -m "Side work"');
+    git('switch -q feat/x');
+    git('merge -q --no-edit side');
+    git('commit -q --allow-empty -m "fixup! Add other"');
+
+    await expect(autosquash()).rejects.toThrow(/merge commits/);
+    expect(git('rev-list --merges --count main..HEAD')).toBe('1');
+  });
+});
@@ -1,7 +1,22 @@
 // Simple tests for git utilities
 
-import { describe, it, expect } from '@jest/globals';
-import { getMainBranch } from '../git';
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  getMainBranch,
+  executeGitCommand,
+  getCurrentBranch,
+  branchExists,
+  switchBranch,
+  deleteBranch,
+  stageFiles,
+  createCommit,
+  getCommitMessagesInRange,
+} from '../git';
+import { GitHubProvider } from '../pr-providers';
 
 describe('Git Utilities', () => {
   describe('getMainBranch', () => {
@@ -32,4 +47,70 @@ describe('Git Utilities', () => {
       expect(str.length).toBe(8);
     });
   });
-});
\ No newline at end of file
+});
+describe('hostile branch names and messages', () => {
+  const hostileBranch = 'feat/$(touch${IFS}pwned)';
+  const quotedBranch = 'fix/`touch${IFS}pwned`;echo"q\'s|cat';
+  const hostileMessage = 'fix: handle "quotes" and `ticks`\n\n$(touch pwned) \'single\' $HOME; rm -rf /';
+  let repoDir: string;
+  let binDir: string;
+  const originalCwd = process.cwd();
+  const originalPath = process.env.PATH;
+
+  beforeAll(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-hostile-'));
+    process.chdir(repoDir);
+    execSync('git init -q && git config user.name test && git config user.email test@example.com');
+    execSync('git commit -q --allow-empty -m init');
+
+    // Fake gh that records its argv, to check PR titles and bodies reach it untouched
+    binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-bin-'));
+    fs.writeFileSync(
+      path.join(binDir, 'gh'),
+      `#!${process.execPath}\nrequire('fs').writeFileSync(${JSON.stringify(path.join(binDir, 'argv.json'))}, JSON.stringify(process.argv.slice(2)));\nconsole.log('https://github.com/o/r/pull/1');\n`,
+      { mode: 0o755 }
+    );
+    process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+  });
+
+  afterAll(() => {
+    process.env.PATH = originalPath;
+    process.chdir(originalCwd);
+    fs.rmSync(repoDir, { recursive: true, force: true });
+    fs.rmSync(binDir, { recursive: true, force: true });
+  });
+
+  it('should create, detect and switch branches whose names contain shell syntax', async () => {
+    for (const branch of [hostileBranch, quotedBranch]) {
+      expect((await executeGitCommand(['switch', '-c', branch])).success).toBe(true);
+      expect(await getCurrentBranch()).toBe(branch);
+      expect(await branchExists(branch)).toBe(true);
+    }
+
+    expect((await switchBranch(hostileBranch)).success).toBe(true);
+    expect((await deleteBranch(quotedBranch, true)).success).toBe(true);
+    expect(await branchExists(quotedBranch)).toBe(false);
+    expect(fs.readdirSync(repoDir).filter((f) => f.startsWith('pwned'))).toEqual([]);
+  });
+
+  it('should commit hostile messages byte-for-byte', async () => {
+    fs.writeFileSync(path.join(repoDir, '$(touch pwned).txt'), 'data\n');
+    expect((await stageFiles(['$(touch pwned).txt'])).success).toBe(true);
+    expect((await createCommit(hostileMessage)).success).toBe(true);
+
+    const [commit] = await getCommitMessagesInRange('HEAD~1..HEAD');
+    expect(commit.message).toBe(hostileMessage);
+    expect(fs.existsSync(path.join(repoDir, 'pwned'))).toBe(false);
+  });
+
+  it('should pass PR titles and bodies to gh as single arguments', async () => {
+    const title = 'feat: "$(touch pwned)" `id` it\'s';
+    const result = await new GitHubProvider().createPR(hostileBranch, 'main', title, hostileMessage);
+
+    expect(result).toMatchObject({ success: true, prUrl: 'https://github.com/o/r/pull/1' });
+    expect(JSON.parse(fs.readFileSync(path.join(binDir, 'argv.json'), 'utf8'))).toEqual([
+      'pr', 'create', '--base', 'main', '--head', hostileBranch, '--title', title, '--body', hostileMessage,
+    ]);
+    expect(fs.existsSync(path.join(repoDir, 'pwned'))).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { installHookBlock, getHookStatus, prefillCommitMessageFile, getKunjHook } from '../hooks';
+
+let mockHooksDir = '';
+jest.mock('../git', () => ({
+  ...(jest.requireActual('../git') as object),
+  getHooksDir: async () => mockHooksDir,
+}));
+
+describe('git hooks', () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-hooks-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should write into the user-owned husky hook instead of the generated .husky/_ script', async () => {
+    fs.mkdirSync(path.join(workDir, '.husky', '_'), { recursive: true });
+    fs.writeFileSync(path.join(workDir, '.husky', 'prepare-commit-msg'), 'npx devmoji -e\n');
+    mockHooksDir = path.join(workDir, '.husky', '_');
+
+    const { hook, id, script } = getKunjHook('prepare-commit-msg');
+    const hookPath = await installHookBlock(hook, id, script);
+
+    expect(hookPath).toBe(path.join(workDir, '.husky', 'prepare-commit-msg'));
+    expect(fs.readFileSync(hookPath, 'utf8')).toMatch(/^#!\/bin\/sh\n# >>> kunj:ai-message >>>\n[\s\S]*\nnpx devmoji -e\n$/);
+    expect(fs.existsSync(path.join(workDir, '.husky', '_', 'prepare-commit-msg'))).toBe(false);
+    expect(await getHookStatus(hook, id)).toMatchObject({ installed: true, hasOtherContent: true, manager: 'husky' });
+  });
+
+  it('should pre-fill only an empty commit message file', () => {
+    const file = path.join(workDir, 'COMMIT_EDITMSG');
+    const template = '\n# Please enter the commit message for your changes.\n# On branch main\n';
+
+    fs.writeFileSync(file, template);
+    expect(prefillCommitMessageFile(file, 'feat: add export\n\nCSV only.')).toBe(true);
+    expect(fs.readFileSync(file, 'utf8')).toBe(`feat: add export\n\nCSV only.\n${template}`);
+
+    fs.writeFileSync(file, 'wip: my own message\n' + template);
+    expect(prefillCommitMessageFile(file, 'feat: add export')).toBe(false);
+    expect(fs.readFileSync(file, 'utf8')).toBe('wip: my own message\n' + template);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DiffHunk, selectHunkLines } from '../hunks';
+import { getFileHunks, stageHunks } from '../git';
+
+describe('line-level hunk selection', () => {
+  const hunk: DiffHunk = {
+    file: 'a.txt',
+    fileHeader: 'diff --git a/a.txt b/a.txt\n--- a/a.txt\n+++ b/a.txt\n',
+    header: '@@ -1,3 +1,3 @@ intro',
+    lines: [' one', '-two', '+TWO', '+extra', ' three'],
+    additions: 2,
+    deletions: 1,
+  };
+
+  it('should drop unpicked additions, keep unpicked deletions as context and recount the header', () => {
+    expect(selectHunkLines(hunk, [2])).toEqual({
+      ...hunk,
+      header: '@@ -1,3 +1,4 @@ intro',
+      lines: [' one', ' two', '+TWO', ' three'],
+      additions: 1,
+      deletions: 0,
+    });
+    expect(selectHunkLines(hunk, [1])?.header).toBe('@@ -1,3 +1,2 @@ intro');
+  });
+
+  it('should return null when no change is picked', () => {
+    expect(selectHunkLines(hunk, [0, 4])).toBeNull();
+  });
+});
+
+describe('stageHunks', () => {
+  let repoDir: string;
+  const originalCwd = process.cwd();
+  const lines = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`);
+
+  beforeAll(() => {
+    repoDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-hunks-')));
+    process.chdir(repoDir);
+    execSync('git init -q -b main && git config user.name test && git config user.email test@example.com');
+    fs.writeFileSync('app.txt', lines.join('\n') + '\n');
+    execSync('git add app.txt && git commit -q -m init');
+
+    const changed = [...lines];
+    changed[1] = 'line 2 changed';
+    changed.splice(3, 0, 'inserted after 3');
+    changed[26] = 'line 26 changed';
+    fs.writeFileSync('app.txt', changed.join('\n') + '\n');
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should stage single lines from one hunk and a whole later hunk', async () => {
+    const hunks = await getFileHunks('app.txt');
+    expect(hunks).toHaveLength(2);
+    const inserted = hunks[0].lines.indexOf('+inserted after 3');
+
+    const result = await stageHunks([
+      { file: 'app.txt', hunk: 0, lines: [inserted] },
+      { file: 'app.txt', hunk: 1 },
+    ]);
+
+    expect(result.success).toBe(true);
+    const staged = execSync('git diff --cached --no-color -U0').toString();
+    expect(staged).toContain('+inserted after 3');
+    expect(staged).toContain('+line 26 changed');
+    expect(staged).not.toContain('line 2 changed');
+    expect(execSync('git diff --no-color -U0').toString()).toContain('+line 2 changed');
+  });
+
+  it('should report an empty selection', async () => {
+    expect(await stageHunks([{ file: 'app.txt', hunk: 7 }])).toEqual({ success: false, message: 'No changes selected' });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { beginOperation, finishOperation, getUndoableEntries, undoEntry, loadJournal } from '../journal';
+import { getBranchMetadataItem, updateBranchMetadata } from '../metadata';
+
+const git = (args: string) => execSync(`git ${args}`).toString().trim();
+
+describe('operation journal', () => {
+  let repoDir: string;
+  const originalCwd = process.cwd();
+
+  beforeAll(() => {
+    repoDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-journal-')));
+    process.chdir(repoDir);
+    execSync('git init -q -b main && git config user.name test && git config user.email test@example.com');
+    fs.writeFileSync('file.txt', 'one\n');
+    fs.writeFileSync('other.txt', 'one\n');
+    execSync('git add . && git commit -q -m init && git branch old');
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should record nothing when an operation changes nothing', async () => {
+    const snapshot = await beginOperation('kunj list');
+    expect(await finishOperation(snapshot!)).toBeNull();
+    expect(loadJournal()).toEqual([]);
+  });
+
+  it('should undo a multi-step operation: commit, branch switch, delete, stash and metadata', async () => {
+    const init = git('rev-parse HEAD');
+    fs.writeFileSync('other.txt', 'parked\n');
+    execSync('git stash push -q -m parked');
+    const parked = git('rev-parse stash@{0}');
+    fs.writeFileSync('other.txt', 'wip\n');
+
+    const snapshot = await beginOperation('kunj flow feature finish');
+    fs.writeFileSync('file.txt', 'two\n');
+    execSync('git commit -q -m two file.txt && git stash push -q -m moved');
+    execSync('git switch -q -c feature/a && git branch -q -D old && git stash drop -q stash@{1}');
+    updateBranchMetadata('feature/a', { description: 'new' });
+    const entry = await finishOperation(snapshot!);
+
+    expect(entry!.refs.map((r) => r.ref).sort()).toEqual(['refs/heads/feature/a', 'refs/heads/main', 'refs/heads/old']);
+    expect(entry!.stashes.removed.map((s) => s.sha)).toEqual([parked]);
+    expect(entry!.head).toMatchObject({ before: { branch: 'main' }, after: { branch: 'feature/a' } });
+
+    const [latest] = await getUndoableEntries();
+    const result = await undoEntry(latest);
+
+    expect(result.warnings).toEqual([]);
+    expect(git('rev-parse --abbrev-ref HEAD')).toBe('main');
+    expect(git('rev-parse main')).toBe(init);
+    expect(git('rev-parse old')).toBe(init);
+    expect(git('branch --list feature/a')).toBe('');
+    expect(git('stash list --format=%H')).toBe(parked);
+    expect(fs.readFileSync('file.txt', 'utf8')).toBe('one\n');
+    expect(fs.readFileSync('other.txt', 'utf8')).toBe('wip\n');
+    expect(getBranchMetadataItem('feature/a')).toEqual({});
+    expect(await getUndoableEntries()).toEqual([]);
+  });
+
+  it('should keep an undone commit staged and refuse to undo over newer commits', async () => {
+    execSync('git checkout -q -- other.txt');
+    const snapshot = await beginOperation('kunj commit');
+    fs.writeFileSync('file.txt', 'three\n');
+    execSync('git commit -q -am three');
+    await finishOperation(snapshot!);
+
+    execSync('git commit -q --allow-empty -m later');
+    const [entry] = await getUndoableEntries();
+    await expect(undoEntry(entry)).rejects.toThrow('Changed since');
+
+    execSync('git reset -q --hard HEAD~1');
+    await undoEntry(entry);
+    expect(git('log -1 --format=%s')).toBe('init');
+    expect(git('diff --cached --name-only')).toBe('file.txt');
+  });
+});
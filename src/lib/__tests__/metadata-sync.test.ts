@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { mergeMetadata, pickSharedMetadata, pullMetadata, pushMetadata } from '../metadata-sync';
+import { getBranchMetadataItem, loadBranchMetadata, updateBranchMetadata } from '../metadata';
+import { applyCleanupPlan, buildCleanupPlan } from '../cleanup';
+
+describe('mergeMetadata', () => {
+  it('should take one-sided changes and merge tags item by item', () => {
+    const base = { 'feat/a': { description: 'old', tags: ['wip', 'api'] } };
+    const ours = { 'feat/a': { description: 'old', tags: ['wip', 'api', 'backend'] } };
+    const theirs = { 'feat/a': { description: 'new', tags: ['api', 'review'] }, 'feat/b': { notes: 'hi' } };
+
+    expect(mergeMetadata(base, ours, theirs)).toEqual({
+      merged: {
+        'feat/a': { description: 'new', tags: ['api', 'backend', 'review'] },
+        'feat/b': { notes: 'hi' },
+      },
+      conflicts: [],
+    });
+  });
+
+  it('should report fields changed on both sides and keep the preferred value', () => {
+    const base = { x: { description: 'base', notes: 'n' } };
+    const ours = { x: { description: 'mine', notes: 'mine' } };
+    const theirs = { x: { description: 'yours', notes: 'yours' } };
+
+    const result = mergeMetadata(base, ours, theirs, 'theirs');
+    expect(result.merged.x).toEqual({ description: 'yours', notes: 'mine\n\nyours' });
+    expect(result.conflicts).toEqual([{ branch: 'x', field: 'description', ours: 'mine', theirs: 'yours' }]);
+  });
+
+  it('should keep machine-local fields out of the shared set', () => {
+    expect(pickSharedMetadata({
+      a: { description: 'd', lastSwitched: 'now', worktreePath: '/tmp/a' },
+      b: { stashes: [] },
+    })).toEqual({ a: { description: 'd' } });
+  });
+});
+
+describe('meta push and pull', () => {
+  let baseDir: string;
+  const originalCwd = process.cwd();
+
+  const clone = (name: string) => {
+    const dir = path.join(baseDir, name);
+    execSync(`git clone -q ${path.join(baseDir, 'remote.git')} ${dir}`, { stdio: 'ignore' });
+    execSync('git config user.name test && git config user.email test@example.com', { cwd: dir });
+    return dir;
+  };
+
+  beforeAll(() => {
+    baseDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-meta-')));
+    execSync('git init -q --bare -b main remote.git', { cwd: baseDir });
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should share metadata between clones and merge concurrent edits', async () => {
+    const alice = clone('alice');
+    const bob = clone('bob');
+
+    process.chdir(alice);
+    expect((await pullMetadata('origin')).pulled).toBe(false);
+    updateBranchMetadata('feat/login', { description: 'Login page', tags: ['wip'], lastSwitched: 'alice' });
+    expect((await pushMetadata('origin')).pushed).toBe(true);
+
+    process.chdir(bob);
+    updateBranchMetadata('feat/login', { notes: 'check SSO', lastSwitched: 'bob' });
+    const pulled = await pullMetadata('origin');
+    expect(pulled.changedBranches).toEqual(['feat/login']);
+    expect(getBranchMetadataItem('feat/login')).toEqual({
+      description: 'Login page', tags: ['wip'], notes: 'check SSO', lastSwitched: 'bob',
+    });
+    updateBranchMetadata('feat/login', { tags: ['wip', 'review'] });
+    await pushMetadata('origin');
+
+    process.chdir(alice);
+    updateBranchMetadata('feat/login', { description: 'Login and logout' });
+    const result = await pushMetadata('origin');
+    expect(result.conflicts).toEqual([]);
+    expect(getBranchMetadataItem('feat/login')).toEqual({
+      description: 'Login and logout', tags: ['wip', 'review'], notes: 'check SSO', lastSwitched: 'alice',
+    });
+  });
+  it('should keep pulled teammate branches through cleanup so a push does not erase them', async () => {
+    const carol = clone('carol');
+    process.chdir(carol);
+    execSync('git commit -q --allow-empty -m init');
+    updateBranchMetadata('gone', { description: 'Deleted locally', lastSwitched: 'carol' });
+
+    await pullMetadata('origin');
+    const plan = await buildCleanupPlan({ staleDays: 30, checkPRs: false });
+    expect(plan.orphanedMetadata).toEqual(['gone']);
+    await applyCleanupPlan(plan);
+    expect(Object.keys(loadBranchMetadata().branches)).toEqual(['feat/login']);
+    await pushMetadata('origin');
+
+    process.chdir(path.join(baseDir, 'alice'));
+    await pullMetadata('origin');
+    expect(getBranchMetadataItem('feat/login')).toMatchObject({ description: 'Login and logout', notes: 'check SSO' });
+  });
+});
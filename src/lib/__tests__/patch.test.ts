@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { exportPatch, applyPatch, patchDiff } from '../patch';
+import { getBranchMetadataItem, updateBranchMetadata } from '../metadata';
+
+const git = (args: string) => execSync(`git ${args}`).toString().trim();
+
+describe('patch export and apply', () => {
+  let workDir: string;
+  let sender: string;
+  let receiver: string;
+  const originalCwd = process.cwd();
+
+  beforeAll(() => {
+    workDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-patch-')));
+    sender = path.join(workDir, 'sender');
+    receiver = path.join(workDir, 'receiver');
+    fs.mkdirSync(sender);
+    process.chdir(sender);
+    execSync('git init -q -b main && git config user.name test && git config user.email test@example.com');
+    fs.writeFileSync('app.txt', 'one\ntwo\nthree\n');
+    git('add app.txt');
+    git('commit -q -m init');
+    execSync(`git clone -q "${sender}" "${receiver}"`);
+    execSync(`git -C "${receiver}" config user.name test && git -C "${receiver}" config user.email test@example.com`);
+
+    git('switch -q -c feat/login');
+    updateBranchMetadata('feat/login', { description: 'Login form', jiraIssueKey: 'APP-7', prUrl: 'https://example.com/pr/1', lastSwitched: 'x' });
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should hand over uncommitted work, untracked files and metadata onto a new branch', async () => {
+    fs.writeFileSync('app.txt', 'one\nTWO\nthree\n');
+    fs.writeFileSync('login.txt', 'form\n');
+    const result = await exportPatch({ working: true, output: path.join(workDir, 'wip.patch') });
+
+    expect(result.sidecarFile).toBe(path.join(workDir, 'wip.kunj.json'));
+    expect(result.sidecar).toMatchObject({ kind: 'working', branch: 'feat/login', base: git('rev-parse HEAD') });
+    expect(result.sidecar.metadata).toEqual({ description: 'Login form', jiraIssueKey: 'APP-7' });
+    expect(patchDiff(result.patch)).toContain('+TWO');
+    git('stash push -q -u');
+
+    process.chdir(receiver);
+    const applied = await applyPatch(path.join(workDir, 'wip.patch'));
+
+    expect(applied).toMatchObject({ branch: 'feat/login', status: 'applied', conflictedFiles: [] });
+    expect(git('branch --show-current')).toBe('feat/login');
+    expect(fs.readFileSync('app.txt', 'utf8')).toBe('one\nTWO\nthree\n');
+    expect(git('diff --cached --name-only')).toBe('');
+    expect(git('diff --name-only')).toBe('app.txt');
+    expect(git('ls-files --others --exclude-standard')).toBe('login.txt');
+    expect(getBranchMetadataItem('feat/login')).toEqual({ description: 'Login form', jiraIssueKey: 'APP-7' });
+    await expect(applyPatch(path.join(workDir, 'wip.patch'))).rejects.toThrow('Commit or stash');
+    git('stash push -q -u');
+    git('switch -q main');
+    process.chdir(sender);
+  });
+
+  it('should export commits since the main branch and replay them with git am', async () => {
+    fs.writeFileSync('app.txt', 'one\ntwo\nthree\nfour\n');
+    git('commit -q -am "Add four"');
+    const result = await exportPatch({ output: path.join(workDir, 'commits.patch') });
+    expect(result.sidecar.kind).toBe('commits');
+    expect(result.sidecar.range).toBe(`${git('rev-parse main')}..HEAD`);
+
+    process.chdir(receiver);
+    fs.writeFileSync('app.txt', 'zero\none\ntwo\nthree\n');
+    git('commit -q -am "Add zero"');
+    const applied = await applyPatch(path.join(workDir, 'commits.patch'), { branch: 'feat/login-2', base: 'HEAD' });
+
+    expect(applied.status).toBe('applied');
+    expect(git('log -1 --format=%s')).toBe('Add four');
+    expect(fs.readFileSync('app.txt', 'utf8')).toBe('zero\none\ntwo\nthree\nfour\n');
+    await expect(applyPatch(path.join(workDir, 'commits.patch'), { branch: 'feat/login-2' })).rejects.toThrow('already exists');
+    process.chdir(sender);
+  });
+});
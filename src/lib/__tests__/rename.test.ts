@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { renameBranch, renameStashMessage } from '../rename';
+import { createStash, popStashForBranch } from '../stash';
+import { getBranchMetadataItem, loadBranchMetadata, updateBranchMetadata } from '../metadata';
+
+const git = (args: string) => execSync(`git ${args}`).toString().trim();
+
+describe('branch rename', () => {
+  let baseDir: string;
+  const originalCwd = process.cwd();
+
+  beforeAll(() => {
+    baseDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-rename-')));
+    execSync('git init -q --bare -b main remote.git && git clone -q remote.git work', { cwd: baseDir, stdio: 'ignore' });
+    process.chdir(path.join(baseDir, 'work'));
+    execSync('git config user.name test && git config user.email test@example.com');
+    fs.writeFileSync('base.txt', 'base\n');
+    git('add base.txt');
+    git('commit -q -m base');
+    git('push -q -u origin main');
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should rewrite both the branch and the auto-stash marker in a stash message', () => {
+    expect(renameStashMessage('On feat/a: kunj-auto-stash-feat/a-42', 'feat/a', 'feat/b'))
+      .toBe('On feat/b: kunj-auto-stash-feat/b-42');
+    expect(renameStashMessage('On main: kunj-auto-stash-feat/a-42', 'feat/a', 'feat/b'))
+      .toBe('On main: kunj-auto-stash-feat/b-42');
+    expect(renameStashMessage('On feat/a-b: kunj-auto-stash-feat/a-b-42', 'feat/a', 'feat/x'))
+      .toBe('On feat/a-b: kunj-auto-stash-feat/a-b-42');
+  });
+
+  it('should move metadata, stash records and stack children to the new name', async () => {
+    git('switch -q -c feat/old');
+    fs.writeFileSync('base.txt', 'wip\n');
+    await createStash('feat/old');
+    fs.writeFileSync('base.txt', 'other\n');
+    git('stash push -q -m unrelated');
+    updateBranchMetadata('feat/old', { description: 'Old name', tags: ['wip'], prUrl: 'https://example.com/pr/1' });
+    updateBranchMetadata('feat/child', { stackParent: 'feat/old' });
+
+    const result = await renameBranch('feat/old', 'feat/new');
+
+    expect(result).toEqual({
+      oldName: 'feat/old',
+      newName: 'feat/new',
+      metadataMoved: true,
+      stashesRewritten: 1,
+      stackChildren: ['feat/child'],
+    });
+    expect(git('branch --show-current')).toBe('feat/new');
+    expect(loadBranchMetadata().branches['feat/old']).toBeUndefined();
+    expect(getBranchMetadataItem('feat/new')).toMatchObject({ description: 'Old name', prUrl: 'https://example.com/pr/1' });
+    expect(getBranchMetadataItem('feat/child').stackParent).toBe('feat/new');
+    expect(git("stash list --format='%gs'").split('\n')).toEqual([
+      'On feat/old: unrelated',
+      expect.stringMatching(/^On feat\/new: kunj-auto-stash-feat\/new-\d+$/),
+    ]);
+
+    git('stash drop -q stash@{0}');
+    expect(await popStashForBranch('feat/new')).toBe(true);
+    expect(fs.readFileSync('base.txt', 'utf8')).toBe('wip\n');
+    git('checkout -q -- base.txt');
+  });
+
+  it('should refuse to overwrite an existing branch', async () => {
+    await expect(renameBranch('feat/new', 'main')).rejects.toThrow("Branch 'main' already exists");
+  });
+
+  it('should rename the branch on origin by pushing the new name', async () => {
+    git('push -q -u origin feat/new');
+    const result = await renameBranch('feat/new', 'feat/final', { remote: true, provider: null });
+
+    expect(result.remote).toEqual({ renamed: true, via: 'push', message: 'Renamed origin/feat/new to origin/feat/final' });
+    expect(git("ls-remote --heads origin 'feat/*'")).toMatch(/refs\/heads\/feat\/final$/);
+    expect(git('rev-parse --abbrev-ref feat/final@{upstream}')).toBe('origin/feat/final');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runTool, runToolOrThrow, runGit, getGitRoot, CommandError } from '../runner';
+
+const echoArgv = ['-e', 'process.stdout.write(JSON.stringify(process.argv.slice(1)))'];
+
+describe('process runner', () => {
+  it('should pass every argument verbatim without a shell', async () => {
+    const hostile = ['$(touch pwned)', '`id`', '"; rm -rf / #', "it's", 'a b\nc', '--flag=$HOME'];
+    const result = await runTool(process.execPath, [...echoArgv, ...hostile]);
+
+    expect(result.success).toBe(true);
+    expect(JSON.parse(result.stdout)).toEqual(hostile);
+  });
+
+  it('should feed input on stdin and capture stderr and the exit code', async () => {
+    const result = await runTool(process.execPath, [
+      '-e',
+      'let s="";process.stdin.on("data",d=>s+=d).on("end",()=>{process.stderr.write(s.toUpperCase());process.exit(3)})',
+    ], { input: 'hello' });
+
+    expect(result).toMatchObject({ success: false, code: 3, stderr: 'HELLO', timedOut: false });
+    await expect(runToolOrThrow(process.execPath, ['-e', 'process.exit(2)'])).rejects.toBeInstanceOf(CommandError);
+  });
+
+  it('should report missing binaries and timeouts as failed results', async () => {
+    const missing = await runTool('kunj-no-such-binary', ['--version']);
+    expect(missing).toMatchObject({ success: false, code: null });
+    expect(missing.stderr).toContain('ENOENT');
+
+    const slow = await runTool(process.execPath, ['-e', 'setTimeout(() => {}, 10000)'], { timeout: 200 });
+    expect(slow).toMatchObject({ success: false, timedOut: true });
+  });
+});
+
+describe('runGit', () => {
+  let repoDir: string;
+  const originalCwd = process.cwd();
+
+  beforeAll(() => {
+    repoDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-runner-')));
+    fs.mkdirSync(path.join(repoDir, 'nested', 'dir'), { recursive: true });
+    process.chdir(repoDir);
+    execSync('git init -q');
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should run from the repository root when called from a subdirectory', async () => {
+    process.chdir(path.join(repoDir, 'nested', 'dir'));
+    try {
+      expect(await getGitRoot()).toBe(repoDir);
+      const { stdout } = await runGit(['rev-parse', '--show-prefix']);
+      expect(stdout.trim()).toBe('');
+    } finally {
+      process.chdir(repoDir);
+    }
+  });
+});
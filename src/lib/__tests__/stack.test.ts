@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createStackedBranch,
+  getStackBranches,
+  getStackTrunk,
+  renderStackNav,
+  restackBranches,
+  upsertStackNav,
+} from '../stack';
+import { getBranchMetadataItem } from '../metadata';
+
+const git = (args: string) => execSync(`git ${args}`).toString().trim();
+
+const commitFile = (name: string, content: string) => {
+  fs.writeFileSync(name, content);
+  execSync(`git add ${name} && git commit -q -m "add ${name}"`);
+};
+
+describe('stack navigation block', () => {
+  const items = [
+    { branch: 'feat/a', prUrl: 'https://github.com/o/r/pull/1' },
+    { branch: 'feat/b' },
+  ];
+
+  it('should list the stack bottom first and mark the current PR', () => {
+    expect(renderStackNav('main', items, 'feat/a')).toBe([
+      '<!-- kunj-stack:start -->',
+      '**Stack** (merges into `main`, bottom first)',
+      '',
+      '1. **https://github.com/o/r/pull/1 (`feat/a`)** ← this PR',
+      '2. `feat/b`',
+      '<!-- kunj-stack:end -->',
+    ].join('\n'));
+  });
+
+  it('should append the block once and replace it on later submits', () => {
+    const first = upsertStackNav('Adds the parser.', renderStackNav('main', items, 'feat/b'));
+    expect(first.startsWith('Adds the parser.\n\n<!-- kunj-stack:start -->')).toBe(true);
+
+    const updated = upsertStackNav(first, renderStackNav('main', [items[0], { branch: 'feat/b', prUrl: 'u2' }], 'feat/b'));
+    expect(updated.match(/kunj-stack:start/g)).toHaveLength(1);
+    expect(updated).toContain('2. **u2 (`feat/b`)** ← this PR');
+    expect(upsertStackNav('', 'nav')).toBe('nav');
+  });
+});
+
+describe('restacking', () => {
+  let repoDir: string;
+  const originalCwd = process.cwd();
+
+  beforeAll(() => {
+    repoDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-stack-')));
+    process.chdir(repoDir);
+    execSync('git init -q -b main && git config user.name test && git config user.email test@example.com');
+    commitFile('base.txt', 'base\n');
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should record parent links and walk the stack from its trunk', async () => {
+    await createStackedBranch('feat/a', 'main');
+    commitFile('a.txt', 'a\n');
+    await createStackedBranch('feat/b', 'feat/a');
+    commitFile('b.txt', 'b\n');
+
+    expect(getBranchMetadataItem('feat/b')).toMatchObject({ stackParent: 'feat/a', stackParentHead: git('rev-parse feat/a') });
+    expect(getStackTrunk('feat/b')).toBe('main');
+    expect(getStackBranches('feat/a')).toEqual(['feat/a', 'feat/b']);
+  });
+
+  it('should rebase children onto an amended parent without replaying its old commits', async () => {
+    execSync('git switch -q feat/a');
+    fs.writeFileSync('a.txt', 'a, amended\n');
+    execSync('git commit -q -a --amend --no-edit');
+    execSync('git switch -q feat/b');
+
+    const results = await restackBranches(getStackBranches('feat/b'), 'main');
+
+    expect(results.map((r) => [r.branch, r.status])).toEqual([['feat/a', 'up-to-date'], ['feat/b', 'rebased']]);
+    expect(git('rev-parse feat/b~1')).toBe(git('rev-parse feat/a'));
+    expect(git('rev-parse --abbrev-ref HEAD')).toBe('feat/b');
+    expect(getBranchMetadataItem('feat/b').stackParentHead).toBe(git('rev-parse feat/a'));
+  });
+
+  it('should move children onto the trunk once their parent is squash-merged and deleted', async () => {
+    execSync('git switch -q main && git merge -q --squash feat/a && git commit -q -m "feat a (squashed)"');
+    execSync('git branch -q -D feat/a && git switch -q feat/b');
+
+    const results = await restackBranches(['feat/b'], 'main');
+
+    expect(results).toEqual([{ branch: 'feat/b', parent: 'main', status: 'rebased', reparented: 'feat/a' }]);
+    expect(git('rev-parse feat/b~1')).toBe(git('rev-parse main'));
+    expect(git('log --format=%s main..feat/b')).toBe('add b.txt');
+  });
+});
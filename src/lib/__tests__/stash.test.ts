@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createStash, popBranchStash, runStashDoctor, listStashEntries, moveStash, stashToBranch } from '../stash';
+import { getBranchMetadataItem, saveBranchMetadata, updateBranchMetadata } from '../metadata';
+
+const git = (args: string) => execSync(`git ${args}`).toString().trim();
+
+describe('auto-stashes tracked by SHA', () => {
+  let repoDir: string;
+  const originalCwd = process.cwd();
+
+  beforeAll(() => {
+    repoDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-stash-')));
+    process.chdir(repoDir);
+    execSync('git init -q -b main && git config user.name test && git config user.email test@example.com');
+    fs.writeFileSync('a.txt', 'a\n');
+    fs.writeFileSync('b.txt', 'b\n');
+    git('add a.txt b.txt');
+    git('commit -q -m init');
+  });
+
+  beforeEach(() => {
+    git('stash clear');
+    saveBranchMetadata({ branches: {} });
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should record the stash commit and pop it after other stashes were pushed', async () => {
+    fs.writeFileSync('a.txt', 'mine\n');
+    await createStash('main');
+    const [record] = getBranchMetadataItem('main').stashes!;
+    expect(record.sha).toBe(git('rev-parse refs/stash'));
+    expect(record.ref).toBeUndefined();
+
+    fs.writeFileSync('b.txt', 'someone else\n');
+    git('stash push -q -m other');
+
+    const result = await popBranchStash('main');
+    expect(result).toMatchObject({ status: 'restored', ref: 'stash@{1}' });
+    expect(fs.readFileSync('a.txt', 'utf8')).toBe('mine\n');
+    expect(git("stash list --format='%gs'")).toBe('On main: other');
+    expect(getBranchMetadataItem('main').stashes).toEqual([]);
+    git('checkout -- a.txt');
+  });
+
+  it('should report a conflicting pop and keep the stash and its record', async () => {
+    fs.writeFileSync('a.txt', 'stashed\n');
+    await createStash('main');
+    fs.writeFileSync('a.txt', 'committed\n');
+    git('commit -q -am conflicting');
+
+    const result = await popBranchStash('main');
+    expect(result).toMatchObject({ status: 'conflict', ref: 'stash@{0}', conflictedFiles: ['a.txt'] });
+    expect(await listStashEntries()).toHaveLength(1);
+    expect(getBranchMetadataItem('main').stashes).toHaveLength(1);
+    git('checkout -q HEAD -- a.txt');
+  });
+
+  it('should link, prune and adopt records with stash doctor', async () => {
+    git('switch -q -c feat/x');
+    fs.writeFileSync('a.txt', 'legacy\n');
+    git('stash push -q -m kunj-auto-stash-feat/x-1700000000000');
+    fs.writeFileSync('a.txt', 'untracked record\n');
+    git('stash push -q -m kunj-auto-stash-main-1700000001000');
+    fs.writeFileSync('a.txt', 'gone branch\n');
+    git('stash push -q -m kunj-auto-stash-feat/gone-1700000002000');
+    git('switch -q main');
+
+    updateBranchMetadata('feat/x', {
+      stashes: [
+        { ref: 'stash@{0}', message: 'kunj-auto-stash-feat/x-1700000000000', timestamp: '2023-11-14T22:13:20.000Z' },
+        { sha: 'f'.repeat(40), message: 'kunj-auto-stash-feat/x-1', timestamp: '2020-01-01T00:00:00.000Z' },
+      ],
+    });
+    const legacySha = git('rev-parse stash@{2}');
+
+    const dryRun = await runStashDoctor({ dryRun: true });
+    expect(getBranchMetadataItem('feat/x').stashes).toHaveLength(2);
+
+    const report = await runStashDoctor();
+    expect(report).toEqual(dryRun);
+    expect(report.linked).toEqual([{ branch: 'feat/x', message: 'kunj-auto-stash-feat/x-1700000000000', sha: legacySha }]);
+    expect(report.removed).toEqual([{ branch: 'feat/x', message: 'kunj-auto-stash-feat/x-1' }]);
+    expect(report.adopted).toEqual([{ branch: 'main', sha: git('rev-parse stash@{1}'), ref: 'stash@{1}' }]);
+    expect(report.orphaned.map((e) => e.index)).toEqual([0]);
+
+    expect(getBranchMetadataItem('feat/x').stashes).toEqual([
+      { sha: legacySha, message: 'kunj-auto-stash-feat/x-1700000000000', timestamp: '2023-11-14T22:13:20.000Z' },
+    ]);
+    expect(getBranchMetadataItem('main').stashes).toEqual([
+      { sha: git('rev-parse stash@{1}'), message: 'kunj-auto-stash-main-1700000001000', timestamp: '2023-11-14T22:13:21.000Z' },
+    ]);
+  });
+
+  it('should move an auto-stash to another branch and pop it there', async () => {
+    git('branch feat/target');
+    fs.writeFileSync('a.txt', 'meant for target\n');
+    await createStash('main');
+    fs.writeFileSync('b.txt', 'unrelated\n');
+    git('stash push -q -m unrelated');
+    const sha = git('rev-parse stash@{1}');
+
+    const result = await moveStash(1, 'feat/target');
+
+    expect(result.sourceBranch).toBe('main');
+    expect(getBranchMetadataItem('main').stashes).toEqual([]);
+    expect(getBranchMetadataItem('feat/target').stashes).toEqual([
+      expect.objectContaining({ sha, message: expect.stringMatching(/^kunj-auto-stash-feat\/target-\d+$/) }),
+    ]);
+    expect(git("stash list --format='%H %gs'").split('\n')[1]).toMatch(new RegExp(`^${sha} On feat/target: kunj-auto-stash-feat/target-`));
+
+    git('switch -q feat/target');
+    expect(await popBranchStash('feat/target')).toMatchObject({ status: 'restored', ref: 'stash@{1}' });
+    expect(fs.readFileSync('a.txt', 'utf8')).toBe('meant for target\n');
+    git('checkout -- a.txt');
+    git('switch -q main');
+  });
+
+  it('should turn a stash into a new branch and forget its record', async () => {
+    fs.writeFileSync('a.txt', 'new feature\n');
+    await createStash('main');
+
+    const result = await stashToBranch(0, 'feat/from-stash');
+
+    expect(result.sourceBranch).toBe('main');
+    expect(git('branch --show-current')).toBe('feat/from-stash');
+    expect(fs.readFileSync('a.txt', 'utf8')).toBe('new feature\n');
+    expect(await listStashEntries()).toEqual([]);
+    expect(getBranchMetadataItem('main').stashes).toEqual([]);
+    git('checkout -- a.txt');
+    git('switch -q main');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { syncBranch, resolveSyncBase, getOperationInProgress, resolveOperationInProgress } from '../sync';
+import { updateBranchMetadata } from '../metadata';
+
+const git = (args: string) => execSync(`git ${args}`).toString().trim();
+
+const commitFile = (name: string, content: string) => {
+  fs.writeFileSync(name, content);
+  execSync(`git add ${name} && git commit -q -m "update ${name}"`);
+};
+
+describe('syncBranch', () => {
+  let repoDir: string;
+  const originalCwd = process.cwd();
+
+  beforeAll(() => {
+    repoDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-sync-')));
+    process.chdir(repoDir);
+    execSync('git init -q -b main && git config user.name test && git config user.email test@example.com');
+    commitFile('shared.txt', 'base\n');
+    execSync('git branch feat/rebase && git branch feat/merge && git branch feat/conflict');
+    commitFile('main.txt', 'main\n');
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should prefer the stack parent, then the flow base, then the main branch', async () => {
+    updateBranchMetadata('feat/stacked', { stackParent: 'feat/rebase' });
+    updateBranchMetadata('feature/flow', { flowBase: 'develop' });
+
+    expect(await resolveSyncBase('feat/stacked')).toEqual({ base: 'feat/rebase', stacked: true });
+    expect(await resolveSyncBase('feature/flow')).toEqual({ base: 'develop', stacked: false });
+    expect(await resolveSyncBase('feat/rebase')).toEqual({ base: 'main', stacked: false });
+  });
+
+  it('should rebase the branch onto its base', async () => {
+    execSync('git switch -q feat/rebase');
+    commitFile('feature.txt', 'feature\n');
+
+    const result = await syncBranch('feat/rebase', 'rebase');
+
+    expect(result).toMatchObject({ base: 'main', upstream: 'main', status: 'updated', behind: 1 });
+    expect(git('rev-parse HEAD~1')).toBe(git('rev-parse main'));
+    expect(await syncBranch('feat/rebase', 'rebase')).toMatchObject({ status: 'up-to-date', behind: 0 });
+  });
+
+  it('should merge the base in with the merge strategy', async () => {
+    execSync('git switch -q feat/merge');
+    commitFile('feature.txt', 'merge\n');
+
+    expect(await syncBranch('feat/merge', 'merge')).toMatchObject({ status: 'updated' });
+    expect(git('rev-list --parents -1 HEAD').split(' ')).toHaveLength(3);
+  });
+
+  it('should report conflicted files and leave the rebase to continue or abort', async () => {
+    execSync('git switch -q feat/conflict');
+    commitFile('main.txt', 'feature\n');
+    const before = git('rev-parse HEAD');
+
+    const result = await syncBranch('feat/conflict', 'rebase');
+
+    expect(result).toMatchObject({ status: 'conflict', conflicts: ['main.txt'] });
+    expect(await getOperationInProgress()).toBe('rebase');
+    expect(await resolveOperationInProgress('abort')).toBe(true);
+    expect(await getOperationInProgress()).toBeNull();
+    expect(git('rev-parse HEAD')).toBe(before);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseWorktreeList, ensureWorktree, removeWorktree, listWorktrees } from '../worktree';
+import { getKunjDir } from '../config';
+import { getBranchMetadataItem } from '../metadata';
+
+describe('parseWorktreeList', () => {
+  it('should parse branches, detached heads and flags', () => {
+    const output = [
+      'worktree /src/app', 'HEAD 1111111111111111111111111111111111111111', 'branch refs/heads/main', '',
+      'worktree /src/app-feat-login', 'HEAD 2222222222222222222222222222222222222222', 'branch refs/heads/feat/login', 'locked', '',
+      'worktree /tmp/scratch', 'HEAD 3333333333333333333333333333333333333333', 'detached', 'prunable gitdir file points to non-existent location', '',
+    ].join('\n');
+
+    expect(parseWorktreeList(output)).toEqual([
+      { path: '/src/app', head: '1'.repeat(40), branch: 'main', main: true, locked: false, prunable: false },
+      { path: '/src/app-feat-login', head: '2'.repeat(40), branch: 'feat/login', main: false, locked: true, prunable: false },
+      { path: '/tmp/scratch', head: '3'.repeat(40), branch: null, main: false, locked: false, prunable: true },
+    ]);
+  });
+});
+
+describe('branch worktrees', () => {
+  let baseDir: string;
+  let repoDir: string;
+  const originalCwd = process.cwd();
+
+  beforeAll(() => {
+    baseDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'kunj-wt-')));
+    repoDir = path.join(baseDir, 'app');
+    fs.mkdirSync(repoDir);
+    process.chdir(repoDir);
+    execSync('git init -q -b main && git -c user.name=test -c user.email=test@example.com commit -q --allow-empty -m init');
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should add a sibling worktree for a new branch and record it in metadata', async () => {
+    const worktree = await ensureWorktree('feat/login', { create: true });
+
+    expect(worktree).toEqual({ path: path.join(baseDir, 'app-feat-login'), created: true });
+    expect(getBranchMetadataItem('feat/login').worktreePath).toBe(worktree.path);
+    expect(await ensureWorktree('feat/login')).toEqual({ path: worktree.path, created: false });
+    expect((await listWorktrees()).map((wt) => wt.branch)).toEqual(['main', 'feat/login']);
+  });
+
+  it('should share the main .kunj directory from inside a linked worktree', () => {
+    process.chdir(path.join(baseDir, 'app-feat-login'));
+    try {
+      expect(getKunjDir()).toBe(path.join(repoDir, '.kunj'));
+    } finally {
+      process.chdir(repoDir);
+    }
+  });
+
+  it('should remove the worktree, keep the branch and clear the metadata path', async () => {
+    expect(await removeWorktree('feat/login')).toBe(path.join(baseDir, 'app-feat-login'));
+    expect(fs.existsSync(path.join(baseDir, 'app-feat-login'))).toBe(false);
+    expect(getBranchMetadataItem('feat/login').worktreePath).toBeUndefined();
+    expect(execSync('git branch --list feat/login').toString()).toContain('feat/login');
+    await expect(removeWorktree('main')).rejects.toThrow('main worktree');
+  });
+});
@@ -0,0 +1,218 @@
+// Persistent AI response cache (~/.kunj/ai-cache), keyed by provider, model, sampling settings and normalized prompt
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { loadConfig, getGlobalKunjDir } from "./config";
+
+export interface AICacheEntry {
+  key: string;
+  provider: string;
+  model: string;
+  createdAt: string;
+  promptChars: number;
+  content: string;
+}
+
+/** Sampling settings that change the answer for the same prompt */
+export interface AICacheParams {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface AICacheStats {
+  dir: string;
+  entries: number;
+  sizeBytes: number;
+  maxSizeBytes: number;
+  ttlHours: number;
+  hits: number;
+  misses: number;
+  oldest?: string;
+  newest?: string;
+}
+
+const DEFAULT_TTL_HOURS = 168;
+const DEFAULT_MAX_SIZE_MB = 50;
+const STATS_FILE = "_stats.json";
+
+// Set by --no-cache (or KUNJ_AI_NO_CACHE=1) for the current process
+let bypassed = false;
+
+export function setAICacheBypass(bypass: boolean): void {
+  bypassed = bypass;
+}
+
+export function getAICacheDir(): string {
+  return path.join(getGlobalKunjDir(), "ai-cache");
+}
+
+function getCacheSettings(): { enabled: boolean; ttlMs: number; maxSizeBytes: number } {
+  const cache = loadConfig().ai?.cache;
+  return {
+    enabled: cache?.enabled !== false && !bypassed && process.env.KUNJ_AI_NO_CACHE !== "1",
+    ttlMs: (cache?.ttlHours ?? DEFAULT_TTL_HOURS) * 60 * 60 * 1000,
+    maxSizeBytes: (cache?.maxSizeMB ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024,
+  };
+}
+
+// Whitespace-only differences (CRLF, trailing spaces, blank lines at the ends)
+// should not cause a cache miss
+export function normalizePrompt(prompt: string): string {
+  return prompt
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map((line) => line.replace(/\s+$/, ""))
+    .join("\n")
+    .trim();
+}
+
+export function getAICacheKey(provider: string, model: string, prompt: string, params: AICacheParams = {}): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${provider}\u0000${model}\u0000${params.temperature ?? ""}\u0000${params.maxTokens ?? ""}\u0000${normalizePrompt(prompt)}`)
+    .digest("hex");
+}
+
+function entryPath(key: string): string {
+  return path.join(getAICacheDir(), `${key}.json`);
+}
+
+function updateHitStats(hit: boolean): void {
+  const statsPath = path.join(getAICacheDir(), STATS_FILE);
+  try {
+    fs.mkdirSync(getAICacheDir(), { recursive: true });
+    const stats = fs.existsSync(statsPath)
+      ? JSON.parse(fs.readFileSync(statsPath, "utf8"))
+      : { hits: 0, misses: 0 };
+    stats[hit ? "hits" : "misses"]++;
+    fs.writeFileSync(statsPath, JSON.stringify(stats));
+  } catch {
+    // Stats are best-effort
+  }
+}
+
+// Look up a cached response; expired entries are deleted on read
+export function getCachedResponse(provider: string, model: string, prompt: string, params: AICacheParams = {}): AICacheEntry | null {
+  const settings = getCacheSettings();
+  if (!settings.enabled) {
+    return null;
+  }
+
+  const filePath = entryPath(getAICacheKey(provider, model, prompt, params));
+  if (!fs.existsSync(filePath)) {
+    updateHitStats(false);
+    return null;
+  }
+
+  try {
+    const entry: AICacheEntry = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    if (Date.now() - new Date(entry.createdAt).getTime() > settings.ttlMs) {
+      fs.unlinkSync(filePath);
+      updateHitStats(false);
+      return null;
+    }
+    updateHitStats(true);
+    return entry;
+  } catch {
+    updateHitStats(false);
+    return null;
+  }
+}
+
+// Store a response and evict the oldest entries when over ai.cache.maxSizeMB
+export function setCachedResponse(provider: string, model: string, prompt: string, content: string, params: AICacheParams = {}): void {
+  const settings = getCacheSettings();
+  if (!settings.enabled) {
+    return;
+  }
+
+  try {
+    const dir = getAICacheDir();
+    fs.mkdirSync(dir, { recursive: true });
+
+    const key = getAICacheKey(provider, model, prompt, params);
+    const entry: AICacheEntry = {
+      key,
+      provider,
+      model,
+      createdAt: new Date().toISOString(),
+      promptChars: prompt.length,
+      content,
+    };
+    fs.writeFileSync(entryPath(key), JSON.stringify(entry));
+
+    pruneAICache(settings.maxSizeBytes);
+  } catch {
+    // A cache write failure must never break generation
+  }
+}
+
+function listEntryFiles(): Array<{ file: string; size: number; mtimeMs: number }> {
+  const dir = getAICacheDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".json") && name !== STATS_FILE)
+    .map((name) => {
+      const file = path.join(dir, name);
+      const stat = fs.statSync(file);
+      return { file, size: stat.size, mtimeMs: stat.mtimeMs };
+    });
+}
+
+// Delete the oldest entries until the cache fits in maxSizeBytes
+export function pruneAICache(maxSizeBytes: number): number {
+  const files = listEntryFiles().sort((a, b) => a.mtimeMs - b.mtimeMs);
+  let total = files.reduce((sum, f) => sum + f.size, 0);
+  let removed = 0;
+
+  for (const f of files) {
+    if (total <= maxSizeBytes) break;
+    fs.unlinkSync(f.file);
+    total -= f.size;
+    removed++;
+  }
+  return removed;
+}
+
+export function getAICacheStats(): AICacheStats {
+  const cache = loadConfig().ai?.cache;
+  const files = listEntryFiles().sort((a, b) => a.mtimeMs - b.mtimeMs);
+  let hits = 0;
+  let misses = 0;
+
+  try {
+    const stats = JSON.parse(fs.readFileSync(path.join(getAICacheDir(), STATS_FILE), "utf8"));
+    hits = stats.hits || 0;
+    misses = stats.misses || 0;
+  } catch {
+    // No stats yet
+  }
+
+  return {
+    dir: getAICacheDir(),
+    entries: files.length,
+    sizeBytes: files.reduce((sum, f) => sum + f.size, 0),
+    maxSizeBytes: (cache?.maxSizeMB ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024,
+    ttlHours: cache?.ttlHours ?? DEFAULT_TTL_HOURS,
+    hits,
+    misses,
+    oldest: files.length > 0 ? new Date(files[0].mtimeMs).toISOString() : undefined,
+    newest: files.length > 0 ? new Date(files[files.length - 1].mtimeMs).toISOString() : undefined,
+  };
+}
+
+// Remove every cached response and reset the hit counters
+export function clearAICache(): number {
+  const files = listEntryFiles();
+  files.forEach((f) => fs.unlinkSync(f.file));
+
+  const statsPath = path.join(getAICacheDir(), STATS_FILE);
+  if (fs.existsSync(statsPath)) {
+    fs.unlinkSync(statsPath);
+  }
+  return files.length;
+}
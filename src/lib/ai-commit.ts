@@ -1,31 +1,15 @@
-// AI-powered commit message generation using AWS Bedrock Claude 3.5 Sonnet
-
-const { ChatBedrockConverse } = require("@langchain/aws");
-import { defaultProvider } from "@aws-sdk/credential-provider-node";
-import { loadConfig as loadAwsConfig } from "@aws-sdk/node-config-provider";
-import {
-  NODE_REGION_CONFIG_OPTIONS,
-  NODE_REGION_CONFIG_FILE_OPTIONS,
-} from "@aws-sdk/config-resolver";
-import {
-  BedrockClient,
-  ListFoundationModelsCommand,
-  ListInferenceProfilesCommand,
-} from "@aws-sdk/client-bedrock";
-import { exec } from "child_process";
-import { promisify } from "util";
+// AI-powered commit message generation using the configured LLM provider
+
 import chalk from "chalk";
 import { loadConfig } from "./config";
-import { getCommitStylePrompt } from "./commit-styles";
+import { getCommitStylePrompt, getCommitStyles, getCommitStyle, validateCommitSubject } from "./commit-styles";
+import { invokeModel } from "./ai-providers";
+import { prepareDiffForPrompt, formatDiffSection, GenerationPrompt, PrepareDiffOptions } from "./diff-summarizer";
+import { runGitOrThrow } from "./runner";
 import * as fs from "fs";
 import * as path from "path";
 
-const execAsync = promisify(exec);
-
-// Cache for region and credentials to avoid multiple async calls
-let cachedRegion: string | null = null;
-let regionProvider: (() => Promise<string>) | null = null;
-let cachedClient: any | null = null;
+// Cache for project context to avoid re-reading files
 let cachedProjectContext: string | null = null;
 let projectContextChecked = false;
 
@@ -55,7 +39,7 @@ function getProjectContext(): string | null {
         cachedProjectContext = content.length > 1000
           ? content.substring(0, 1000) + '\n...(truncated)'
           : content;
-        console.log(chalk.gray(`📋 Using project context from ${fileName}`));
+        console.error(chalk.gray(`📋 Using project context from ${fileName}`));
         return cachedProjectContext;
       } catch (error) {
         // Ignore read errors
@@ -66,121 +50,17 @@ function getProjectContext(): string | null {
   return null;
 }
 
-// Get the model ID from config or environment
-export function getDefaultModelId(): string {
-  const config = loadConfig();
-  // Use config first, then environment variable, then default
-  return (
-    config.ai?.model ||
-    process.env.BEDROCK_MODEL ||
-    "anthropic.claude-3-5-sonnet-20240620-v1:0"
-  );
-}
-
-// Check if an error is caused by missing inference profile (newer Claude models
-// require cross-region inference profile IDs like us.anthropic.claude-... instead
-// of bare anthropic.claude-... model IDs)
-function isInferenceProfileError(err: any): boolean {
-  return (
-    err.message?.includes("on-demand throughput isn't supported") ||
-    err.message?.includes("on-demand throughput is not supported") ||
-    err.message?.includes("inference profile")
-  );
-}
-
-function logInferenceProfileHelp(modelId: string): void {
-  console.error(chalk.yellow(`\n⚠ Model '${modelId}' requires a cross-region inference profile.`));
-  console.error(chalk.yellow("  Newer Claude models cannot be called with their bare model ID."));
-  console.error(chalk.gray("  Fix: prefix the model ID with your region (e.g. 'us.', 'eu.', 'ap.'):"));
-  console.error(chalk.cyan(`    kunj config set ai.model us.${modelId}`));
-  console.error(chalk.gray("  Or set the BEDROCK_MODEL environment variable.\n"));
-}
-
-// Get the region provider
-function getRegionProvider(): () => Promise<string> {
-  if (!regionProvider) {
-    // Use the SDK's built-in config loader which checks all standard sources
-    const baseProvider = loadAwsConfig(
-      NODE_REGION_CONFIG_OPTIONS,
-      NODE_REGION_CONFIG_FILE_OPTIONS
-    );
-
-    // Wrap with fallback
-    regionProvider = async () => {
-      try {
-        // First check our Kunj config
-        const config = loadConfig();
-        if (config.ai?.awsRegion) {
-          return config.ai.awsRegion;
-        }
-
-        // Then fall back to SDK config
-        const region = await baseProvider();
-        return region || "us-east-1";
-      } catch (error) {
-        // Fallback if no region is configured anywhere
-        return "us-east-1";
-      }
-    };
-  }
-  return regionProvider;
-}
-
-// Get AWS region using SDK's config resolver
-export async function getAWSRegion(): Promise<string> {
-  if (!cachedRegion) {
-    try {
-      const provider = getRegionProvider();
-      cachedRegion = await provider();
-    } catch (error) {
-      // Fallback to default if region resolution fails
-      cachedRegion = "us-east-1";
-    }
-  }
-  return cachedRegion;
-}
-
-// Initialize AWS Bedrock client using ChatBedrockConverse
-export async function getBedrockClient(): Promise<any> {
-  if (!cachedClient) {
-    const region = await getAWSRegion();
-    const modelId = getDefaultModelId();
-
-    // The ChatBedrockConverse will automatically use the credential chain via defaultProvider:
-    // 1. Environment variables (AWS_ACCESS_KEY_ID, etc.)
-    // 2. Shared credentials file (~/.aws/credentials)
-    // 3. Shared config file (~/.aws/config with AWS_PROFILE)
-    // 4. ECS container credentials
-    // 5. EC2 instance metadata service (IMDS)
-    // 6. SSO credentials
-    // 7. Web identity token credentials
-    // 8. Process credentials
-
-    cachedClient = new ChatBedrockConverse({
-      model: modelId,
-      region,
-      credentials: defaultProvider(),
-      temperature: 0.7,
-      maxTokens: 2000, // Enough for PR descriptions (title + summary + changes)
-    });
-  }
-  return cachedClient;
-}
-
 // Get the diff for the files being committed
 export async function getCommitDiff(files: string[]): Promise<string> {
   try {
     // Get the diff for staged files
-    const { stdout } = await execAsync("git diff --cached");
+    const { stdout } = await runGitOrThrow(["diff", "--cached"]);
     if (stdout) {
       return stdout;
     }
 
     // If no staged files, get diff for the specified files
-    const escapedFiles = files.map((f) => `"${f}"`).join(" ");
-    const { stdout: fileDiff } = await execAsync(
-      `git diff HEAD -- ${escapedFiles}`
-    );
+    const { stdout: fileDiff } = await runGitOrThrow(["diff", "HEAD", "--", ...files]);
     return fileDiff || "";
   } catch (error) {
     console.error(chalk.yellow("Warning: Could not get file diff"));
@@ -188,54 +68,82 @@ export async function getCommitDiff(files: string[]): Promise<string> {
   }
 }
 
-// Generate commit message using AI
-export async function generateAICommitMessage(
+// Assemble a full commit message (subject + optional body) in the given commit style
+export function formatCommitMessage(
+  commitStyle: string,
+  type: string,
+  message: string,
+  body?: string
+): string {
+  let subject: string;
+  const template = getCommitStyles()[commitStyle];
+
+  if (!type) {
+    // No type picked (e.g. "(none)" in the commit-type picker)
+    subject = message;
+  } else if (template?.format) {
+    // User-defined style with its own subject template
+    subject = template.format.replace('{type}', type).replace('{message}', message);
+  } else if (commitStyle === 'conventional' || commitStyle === 'caveman') {
+    // Format: type: message (caveman uses same conventional format, just terser content)
+    subject = `${type.toLowerCase()}: ${message}`;
+  } else if (commitStyle === 'semantic') {
+    // Format: [TYPE] message
+    subject = `[${type.toUpperCase()}] ${message}`;
+  } else if (commitStyle === 'gitmoji') {
+    // Format: emoji message (type contains the emoji)
+    subject = `${type} ${message}`;
+  } else if (commitStyle === 'simple') {
+    // Format: just message (no type prefix)
+    subject = message;
+  } else {
+    // Custom style - use as is
+    subject = `${type ? type + ': ' : ''}${message}`;
+  }
+
+  return body ? `${subject}\n\n${body}` : subject;
+}
+
+// Build the commit message prompt exactly as it is sent to the model (before redaction).
+// With dryRun, a diff over the budget is chunked but not summarized (see `kunj ai preview`)
+export async function buildCommitPrompt(
   files: string[],
   branchCommits: string[],
   currentBranch: string,
-  diff?: string
-): Promise<{ type: string; message: string; fullMessage?: string; branchDescription?: string }> {
-  try {
-    const config = loadConfig();
+  diff?: string,
+  options: PrepareDiffOptions = {}
+): Promise<GenerationPrompt> {
+  const config = loadConfig();
 
-    // Check if AI is enabled
-    if (!config.ai?.enabled) {
-      throw new Error("AI features are disabled in config");
-    }
+  // Get the diff if not provided
+  const fileDiff = diff || (await getCommitDiff(files));
 
-    // Get the diff if not provided
-    const fileDiff = diff || (await getCommitDiff(files));
+  // Prepare the context for AI (large diffs are summarized chunk by chunk)
+  const fileList = files.join(", ");
+  const preparedDiff = await prepareDiffForPrompt(fileDiff, "commit message", options);
 
-    // Prepare the context for AI
-    const fileList = files.join(", ");
-    const diffPreview =
-      fileDiff.length > 3000
-        ? fileDiff.substring(0, 3000) + "...[truncated]"
-        : fileDiff;
-
-    // Get AI configuration options
-    const maxCommits = config.ai?.maxContextCommits || 10;
-    const includeBranch = config.ai?.includeBranchContext !== false; // default true
-    const commitStyle = config.ai?.commitStyle || 'conventional';
-    const maxLength = config.ai?.subjectMaxLength || 50;
-    const includeBody = config.ai?.includeBody !== false; // default true
-    const customInstructions = config.ai?.customInstructions || '';
+  // Get AI configuration options
+  const maxCommits = config.ai?.maxContextCommits || 10;
+  const includeBranch = config.ai?.includeBranchContext !== false; // default true
+  const commitStyle = config.ai?.commitStyle || 'conventional';
+  const maxLength = config.ai?.subjectMaxLength || 50;
+  const includeBody = config.ai?.includeBody !== false; // default true
+  const customInstructions = config.ai?.customInstructions || '';
 
-    const branchContext = includeBranch && branchCommits.length > 0
-      ? `\nRecent commits on this branch (${currentBranch}):\n${branchCommits.slice(0, maxCommits).map(c => `- ${c}`).join('\n')}\n`
-      : '';
+  const branchContext = includeBranch && branchCommits.length > 0
+    ? `\nRecent commits on this branch (${currentBranch}):\n${branchCommits.slice(0, maxCommits).map(c => `- ${c}`).join('\n')}\n`
+    : '';
 
-    // Get project context if available
-    const projectContext = getProjectContext();
-    const projectContextSection = projectContext
-      ? `\nProject Context:\n${projectContext}\n`
-      : '';
+  // Get project context if available
+  const projectContext = getProjectContext();
+  const projectContextSection = projectContext
+    ? `\nProject Context:\n${projectContext}\n`
+    : '';
 
-    // Get the style-specific prompt guidelines
-    const styleGuidelines = getCommitStylePrompt(commitStyle, maxLength, includeBody, customInstructions);
+  // Get the style-specific prompt guidelines
+  const styleGuidelines = getCommitStylePrompt(commitStyle, maxLength, includeBody, customInstructions);
 
-    // Create the prompt for Claude
-    const prompt = `${styleGuidelines}
+  const prompt = `${styleGuidelines}
 ${projectContextSection}
 Your task is to analyze the code changes and generate an appropriate commit message, and also provide a very short description of what this branch is doing overall.
 ${branchContext}
@@ -243,33 +151,46 @@ Analyze these code changes:
 
 Files changed: ${fileList}
 
-Diff:
-\`\`\`diff
-${diffPreview}
-\`\`\`
+${formatDiffSection(preparedDiff, "Diff")}
 
 Respond with:
 TYPE: <commit type or category>
 MESSAGE: <commit subject line>
 ${includeBody ? 'BODY: <optional detailed description>\n' : ''}BRANCH_DESC: <very short description of what this branch is doing, 5-10 words>`;
 
-    // Get the Bedrock client
-    const client = await getBedrockClient();
+  return { prompt, chunkPrompts: preparedDiff.chunkPrompts || [] };
+}
+
+// Generate commit message using AI
+export async function generateAICommitMessage(
+  files: string[],
+  branchCommits: string[],
+  currentBranch: string,
+  diff?: string
+): Promise<{ type: string; message: string; fullMessage?: string; branchDescription?: string; fromAI: boolean }> {
+  try {
+    const config = loadConfig();
+
+    // Check if AI is enabled
+    if (!config.ai?.enabled) {
+      throw new Error("AI features are disabled in config");
+    }
+
+    const commitStyle = config.ai?.commitStyle || 'conventional';
+    const includeBody = config.ai?.includeBody !== false; // default true
+    const { prompt } = await buildCommitPrompt(files, branchCommits, currentBranch, diff);
 
     const styleLabel = commitStyle === 'conventional' ? 'Conventional Commits' :
                        commitStyle === 'semantic' ? 'Semantic Commits' :
                        commitStyle === 'gitmoji' ? 'Gitmoji' :
                        commitStyle === 'simple' ? 'Simple' :
                        commitStyle === 'caveman' ? 'Caveman' :
-                       'Custom Style';
+                       getCommitStyle(commitStyle).name;
 
-    console.log(chalk.blue(`🤖 Analyzing changes with Claude (${styleLabel})...`));
+    console.error(chalk.blue(`🤖 Analyzing changes with AI (${styleLabel})...`));
 
-    // Invoke the model using ChatBedrockConverse
-    const response = await client.invoke([{ role: "user", content: prompt }]);
-
-    // Extract the content from Claude's response
-    const content = response.content?.toString() || "";
+    // Invoke the configured model provider
+    const content = await invokeModel(prompt, { feature: "commit" });
 
     // Parse the response
     const typeMatch = content.match(/TYPE:\s*(.+?)(?:\n|$)/i);
@@ -287,34 +208,11 @@ ${includeBody ? 'BODY: <optional detailed description>\n' : ''}BRANCH_DESC: <ver
     const branchDescription = branchDescMatch ? branchDescMatch[1].trim() : undefined;
 
     // Build the full message based on commit style
-    let fullMessage: string;
-
-    if (commitStyle === 'conventional' || commitStyle === 'caveman') {
-      // Format: type: message (caveman uses same conventional format, just terser content)
-      const typePrefix = type.toLowerCase();
-      fullMessage = body
-        ? `${typePrefix}: ${commitMessage}\n\n${body}`
-        : `${typePrefix}: ${commitMessage}`;
-    } else if (commitStyle === 'semantic') {
-      // Format: [TYPE] message
-      fullMessage = body
-        ? `[${type.toUpperCase()}] ${commitMessage}\n\n${body}`
-        : `[${type.toUpperCase()}] ${commitMessage}`;
-    } else if (commitStyle === 'gitmoji') {
-      // Format: emoji message (type contains the emoji)
-      fullMessage = body
-        ? `${type} ${commitMessage}\n\n${body}`
-        : `${type} ${commitMessage}`;
-    } else if (commitStyle === 'simple') {
-      // Format: just message (no type prefix)
-      fullMessage = body
-        ? `${commitMessage}\n\n${body}`
-        : commitMessage;
-    } else {
-      // Custom style - use as is
-      fullMessage = body
-        ? `${type ? type + ': ' : ''}${commitMessage}\n\n${body}`
-        : `${type ? type + ': ' : ''}${commitMessage}`;
+    const fullMessage = formatCommitMessage(commitStyle, type, commitMessage, body);
+
+    const styleError = validateCommitSubject(commitStyle, fullMessage.split('\n')[0]);
+    if (styleError) {
+      console.error(chalk.yellow(`⚠ ${styleError}`));
     }
 
     return {
@@ -322,11 +220,9 @@ ${includeBody ? 'BODY: <optional detailed description>\n' : ''}BRANCH_DESC: <ver
       message: commitMessage,
       fullMessage,
       branchDescription,
+      fromAI: true,
     };
   } catch (error: any) {
-    if (isInferenceProfileError(error)) {
-      logInferenceProfileHelp(getDefaultModelId());
-    }
     console.error(chalk.red("AI generation failed:"), error.message);
 
     // Provide a fallback suggestion based on file patterns
@@ -340,6 +236,7 @@ ${includeBody ? 'BODY: <optional detailed description>\n' : ''}BRANCH_DESC: <ver
       message: fallbackMessage,
       fullMessage: `${fallbackType}: ${fallbackMessage}`,
       branchDescription: undefined,
+      fromAI: false,
     };
   }
 }
@@ -359,7 +256,7 @@ export async function generateWorkLogEntry(
 
     // Get the diff from the last commit (HEAD)
     // We're calling this after the commit is made, so we look at the commit we just made
-    const { stdout: diff } = await execAsync(`git show HEAD`);
+    const { stdout: diff } = await runGitOrThrow(["show", "HEAD"]);
 
     if (!diff.trim()) {
       console.log(chalk.gray("No diff available for work log"));
@@ -478,14 +375,8 @@ Bad Examples (includes WHY - DO NOT do this):
 
 Respond with just the tagged entry with bullets, no additional formatting.`;
 
-    // Get the Bedrock client
-    const client = await getBedrockClient();
-
-    // Invoke the model
-    const response = await client.invoke([{ role: "user", content: prompt }]);
-
-    // Extract the content from Claude's response
-    const workLogEntry = response.content?.toString().trim() || "";
+    // Invoke the configured model provider
+    const workLogEntry = (await invokeModel(prompt, { feature: "worklog" })).trim();
 
     if (workLogEntry) {
       return workLogEntry;
@@ -494,9 +385,6 @@ Respond with just the tagged entry with bullets, no additional formatting.`;
     console.log(chalk.gray("AI returned empty work log entry"));
     return null;
   } catch (error: any) {
-    if (isInferenceProfileError(error)) {
-      logInferenceProfileHelp(getDefaultModelId());
-    }
     console.error(chalk.red("Work log generation error:"), error.message);
     throw error; // Re-throw to be caught by caller
   }
@@ -514,7 +402,7 @@ export async function generateStashMessage(
     }
 
     // Get the diff for unstaged/staged changes
-    const { stdout: diff } = await execAsync("git diff HEAD");
+    const { stdout: diff } = await runGitOrThrow(["diff", "HEAD"]);
 
     if (!diff.trim()) {
       console.log(chalk.gray("No changes to stash"));
@@ -560,14 +448,8 @@ Examples:
 
 Respond with ONLY the stash message, nothing else.`;
 
-    // Get the Bedrock client
-    const client = await getBedrockClient();
-
-    // Invoke the model
-    const response = await client.invoke([{ role: "user", content: prompt }]);
-
-    // Extract the content from Claude's response
-    const stashMessage = response.content?.toString().trim() || "";
+    // Invoke the configured model provider
+    const stashMessage = (await invokeModel(prompt, { feature: "stash" })).trim();
 
     if (stashMessage) {
       // Remove any quotes that might be added
@@ -598,7 +480,7 @@ export async function generatePRLogEntry(
     }
 
     // Get the diff between base branch and current branch
-    const { stdout: diff } = await execAsync(`git diff ${baseBranch}...HEAD`);
+    const { stdout: diff } = await runGitOrThrow(["diff", `${baseBranch}...HEAD`]);
 
     if (!diff.trim()) {
       console.log(chalk.gray("No diff available for PR log"));
@@ -706,14 +588,8 @@ PR: #"
 
 Respond with just the tagged entry with bullets, no additional formatting.`;
 
-    // Get the Bedrock client
-    const client = await getBedrockClient();
-
-    // Invoke the model
-    const response = await client.invoke([{ role: "user", content: prompt }]);
-
-    // Extract the content from Claude's response
-    const prLogEntry = response.content?.toString().trim() || "";
+    // Invoke the configured model provider
+    const prLogEntry = (await invokeModel(prompt, { feature: "worklog" })).trim();
 
     if (prLogEntry) {
       return prLogEntry;
@@ -722,9 +598,6 @@ Respond with just the tagged entry with bullets, no additional formatting.`;
     console.log(chalk.gray("AI returned empty PR log entry"));
     return null;
   } catch (error: any) {
-    if (isInferenceProfileError(error)) {
-      logInferenceProfileHelp(getDefaultModelId());
-    }
     console.error(chalk.red("PR log generation error:"), error.message);
     throw error; // Re-throw to be caught by caller
   }
@@ -795,14 +668,8 @@ Example format (CASUAL tone):
 - Database: Cleaned up queries
 - UI: Added dark mode`;
 
-    // Get the Bedrock client
-    const client = await getBedrockClient();
-
-    // Invoke the model
-    const response = await client.invoke([{ role: "user", content: prompt }]);
-
-    // Extract the content from Claude's response
-    const responseText = response.content?.toString().trim() || "";
+    // Invoke the configured model provider
+    const responseText = (await invokeModel(prompt, { feature: "standup" })).trim();
 
     if (!responseText) {
       return null;
@@ -851,200 +718,3 @@ function suggestCommitType(files: string[]): string {
 
   return "feat";
 }
-
-// Validate that a specific model ID works by sending a minimal request.
-// Returns { ok: true } on success or { ok: false, message, inferenceProfileNeeded } on failure.
-export async function validateBedrockModel(modelId: string): Promise<{ ok: boolean; message?: string; inferenceProfileNeeded?: boolean }> {
-  try {
-    const region = await getAWSRegion();
-    const testClient = new ChatBedrockConverse({
-      model: modelId,
-      region,
-      credentials: defaultProvider(),
-      maxTokens: 1,
-    });
-
-    await testClient.invoke([{ role: "user", content: "hi" }]);
-    return { ok: true };
-  } catch (err: any) {
-    if (isInferenceProfileError(err)) {
-      return { ok: false, inferenceProfileNeeded: true, message: `Model requires a cross-region inference profile prefix (e.g. us.${modelId})` };
-    }
-    if (err.message?.includes("model identifier is invalid") || err.message?.includes("ValidationException")) {
-      return { ok: false, message: `Model '${modelId}' is not available in this region` };
-    }
-    if (
-      err.name === "CredentialsProviderError" ||
-      err.message?.includes("Could not load credentials") ||
-      err.message?.includes("Missing credentials") ||
-      err.$metadata?.httpStatusCode === 403 ||
-      err.$metadata?.httpStatusCode === 401
-    ) {
-      return { ok: false, message: "AWS credentials are missing or invalid" };
-    }
-    return { ok: false, message: err.message || "Unknown error" };
-  }
-}
-
-// Check if AI is enabled and AWS credentials are configured
-export async function checkAWSCredentials(): Promise<boolean> {
-  try {
-    const config = loadConfig();
-
-    // First check if AI is enabled in config
-    if (!config.ai?.enabled) {
-      return false;
-    }
-
-    // Try a minimal invoke to check if we have valid credentials and access
-    // We use a very small request to minimize cost
-    try {
-      // Set a very low max tokens to minimize cost
-      const testClient = new ChatBedrockConverse({
-        model: getDefaultModelId(),
-        region: await getAWSRegion(),
-        credentials: defaultProvider(),
-        maxTokens: 1,
-      });
-
-      await testClient.invoke([{ role: "user", content: "test" }]);
-      return true; // If successful, credentials are valid
-    } catch (err: any) {
-      // Check specific error types
-      if (
-        err.name === "CredentialsProviderError" ||
-        err.name === "InvalidSignatureException" ||
-        err.name === "UnrecognizedClientException" ||
-        err.name === "InvalidUserException" ||
-        err.name === "TokenRefreshRequired" ||
-        err.$metadata?.httpStatusCode === 403 ||
-        err.$metadata?.httpStatusCode === 401
-      ) {
-        // These errors indicate credential problems
-        return false;
-      }
-
-      // Check for missing credentials
-      if (
-        err.message?.includes("Could not load credentials") ||
-        err.message?.includes("Missing credentials") ||
-        err.message?.includes("No credentials") ||
-        err.message?.includes("Could not resolve credentials")
-      ) {
-        return false;
-      }
-
-      // Check for inference profile requirement (newer Claude models)
-      if (isInferenceProfileError(err)) {
-        logInferenceProfileHelp(getDefaultModelId());
-        return false;
-      }
-
-      // Check for invalid model identifier
-      if (
-        err.message?.includes("model identifier is invalid") ||
-        err.message?.includes("ValidationException")
-      ) {
-        // Model doesn't exist but credentials are OK
-        console.error(
-          chalk.yellow("Warning: Model not available:", getDefaultModelId())
-        );
-        console.error(
-          chalk.yellow(
-            "Try setting BEDROCK_MODEL environment variable to a valid model ID"
-          )
-        );
-        return true;
-      }
-
-      // Other errors (like ResourceNotFoundException for the model,
-      // or throttling) mean credentials are OK but there might be
-      // other issues - we consider credentials valid in these cases
-      return true;
-    }
-  } catch (error: any) {
-    // If we can't even create the client, credentials are not configured
-    console.error(
-      chalk.yellow("Warning: Could not check AWS credentials:", error.message)
-    );
-    return false;
-  }
-}
-
-export interface BedrockModelOption {
-  id: string;
-  name: string;
-  provider: string;
-  /** true = requires cross-region inference profile prefix (us./eu./ap.) */
-  requiresInferenceProfile: boolean;
-}
-
-// List available Bedrock models (foundation models + inference profiles),
-// filtered to Anthropic/Claude models only.
-export async function listBedrockModels(): Promise<BedrockModelOption[]> {
-  const region = await getAWSRegion();
-  const client = new BedrockClient({
-    region,
-    credentials: defaultProvider(),
-  });
-
-  const models: BedrockModelOption[] = [];
-
-  // 1. Foundation models (all providers that support text generation)
-  try {
-    const { modelSummaries = [] } = await client.send(
-      new ListFoundationModelsCommand({})
-    );
-    for (const m of modelSummaries) {
-      if (!m.modelId) continue;
-      // Only include models that support text generation
-      const outputModalities = m.outputModalities || [];
-      if (!outputModalities.includes("TEXT" as any)) continue;
-      const onDemandOk = m.inferenceTypesSupported?.includes("ON_DEMAND" as any);
-      models.push({
-        id: m.modelId,
-        name: m.modelName || m.modelId,
-        provider: m.providerName || "Unknown",
-        requiresInferenceProfile: !onDemandOk,
-      });
-    }
-  } catch {
-    // credentials or network issue — let caller handle
-  }
-
-  // 2. Cross-region inference profiles
-  try {
-    const { inferenceProfileSummaries = [] } = await client.send(
-      new ListInferenceProfilesCommand({})
-    );
-    for (const p of inferenceProfileSummaries) {
-      if (!p.inferenceProfileId) continue;
-      models.push({
-        id: p.inferenceProfileId,
-        name: p.inferenceProfileName || p.inferenceProfileId,
-        provider: "Inference Profile",
-        requiresInferenceProfile: false, // it IS the profile
-      });
-    }
-  } catch {
-    // Not all regions/accounts have inference profiles configured
-  }
-
-  return models;
-}
-
-// Get information about the current AWS configuration
-export async function getAWSConfigInfo(): Promise<{
-  enabled: boolean;
-  region: string;
-  model: string;
-  provider?: string;
-}> {
-  const config = loadConfig();
-  return {
-    enabled: config.ai?.enabled || false,
-    region: await getAWSRegion(),
-    model: getDefaultModelId(),
-    provider: config.ai?.provider,
-  };
-}
@@ -2,20 +2,18 @@
 
 import chalk from "chalk";
 import { loadConfig } from "./config";
-import { getCommitStylePrompt } from "./commit-styles";
-import { getBedrockClient } from "./ai-commit";
+import { getCommitStylePrompt, getCommitStyle } from "./commit-styles";
+import { invokeModel } from "./ai-providers";
+import { prepareDiffForPrompt, formatDiffSection, GenerationPrompt, PrepareDiffOptions } from "./diff-summarizer";
 import { BranchMetadata } from "../types";
 import { getCurrentBranch, getCommitsSinceBranch } from "./git";
+import { runGitOrThrow } from "./runner";
 
 // Get the diff between branches for PR context
 export async function getPRDiff(baseBranch: string): Promise<string> {
   try {
-    const { exec } = require("child_process");
-    const { promisify } = require("util");
-    const execAsync = promisify(exec);
-
     // Get the diff from base branch to current HEAD
-    const { stdout } = await execAsync(`git diff ${baseBranch}...HEAD`);
+    const { stdout } = await runGitOrThrow(["diff", `${baseBranch}...HEAD`]);
     return stdout || "";
   } catch (error) {
     console.error(chalk.yellow("Warning: Could not get PR diff"));
@@ -23,70 +21,61 @@ export async function getPRDiff(baseBranch: string): Promise<string> {
   }
 }
 
-// Generate PR title and description using AI
-export async function generateAIPRDescription(
+// Build the PR description prompt exactly as it is sent to the model (before redaction).
+// With dryRun, a diff over the budget is chunked but not summarized (see `kunj ai preview`)
+export async function buildPRPrompt(
   currentBranch: string,
   baseBranch: string,
   branchMetadata: BranchMetadata | undefined,
   commits: string[],
-  diff?: string
-): Promise<{ title: string; body: string }> {
-  try {
-    const config = loadConfig();
-
-    // Check if AI is enabled
-    if (!config.ai?.enabled) {
-      throw new Error("AI features are disabled in config");
-    }
-
-    // Get the diff if not provided and includeDiffInPR is enabled
-    const shouldIncludeDiff = config.ai?.includeDiffInPR !== false; // default true
-    const prDiff = shouldIncludeDiff ? (diff || (await getPRDiff(baseBranch))) : "";
-
-    // Get AI configuration
-    const commitStyle = config.ai?.commitStyle || 'conventional';
-    const maxLength = config.ai?.subjectMaxLength || 72; // PRs can be longer
-    const includeBody = config.ai?.includeBody !== false;
-    const customInstructions = config.ai?.customInstructions || '';
-    const includeBranchContext = config.ai?.includeBranchContext !== false;
-    const maxContextCommits = config.ai?.maxContextCommits || 10;
-
-    // Prepare branch context
-    const branchDescription = branchMetadata?.description || '';
-    const branchTags = branchMetadata?.tags?.join(', ') || '';
-    const branchNotes = branchMetadata?.notes || '';
-
-    // Prepare Jira context
-    const jiraContext = branchMetadata?.jiraIssueKey
-      ? `\nJira Ticket: ${branchMetadata.jiraIssueKey} - ${branchMetadata.jiraIssueTitle}\n`
-      : '';
-
-    // Truncate diff if too long
-    const diffPreview = prDiff.length > 5000
-      ? prDiff.substring(0, 5000) + "...[truncated]"
-      : prDiff;
-
-    // Format commits for context
-    const commitsContext = includeBranchContext && commits.length > 0
-      ? `\nCommits in this PR:\n${commits.slice(0, maxContextCommits).map(c => `- ${c}`).join('\n')}\n`
-      : '';
-
-    // Get style-specific guidelines (reuse commit style prompts)
-    const styleGuidelines = getCommitStylePrompt(commitStyle, maxLength, includeBody, customInstructions);
-
-    // Create the PR-specific prompt
-    const isCaveman = commitStyle === 'caveman';
-    const prompt = isCaveman
-      ? `Write terse, actionable PR description. No fluff. Location, problem, fix.
+  diff?: string,
+  options: PrepareDiffOptions = {}
+): Promise<GenerationPrompt> {
+  const config = loadConfig();
+
+  // Get the diff if not provided and includeDiffInPR is enabled
+  const shouldIncludeDiff = config.ai?.includeDiffInPR !== false; // default true
+  const prDiff = shouldIncludeDiff ? (diff || (await getPRDiff(baseBranch))) : "";
+
+  // Get AI configuration
+  const commitStyle = config.ai?.commitStyle || 'conventional';
+  const maxLength = config.ai?.subjectMaxLength || 72; // PRs can be longer
+  const includeBody = config.ai?.includeBody !== false;
+  const customInstructions = config.ai?.customInstructions || '';
+  const includeBranchContext = config.ai?.includeBranchContext !== false;
+  const maxContextCommits = config.ai?.maxContextCommits || 10;
+
+  // Prepare branch context
+  const branchDescription = branchMetadata?.description || '';
+  const branchTags = branchMetadata?.tags?.join(', ') || '';
+  const branchNotes = branchMetadata?.notes || '';
+
+  // Prepare Jira context
+  const jiraContext = branchMetadata?.jiraIssueKey
+    ? `\nJira Ticket: ${branchMetadata.jiraIssueKey} - ${branchMetadata.jiraIssueTitle}\n`
+    : '';
+
+  // Summarize the diff chunk by chunk if it is too large for one prompt
+  const preparedDiff = await prepareDiffForPrompt(prDiff, "pull request", options);
+
+  // Format commits for context
+  const commitsContext = includeBranchContext && commits.length > 0
+    ? `\nCommits in this PR:\n${commits.slice(0, maxContextCommits).map(c => `- ${c}`).join('\n')}\n`
+    : '';
+
+  // Get style-specific guidelines (reuse commit style prompts)
+  const styleGuidelines = getCommitStylePrompt(commitStyle, maxLength, includeBody, customInstructions);
+
+  // Create the PR-specific prompt
+  const isCaveman = commitStyle === 'caveman';
+  const prompt = isCaveman
+    ? `Write terse, actionable PR description. No fluff. Location, problem, fix.
 
 Branch: ${currentBranch} → ${baseBranch}
 ${branchDescription ? `Purpose: ${branchDescription}` : ''}
 ${branchTags ? `Tags: ${branchTags}` : ''}
 ${jiraContext}${commitsContext}
-Diff:
-\`\`\`diff
-${diffPreview}
-\`\`\`
+${formatDiffSection(preparedDiff, "Diff")}
 
 Rules:
 - Title: imperative, max ${maxLength} chars, no trailing period
@@ -100,7 +89,7 @@ Respond with:
 TITLE: <pr title>
 SUMMARY: <terse overview>
 CHANGES: <bullet per change, file:what format>`
-      : `You are an expert at writing clear, informative GitHub pull request descriptions.
+    : `You are an expert at writing clear, informative GitHub pull request descriptions.
 
 ${styleGuidelines}
 
@@ -113,10 +102,7 @@ ${branchDescription ? `- Branch purpose: ${branchDescription}` : ''}
 ${branchTags ? `- Tags: ${branchTags}` : ''}
 ${branchNotes ? `- Notes: ${branchNotes}` : ''}
 ${jiraContext}${commitsContext}
-Code Changes:
-\`\`\`diff
-${diffPreview}
-\`\`\`
+${formatDiffSection(preparedDiff, "Code Changes")}
 
 Generate a pull request with:
 1. A concise, descriptive title (max ${maxLength} characters)
@@ -128,23 +114,39 @@ TITLE: <pr title>
 SUMMARY: <high-level overview of what this PR does and why>
 CHANGES: <detailed breakdown of key changes, one per line, use bullet points>`;
 
-    // Get the Bedrock client (reuses cached client from ai-commit)
-    const client = await getBedrockClient();
+  return { prompt, chunkPrompts: preparedDiff.chunkPrompts || [] };
+}
+
+// Generate PR title and description using AI
+export async function generateAIPRDescription(
+  currentBranch: string,
+  baseBranch: string,
+  branchMetadata: BranchMetadata | undefined,
+  commits: string[],
+  diff?: string
+): Promise<{ title: string; body: string }> {
+  try {
+    const config = loadConfig();
+
+    // Check if AI is enabled
+    if (!config.ai?.enabled) {
+      throw new Error("AI features are disabled in config");
+    }
+
+    const commitStyle = config.ai?.commitStyle || 'conventional';
+    const { prompt } = await buildPRPrompt(currentBranch, baseBranch, branchMetadata, commits, diff);
 
     const styleLabel = commitStyle === 'conventional' ? 'Conventional Style' :
                        commitStyle === 'semantic' ? 'Semantic Style' :
                        commitStyle === 'gitmoji' ? 'Gitmoji Style' :
                        commitStyle === 'simple' ? 'Simple Style' :
                        commitStyle === 'caveman' ? 'Caveman Style' :
-                       'Custom Style';
+                       getCommitStyle(commitStyle).name;
 
-    console.log(chalk.blue(`🤖 Generating PR description with Claude (${styleLabel})...`));
+    console.error(chalk.blue(`🤖 Generating PR description with AI (${styleLabel})...`));
 
-    // Invoke the model
-    const response = await client.invoke([{ role: "user", content: prompt }]);
-
-    // Extract the content
-    const content = response.content?.toString() || "";
+    // Invoke the configured model provider
+    const content = await invokeModel(prompt, { feature: "pr" });
 
     // Parse the response
     const titleMatch = content.match(/TITLE:\s*(.+?)(?:\n|$)/i);
@@ -218,9 +220,7 @@ export async function generateAIJiraTicket(options?: {
 
     // Get the diff
     const diff = await getPRDiff(baseBranch);
-    const diffPreview = diff.length > 3000
-      ? diff.substring(0, 3000) + "...[truncated]"
-      : diff;
+    const preparedDiff = await prepareDiffForPrompt(diff, "Jira ticket");
 
     // Get branch metadata
     const branchMetadata = options?.branchMetadata;
@@ -245,10 +245,7 @@ ${branchDescription ? `- Branch purpose: ${branchDescription}` : ''}
 ${branchTags ? `- Tags: ${branchTags}` : ''}
 ${branchNotes ? `- Notes: ${branchNotes}` : ''}
 ${commitsContext}
-Code Changes:
-\`\`\`diff
-${diffPreview}
-\`\`\`
+${formatDiffSection(preparedDiff, "Code Changes")}
 
 Generate a Jira ticket with:
 1. A concise summary/title (max 80 characters) that captures the main purpose
@@ -270,16 +267,10 @@ SUMMARY: <ticket summary/title>
 BRANCH_NAME: <short-branch-name>
 DESCRIPTION: <detailed description with bullet points>`;
 
-    // Get the Bedrock client
-    const client = await getBedrockClient();
-
     console.log(chalk.blue('🤖 Generating Jira ticket with AI...'));
 
-    // Invoke the model
-    const response = await client.invoke([{ role: "user", content: prompt }]);
-
-    // Extract the content
-    const content = response.content?.toString() || "";
+    // Invoke the configured model provider
+    const content = await invokeModel(prompt, { feature: "jira" });
 
     // Parse the response
     const summaryMatch = content.match(/SUMMARY:\s*(.+?)(?:\n|$)/i);
@@ -0,0 +1,307 @@
+// AI code review of branch diffs with line-anchored findings
+
+import chalk from "chalk";
+import { loadConfig } from "./config";
+import { invokeModel } from "./ai-providers";
+import { chunkDiff, DiffChunk } from "./diff-summarizer";
+import { estimateTokenCount } from "./ai-usage";
+
+export type ReviewSeverity = "critical" | "warning" | "suggestion" | "nit";
+
+export const REVIEW_SEVERITIES: ReviewSeverity[] = ["critical", "warning", "suggestion", "nit"];
+
+export interface ReviewFinding {
+  file: string;
+  /** Line number in the new version of the file */
+  line: number;
+  severity: ReviewSeverity;
+  /** e.g. bug, security, performance, error-handling, readability, tests */
+  category: string;
+  message: string;
+  suggestion: string;
+}
+
+export interface AIReviewResult {
+  findings: ReviewFinding[];
+  /** Parts of a chunked diff whose review failed; their findings are missing */
+  failedParts: number;
+  totalParts: number;
+}
+
+const DEFAULT_DIFF_TOKEN_BUDGET = 6000;
+const REVIEW_CONCURRENCY = 3;
+
+// Prefix every added/context line with its line number in the new file so the
+// model can anchor findings without counting hunk offsets itself
+export function annotateDiffWithLineNumbers(diff: string): string {
+  let newLine = 0;
+
+  return diff
+    .split("\n")
+    .map((line) => {
+      const hunkMatch = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+      if (hunkMatch) {
+        newLine = parseInt(hunkMatch[1], 10);
+        return line;
+      }
+      if (line.startsWith("+++ ") || line.startsWith("--- ") || line.startsWith("diff --git") || !newLine) {
+        return line;
+      }
+      if (line.startsWith("-")) {
+        return `     ${line}`;
+      }
+      if (line.startsWith("+") || line.startsWith(" ")) {
+        return `${String(newLine++).padStart(4)} ${line}`;
+      }
+      return line;
+    })
+    .join("\n");
+}
+
+// Lines (new-file numbering) that appear in the diff, per file. Review comments
+// can only be attached to these lines on GitHub.
+export function getCommentableLines(diff: string): Map<string, Set<number>> {
+  const result = new Map<string, Set<number>>();
+  let current: Set<number> | null = null;
+  let newLine = 0;
+
+  for (const line of diff.split("\n")) {
+    const fileMatch = line.match(/^\+\+\+ b\/(.+)$/);
+    if (fileMatch) {
+      current = new Set<number>();
+      result.set(fileMatch[1], current);
+      continue;
+    }
+    const hunkMatch = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunkMatch) {
+      newLine = parseInt(hunkMatch[1], 10);
+      continue;
+    }
+    if (!current || line.startsWith("--- ") || line.startsWith("diff --git")) {
+      continue;
+    }
+    if (line.startsWith("+") || line.startsWith(" ")) {
+      current.add(newLine++);
+    }
+  }
+
+  return result;
+}
+
+// Cut a small hunk (with a valid hunk header) around a line in a file, for display
+export function extractDiffExcerpt(diff: string, file: string, line: number, context: number = 3): string | null {
+  const fileSection = diff
+    .split(/(?=^diff --git )/m)
+    .find((section) => section.match(new RegExp(`^\\+\\+\\+ b/${escapeRegExp(file)}$`, "m")));
+  if (!fileSection) {
+    return null;
+  }
+
+  const headerEnd = fileSection.search(/^@@ /m);
+  if (headerEnd === -1) {
+    return null;
+  }
+
+  for (const hunk of fileSection.substring(headerEnd).split(/(?=^@@ )/m)) {
+    const [hunkHeader, ...body] = hunk.replace(/\n$/, "").split("\n");
+    const match = hunkHeader.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (!match) continue;
+
+    let oldLine = parseInt(match[1], 10);
+    let newLine = parseInt(match[2], 10);
+    const picked: string[] = [];
+    let startOld = 0;
+    let startNew = 0;
+    let oldCount = 0;
+    let newCount = 0;
+
+    for (const bodyLine of body) {
+      const inWindow = newLine >= line - context && newLine <= line + context;
+      if (inWindow) {
+        if (picked.length === 0) {
+          startOld = oldLine;
+          startNew = newLine;
+        }
+        picked.push(bodyLine);
+      }
+      if (bodyLine.startsWith("-")) {
+        oldLine++;
+        if (inWindow) oldCount++;
+      } else if (bodyLine.startsWith("+")) {
+        newLine++;
+        if (inWindow) newCount++;
+      } else {
+        oldLine++;
+        newLine++;
+        if (inWindow) {
+          oldCount++;
+          newCount++;
+        }
+      }
+    }
+
+    if (picked.length > 0) {
+      return `@@ -${startOld},${oldCount} +${startNew},${newCount} @@\n${picked.join("\n")}`;
+    }
+  }
+
+  return null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function buildReviewPrompt(annotatedDiff: string, context: string, part?: string): string {
+  const customInstructions = loadConfig().ai?.customInstructions || "";
+
+  return `You are a senior engineer doing a first-pass code review before human reviewers look at this change.
+${context}${part ? `\nThis is part ${part} of a larger diff; review only what is shown.\n` : ""}
+Each added or unchanged line in the diff is prefixed with its line number in the new file.
+Removed lines have no number.
+
+\`\`\`diff
+${annotatedDiff}
+\`\`\`
+
+Review the ADDED lines for:
+- bug: logic errors, wrong conditions, off-by-one, unhandled null/undefined
+- security: injection, secrets, unsafe input handling
+- error-handling: swallowed errors, missing failure paths
+- performance: needless work in loops, blocking calls
+- readability: confusing names or structure (only when it matters)
+- tests: risky logic without tests
+
+Severity:
+- critical: will break something or is a security problem
+- warning: likely bug or fragile code
+- suggestion: worthwhile improvement
+- nit: minor style point
+${customInstructions ? `\nAdditional instructions:\n${customInstructions}\n` : ""}
+Respond with ONLY a JSON array (no prose, no code fence). Use [] if there is nothing worth flagging.
+Each element: {"file": "<path>", "line": <new line number>, "severity": "critical|warning|suggestion|nit", "category": "<category>", "message": "<what is wrong>", "suggestion": "<how to fix it>"}`;
+}
+
+// A finding as the model returns it: only file and message are required
+interface RawFinding {
+  file: string;
+  message: unknown;
+  line?: unknown;
+  severity?: unknown;
+  category?: unknown;
+  suggestion?: unknown;
+}
+
+function isRawFinding(item: unknown): item is RawFinding {
+  if (typeof item !== "object" || item === null) {
+    return false;
+  }
+  const { file, message } = item as Record<string, unknown>;
+  return typeof file === "string" && !!message;
+}
+
+// Parse the model's JSON array of findings, dropping malformed entries
+export function parseReviewResponse(content: string): ReviewFinding[] {
+  const start = content.indexOf("[");
+  const end = content.lastIndexOf("]");
+  if (start === -1 || end <= start) {
+    throw new Error("Could not parse AI review - no JSON array found");
+  }
+
+  const raw: unknown = JSON.parse(content.substring(start, end + 1));
+  if (!Array.isArray(raw)) {
+    throw new Error("Could not parse AI review - expected a JSON array");
+  }
+
+  return raw
+    .filter(isRawFinding)
+    .map((item) => {
+      const severity = String(item.severity || "").toLowerCase() as ReviewSeverity;
+      return {
+        file: item.file.replace(/^[ab]\//, ""),
+        line: parseInt(String(item.line), 10) || 0,
+        severity: REVIEW_SEVERITIES.includes(severity) ? severity : "suggestion",
+        category: String(item.category || "general").toLowerCase(),
+        message: String(item.message).trim(),
+        suggestion: String(item.suggestion || "").trim(),
+      };
+    });
+}
+
+// Order by severity, then file and line
+export function sortFindings(findings: ReviewFinding[]): ReviewFinding[] {
+  return [...findings].sort(
+    (a, b) =>
+      REVIEW_SEVERITIES.indexOf(a.severity) - REVIEW_SEVERITIES.indexOf(b.severity) ||
+      a.file.localeCompare(b.file) ||
+      a.line - b.line
+  );
+}
+
+// Review a diff. Diffs over ai.diffTokenBudget are reviewed chunk by chunk.
+export async function generateAIReview(
+  diff: string,
+  options: { branch?: string; baseBranch?: string; commits?: string[] } = {}
+): Promise<AIReviewResult> {
+  const config = loadConfig();
+
+  if (!config.ai?.enabled) {
+    throw new Error("AI features are disabled in config");
+  }
+
+  const context = [
+    options.branch && options.baseBranch ? `Branch: ${options.branch} → ${options.baseBranch}` : "",
+    options.commits && options.commits.length > 0
+      ? `Commits:\n${options.commits.slice(0, config.ai?.maxContextCommits || 10).map((c) => `- ${c}`).join("\n")}`
+      : "",
+  ].filter(Boolean).join("\n");
+
+  const budget = config.ai?.diffTokenBudget || DEFAULT_DIFF_TOKEN_BUDGET;
+  const chunks: DiffChunk[] = estimateTokenCount(diff) <= budget
+    ? [{ files: [], content: diff, tokens: estimateTokenCount(diff) }]
+    : chunkDiff(diff, config.ai?.diffChunkTokens || budget / 2);
+
+  if (chunks.length > 1) {
+    console.error(chalk.gray(`  Large diff — reviewing ${chunks.length} chunk(s)...`));
+  }
+
+  const findings: ReviewFinding[] = [];
+  const failures: string[] = [];
+  for (let i = 0; i < chunks.length; i += REVIEW_CONCURRENCY) {
+    const batch = chunks.slice(i, i + REVIEW_CONCURRENCY);
+    const results = await Promise.allSettled(
+      batch.map(async (chunk, idx) => {
+        const part = chunks.length > 1 ? `${i + idx + 1}/${chunks.length}` : undefined;
+        const prompt = buildReviewPrompt(annotateDiffWithLineNumbers(chunk.content), context, part);
+        const content = await invokeModel(prompt, { temperature: 0.2, feature: "review" });
+        return parseReviewResponse(content);
+      })
+    );
+
+    for (const result of results) {
+      if (result.status === "fulfilled") {
+        findings.push(...result.value);
+      } else if (chunks.length === 1) {
+        throw result.reason;
+      } else {
+        const message = result.reason?.message || "unknown error";
+        failures.push(message);
+        console.error(chalk.yellow(`  Warning: review of one chunk failed: ${message}`));
+      }
+    }
+  }
+
+  // An empty result from a review that never ran must not read as "no findings"
+  if (failures.length === chunks.length) {
+    throw new Error(`AI review failed for all ${chunks.length} parts: ${failures[0]}`);
+  }
+
+  return { findings: sortFindings(findings), failedParts: failures.length, totalParts: chunks.length };
+}
+
+// "2 of 5 parts could not be reviewed", or null when the whole diff was reviewed
+export function describeReviewGaps(result: AIReviewResult): string | null {
+  return result.failedParts > 0
+    ? `${result.failedParts} of ${result.totalParts} parts could not be reviewed`
+    : null;
+}
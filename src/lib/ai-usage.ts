@@ -0,0 +1,269 @@
+// AI usage ledger (~/.kunj/ai-usage.jsonl), price tables and monthly budget
+
+import chalk from "chalk";
+import * as fs from "fs";
+import * as path from "path";
+import { loadConfig, getGlobalKunjDir } from "./config";
+
+// Which generator made the call; used for the per-feature breakdown and budget rules
+export type AIFeature =
+  | "commit"
+  | "commit-split"
+  | "pr"
+  | "jira"
+  | "review"
+  | "diff-summary"
+  | "stash"
+  | "worklog"
+  | "standup"
+  | "team"
+  | "other";
+
+export interface AIUsageRecord {
+  timestamp: string;
+  feature: AIFeature;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** True when the provider did not report usage and tokens were estimated from text length */
+  estimated: boolean;
+  latencyMs: number;
+  cached: boolean;
+}
+
+export interface ModelPrice {
+  /** USD per million input tokens */
+  input: number;
+  /** USD per million output tokens */
+  output: number;
+}
+
+export interface UsageBucket {
+  calls: number;
+  cachedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number;
+  /** Models without a price table entry (cost counted as 0) */
+  unpricedModels: string[];
+}
+
+export interface UsageReport {
+  since: string;
+  total: UsageBucket;
+  byDay: Record<string, UsageBucket>;
+  byFeature: Record<string, UsageBucket>;
+  byModel: Record<string, UsageBucket>;
+}
+
+export interface BudgetStatus {
+  monthlyUSD: number;
+  spentUSD: number;
+  exceeded: boolean;
+  action: "warn" | "block";
+}
+
+// List prices in USD per million tokens, matched as a substring of the model id
+// (so Bedrock ids like "us.anthropic.claude-3-5-haiku-20241022-v1:0" resolve too).
+// Override or extend with ai.usage.prices.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "claude-3-haiku": { input: 0.25, output: 1.25 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+};
+
+const DEFAULT_NON_ESSENTIAL: string[] = ["team"];
+
+export function getUsageLedgerPath(): string {
+  return path.join(getGlobalKunjDir(), "ai-usage.jsonl");
+}
+
+// Rough token estimate — ~4 characters per token for code and English
+export function estimateTokenCount(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Append one invocation to the ledger; never throws
+export function recordUsage(record: Omit<AIUsageRecord, "timestamp">): void {
+  if (loadConfig().ai?.usage?.enabled === false) {
+    return;
+  }
+
+  try {
+    const ledgerPath = getUsageLedgerPath();
+    fs.mkdirSync(path.dirname(ledgerPath), { recursive: true });
+    fs.appendFileSync(
+      ledgerPath,
+      JSON.stringify({ timestamp: new Date().toISOString(), ...record }) + "\n"
+    );
+  } catch {
+    // Usage tracking is best-effort
+  }
+}
+
+export function readUsageLedger(since?: Date): AIUsageRecord[] {
+  const ledgerPath = getUsageLedgerPath();
+  if (!fs.existsSync(ledgerPath)) {
+    return [];
+  }
+
+  const records: AIUsageRecord[] = [];
+  for (const line of fs.readFileSync(ledgerPath, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record: AIUsageRecord = JSON.parse(line);
+      if (!since || new Date(record.timestamp) >= since) {
+        records.push(record);
+      }
+    } catch {
+      // Skip a partially written line
+    }
+  }
+  return records;
+}
+
+// Built-in prices merged with ai.usage.prices entries of the form "model=input/output"
+export function getPriceTable(): Record<string, ModelPrice> {
+  const table: Record<string, ModelPrice> = { ...DEFAULT_MODEL_PRICES };
+
+  for (const entry of loadConfig().ai?.usage?.prices || []) {
+    const match = entry.match(/^(.+?)=([\d.]+)\/([\d.]+)$/);
+    if (match) {
+      table[match[1].trim()] = { input: parseFloat(match[2]), output: parseFloat(match[3]) };
+    }
+  }
+  return table;
+}
+
+// Longest matching key wins, so "gpt-4o-mini" is not priced as "gpt-4o"
+export function findModelPrice(model: string, table: Record<string, ModelPrice> = getPriceTable()): ModelPrice | null {
+  const key = Object.keys(table)
+    .filter((name) => model.includes(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? table[key] : null;
+}
+
+export function calculateCost(record: AIUsageRecord, table: Record<string, ModelPrice> = getPriceTable()): number | null {
+  if (record.cached) {
+    return 0;
+  }
+  const price = findModelPrice(record.model, table);
+  if (!price) {
+    return null;
+  }
+  return (record.inputTokens * price.input + record.outputTokens * price.output) / 1_000_000;
+}
+
+function emptyBucket(): UsageBucket {
+  return { calls: 0, cachedCalls: 0, inputTokens: 0, outputTokens: 0, costUSD: 0, unpricedModels: [] };
+}
+
+function addToBucket(bucket: UsageBucket, record: AIUsageRecord, cost: number | null): void {
+  bucket.calls++;
+  if (record.cached) {
+    bucket.cachedCalls++;
+    return;
+  }
+  bucket.inputTokens += record.inputTokens;
+  bucket.outputTokens += record.outputTokens;
+  if (cost === null) {
+    if (!bucket.unpricedModels.includes(record.model)) {
+      bucket.unpricedModels.push(record.model);
+    }
+  } else {
+    bucket.costUSD += cost;
+  }
+}
+
+// Aggregate the ledger per local day, feature and model
+export function buildUsageReport(records: AIUsageRecord[], since: Date): UsageReport {
+  const table = getPriceTable();
+  const report: UsageReport = {
+    since: since.toISOString(),
+    total: emptyBucket(),
+    byDay: {},
+    byFeature: {},
+    byModel: {},
+  };
+
+  for (const record of records) {
+    const cost = calculateCost(record, table);
+    const ts = new Date(record.timestamp);
+    const day = `${ts.getFullYear()}-${String(ts.getMonth() + 1).padStart(2, "0")}-${String(ts.getDate()).padStart(2, "0")}`;
+
+    addToBucket(report.total, record, cost);
+    addToBucket((report.byDay[day] ||= emptyBucket()), record, cost);
+    addToBucket((report.byFeature[record.feature] ||= emptyBucket()), record, cost);
+    addToBucket((report.byModel[record.model] ||= emptyBucket()), record, cost);
+  }
+
+  return report;
+}
+
+export function getMonthStart(now: Date = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+// Spend so far this calendar month against ai.budget.monthlyUSD (null when no budget is set)
+export function getBudgetStatus(): BudgetStatus | null {
+  const budget = loadConfig().ai?.budget;
+  if (!budget?.monthlyUSD || budget.monthlyUSD <= 0) {
+    return null;
+  }
+
+  const spentUSD = buildUsageReport(readUsageLedger(getMonthStart()), getMonthStart()).total.costUSD;
+  return {
+    monthlyUSD: budget.monthlyUSD,
+    spentUSD,
+    exceeded: spentUSD >= budget.monthlyUSD,
+    action: budget.action === "block" ? "block" : "warn",
+  };
+}
+
+// e.g. "$12.40 of $10.00"
+export function formatBudget(status: BudgetStatus): string {
+  return `$${status.spentUSD.toFixed(2)} of $${status.monthlyUSD.toFixed(2)}`;
+}
+
+// Budget status when this feature must be skipped (over budget, action "block",
+// feature listed in ai.budget.nonEssential), otherwise null
+export function getBudgetBlock(feature: AIFeature): BudgetStatus | null {
+  const status = getBudgetStatus();
+  if (!status?.exceeded || status.action !== "block") {
+    return null;
+  }
+  const nonEssential = loadConfig().ai?.budget?.nonEssential || DEFAULT_NON_ESSENTIAL;
+  return nonEssential.includes(feature) ? status : null;
+}
+
+let budgetWarned = false;
+
+// Called before every model invocation. Warns once per run when the monthly budget
+// is exceeded, and throws for features that getBudgetBlock() says to skip.
+export function enforceBudget(feature: AIFeature): void {
+  const status = getBudgetStatus();
+  if (!status?.exceeded) {
+    return;
+  }
+
+  if (getBudgetBlock(feature)) {
+    throw new Error(
+      `Monthly AI budget exceeded (${formatBudget(status)}) — skipping non-essential '${feature}' generation. ` +
+        `Raise ai.budget.monthlyUSD or set ai.budget.action to "warn".`
+    );
+  }
+
+  if (!budgetWarned) {
+    budgetWarned = true;
+    console.error(chalk.yellow(`  ⚠ Monthly AI budget exceeded (${formatBudget(status)}) — see "kunj ai usage"`));
+  }
+}
@@ -0,0 +1,179 @@
+// Checkpoints - snapshots of the working tree, untracked files included, kept on hidden refs
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadConfig } from './config';
+import { getCurrentBranch, hasUncommittedChanges } from './git';
+import { getGitRoot, runGit, runGitOrThrow } from './runner';
+
+export const CHECKPOINT_REF_PREFIX = 'refs/kunj/checkpoints';
+
+export interface Checkpoint {
+  id: string; // Millisecond timestamp of the save, unique per branch
+  ref: string;
+  sha: string;
+  branch: string;
+  message: string;
+  date: string;
+}
+
+export interface RestoreResult {
+  checkpoint: Checkpoint;
+  backup: Checkpoint | null; // State of the working tree before the restore
+  removed: string[]; // Files deleted because the checkpoint does not have them
+}
+
+function checkpointBranch(branch: string): string {
+  return branch || 'detached';
+}
+
+// Write the working tree (tracked and untracked, minus ignored files) as a tree object,
+// using a throwaway index so the real one is left alone
+export async function snapshotWorkingTree(): Promise<string> {
+  const root = await getGitRoot();
+  const indexPath = path.resolve(root, (await runGitOrThrow(['rev-parse', '--git-path', 'index'])).stdout.trim());
+  const tmpIndex = path.join(os.tmpdir(), `kunj-checkpoint-${process.pid}-${Date.now()}.index`);
+
+  try {
+    if (fs.existsSync(indexPath)) {
+      // Reuse cached file stats; the copy keeps the index mtime so racily clean files are still re-read
+      const { atime, mtime } = fs.statSync(indexPath);
+      fs.copyFileSync(indexPath, tmpIndex);
+      fs.utimesSync(tmpIndex, atime, mtime);
+    }
+    const env = { ...process.env, GIT_INDEX_FILE: tmpIndex };
+    await runGitOrThrow(['add', '-A', '--', '.'], { env });
+    return (await runGitOrThrow(['write-tree'], { env })).stdout.trim();
+  } finally {
+    if (fs.existsSync(tmpIndex)) {
+      fs.unlinkSync(tmpIndex);
+    }
+  }
+}
+
+// Paths as given on the command line are relative to the current directory; git runs from the root
+async function toRepoPaths(files: string[]): Promise<string[]> {
+  const root = await getGitRoot();
+  return files.map((file) => path.relative(root, path.resolve(process.cwd(), file)) || '.');
+}
+
+// Save the working tree as a commit (parent: HEAD) under refs/kunj/checkpoints/<branch>/<id>
+export async function saveCheckpoint(message?: string): Promise<Checkpoint> {
+  const branch = checkpointBranch(await getCurrentBranch());
+  const tree = await snapshotWorkingTree();
+  const head = await runGit(['rev-parse', '--verify', '--quiet', 'HEAD']);
+
+  const subject = message?.trim() || `Checkpoint of ${branch}`;
+  const parents = head.success ? ['-p', head.stdout.trim()] : [];
+  const sha = (await runGitOrThrow(['commit-tree', tree, ...parents, '-m', subject])).stdout.trim();
+
+  // Ids are timestamps; bump past one already taken by a save in the same millisecond
+  let id = Date.now();
+  while ((await runGit(['rev-parse', '--verify', '--quiet', `${CHECKPOINT_REF_PREFIX}/${branch}/${id}`])).success) {
+    id++;
+  }
+  const ref = `${CHECKPOINT_REF_PREFIX}/${branch}/${id}`;
+  await runGitOrThrow(['update-ref', ref, sha, '']);
+
+  return { id: String(id), ref, sha, branch, message: subject, date: new Date(id).toISOString() };
+}
+
+// Checkpoints of one branch (or all of them), newest first
+export async function listCheckpoints(branch?: string): Promise<Checkpoint[]> {
+  const prefix = `${CHECKPOINT_REF_PREFIX}/`;
+  const pattern = branch !== undefined ? `${prefix}${checkpointBranch(branch)}/` : prefix;
+  const { stdout } = await runGitOrThrow(['for-each-ref', '--format=%(refname)%00%(objectname)%00%(contents:subject)', pattern]);
+
+  return stdout
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => {
+      const [ref, sha, message] = line.split('\0');
+      const name = ref.substring(prefix.length);
+      const slash = name.lastIndexOf('/');
+      const id = name.substring(slash + 1);
+      return { id, ref, sha, branch: name.substring(0, slash), message, date: new Date(Number(id)).toISOString() };
+    })
+    // The ref prefix of 'feat' also matches checkpoints of 'feat/sub'
+    .filter((cp) => branch === undefined || cp.branch === checkpointBranch(branch))
+    .sort((a, b) => Number(b.id) - Number(a.id));
+}
+
+// Find a checkpoint of the branch by id or by position in the list (0 = newest); the newest when omitted
+export async function resolveCheckpoint(branch: string, selector?: string): Promise<Checkpoint> {
+  const checkpoints = await listCheckpoints(branch);
+  if (checkpoints.length === 0) {
+    throw new Error(`No checkpoints for ${checkpointBranch(branch)}`);
+  }
+  if (selector === undefined) {
+    return checkpoints[0];
+  }
+
+  const byId = checkpoints.find((cp) => cp.id === selector || cp.ref === selector);
+  if (byId) {
+    return byId;
+  }
+  if (/^\d+$/.test(selector) && Number(selector) < checkpoints.length) {
+    return checkpoints[Number(selector)];
+  }
+  throw new Error(`Unknown checkpoint '${selector}' for ${checkpointBranch(branch)}; see 'kunj checkpoint list'`);
+}
+
+// Diff from the checkpoint to the current working tree (untracked files included)
+export async function diffCheckpoint(checkpoint: Checkpoint, files: string[] = [], options: { stat?: boolean } = {}): Promise<string> {
+  const current = await snapshotWorkingTree();
+  const paths = await toRepoPaths(files);
+  const statArgs = options.stat ? ['--stat'] : [];
+  return (await runGitOrThrow(['diff', '--no-color', ...statArgs, checkpoint.sha, current, '--', ...paths])).stdout;
+}
+
+// Bring back the checkpoint's version of the whole tree or of some files. The index is left alone,
+// and the current state is checkpointed first so the restore itself can be undone.
+export async function restoreCheckpoint(checkpoint: Checkpoint, files: string[] = []): Promise<RestoreResult> {
+  const result: RestoreResult = { checkpoint, backup: null, removed: [] };
+  const current = await snapshotWorkingTree();
+  const checkpointTree = (await runGitOrThrow(['rev-parse', `${checkpoint.sha}^{tree}`])).stdout.trim();
+  if (current === checkpointTree) {
+    return result;
+  }
+
+  if (files.length > 0) {
+    const paths = await toRepoPaths(files);
+    const known = (await runGitOrThrow(['ls-tree', '-r', '--name-only', checkpoint.sha, '--', ...paths])).stdout;
+    const missing = paths.filter((p) => !known.split('\n').some((f) => f === p || f.startsWith(`${p === '.' ? '' : p}/`)));
+    if (missing.length > 0) {
+      throw new Error(`Not in checkpoint ${checkpoint.id}: ${missing.join(', ')}`);
+    }
+    result.backup = await saveCheckpoint(`Before restoring ${checkpoint.id}`);
+    await runGitOrThrow(['restore', `--source=${checkpoint.sha}`, '--worktree', '--', ...paths]);
+    return result;
+  }
+
+  result.backup = await saveCheckpoint(`Before restoring ${checkpoint.id}`);
+  // Tracked files the checkpoint lacks are removed by restore; untracked ones need deleting by hand
+  const inCheckpoint = new Set((await runGitOrThrow(['ls-tree', '-r', '--name-only', checkpoint.sha])).stdout.split('\n'));
+  const untracked = (await runGitOrThrow(['ls-files', '--others', '--exclude-standard'])).stdout.split('\n').filter((f) => f.trim());
+  await runGitOrThrow(['restore', `--source=${checkpoint.sha}`, '--worktree', '--', '.']);
+
+  const root = await getGitRoot();
+  for (const file of untracked.filter((f) => !inCheckpoint.has(f))) {
+    fs.rmSync(path.join(root, file), { force: true });
+    result.removed.push(file);
+  }
+  return result;
+}
+
+export async function dropCheckpoints(checkpoints: Checkpoint[]): Promise<void> {
+  for (const checkpoint of checkpoints) {
+    await runGitOrThrow(['update-ref', '-d', checkpoint.ref, checkpoint.sha]);
+  }
+}
+
+// Checkpoint uncommitted work before a risky command when preferences.autoCheckpoint is on
+export async function autoCheckpoint(command: string): Promise<Checkpoint | null> {
+  if (!loadConfig().preferences.autoCheckpoint || !(await hasUncommittedChanges())) {
+    return null;
+  }
+  return saveCheckpoint(`auto: before ${command}`);
+}
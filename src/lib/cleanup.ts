@@ -0,0 +1,265 @@
+// Branch cleanup - find merged and stale branches, orphaned metadata and dangling stash records
+
+import { BranchMetadata } from '../types';
+import { loadConfig } from './config';
+import { loadBranchMetadata, saveBranchMetadata } from './metadata';
+import { getCurrentBranch, getMainBranch, branchExists, getPushRemote } from './git';
+import { listWorktrees } from './worktree';
+import { getPRProvider } from './pr-providers';
+import { findStashEntry, listStashEntries } from './stash';
+import { METADATA_REF, SHARED_FIELDS, readMetadataRef } from './metadata-sync';
+import { runGit, runGitOrThrow } from './runner';
+
+export type CleanupReason = 'merged' | 'squash-merged' | 'pr-merged' | 'stale';
+
+export interface CleanupCandidate {
+  branch: string;
+  reason: CleanupReason;
+  target: string | null; // Branch it was merged into
+  lastCommit: string;
+  ageDays: number;
+  remote: string; // Remote the branch is pushed to (see getPushRemote)
+  hasRemote: boolean;
+  selected: boolean; // Stale branches are only flagged, not selected by default
+}
+
+export interface StashRecordRef {
+  branch: string;
+  message: string;
+}
+
+export interface CleanupPlan {
+  targets: string[];
+  branches: CleanupCandidate[];
+  orphanedMetadata: string[];
+  staleStashRecords: StashRecordRef[];
+}
+
+export interface CleanupOptions {
+  staleDays: number;
+  checkPRs: boolean;
+}
+
+export interface CleanupOutcome {
+  deleted: string[];
+  remoteDeleted: string[];
+  failed: Array<{ branch: string; error: string }>;
+  purgedMetadata: string[];
+  purgedStashRecords: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Branches that others are merged into: the main branch and, with Git Flow, develop
+export async function getCleanupTargets(): Promise<string[]> {
+  const config = loadConfig();
+  const candidates = [
+    config.preferences?.defaultBaseBranch?.trim() || (await getMainBranch()),
+    config.flow?.enabled ? config.flow.mainBranch : '',
+    config.flow?.enabled ? config.flow.developBranch : '',
+  ].filter(Boolean);
+
+  const targets: string[] = [];
+  for (const target of new Set(candidates)) {
+    if (await branchExists(target)) {
+      targets.push(target);
+    }
+  }
+  return targets;
+}
+
+async function getPatchIds(patch: string): Promise<string[]> {
+  if (!patch.trim()) {
+    return [];
+  }
+  const { stdout } = await runGit(['patch-id', '--stable'], { input: patch });
+  return stdout.split('\n').filter((line) => line.trim()).map((line) => line.split(' ')[0]);
+}
+
+// Merged without a merge commit: every commit was rebased/cherry-picked onto the target,
+// or the branch's combined diff matches a single (squash) commit on the target
+export async function isSquashMerged(branch: string, target: string): Promise<boolean> {
+  const cherry = await runGit(['cherry', target, branch]);
+  const lines = cherry.stdout.split('\n').filter((line) => line.trim());
+  if (cherry.success && lines.length > 0 && lines.every((line) => line.startsWith('-'))) {
+    return true;
+  }
+
+  const mergeBase = await runGit(['merge-base', target, branch]);
+  if (!mergeBase.success) {
+    return false;
+  }
+  const base = mergeBase.stdout.trim();
+  const [branchId] = await getPatchIds((await runGit(['diff', '--no-color', base, branch])).stdout);
+  if (!branchId) {
+    return false;
+  }
+  const targetLog = await runGit(['log', '-p', '--no-color', '--no-merges', `${base}..${target}`]);
+  return (await getPatchIds(targetLog.stdout)).includes(branchId);
+}
+
+// A branch whose reflog only records its creation never got commits of its own. Being an ancestor
+// of the target then says nothing about it having been merged. Without a reflog we cannot tell.
+async function isUntouchedBranch(branch: string): Promise<boolean> {
+  const reflog = await runGit(['reflog', 'show', '--format=%gs', `refs/heads/${branch}`, '--']);
+  const entries = reflog.stdout.split('\n').filter((l) => l.trim());
+  return reflog.success && entries.length > 0 && entries.every((entry) => entry.startsWith('branch: Created from'));
+}
+
+// Work out what cleanup would do, without changing anything
+export async function buildCleanupPlan(options: CleanupOptions): Promise<CleanupPlan> {
+  const config = loadConfig();
+  const targets = await getCleanupTargets();
+  const currentBranch = await getCurrentBranch();
+  const metadata = loadBranchMetadata();
+
+  const refs = await runGitOrThrow(['for-each-ref', '--format=%(refname)%00%(objectname)%00%(committerdate:iso-strict)', 'refs/heads', 'refs/remotes']);
+  const local = new Map<string, { sha: string; date: string }>();
+  const remote = new Set<string>();
+  for (const line of refs.stdout.split('\n').filter((l) => l.trim())) {
+    const [ref, sha, date] = line.split('\0');
+    if (ref.startsWith('refs/heads/')) {
+      local.set(ref.substring('refs/heads/'.length), { sha, date });
+    } else {
+      remote.add(ref.substring('refs/remotes/'.length));
+    }
+  }
+
+  // Never touch targets, the current branch or branches open in a worktree
+  const protectedBranches = new Set([...targets, currentBranch]);
+  for (const wt of await listWorktrees().catch(() => [])) {
+    if (wt.branch) {
+      protectedBranches.add(wt.branch);
+    }
+  }
+
+  const provider = options.checkPRs ? getPRProvider(config.flow?.prProvider || 'github') : null;
+  const canCheckPRs = provider ? await provider.checkCLIAvailable() : false;
+  const targetHeads = new Set(targets.map((t) => local.get(t)?.sha));
+
+  const branches: CleanupCandidate[] = [];
+  for (const [branch, { sha, date }] of local) {
+    if (protectedBranches.has(branch) || targetHeads.has(sha)) {
+      continue; // Protected, or a fresh branch with no commits of its own yet
+    }
+
+    let reason: CleanupReason | null = null;
+    let target: string | null = null;
+    for (const candidate of targets) {
+      if ((await runGit(['merge-base', '--is-ancestor', branch, candidate])).success) {
+        if (await isUntouchedBranch(branch)) {
+          break; // Created before the target moved on, but never worked on
+        }
+        reason = 'merged';
+      } else if (await isSquashMerged(branch, candidate)) {
+        reason = 'squash-merged';
+      }
+      if (reason) {
+        target = candidate;
+        break;
+      }
+    }
+
+    if (!reason && canCheckPRs && provider && metadata.branches[branch]?.prUrl) {
+      if ((await provider.getPRState(branch)) === 'merged') {
+        reason = 'pr-merged';
+      }
+    }
+
+    const ageDays = Math.floor((Date.now() - new Date(date).getTime()) / DAY_MS);
+    if (!reason && ageDays > options.staleDays) {
+      reason = 'stale';
+    }
+
+    if (reason) {
+      const pushRemote = await getPushRemote(branch);
+      branches.push({
+        branch,
+        reason,
+        target,
+        lastCommit: date,
+        ageDays,
+        remote: pushRemote,
+        hasRemote: remote.has(`${pushRemote}/${branch}`),
+        selected: reason !== 'stale',
+      });
+    }
+  }
+
+  // Teammates' branches pulled by `kunj meta pull` carry only shared fields; pruning them
+  // here would delete them from refs/kunj/metadata for everyone on the next push
+  const shared = await readMetadataRef(METADATA_REF);
+  const sharedOnly = (branch: string) =>
+    shared[branch] !== undefined &&
+    (Object.keys(metadata.branches[branch]) as Array<keyof BranchMetadata>).every((field) => SHARED_FIELDS.includes(field));
+  const orphanedMetadata = Object.keys(metadata.branches)
+    .filter((branch) => !local.has(branch) && !sharedOnly(branch))
+    .sort();
+
+  const stashEntries = await listStashEntries();
+  const staleStashRecords: StashRecordRef[] = [];
+  for (const [branch, data] of Object.entries(metadata.branches)) {
+    if (!local.has(branch)) {
+      continue; // Removed along with the orphaned entry
+    }
+    for (const stash of data.stashes || []) {
+      if (!findStashEntry(stash, stashEntries)) {
+        staleStashRecords.push({ branch, message: stash.message });
+      }
+    }
+  }
+
+  branches.sort((a, b) => Number(b.selected) - Number(a.selected) || b.ageDays - a.ageDays);
+  return { targets, branches, orphanedMetadata, staleStashRecords };
+}
+
+// Delete the selected branches (and their copies on the push remote when remote is set) and tidy metadata
+export async function applyCleanupPlan(plan: CleanupPlan, options: { remote?: boolean } = {}): Promise<CleanupOutcome> {
+  const outcome: CleanupOutcome = { deleted: [], remoteDeleted: [], failed: [], purgedMetadata: [], purgedStashRecords: 0 };
+
+  for (const candidate of plan.branches.filter((c) => c.selected)) {
+    const result = await runGit(['branch', '-D', '--', candidate.branch]);
+    if (!result.success) {
+      outcome.failed.push({ branch: candidate.branch, error: result.stderr.trim() });
+      continue;
+    }
+    outcome.deleted.push(candidate.branch);
+
+    if (options.remote && candidate.hasRemote) {
+      const push = await runGit(['push', candidate.remote, '--delete', candidate.branch]);
+      if (push.success) {
+        outcome.remoteDeleted.push(candidate.branch);
+      } else {
+        outcome.failed.push({ branch: `${candidate.remote}/${candidate.branch}`, error: push.stderr.trim() });
+      }
+    }
+  }
+
+  const metadata = loadBranchMetadata();
+  for (const branch of [...plan.orphanedMetadata, ...outcome.deleted]) {
+    const entry = metadata.branches[branch];
+    if (!entry) {
+      continue;
+    }
+    // Keep stacks connected: children of a removed branch now stack on its parent
+    for (const data of Object.values(metadata.branches)) {
+      if (data.stackParent === branch) {
+        data.stackParent = entry.stackParent;
+      }
+    }
+    delete metadata.branches[branch];
+    outcome.purgedMetadata.push(branch);
+  }
+
+  for (const record of plan.staleStashRecords) {
+    const data = metadata.branches[record.branch];
+    if (data?.stashes) {
+      const before = data.stashes.length;
+      data.stashes = data.stashes.filter((s) => s.message !== record.message);
+      outcome.purgedStashRecords += before - data.stashes.length;
+    }
+  }
+
+  saveBranchMetadata(metadata);
+  return outcome;
+}
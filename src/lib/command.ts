@@ -1,6 +1,8 @@
 // Base command class and registry for pluggable command system
 
 import { Command as CommanderCommand } from "commander";
+import { setAICacheBypass } from "./ai-cache";
+import { beginOperation, finishOperation } from "./journal";
 
 export interface UIWidgetConfig {
   category: "dashboard" | "data" | "action" | "hidden";
@@ -24,6 +26,8 @@ export interface CommandConfig {
     defaultValue?: any;
   }>;
   ui?: UIWidgetConfig;
+  // Record refs, stashes and metadata changed by the command in the journal (see `kunj undo`)
+  journal?: boolean;
 }
 
 export abstract class BaseCommand {
@@ -73,7 +77,15 @@ export abstract class BaseCommand {
         if (opts && typeof opts === "object" && opts.json === true) {
           this.jsonMode = true;
         }
-        await this.execute(...args);
+        // Commands that generate with AI declare --no-cache; Commander reports it as cache: false
+        if (opts && typeof opts === "object" && opts.cache === false) {
+          setAICacheBypass(true);
+        }
+        if (this.config.journal) {
+          await this.journaled(() => this.execute(...args));
+        } else {
+          await this.execute(...args);
+        }
       } catch (error) {
         if (this.jsonMode) {
           process.stdout.write(
@@ -87,6 +99,18 @@ export abstract class BaseCommand {
     });
   }
 
+  // Run a mutating action with before/after snapshots recorded in the operation journal
+  protected async journaled<T>(action: () => Promise<T>): Promise<T> {
+    const snapshot = await beginOperation(["kunj", ...process.argv.slice(2)].join(" "));
+    try {
+      return await action();
+    } finally {
+      if (snapshot) {
+        await finishOperation(snapshot);
+      }
+    }
+  }
+
   // Log a message (suppressed in JSON mode)
   protected log(message: string): void {
     if (!this.jsonMode) {
@@ -0,0 +1,112 @@
+// Commit message linting against the configured commit style
+
+import { loadConfig } from "./config";
+import { getCommitStyle, validateCommitSubject } from "./commit-styles";
+
+export type LintSeverity = "error" | "warning";
+
+export interface LintIssue {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+}
+
+export interface CommitLintResult {
+  sha?: string;
+  subject: string;
+  issues: LintIssue[];
+  skipped?: string;
+}
+
+export interface CommitLintOptions {
+  style: string;
+  maxLength: number;
+  /** Jira project key that must appear in the message (e.g. "PROJ") */
+  jiraKey?: string;
+}
+
+// Lint options from config: ai.commitStyle, ai.subjectMaxLength and jira.requireCommitKey
+export function getCommitLintOptions(): CommitLintOptions {
+  const config = loadConfig();
+  return {
+    style: config.ai?.commitStyle || "conventional",
+    maxLength: config.ai?.subjectMaxLength || 50,
+    jiraKey: config.jira?.requireCommitKey ? config.jira.projectKey || "[A-Z][A-Z0-9]+" : undefined,
+  };
+}
+
+// Git writes these itself; they are not authored messages
+function getSkipReason(subject: string): string | undefined {
+  if (/^Merge (branch|pull request|remote-tracking branch|tag|commit) /.test(subject)) return "merge commit";
+  if (/^(fixup|squash|amend)! /.test(subject)) return "autosquash commit";
+  if (/^Revert ".*"$/.test(subject)) return "revert commit";
+  return undefined;
+}
+
+// Strip comment lines the way git does for commit-msg hooks
+export function cleanCommitMessage(message: string): string {
+  const scissors = message.search(/^# -+ >8 -+$/m);
+  const content = scissors >= 0 ? message.substring(0, scissors) : message;
+  return content
+    .split("\n")
+    .filter((line) => !line.startsWith("#"))
+    .join("\n")
+    .trim();
+}
+
+export function lintCommitMessage(message: string, options: CommitLintOptions = getCommitLintOptions()): CommitLintResult {
+  const lines = message.split("\n");
+  const subject = (lines[0] || "").trim();
+  const issues: LintIssue[] = [];
+
+  if (!subject) {
+    return { subject, issues: [{ rule: "subject-empty", severity: "error", message: "Commit message is empty" }] };
+  }
+
+  const skipped = getSkipReason(subject);
+  if (skipped) {
+    return { subject, issues, skipped };
+  }
+
+  const styleError = validateCommitSubject(options.style, subject);
+  if (styleError) {
+    issues.push({ rule: "style", severity: "error", message: styleError });
+  }
+
+  if (subject.length > options.maxLength) {
+    issues.push({
+      rule: "subject-max-length",
+      severity: "error",
+      message: `Subject is ${subject.length} characters (max ${options.maxLength}, ai.subjectMaxLength)`,
+    });
+  }
+
+  if (/[.]$/.test(subject)) {
+    issues.push({ rule: "subject-full-stop", severity: "warning", message: "Subject ends with a period" });
+  }
+
+  if (lines.length > 1 && lines[1].trim() !== "") {
+    issues.push({ rule: "body-leading-blank", severity: "error", message: "Separate the subject from the body with a blank line" });
+  }
+
+  if (options.jiraKey && !new RegExp(`\\b${options.jiraKey}-\\d+\\b`).test(message)) {
+    issues.push({
+      rule: "jira-key",
+      severity: "error",
+      message: `No Jira issue key found (expected ${options.jiraKey.startsWith("[") ? "e.g. PROJ-123" : `${options.jiraKey}-<number>`})`,
+    });
+  }
+
+  return { subject, issues };
+}
+
+export function hasLintErrors(results: CommitLintResult[]): boolean {
+  return results.some((r) => r.issues.some((i) => i.severity === "error"));
+}
+
+// Short style reminder shown under failures, e.g. "Conventional Commits: feat, fix, docs, ..."
+export function describeCommitStyle(style: string): string {
+  const template = getCommitStyle(style);
+  const types = template.types?.map((t) => t.value).join(", ");
+  return types ? `${template.name}: ${types}` : template.name;
+}
@@ -0,0 +1,230 @@
+// AI-assisted splitting of a large set of changes into several logical commits
+
+import chalk from "chalk";
+import * as fs from "fs";
+import * as path from "path";
+import { loadConfig } from "./config";
+import { invokeModel } from "./ai-providers";
+import { getCommitStylePrompt } from "./commit-styles";
+import { formatCommitMessage } from "./ai-commit";
+import { estimateTokenCount } from "./ai-usage";
+import { parseHunks, buildPatch, formatHunk, DiffHunk } from "./hunks";
+import {
+  getGitRoot,
+  getUnstagedDiff,
+  getUntrackedFiles,
+  applyPatchToIndex,
+  stageFiles,
+} from "./git";
+import { GitCommandResult } from "../types";
+
+// Smallest piece of change that can be assigned to a commit: one hunk, or a
+// whole file when it cannot be split (new, deleted, binary)
+export interface ChangeUnit {
+  id: string;
+  file: string;
+  kind: "hunk" | "file";
+  hunk?: DiffHunk;
+  /** Short label for lists, e.g. "@@ -10,4 +10,6 @@" or "new file" */
+  label: string;
+  /** Diff text (or file content preview for new files) shown to the model and in the TUI */
+  preview: string;
+}
+
+export interface CommitGroup {
+  message: string;
+  units: ChangeUnit[];
+}
+
+export interface CommitSplitPlan {
+  groups: CommitGroup[];
+  /** Units the model did not assign; left uncommitted unless the user moves them */
+  unassigned: ChangeUnit[];
+}
+
+const DEFAULT_DIFF_TOKEN_BUDGET = 6000;
+const NEW_FILE_PREVIEW_LINES = 60;
+
+// Collect every working tree change as hunks and whole files. Expects nothing
+// to be staged (callers unstage first) so the index matches HEAD.
+export async function collectChangeUnits(): Promise<ChangeUnit[]> {
+  const units: ChangeUnit[] = [];
+  const { hunks, wholeFiles } = parseHunks(await getUnstagedDiff());
+  const nextId = () => `u${units.length + 1}`;
+
+  for (const hunk of hunks) {
+    units.push({
+      id: nextId(),
+      file: hunk.file,
+      kind: "hunk",
+      hunk,
+      label: hunk.header.replace(/^(@@ [^@]+ @@).*$/, "$1"),
+      preview: formatHunk(hunk),
+    });
+  }
+
+  for (const file of wholeFiles) {
+    units.push({ id: nextId(), file, kind: "file", label: "whole file", preview: "(binary, mode, rename or deletion change)" });
+  }
+
+  const gitRoot = await getGitRoot();
+  for (const file of await getUntrackedFiles()) {
+    let preview = "(new file)";
+    try {
+      const content = fs.readFileSync(path.join(gitRoot, file), "utf8");
+      const lines = content.split("\n");
+      preview = lines.slice(0, NEW_FILE_PREVIEW_LINES).map((l) => `+${l}`).join("\n");
+      if (lines.length > NEW_FILE_PREVIEW_LINES) {
+        preview += `\n... (${lines.length - NEW_FILE_PREVIEW_LINES} more lines)`;
+      }
+    } catch {
+      // Unreadable or binary — keep the placeholder
+    }
+    units.push({ id: nextId(), file, kind: "file", label: "new file", preview });
+  }
+
+  return units;
+}
+
+// Stage a set of units: hunks through one partial patch, whole files with git add
+export async function stageChangeUnits(units: ChangeUnit[]): Promise<GitCommandResult> {
+  const hunks = units.filter((u) => u.kind === "hunk" && u.hunk).map((u) => u.hunk!);
+  const files = units.filter((u) => u.kind === "file").map((u) => u.file);
+
+  if (hunks.length > 0) {
+    const result = await applyPatchToIndex(buildPatch(hunks));
+    if (!result.success) {
+      return result;
+    }
+  }
+
+  if (files.length > 0) {
+    const result = await stageFiles(files);
+    if (!result.success) {
+      return result;
+    }
+  }
+
+  return { success: true, message: `Staged ${units.length} change(s)` };
+}
+
+// Render units for the prompt, shrinking previews until they fit the token budget
+function buildUnitsContext(units: ChangeUnit[], budget: number): string {
+  let maxLines = 80;
+
+  const render = () =>
+    units
+      .map((u) => {
+        const lines = u.preview.split("\n");
+        const body = lines.length > maxLines
+          ? `${lines.slice(0, maxLines).join("\n")}\n... (${lines.length - maxLines} more lines)`
+          : u.preview;
+        return `[${u.id}] ${u.file} — ${u.label}\n${body}`;
+      })
+      .join("\n\n");
+
+  let context = render();
+  while (estimateTokenCount(context) > budget && maxLines > 4) {
+    maxLines = Math.floor(maxLines / 2);
+    context = render();
+  }
+  return context;
+}
+
+// Parse COMMIT blocks from the model response into a plan
+export function parseCommitSplitResponse(
+  content: string,
+  units: ChangeUnit[],
+  commitStyle: string
+): CommitSplitPlan {
+  const byId = new Map(units.map((u) => [u.id, u]));
+  const assigned = new Set<string>();
+  const groups: CommitGroup[] = [];
+
+  const blocks = content.split(/^COMMIT:?\s*$/im).slice(1);
+  for (const block of blocks) {
+    const typeMatch = block.match(/^TYPE:\s*(.*)$/im);
+    const messageMatch = block.match(/^MESSAGE:\s*(.+)$/im);
+    const bodyMatch = block.match(/^BODY:\s*([^\n]*(?:\n(?!UNITS:).*)*)/im);
+    const unitsMatch = block.match(/^UNITS:\s*(.+)$/im);
+
+    if (!messageMatch || !unitsMatch) continue;
+
+    const groupUnits = (unitsMatch[1].match(/u\d+/gi) || [])
+      .map((id) => id.toLowerCase())
+      .filter((id) => byId.has(id) && !assigned.has(id))
+      .map((id) => {
+        assigned.add(id);
+        return byId.get(id)!;
+      });
+
+    if (groupUnits.length === 0) continue;
+
+    const body = bodyMatch ? bodyMatch[1].trim() : "";
+    groups.push({
+      message: formatCommitMessage(
+        commitStyle,
+        typeMatch ? typeMatch[1].trim() : "",
+        messageMatch[1].trim(),
+        body && body.toLowerCase() !== "none" ? body : undefined
+      ),
+      units: groupUnits,
+    });
+  }
+
+  return { groups, unassigned: units.filter((u) => !assigned.has(u.id)) };
+}
+
+// Ask the model to group change units into logical commits in the configured style
+export async function generateCommitSplitPlan(
+  units: ChangeUnit[],
+  branchCommits: string[],
+  currentBranch: string
+): Promise<CommitSplitPlan> {
+  const config = loadConfig();
+
+  if (!config.ai?.enabled) {
+    throw new Error("AI features are disabled in config");
+  }
+
+  const commitStyle = config.ai?.commitStyle || "conventional";
+  const maxLength = config.ai?.subjectMaxLength || 50;
+  const includeBody = config.ai?.includeBody !== false;
+  const customInstructions = config.ai?.customInstructions || "";
+  const maxCommits = config.ai?.maxContextCommits || 10;
+  const budget = (config.ai?.diffTokenBudget || DEFAULT_DIFF_TOKEN_BUDGET) * 2;
+
+  const styleGuidelines = getCommitStylePrompt(commitStyle, maxLength, includeBody, customInstructions);
+  const branchContext = branchCommits.length > 0
+    ? `\nRecent commits on this branch (${currentBranch}):\n${branchCommits.slice(0, maxCommits).map((c) => `- ${c}`).join("\n")}\n`
+    : "";
+
+  const prompt = `${styleGuidelines}
+${branchContext}
+The working tree contains several unrelated changes. Split them into a small number of atomic, logical commits
+(each commit should build and make sense on its own), ordered so that earlier commits do not depend on later ones.
+
+Each change is labelled with an id like [u3]. Assign EVERY id to exactly one commit. Hunks from the same file may go
+to different commits when they are unrelated.
+
+Changes:
+
+${buildUnitsContext(units, budget)}
+
+Respond with one block per commit, in commit order:
+COMMIT:
+TYPE: <commit type or category>
+MESSAGE: <commit subject line>
+${includeBody ? "BODY: <optional detailed description, or none>\n" : ""}UNITS: <comma-separated ids, e.g. u1, u4>`;
+
+  console.log(chalk.blue(`🤖 Planning commit split for ${units.length} change(s) with AI...`));
+
+  const content = await invokeModel(prompt, { temperature: 0.3, feature: "commit-split" });
+  const plan = parseCommitSplitResponse(content, units, commitStyle);
+
+  if (plan.groups.length === 0) {
+    throw new Error("Could not parse AI response - no commits found");
+  }
+
+  return plan;
+}
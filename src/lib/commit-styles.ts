@@ -1,5 +1,15 @@
 // Commit message style templates for AI generation
 
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getKunjDir, getGlobalKunjDir } from './config';
+
+export interface CommitType {
+  value: string;
+  description: string;
+}
+
 export interface CommitStyleTemplate {
   name: string;
   description: string;
@@ -8,12 +18,40 @@ export interface CommitStyleTemplate {
     includeBody: boolean;
     customInstructions?: string;
   }) => string;
+  /** Types offered by the commit-type picker (none = free-form subject only) */
+  types?: CommitType[];
+  /** Subject lines must match this to be valid in this style */
+  pattern?: RegExp;
+  /** Subject template for user-defined styles, e.g. "{type}: {message}" */
+  format?: string;
+  examples?: string[];
+  /** File the style was loaded from (user-defined styles only) */
+  source?: string;
 }
 
+const CONVENTIONAL_TYPES: CommitType[] = [
+  { value: 'feat', description: 'A new feature' },
+  { value: 'fix', description: 'A bug fix' },
+  { value: 'docs', description: 'Documentation changes' },
+  { value: 'style', description: 'Code style changes (formatting, etc)' },
+  { value: 'refactor', description: 'Code refactoring' },
+  { value: 'test', description: 'Adding or updating tests' },
+  { value: 'chore', description: 'Maintenance tasks' },
+  { value: 'build', description: 'Build system changes' },
+  { value: 'ci', description: 'CI configuration changes' },
+  { value: 'perf', description: 'Performance improvements' },
+  { value: 'revert', description: 'Revert a previous commit' },
+];
+
+const CONVENTIONAL_PATTERN = /^(feat|fix|docs|style|refactor|test|chore|build|ci|perf|revert)(\([^)]+\))?!?: \S/;
+
 export const commitStyles: Record<string, CommitStyleTemplate> = {
   conventional: {
     name: 'Conventional Commits',
     description: 'Standard conventional commit format with type prefix',
+    types: CONVENTIONAL_TYPES,
+    pattern: CONVENTIONAL_PATTERN,
+    examples: ['feat: add user authentication'],
     getPrompt: ({ maxLength, includeBody, customInstructions }) => `You are an expert at writing clear, concise git commit messages following conventional commit standards.
 
 Conventional commit types:
@@ -41,6 +79,18 @@ ${customInstructions ? `\nAdditional instructions:\n${customInstructions}\n` : '
   semantic: {
     name: 'Semantic Commit Messages',
     description: 'Semantic versioning-aligned commit messages',
+    types: [
+      { value: 'MAJOR', description: 'Breaking changes' },
+      { value: 'MINOR', description: 'New features' },
+      { value: 'PATCH', description: 'Bug fixes' },
+      { value: 'DOCS', description: 'Documentation only changes' },
+      { value: 'STYLE', description: 'Code style/formatting changes' },
+      { value: 'REFACTOR', description: 'Neither fixes bugs nor adds features' },
+      { value: 'TEST', description: 'Test-related changes' },
+      { value: 'CHORE', description: 'Maintenance and tooling changes' },
+    ],
+    pattern: /^\[(MAJOR|MINOR|PATCH|DOCS|STYLE|REFACTOR|TEST|CHORE)\] \S/,
+    examples: ['[MINOR] Add user authentication'],
     getPrompt: ({ maxLength, includeBody, customInstructions }) => `You are an expert at writing semantic commit messages that align with semantic versioning.
 
 Semantic commit types:
@@ -80,6 +130,21 @@ ${customInstructions ? `\nAdditional instructions:\n${customInstructions}\n` : '
   gitmoji: {
     name: 'Gitmoji',
     description: 'Commits with emoji prefixes for visual categorization',
+    types: [
+      { value: '✨', description: 'Introduce new features' },
+      { value: '🐛', description: 'Fix a bug' },
+      { value: '📝', description: 'Add or update documentation' },
+      { value: '🎨', description: 'Improve structure/format of code' },
+      { value: '⚡️', description: 'Improve performance' },
+      { value: '🔥', description: 'Remove code or files' },
+      { value: '♻️', description: 'Refactor code' },
+      { value: '✅', description: 'Add or update tests' },
+      { value: '🔧', description: 'Add or update configuration files' },
+      { value: '🔒️', description: 'Fix security issues' },
+      { value: '⬆️', description: 'Upgrade dependencies' },
+    ],
+    pattern: /^(\p{Extended_Pictographic}|:[a-z0-9_+-]+:)/u,
+    examples: ['✨ Add user authentication'],
     getPrompt: ({ maxLength, includeBody, customInstructions }) => `You are an expert at writing git commit messages using gitmoji - emoji-based commit categorization.
 
 Common gitmojis and their meanings:
@@ -110,6 +175,9 @@ ${customInstructions ? `\nAdditional instructions:\n${customInstructions}\n` : '
   caveman: {
     name: 'Caveman',
     description: 'Ultra-compressed, no-fluff commit messages. Terse and exact. Why over what.',
+    types: CONVENTIONAL_TYPES,
+    pattern: CONVENTIONAL_PATTERN,
+    examples: ['feat(api): add GET /users/:id'],
     getPrompt: ({ maxLength, includeBody, customInstructions }) => `You write commit messages terse and exact. No fluff. Why over what.
 
 Subject line rules:
@@ -153,12 +221,154 @@ ${customInstructions ? `User's custom instructions:\n${customInstructions}` : 'P
   }
 };
 
+// --- User-defined styles ---
+
+// Raw shape of a .kunj/commit-styles/<name>.json file (or .md front matter)
+interface CommitStyleFile {
+  name?: string;
+  description?: string;
+  prompt?: string;
+  types?: Array<string | CommitType>;
+  pattern?: string;
+  format?: string;
+  examples?: string[];
+}
+
+// Minimal front matter reader for .md styles: "key: value" lines between --- markers.
+// types and examples are comma- or "|"-separated lists; the markdown body is the prompt.
+function parseMarkdownStyle(content: string): CommitStyleFile {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) {
+    return { prompt: content.trim() };
+  }
+
+  const style: CommitStyleFile = { prompt: match[2].trim() };
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^(\w+):\s*(.*)$/);
+    if (!field) continue;
+    const [, key, raw] = field;
+    const value = raw.trim().replace(/^["'](.*)["']$/, '$1');
+
+    if (key === 'types') {
+      style.types = value.split(',').map((t) => t.trim()).filter(Boolean);
+    } else if (key === 'examples') {
+      style.examples = value.split('|').map((e) => e.trim()).filter(Boolean);
+    } else if (key === 'name' || key === 'description' || key === 'pattern' || key === 'format') {
+      style[key] = value;
+    }
+  }
+  return style;
+}
+
+// Turn a parsed style file into a template. The user's prompt is followed by the
+// same length/body/custom-instruction rules the built-in styles use.
+export function buildCommitStyleTemplate(id: string, file: CommitStyleFile, source?: string): CommitStyleTemplate {
+  if (!file.prompt || !file.prompt.trim()) {
+    throw new Error('missing "prompt"');
+  }
+
+  const types: CommitType[] | undefined = file.types?.map((t) =>
+    typeof t === 'string'
+      ? { value: t.split('=')[0].trim(), description: t.includes('=') ? t.split('=').slice(1).join('=').trim() : '' }
+      : { value: t.value, description: t.description || '' }
+  );
+
+  let pattern: RegExp | undefined;
+  if (file.pattern) {
+    try {
+      pattern = new RegExp(file.pattern, 'u');
+    } catch (error: any) {
+      throw new Error(`invalid "pattern": ${error.message}`);
+    }
+  }
+
+  const userPrompt = file.prompt.trim();
+
+  return {
+    name: file.name || id,
+    description: file.description || `User-defined style (${path.basename(source || id)})`,
+    types,
+    pattern,
+    format: file.format,
+    examples: file.examples,
+    source,
+    getPrompt: ({ maxLength, includeBody, customInstructions }) => {
+      const typeList = types && types.length > 0
+        ? `\nAllowed types:\n${types.map((t) => `- ${t.value}${t.description ? `: ${t.description}` : ''}`).join('\n')}\n`
+        : '';
+      const exampleList = file.examples && file.examples.length > 0
+        ? `\nExamples:\n${file.examples.map((e) => `- ${e}`).join('\n')}\n`
+        : '';
+
+      return `${userPrompt.replace(/\{maxLength\}/g, String(maxLength))}
+${typeList}${exampleList}
+Requirements:
+- Keep the subject line under ${maxLength} characters${file.format ? `\n- Subject format: ${file.format}` : ''}
+- ${includeBody ? 'Include a detailed body if the change is complex' : 'Subject line only, no body'}
+${customInstructions ? `\nAdditional instructions:\n${customInstructions}\n` : ''}`;
+    },
+  };
+}
+
+// Load every *.json / *.md style from a commit-styles directory, keyed by file name
+function loadCommitStylesFrom(dir: string): Record<string, CommitStyleTemplate> {
+  const styles: Record<string, CommitStyleTemplate> = {};
+  if (!fs.existsSync(dir)) {
+    return styles;
+  }
+
+  for (const entry of fs.readdirSync(dir).sort()) {
+    const ext = path.extname(entry).toLowerCase();
+    if (ext !== '.json' && ext !== '.md') continue;
+
+    const id = path.basename(entry, ext);
+    const filePath = path.join(dir, entry);
+    try {
+      const content = fs.readFileSync(filePath, 'utf8');
+      const file: CommitStyleFile = ext === '.json' ? JSON.parse(content) : parseMarkdownStyle(content);
+      styles[id] = buildCommitStyleTemplate(id, file, filePath);
+    } catch (error: any) {
+      console.warn(chalk.yellow(`Warning: Skipping commit style ${filePath}: ${error.message}`));
+    }
+  }
+  return styles;
+}
+
+// Built-in styles plus user-defined ones from ~/.kunj/commit-styles and
+// .kunj/commit-styles (project styles win over global ones with the same name)
+export function getCommitStyles(): Record<string, CommitStyleTemplate> {
+  return {
+    ...commitStyles,
+    ...loadCommitStylesFrom(path.join(getGlobalKunjDir(), 'commit-styles')),
+    ...loadCommitStylesFrom(path.join(getKunjDir(), 'commit-styles')),
+  };
+}
+
+export function getCommitStyleNames(): string[] {
+  return Object.keys(getCommitStyles());
+}
+
+export function getCommitStyle(style: string): CommitStyleTemplate {
+  const styles = getCommitStyles();
+  return styles[style] || styles.conventional;
+}
+
+// Check a commit subject against the style's pattern; returns an error message or null
+export function validateCommitSubject(style: string, subject: string): string | null {
+  const template = getCommitStyle(style);
+  if (template.pattern && !template.pattern.test(subject)) {
+    const example = template.examples?.[0];
+    return `Subject does not match the ${template.name} format${example ? ` (e.g. "${example}")` : ''}`;
+  }
+  return null;
+}
+
 export function getCommitStylePrompt(
   style: string,
   maxLength: number,
   includeBody: boolean,
   customInstructions?: string
 ): string {
-  const template = commitStyles[style] || commitStyles.conventional;
+  const template = getCommitStyle(style);
   return template.getPrompt({ maxLength, includeBody, customInstructions });
 }
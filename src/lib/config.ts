@@ -4,7 +4,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { KunjConfig } from '../types';
-import { defaultConfig, KUNJ_DIR, CONFIG_FILE } from '../constants';
+import { defaultConfig, KUNJ_DIR, CONFIG_FILE, BRANCHES_FILE, JOURNAL_FILE, JOURNAL_PENDING_FILE, SYNC_STATE_FILE } from '../constants';
 
 // Helper function to get global .kunj directory path
 export function getGlobalKunjDir(): string {
@@ -16,9 +16,34 @@ export function getGlobalConfigPath(): string {
   return path.join(getGlobalKunjDir(), 'config.json');
 }
 
+// Resolve a linked worktree to its main worktree so all worktrees share one .kunj
+function getMainWorktreeDir(dir: string): string {
+  try {
+    const dotGit = path.join(dir, '.git');
+    if (!fs.statSync(dotGit).isFile()) {
+      return dir;
+    }
+
+    // Linked worktrees have a ".git" file pointing at .git/worktrees/<name>, which holds a commondir file
+    const match = fs.readFileSync(dotGit, 'utf8').match(/^gitdir:\s*(.+)$/m);
+    if (!match) {
+      return dir;
+    }
+    const gitDir = path.resolve(dir, match[1].trim());
+    const commonDirFile = path.join(gitDir, 'commondir');
+    if (!fs.existsSync(commonDirFile)) {
+      return dir; // Submodule, not a worktree
+    }
+    const commonDir = path.resolve(gitDir, fs.readFileSync(commonDirFile, 'utf8').trim());
+    return path.basename(commonDir) === '.git' ? path.dirname(commonDir) : dir;
+  } catch {
+    return dir;
+  }
+}
+
 // Helper function to get local .kunj directory path
 export function getKunjDir(): string {
-  return path.join(process.cwd(), KUNJ_DIR);
+  return path.join(getMainWorktreeDir(process.cwd()), KUNJ_DIR);
 }
 
 // Helper function to get local config file path
@@ -40,6 +65,13 @@ export function initKunjDirectory(): void {
   if (!fs.existsSync(kunjDir)) {
     fs.mkdirSync(kunjDir, { recursive: true });
   }
+  // Keep per-machine state (branch metadata is shared through `kunj meta`, not commits) out of
+  // `git status` and auto-stashes, which include untracked files. Config and commit styles stay committable.
+  const ignoreFile = path.join(kunjDir, '.gitignore');
+  const ignored = ['.gitignore', BRANCHES_FILE, JOURNAL_FILE, JOURNAL_PENDING_FILE, SYNC_STATE_FILE].join('\n') + '\n';
+  if (!fs.existsSync(ignoreFile) || fs.readFileSync(ignoreFile, 'utf8') === '*\n') {
+    fs.writeFileSync(ignoreFile, ignored); // Also narrows the catch-all written by earlier versions
+  }
 }
 
 // Deep merge function for config objects
@@ -0,0 +1,250 @@
+// Map-reduce summarization for large diffs
+//
+// Diffs that fit the token budget are sent to the model as-is. Larger diffs are
+// split per file and per hunk into chunks, each chunk is summarized with the
+// small model (map), and the final generator sees the chunk summaries instead
+// of a truncated diff (reduce). Same pattern as the PR map phase in `kunj team`.
+
+import chalk from "chalk";
+import { loadConfig } from "./config";
+import { invokeModel } from "./ai-providers";
+import { estimateTokenCount } from "./ai-usage";
+
+export interface DiffChunk {
+  /** Files covered by this chunk (a large file may span several chunks) */
+  files: string[];
+  content: string;
+  tokens: number;
+  /** Set when a single file was split across chunks, e.g. "2/3" */
+  part?: string;
+}
+
+export interface PreparedDiff {
+  /** Raw diff, or the joined chunk summaries when summarized */
+  text: string;
+  summarized: boolean;
+  chunkCount: number;
+  /** Map-phase prompts, one per chunk, when summarized */
+  chunkPrompts?: string[];
+}
+
+/** A generation prompt and the chunk prompts sent before it when the diff was summarized */
+export interface GenerationPrompt {
+  prompt: string;
+  chunkPrompts: string[];
+}
+
+export interface PrepareDiffOptions {
+  /** Build the chunk prompts but never call the model (summaries become placeholders) */
+  dryRun?: boolean;
+}
+
+const DEFAULT_DIFF_TOKEN_BUDGET = 6000;
+const DEFAULT_CHUNK_TOKENS = 3000;
+const MAP_CONCURRENCY = 5;
+
+// Split a unified diff into one section per file ("diff --git" boundaries)
+function splitFiles(diff: string): Array<{ file: string; header: string; hunks: string[] }> {
+  const sections = diff.split(/(?=^diff --git )/m).filter((s) => s.trim());
+
+  return sections.map((section) => {
+    const nameMatch = section.match(/^diff --git a\/(.+?) b\/(.+)$/m);
+    const file = nameMatch ? nameMatch[2] : "(unknown)";
+    const parts = section.split(/(?=^@@ )/m);
+    const header = parts[0];
+    const hunks = parts.slice(1);
+    return { file, header, hunks };
+  });
+}
+
+// Split text that is larger than the budget on line boundaries
+function splitLines(text: string, maxTokens: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const line of text.split("\n")) {
+    if (current && estimateTokenCount(current + line + "\n") > maxTokens) {
+      pieces.push(current);
+      current = "";
+    }
+    current += line + "\n";
+  }
+  if (current.trim()) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+// Split a diff into chunks of at most maxTokens each. Small files are packed
+// together; large files are split on hunk boundaries, and oversized hunks on
+// line boundaries. Every chunk of a split file repeats the file header.
+export function chunkDiff(diff: string, maxTokens: number = DEFAULT_CHUNK_TOKENS): DiffChunk[] {
+  const chunks: DiffChunk[] = [];
+  let packed: DiffChunk | null = null;
+
+  const flushPacked = () => {
+    if (packed) {
+      chunks.push(packed);
+      packed = null;
+    }
+  };
+
+  for (const { file, header, hunks } of splitFiles(diff)) {
+    const whole = header + hunks.join("");
+    const wholeTokens = estimateTokenCount(whole);
+
+    // Whole file fits — pack it with neighbouring small files
+    if (wholeTokens <= maxTokens) {
+      if (packed && packed.tokens + wholeTokens > maxTokens) {
+        flushPacked();
+      }
+      if (!packed) {
+        packed = { files: [], content: "", tokens: 0 };
+      }
+      packed.files.push(file);
+      packed.content += whole;
+      packed.tokens += wholeTokens;
+      continue;
+    }
+
+    // File too large — group its hunks, splitting any hunk that alone exceeds the budget
+    flushPacked();
+    const headerTokens = estimateTokenCount(header);
+    const hunkBudget = Math.max(maxTokens - headerTokens, 1);
+    const pieces = hunks.flatMap((hunk) =>
+      estimateTokenCount(hunk) > hunkBudget ? splitLines(hunk, hunkBudget) : [hunk]
+    );
+
+    const fileChunks: string[] = [];
+    let current = "";
+    for (const piece of pieces) {
+      if (current && estimateTokenCount(current + piece) > hunkBudget) {
+        fileChunks.push(current);
+        current = "";
+      }
+      current += piece;
+    }
+    if (current) {
+      fileChunks.push(current);
+    }
+
+    fileChunks.forEach((body, i) => {
+      const content = header + body;
+      chunks.push({
+        files: [file],
+        content,
+        tokens: estimateTokenCount(content),
+        part: fileChunks.length > 1 ? `${i + 1}/${fileChunks.length}` : undefined,
+      });
+    });
+  }
+
+  flushPacked();
+  return chunks;
+}
+
+function chunkLabel(chunk: DiffChunk): string {
+  return chunk.part ? `${chunk.files[0]} (part ${chunk.part})` : chunk.files.join(", ");
+}
+
+function buildChunkPrompt(chunk: DiffChunk, context: string): string {
+  const label = chunkLabel(chunk);
+
+  return `Summarize this part of a larger code change${context ? ` (${context})` : ""}.
+The summaries of all parts will be combined to write the final description, so be concrete.
+
+Files: ${label}
+
+\`\`\`diff
+${chunk.content}
+\`\`\`
+
+Respond with 1-4 bullet points (starting with "- "), one per meaningful change.
+Name the exact functions, types, settings or behaviour that changed. No preamble.`;
+}
+
+// Fallback when a chunk summary fails: list the files with line counts
+function describeChunk(chunk: DiffChunk): string {
+  const added = (chunk.content.match(/^\+(?!\+\+)/gm) || []).length;
+  const removed = (chunk.content.match(/^-(?!--)/gm) || []).length;
+  return `- Changes in ${chunk.files.join(", ")} (+${added} -${removed})`;
+}
+
+// Map phase: summarize each chunk with the small model (parallel, in batches)
+export async function summarizeDiffChunks(chunks: DiffChunk[], context: string = ""): Promise<string[]> {
+  const summaries: string[] = [];
+
+  for (let i = 0; i < chunks.length; i += MAP_CONCURRENCY) {
+    const batch = chunks.slice(i, i + MAP_CONCURRENCY);
+    const results = await Promise.allSettled(
+      batch.map((chunk) =>
+        invokeModel(buildChunkPrompt(chunk, context), {
+          small: true,
+          temperature: 0.3,
+          maxTokens: 500,
+          feature: "diff-summary",
+        })
+      )
+    );
+
+    results.forEach((result, idx) => {
+      const chunk = batch[idx];
+      const heading = chunkLabel(chunk);
+      if (result.status === "fulfilled") {
+        summaries.push(`${heading}:\n${result.value.trim()}`);
+      } else {
+        console.error(
+          chalk.yellow(`  Warning: could not summarize ${heading}: ${result.reason?.message || "unknown error"}`)
+        );
+        summaries.push(`${heading}:\n${describeChunk(chunk)}`);
+      }
+    });
+  }
+
+  return summaries;
+}
+
+// Prepare a diff for a generation prompt: pass it through when it fits the
+// budget (ai.diffTokenBudget), otherwise chunk and summarize it
+export async function prepareDiffForPrompt(
+  diff: string,
+  context: string = "",
+  options: PrepareDiffOptions = {}
+): Promise<PreparedDiff> {
+  const config = loadConfig();
+  const budget = config.ai?.diffTokenBudget || DEFAULT_DIFF_TOKEN_BUDGET;
+  const chunkTokens = config.ai?.diffChunkTokens || DEFAULT_CHUNK_TOKENS;
+
+  if (estimateTokenCount(diff) <= budget) {
+    return { text: diff, summarized: false, chunkCount: 0 };
+  }
+
+  const chunks = chunkDiff(diff, chunkTokens);
+  const chunkPrompts = chunks.map((chunk) => buildChunkPrompt(chunk, context));
+  if (options.dryRun) {
+    const placeholders = chunks.map((chunk) => `${chunkLabel(chunk)}:\n- <summary of this part by the model>`);
+    return { text: placeholders.join("\n\n"), summarized: true, chunkCount: chunks.length, chunkPrompts };
+  }
+
+  console.error(
+    chalk.gray(
+      `  Large diff (~${estimateTokenCount(diff).toLocaleString()} tokens) — summarizing ${chunks.length} chunk(s)...`
+    )
+  );
+
+  const summaries = await summarizeDiffChunks(chunks, context);
+  return { text: summaries.join("\n\n"), summarized: true, chunkCount: chunks.length, chunkPrompts };
+}
+
+// Render a prepared diff as a prompt section under the given heading
+export function formatDiffSection(prepared: PreparedDiff, heading: string): string {
+  if (!prepared.summarized) {
+    return `${heading}:
+\`\`\`diff
+${prepared.text}
+\`\`\``;
+  }
+
+  return `${heading} (the diff was too large to include, so each part was summarized separately — ${prepared.chunkCount} parts):
+${prepared.text}`;
+}
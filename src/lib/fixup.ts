@@ -0,0 +1,121 @@
+// Fixups - aim staged changes at the branch commit they amend, and squash them in with autosquash
+
+import { getCommitMessagesInRange, getCurrentBranch } from './git';
+import { parseHunks } from './hunks';
+import { runGit, runGitOrThrow } from './runner';
+import { getConflictedFiles, resolveSyncBase } from './sync';
+
+export interface FixupCandidate {
+  sha: string;
+  subject: string;
+  overlap: number; // Staged lines (or neighbours of inserted lines) last touched by this commit
+}
+
+export interface AutosquashResult {
+  base: string;
+  status: 'squashed' | 'conflict' | 'up-to-date';
+  fixups: number;
+  conflicts: string[];
+  reason?: string;
+}
+
+const FIXUP_SUBJECT = /^(fixup|squash|amend)! /;
+
+// Where the current branch forked from its base (stack parent, flow base or main branch)
+export async function getFixupBase(): Promise<{ base: string; mergeBase: string }> {
+  const { base } = await resolveSyncBase(await getCurrentBranch());
+  const mergeBase = await runGit(['merge-base', base, 'HEAD']);
+  if (!mergeBase.success) {
+    throw new Error(`Could not find where this branch forked from ${base}`);
+  }
+  return { base, mergeBase: mergeBase.stdout.trim() };
+}
+
+// Count blamed lines per commit; ranges past the end of the file are skipped
+async function blameLines(file: string, start: number, end: number, counts: Map<string, number>): Promise<void> {
+  const range = start > 0 ? ['-L', `${start},${end}`] : [];
+  const blame = await runGit(['blame', '--porcelain', ...range, 'HEAD', '--', file]);
+  if (!blame.success) {
+    return;
+  }
+  for (const line of blame.stdout.split('\n')) {
+    const match = line.match(/^([0-9a-f]{40}) \d+ \d+/);
+    if (match) {
+      counts.set(match[1], (counts.get(match[1]) || 0) + 1);
+    }
+  }
+}
+
+// Commits on the branch that could take the staged changes, best blame overlap first, then newest first
+export async function rankFixupTargets(): Promise<FixupCandidate[]> {
+  const { mergeBase } = await getFixupBase();
+  const commits = (await getCommitMessagesInRange(`${mergeBase}..HEAD`))
+    .map(({ sha, message }) => ({ sha, subject: message.split('\n')[0] }))
+    .filter(({ subject }) => !FIXUP_SUBJECT.test(subject))
+    .reverse();
+
+  const counts = new Map<string, number>();
+  const { stdout } = await runGitOrThrow(['diff', '--cached', '--no-color', '--no-ext-diff', '-U0']);
+  const { hunks, wholeFiles } = parseHunks(stdout);
+
+  for (const hunk of hunks) {
+    const match = hunk.header.match(/^@@ -(\d+)(?:,(\d+))? /);
+    if (!match) continue;
+    const start = parseInt(match[1], 10);
+    const count = match[2] === undefined ? 1 : parseInt(match[2], 10);
+    if (count > 0) {
+      await blameLines(hunk.file, start, start + count - 1, counts);
+    } else {
+      // A pure insertion after line `start`: the lines around it are the best hint
+      if (start > 0) {
+        await blameLines(hunk.file, start, start, counts);
+      }
+      await blameLines(hunk.file, start + 1, start + 1, counts);
+    }
+  }
+  // Deleted files blame as a whole; new files have no history and are skipped
+  for (const file of wholeFiles) {
+    await blameLines(file, 0, 0, counts);
+  }
+
+  return commits
+    .map((commit) => ({ ...commit, overlap: counts.get(commit.sha) || 0 }))
+    .sort((a, b) => b.overlap - a.overlap);
+}
+
+// Commit the staged changes as `fixup! <target subject>`
+export async function createFixupCommit(target: string): Promise<{ sha: string; subject: string }> {
+  const result = await runGit(['commit', '--no-edit', `--fixup=${target}`]);
+  if (!result.success) {
+    throw new Error(`Could not create the fixup commit: ${result.stderr.trim() || result.stdout.trim()}`);
+  }
+  const { stdout } = await runGitOrThrow(['log', '-1', '--format=%H%x00%s']);
+  const [sha, subject] = stdout.trim().split('\0');
+  return { sha, subject };
+}
+
+// Fold fixup!/squash! commits into their targets with a non-interactive autosquash rebase
+// from the fork point; uncommitted changes are stashed around it. A conflict leaves the rebase in progress.
+export async function autosquash(): Promise<AutosquashResult> {
+  const { mergeBase } = await getFixupBase();
+  const commits = await getCommitMessagesInRange(`${mergeBase}..HEAD`);
+  const fixups = commits.filter(({ message }) => FIXUP_SUBJECT.test(message)).length;
+  const result: AutosquashResult = { base: mergeBase, status: 'up-to-date', fixups, conflicts: [] };
+  if (fixups === 0) {
+    return result;
+  }
+
+  // A plain autosquash rebase would flatten merges on the branch
+  const merges = await runGitOrThrow(['rev-list', '--merges', '--count', `${mergeBase}..HEAD`]);
+  if (parseInt(merges.stdout.trim(), 10) > 0) {
+    throw new Error("The branch contains merge commits; autosquash would flatten them. Squash the fixups by hand with 'git rebase -i --rebase-merges'");
+  }
+
+  const rebase = await runGit(['rebase', '-i', '--autosquash', '--autostash', mergeBase], {
+    env: { ...process.env, GIT_SEQUENCE_EDITOR: 'true', GIT_EDITOR: 'true' },
+  });
+  if (!rebase.success) {
+    return { ...result, status: 'conflict', conflicts: await getConflictedFiles(), reason: rebase.stderr.trim() || undefined };
+  }
+  return { ...result, status: 'squashed' };
+}
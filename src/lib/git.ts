@@ -1,67 +1,55 @@
 // Git operations for Kunj CLI
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import chalk from 'chalk';
 import { GitCommandResult, BranchInfo } from '../types';
+import { runGit, runGitOrThrow, runTool, getGitRoot, CommandError } from './runner';
+import { DiffHunk, HunkSelection, parseHunks, buildPatch, resolveHunkSelections } from './hunks';
 
-const execAsync = promisify(exec);
+export { getGitRoot };
 
-// Cache for git root directory
-let gitRootCache: string | null = null;
-
-// Get the git repository root directory
-export async function getGitRoot(): Promise<string> {
-  if (gitRootCache) {
-    return gitRootCache;
-  }
-
-  try {
-    const { stdout } = await execAsync('git rev-parse --show-toplevel');
-    gitRootCache = stdout.trim();
-    return gitRootCache;
-  } catch (error) {
-    throw new Error('Not in a git repository');
-  }
-}
-
-// Execute command from git root directory
-async function execFromGitRoot(command: string): Promise<{ stdout: string; stderr: string }> {
-  const gitRoot = await getGitRoot();
-  return execAsync(command, { cwd: gitRoot });
+// Run git from the repository root and return stdout (throws on failure)
+async function git(args: string[]): Promise<string> {
+  return (await runGitOrThrow(args)).stdout;
 }
 
 // Check if current directory is a git repository
 export async function checkGitRepo(): Promise<boolean> {
-  try {
-    await execAsync('git rev-parse --is-inside-work-tree');
-    return true;
-  } catch {
-    return false;
-  }
+  const result = await runTool('git', ['rev-parse', '--is-inside-work-tree']);
+  return result.success;
 }
 
-// Execute a git command with error handling from the git root directory
-export async function executeGitCommand(command: string): Promise<GitCommandResult> {
-  try {
-    const { stdout, stderr } = await execFromGitRoot(command);
+// Execute a git command (argv, without the leading "git") from the git root directory
+export async function executeGitCommand(args: string[]): Promise<GitCommandResult> {
+  const result = await runGit(args);
+  if (result.success) {
     return {
       success: true,
-      message: stdout || stderr || ''
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      message: error.message || 'Command failed'
+      message: result.stdout || result.stderr || ''
     };
   }
+  return {
+    success: false,
+    message: new CommandError(result).message
+  };
+}
+
+// Count the lines of a working tree file (relative to the repository root)
+async function countFileLines(filePath: string): Promise<number> {
+  try {
+    const content = fs.readFileSync(path.join(await getGitRoot(), filePath), 'utf8');
+    return content.split('\n').length - (content.endsWith('\n') ? 1 : 0);
+  } catch {
+    return 0;
+  }
 }
 
 // Get the current branch name
 export async function getCurrentBranch(): Promise<string> {
   try {
-    const { stdout } = await execFromGitRoot('git branch --show-current');
-    return stdout.trim();
+    return (await git(['branch', '--show-current'])).trim();
   } catch {
     return '';
   }
@@ -70,15 +58,15 @@ export async function getCurrentBranch(): Promise<string> {
 // Get all branches with optional filtering
 export async function getAllBranches(includeRemote: boolean = false): Promise<BranchInfo[]> {
   try {
-    const command = includeRemote ? 'git branch -a' : 'git branch';
-    const { stdout } = await execFromGitRoot(command);
+    const stdout = await git(includeRemote ? ['branch', '-a'] : ['branch']);
 
     if (!stdout.trim()) return [];
 
     const branches = stdout.split('\n')
       .filter(line => line.trim())
       .map(line => {
-        const name = line.replace(/^\*?\s+/, '').trim();
+        // "*" marks the current branch, "+" a branch checked out in another worktree
+        const name = line.replace(/^[*+]?\s+/, '').trim();
         if (name.startsWith('remotes/')) {
           return null;
         }
@@ -95,12 +83,13 @@ export async function getAllBranches(includeRemote: boolean = false): Promise<Br
 // Get branches with last activity time
 export async function getBranchesWithActivity(sortBy: 'recent' | 'alphabetical' = 'recent'): Promise<BranchInfo[]> {
   try {
-    const sortFlag = sortBy === 'recent' ? '-committerdate' : '';
-    const command = sortFlag
-      ? `git for-each-ref --sort=${sortFlag} --format='%(refname:short)|%(committerdate:relative)' refs/heads/`
-      : `git for-each-ref --format='%(refname:short)|%(committerdate:relative)' refs/heads/`;
-
-    const { stdout } = await execFromGitRoot(command);
+    const sortArgs = sortBy === 'recent' ? ['--sort=-committerdate'] : [];
+    const stdout = await git([
+      'for-each-ref',
+      ...sortArgs,
+      '--format=%(refname:short)|%(committerdate:relative)',
+      'refs/heads/'
+    ]);
 
     if (!stdout.trim()) return [];
 
@@ -124,7 +113,7 @@ export async function getBranchesWithActivity(sortBy: 'recent' | 'alphabetical'
 // Check if there are uncommitted changes
 export async function hasUncommittedChanges(): Promise<boolean> {
   try {
-    const { stdout } = await execFromGitRoot('git status --porcelain');
+    const stdout = await git(['status', '--porcelain']);
     return stdout.trim().length > 0;
   } catch {
     return false;
@@ -137,10 +126,10 @@ export async function deleteBranch(branchName: string, force: boolean = false, r
     // Parse remote and branch name
     const [remoteName, ...branchParts] = branchName.split('/');
     const remoteBranch = branchParts.join('/');
-    return executeGitCommand(`git push ${remoteName} --delete ${remoteBranch}`);
+    return executeGitCommand(['push', remoteName, '--delete', remoteBranch]);
   } else {
     const deleteFlag = force ? '-D' : '-d';
-    return executeGitCommand(`git branch ${deleteFlag} ${branchName}`);
+    return executeGitCommand(['branch', deleteFlag, '--', branchName]);
   }
 }
 
@@ -157,7 +146,7 @@ export interface FileStatus {
 // Get the status of all changed files
 export async function getFileStatuses(): Promise<FileStatus[]> {
   try {
-    const { stdout } = await execAsync('git status --porcelain=v1');
+    const stdout = await git(['status', '--porcelain=v1']);
     if (!stdout.trim()) return [];
 
     const files: FileStatus[] = [];
@@ -191,7 +180,7 @@ export async function getFileStatuses(): Promise<FileStatus[]> {
       if (filePath.endsWith('/') && indexStatus === '?' && workTreeStatus === '?') {
         // Get all untracked files in this directory
         try {
-          const { stdout:filesInDir } = await execAsync(`git ls-files --others --exclude-standard "${filePath}*"`);
+          const filesInDir = await git(['ls-files', '--others', '--exclude-standard', '--', filePath]);
           if (filesInDir.trim()) {
             const dirFiles = filesInDir.split('\n').filter(f => f.trim());
             for (const file of dirFiles) {
@@ -244,7 +233,7 @@ export async function getFileStatuses(): Promise<FileStatus[]> {
     // Get stats for staged files
     const stagedStatsMap = new Map<string, { additions: number; deletions: number }>();
     try {
-      const { stdout:stagedStats } = await execAsync('git diff --numstat --cached');
+      const stagedStats = await git(['diff', '--numstat', '--cached']);
       if (stagedStats.trim()) {
         stagedStats.split('\n').filter(l => l.trim()).forEach(line => {
           const parts = line.split(/\s+/);
@@ -263,7 +252,7 @@ export async function getFileStatuses(): Promise<FileStatus[]> {
     // Get stats for unstaged files
     const unstagedStatsMap = new Map<string, { additions: number; deletions: number }>();
     try {
-      const { stdout:unstagedStats } = await execAsync('git diff --numstat');
+      const unstagedStats = await git(['diff', '--numstat']);
       if (unstagedStats.trim()) {
         unstagedStats.split('\n').filter(l => l.trim()).forEach(line => {
           const parts = line.split(/\s+/);
@@ -288,14 +277,8 @@ export async function getFileStatuses(): Promise<FileStatus[]> {
         file.deletions = stats.deletions;
       } else if (file.status === 'new') {
         // For new files, count lines
-        try {
-          const { stdout:content } = await execAsync(`wc -l < "${file.path}" 2>/dev/null || echo "0"`);
-          file.additions = parseInt(content.trim()) || 0;
-          file.deletions = 0;
-        } catch {
-          file.additions = 0;
-          file.deletions = 0;
-        }
+        file.additions = await countFileLines(file.path);
+        file.deletions = 0;
       } else {
         file.additions = 0;
         file.deletions = 0;
@@ -326,10 +309,8 @@ export async function stageFiles(filePaths: string[]): Promise<GitCommandResult>
 
   for (const filePath of cleanPaths) {
     try {
-      // Use git add -- with proper escaping
       // The -- separator ensures git treats the path as a file, not an option
-      const escapedPath = filePath.replace(/"/g, '\\"');
-      const result = await executeGitCommand(`git add -- "${escapedPath}"`);
+      const result = await executeGitCommand(['add', '--', filePath]);
 
       if (!result.success) {
         results.push({ path: filePath, success: false, error: result.message });
@@ -357,16 +338,19 @@ export async function stageFiles(filePaths: string[]): Promise<GitCommandResult>
 }
 
 // Create a commit with message
-export async function createCommit(message: string): Promise<GitCommandResult> {
-  // Escape the message for shell
-  const escapedMessage = message.replace(/"/g, '\\"');
-  return executeGitCommand(`git commit -m "${escapedMessage}"`);
+export async function createCommit(message: string, amend: boolean = false): Promise<GitCommandResult> {
+  // Passed on stdin so the message reaches git byte-for-byte
+  const result = await runGit(['commit', ...(amend ? ['--amend'] : []), '-F', '-'], { input: message });
+  return {
+    success: result.success,
+    message: result.success ? result.stdout || result.stderr : new CommandError(result).message
+  };
 }
 
 // Get recent commit messages for reference
 export async function getRecentCommitMessages(limit: number = 10): Promise<string[]> {
   try {
-    const { stdout } = await execAsync(`git log --oneline -n ${limit}`);
+    const stdout = await git(['log', '--oneline', '-n', String(limit)]);
     if (!stdout.trim()) return [];
 
     return stdout.split('\n')
@@ -385,15 +369,13 @@ export async function getRecentCommitMessages(limit: number = 10): Promise<strin
 export async function getMainBranch(): Promise<string> {
   try {
     // Check if main exists
-    const { stdout:mainExists } = await execAsync('git rev-parse --verify main 2>/dev/null || echo ""');
-    if (mainExists.trim()) return 'main';
+    if (await branchExists('main')) return 'main';
 
     // Check if master exists
-    const { stdout:masterExists } = await execAsync('git rev-parse --verify master 2>/dev/null || echo ""');
-    if (masterExists.trim()) return 'master';
+    if (await branchExists('master')) return 'master';
 
     // Try to get from remote
-    const { stdout:remotes } = await execAsync('git branch -r');
+    const remotes = await git(['branch', '-r']);
     if (remotes.includes('origin/main')) return 'main';
     if (remotes.includes('origin/master')) return 'master';
 
@@ -415,7 +397,7 @@ export async function getCommitsSinceBranch(baseBranch?: string): Promise<string
     }
 
     // Find the merge-base (common ancestor)
-    const { stdout:mergeBase } = await execAsync(`git merge-base ${targetBaseBranch} HEAD 2>/dev/null || echo ""`);
+    const mergeBase = (await runGit(['merge-base', targetBaseBranch, 'HEAD'])).stdout;
 
     if (!mergeBase.trim()) {
       // If no merge-base found, just return recent commits
@@ -423,7 +405,7 @@ export async function getCommitsSinceBranch(baseBranch?: string): Promise<string
     }
 
     // Get commits from merge-base to HEAD
-    const { stdout } = await execAsync(`git log --oneline ${mergeBase.trim()}..HEAD`);
+    const stdout = await git(['log', '--oneline', `${mergeBase.trim()}..HEAD`]);
     if (!stdout.trim()) return [];
 
     return stdout.split('\n')
@@ -445,23 +427,28 @@ export async function getFileDiff(filePath: string, colored: boolean = true): Pr
     const colorFlag = colored ? '--color=always' : '--no-color';
 
     // Try to get diff for staged changes first
-    const { stdout:stagedDiff } = await execAsync(`git diff --cached ${colorFlag} -- "${filePath}" 2>/dev/null || echo ""`);
+    const stagedDiff = (await runGit(['diff', '--cached', colorFlag, '--', filePath])).stdout;
 
     if (stagedDiff.trim()) {
       return stagedDiff;
     }
 
     // If no staged changes, get unstaged diff
-    const { stdout:unstagedDiff } = await execAsync(`git diff ${colorFlag} -- "${filePath}" 2>/dev/null || echo ""`);
+    const unstagedDiff = (await runGit(['diff', colorFlag, '--', filePath])).stdout;
 
     if (unstagedDiff.trim()) {
       return unstagedDiff;
     }
 
     // If it's a new file, show the entire content
-    const { stdout:status } = await execAsync(`git status --porcelain "${filePath}"`);
+    const status = await git(['status', '--porcelain', '--', filePath]);
     if (status.trim().startsWith('??') || status.trim().startsWith('A')) {
-      const { stdout:content } = await execAsync(`cat "${filePath}" 2>/dev/null || echo ""`);
+      let content = '';
+      try {
+        content = fs.readFileSync(path.join(await getGitRoot(), filePath), 'utf8');
+      } catch {
+        // Unreadable files show as empty
+      }
       // Format as a diff with all lines as additions
       const lines = content.split('\n');
       if (colored) {
@@ -488,14 +475,14 @@ export async function getFileDiffWithMain(filePath: string): Promise<string> {
     }
 
     // Get diff comparing with main branch
-    const { stdout:diff } = await execAsync(`git diff --color=always ${mainBranch}...HEAD -- "${filePath}" 2>/dev/null || echo ""`);
+    const diff = (await runGit(['diff', '--color=always', `${mainBranch}...HEAD`, '--', filePath])).stdout;
 
     if (diff.trim()) {
       return diff;
     }
 
     // If no diff with main, check if file exists in main
-    const { stdout:fileInMain } = await execAsync(`git ls-tree -r ${mainBranch} --name-only "${filePath}" 2>/dev/null || echo ""`);
+    const fileInMain = (await runGit(['ls-tree', '-r', mainBranch, '--name-only', '--', filePath])).stdout;
 
     if (!fileInMain.trim()) {
       return chalk.green(`File is new in this branch (not in ${mainBranch})`);
@@ -511,12 +498,12 @@ export async function getFileDiffWithMain(filePath: string): Promise<string> {
 export async function revertFile(filePath: string): Promise<GitCommandResult> {
   try {
     // Check if file is staged
-    const { stdout:status } = await execAsync(`git status --porcelain "${filePath}"`);
+    const status = await git(['status', '--porcelain', '--', filePath]);
     const isStaged = status.trim()[0] !== ' ' && status.trim()[0] !== '?';
 
     if (isStaged) {
       // Unstage the file first
-      await execAsync(`git reset HEAD "${filePath}"`);
+      await git(['reset', '-q', 'HEAD', '--', filePath]);
     }
 
     // Check if it's an untracked file
@@ -528,7 +515,7 @@ export async function revertFile(filePath: string): Promise<GitCommandResult> {
     }
 
     // Revert the file
-    await execAsync(`git checkout -- "${filePath}"`);
+    await git(['checkout', '--', filePath]);
 
     return {
       success: true,
@@ -546,16 +533,12 @@ export async function revertFile(filePath: string): Promise<GitCommandResult> {
 export async function deleteFile(filePath: string): Promise<GitCommandResult> {
   try {
     // Remove the file from filesystem
-    const { exec } = require('child_process');
-    const { promisify } = require('util');
-    const execAsync = promisify(exec);
-
-    await execAsync(`rm "${filePath}"`);
+    fs.unlinkSync(path.join(await getGitRoot(), filePath));
 
     // Stage the deletion if it was tracked
-    const { stdout:status } = await execAsync(`git status --porcelain "${filePath}" 2>/dev/null || echo ""`);
+    const status = (await runGit(['status', '--porcelain', '--', filePath])).stdout;
     if (status && !status.trim().startsWith('??')) {
-      await execAsync(`git add "${filePath}"`);
+      await git(['add', '--', filePath]);
     }
 
     return {
@@ -573,34 +556,22 @@ export async function deleteFile(filePath: string): Promise<GitCommandResult> {
 // Get line change statistics for a file
 export async function getFileStats(filePath: string, staged: boolean = false): Promise<{ additions: number; deletions: number }> {
   try {
-    const command = staged
-      ? `git diff --numstat --cached -- "${filePath}"`
-      : `git diff --numstat -- "${filePath}"`;
-
-    const { stdout } = await execFromGitRoot(command);
+    const stdout = await git(staged
+      ? ['diff', '--numstat', '--cached', '--', filePath]
+      : ['diff', '--numstat', '--', filePath]);
 
     if (!stdout.trim()) {
       // If no diff output, might be a new file or deleted file
-      const { stdout:status } = await execAsync(`git status --porcelain "${filePath}"`);
+      const status = await git(['status', '--porcelain', '--', filePath]);
 
       if (status.trim().startsWith('??') || status.trim().startsWith('A')) {
         // New file - count all lines as additions
-        try {
-          const { stdout:content } = await execAsync(`wc -l < "${filePath}" 2>/dev/null || echo "0"`);
-          const lines = parseInt(content.trim()) || 0;
-          return { additions: lines, deletions: 0 };
-        } catch {
-          return { additions: 0, deletions: 0 };
-        }
+        return { additions: await countFileLines(filePath), deletions: 0 };
       } else if (status.trim().startsWith('D')) {
         // Deleted file - try to count lines from HEAD
-        try {
-          const { stdout:content } = await execAsync(`git show HEAD:"${filePath}" | wc -l`);
-          const lines = parseInt(content.trim()) || 0;
-          return { additions: 0, deletions: lines };
-        } catch {
-          return { additions: 0, deletions: 0 };
-        }
+        const content = (await runGit(['show', `HEAD:${filePath}`])).stdout;
+        const lines = content ? content.split('\n').length - (content.endsWith('\n') ? 1 : 0) : 0;
+        return { additions: 0, deletions: lines };
       }
 
       return { additions: 0, deletions: 0 };
@@ -619,35 +590,24 @@ export async function getFileStats(filePath: string, staged: boolean = false): P
 
 // Check if a branch exists
 export async function branchExists(branchName: string): Promise<boolean> {
-  try {
-    await execAsync(`git rev-parse --verify ${branchName} 2>/dev/null`);
-    return true;
-  } catch {
-    return false;
-  }
+  const result = await runGit(['rev-parse', '--verify', '--quiet', branchName]);
+  return result.success;
 }
 
 // Merge a branch into current branch
 export async function mergeBranch(sourceBranch: string, noFf: boolean = true): Promise<GitCommandResult> {
-  try {
-    const ffFlag = noFf ? '--no-ff' : '';
-    const { stdout, stderr } = await execFromGitRoot(`git merge ${ffFlag} ${sourceBranch}`);
-    return {
-      success: true,
-      message: stdout || stderr || `Merged ${sourceBranch}`
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      message: error.message || `Failed to merge ${sourceBranch}`
-    };
-  }
+  const ffArgs = noFf ? ['--no-ff'] : [];
+  const result = await executeGitCommand(['merge', ...ffArgs, sourceBranch]);
+  return {
+    success: result.success,
+    message: result.message || (result.success ? `Merged ${sourceBranch}` : `Failed to merge ${sourceBranch}`)
+  };
 }
 
 // Create a new branch from a base branch
 export async function createBranchFrom(branchName: string, baseBranch: string): Promise<GitCommandResult> {
   try {
-    await execFromGitRoot(`git checkout -b ${branchName} ${baseBranch}`);
+    await git(['checkout', '-b', branchName, baseBranch]);
     return {
       success: true,
       message: `Created branch ${branchName} from ${baseBranch}`
@@ -663,7 +623,7 @@ export async function createBranchFrom(branchName: string, baseBranch: string):
 // Switch to an existing branch
 export async function switchBranch(branchName: string): Promise<GitCommandResult> {
   try {
-    await execFromGitRoot(`git checkout ${branchName}`);
+    await git(['checkout', branchName, '--']);
     return {
       success: true,
       message: `Switched to ${branchName}`
@@ -679,8 +639,8 @@ export async function switchBranch(branchName: string): Promise<GitCommandResult
 // Create a git tag
 export async function createTag(tagName: string, message?: string): Promise<GitCommandResult> {
   try {
-    const msgFlag = message ? `-m "${message.replace(/"/g, '\\"')}"` : '';
-    await execFromGitRoot(`git tag ${msgFlag} ${tagName}`);
+    const msgArgs = message ? ['-m', message] : [];
+    await git(['tag', ...msgArgs, tagName]);
     return {
       success: true,
       message: `Created tag ${tagName}`
@@ -701,7 +661,7 @@ export async function ensureBranchExists(branchName: string, createFrom?: string
       if (createFrom) {
         return await createBranchFrom(branchName, createFrom);
       } else {
-        await execFromGitRoot(`git checkout -b ${branchName}`);
+        await git(['checkout', '-b', branchName]);
         return {
           success: true,
           message: `Created branch ${branchName}`
@@ -723,8 +683,7 @@ export async function ensureBranchExists(branchName: string, createFrom?: string
 // Pull latest changes from remote
 export async function pullBranch(branchName?: string): Promise<GitCommandResult> {
   try {
-    const command = branchName ? `git pull origin ${branchName}` : 'git pull';
-    await execFromGitRoot(command);
+    await git(branchName ? ['pull', 'origin', branchName] : ['pull']);
     return {
       success: true,
       message: branchName ? `Pulled ${branchName} from remote` : 'Pulled latest changes'
@@ -740,8 +699,8 @@ export async function pullBranch(branchName?: string): Promise<GitCommandResult>
 // Push branch to remote
 export async function pushBranch(branchName: string, setUpstream: boolean = false): Promise<GitCommandResult> {
   try {
-    const upstreamFlag = setUpstream ? '-u' : '';
-    await execFromGitRoot(`git push ${upstreamFlag} origin ${branchName}`);
+    const upstreamArgs = setUpstream ? ['-u'] : [];
+    await git(['push', ...upstreamArgs, 'origin', branchName]);
     return {
       success: true,
       message: `Pushed ${branchName} to remote`
@@ -752,4 +711,115 @@ export async function pushBranch(branchName: string, setUpstream: boolean = fals
       message: error.message || 'Failed to push to remote'
     };
   }
-}
\ No newline at end of file
+}
+// Remote a branch is pushed to: branch.<name>.pushRemote, remote.pushDefault, branch.<name>.remote, then origin
+export async function getPushRemote(branchName: string): Promise<string> {
+  for (const key of [`branch.${branchName}.pushRemote`, 'remote.pushDefault', `branch.${branchName}.remote`]) {
+    const result = await runGit(['config', '--get', key]);
+    const remote = result.stdout.trim();
+    if (result.success && remote && remote !== '.') {
+      return remote;
+    }
+  }
+  return 'origin';
+}
+
+// Unstage everything (keeps working tree changes)
+export async function unstageAll(): Promise<GitCommandResult> {
+  return executeGitCommand(['reset', '-q']);
+}
+
+// Record the index as a tree object so it can be put back with restoreIndex
+export async function saveIndex(): Promise<string> {
+  return (await git(['write-tree'])).trim();
+}
+
+export async function restoreIndex(tree: string): Promise<GitCommandResult> {
+  return executeGitCommand(['read-tree', tree]);
+}
+
+// Get the unstaged diff (working tree vs index) for the whole repository
+export async function getUnstagedDiff(): Promise<string> {
+  try {
+    return await git(['diff', '--no-color', '--no-ext-diff']);
+  } catch {
+    return '';
+  }
+}
+
+// List untracked files (paths relative to the repository root)
+export async function getUntrackedFiles(): Promise<string[]> {
+  try {
+    const stdout = await git(['ls-files', '--others', '--exclude-standard']);
+    return stdout.split('\n').filter(f => f.trim());
+  } catch {
+    return [];
+  }
+}
+
+// Apply a patch to the index only (used for hunk-level staging)
+export async function applyPatchToIndex(patch: string): Promise<GitCommandResult> {
+  const patchFile = path.join(os.tmpdir(), `kunj-stage-${process.pid}-${Date.now()}.patch`);
+
+  try {
+    fs.writeFileSync(patchFile, patch);
+    return await executeGitCommand(['apply', '--cached', '--whitespace=nowarn', patchFile]);
+  } finally {
+    if (fs.existsSync(patchFile)) {
+      fs.unlinkSync(patchFile);
+    }
+  }
+}
+
+// Get the unstaged hunks of a single file (empty for new, deleted and binary files)
+export async function getFileHunks(filePath: string): Promise<DiffHunk[]> {
+  try {
+    return parseHunks(await git(['diff', '--no-color', '--no-ext-diff', '--', filePath])).hunks;
+  } catch {
+    return [];
+  }
+}
+
+// Stage hunks, or selected lines of hunks, from the unstaged diff
+export async function stageHunks(selections: HunkSelection[]): Promise<GitCommandResult> {
+  const hunksByFile = new Map<string, DiffHunk[]>();
+  for (const file of new Set(selections.map((s) => s.file))) {
+    hunksByFile.set(file, await getFileHunks(file));
+  }
+
+  const hunks = resolveHunkSelections(hunksByFile, selections);
+  if (hunks.length === 0) {
+    return { success: false, message: 'No changes selected' };
+  }
+
+  const result = await applyPatchToIndex(buildPatch(hunks));
+  return result.success
+    ? { success: true, message: `Staged ${hunks.length} hunk(s)` }
+    : result;
+}
+
+// Get full commit messages (subject + body) for a revision range, oldest first
+export async function getCommitMessagesInRange(range: string): Promise<Array<{ sha: string; message: string }>> {
+  const stdout = await git(['log', '--reverse', '--format=%H%x00%B%x1e', range, '--']);
+  return stdout
+    .split('\x1e')
+    .map((entry) => entry.replace(/^\n+/, ''))
+    .filter((entry) => entry.includes('\x00'))
+    .map((entry) => {
+      const [sha, message] = entry.split('\x00');
+      return { sha, message: message.trim() };
+    });
+}
+
+// Resolve the hooks directory (honors core.hooksPath)
+export async function getHooksDir(): Promise<string> {
+  const gitRoot = await getGitRoot();
+  const stdout = await git(['rev-parse', '--git-path', 'hooks']);
+  return path.resolve(gitRoot, stdout.trim());
+}
+
+// Get paths of staged files
+export async function getStagedFiles(): Promise<string[]> {
+  const stdout = await git(['diff', '--cached', '--name-only']);
+  return stdout.split('\n').filter((line) => line.trim());
+}
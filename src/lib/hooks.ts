@@ -0,0 +1,163 @@
+// Git hook management - kunj adds a marked block to a hook script so it can
+// live next to whatever the hook already runs
+
+import * as fs from "fs";
+import * as path from "path";
+import { getHooksDir } from "./git";
+
+export interface HookStatus {
+  hook: string;
+  path: string;
+  exists: boolean;
+  installed: boolean;
+  /** The hook runs other commands besides kunj's block */
+  hasOtherContent: boolean;
+  /** Set when the hook lives in a husky-managed directory */
+  manager?: "husky";
+}
+
+export interface KunjHook {
+  hook: string;
+  id: string;
+  description: string;
+  script: string;
+}
+
+// Hooks kunj knows how to install. Every script is a no-op when kunj is not on
+// PATH, so teammates without kunj can still commit.
+export const KUNJ_HOOKS: KunjHook[] = [
+  {
+    hook: "prepare-commit-msg",
+    id: "ai-message",
+    description: "Pre-fill an AI commit message when none was given (-m, template, merge, amend are left alone)",
+    script: `if [ -z "$2" ] && command -v kunj >/dev/null 2>&1; then
+  kunj hooks run prepare-commit-msg "$1" "$2" || true
+fi`,
+  },
+  {
+    hook: "commit-msg",
+    id: "lint-commits",
+    description: "Reject commit messages that fail kunj lint-commits",
+    script: `if command -v kunj >/dev/null 2>&1; then
+  kunj lint-commits --file "$1" || exit 1
+fi`,
+  },
+];
+
+export function getKunjHook(hook: string): KunjHook {
+  const definition = KUNJ_HOOKS.find((h) => h.hook === hook);
+  if (!definition) {
+    throw new Error(`Unknown hook '${hook}'. Available: ${KUNJ_HOOKS.map((h) => h.hook).join(", ")}`);
+  }
+  return definition;
+}
+
+function markers(id: string): { start: string; end: string } {
+  return { start: `# >>> kunj:${id} >>>`, end: `# <<< kunj:${id} <<<` };
+}
+
+function blockPattern(id: string): RegExp {
+  const { start, end } = markers(id);
+  const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`${escape(start)}[\\s\\S]*?${escape(end)}\\n?\\n?`);
+}
+
+// Only whitespace, comments and the shebang remain
+function isEmptyScript(content: string): boolean {
+  return content
+    .split("\n")
+    .every((line) => !line.trim() || line.trim().startsWith("#"));
+}
+
+// Husky 9 points core.hooksPath at .husky/_, whose scripts it regenerates and
+// which call the user-owned .husky/<hook>; kunj edits the latter
+function getHuskyDir(hooksDir: string): string | null {
+  return path.basename(hooksDir) === "_" && path.basename(path.dirname(hooksDir)) === ".husky"
+    ? path.dirname(hooksDir)
+    : null;
+}
+
+export async function getHookPath(hook: string): Promise<string> {
+  const hooksDir = await getHooksDir();
+  return path.join(getHuskyDir(hooksDir) || hooksDir, hook);
+}
+
+// Add (or replace) kunj's block at the top of a hook, creating the script if needed
+export async function installHookBlock(hook: string, id: string, script: string): Promise<string> {
+  const hookPath = await getHookPath(hook);
+  const { start, end } = markers(id);
+  const block = `${start}\n${script.trim()}\n${end}\n`;
+
+  let content = fs.existsSync(hookPath) ? fs.readFileSync(hookPath, "utf8") : "#!/bin/sh\n";
+  content = content.replace(blockPattern(id), "");
+
+  // Insert right after the shebang so an "exit 0" at the end of an existing hook cannot skip it
+  const firstLine = content.split("\n")[0];
+  const shebang = firstLine.startsWith("#!") ? firstLine : "#!/bin/sh";
+  const rest = (firstLine.startsWith("#!") ? content.substring(firstLine.length) : content).replace(/^\n+/, "");
+  content = `${shebang}\n${block}${rest ? `\n${rest}` : ""}`;
+
+  const hooksDir = path.dirname(hookPath);
+  if (fs.existsSync(hooksDir) && !fs.statSync(hooksDir).isDirectory()) {
+    throw new Error(`Git hooks are disabled here (core.hooksPath points to ${hooksDir})`);
+  }
+  fs.mkdirSync(hooksDir, { recursive: true });
+  fs.writeFileSync(hookPath, content);
+  fs.chmodSync(hookPath, 0o755);
+  return hookPath;
+}
+
+// Remove kunj's block; the hook file is deleted when nothing else is left in it
+export async function uninstallHookBlock(hook: string, id: string): Promise<boolean> {
+  const hookPath = await getHookPath(hook);
+  if (!fs.existsSync(hookPath)) {
+    return false;
+  }
+
+  const content = fs.readFileSync(hookPath, "utf8");
+  if (!blockPattern(id).test(content)) {
+    return false;
+  }
+
+  const remaining = content.replace(blockPattern(id), "");
+  if (isEmptyScript(remaining)) {
+    fs.unlinkSync(hookPath);
+  } else {
+    fs.writeFileSync(hookPath, remaining);
+  }
+  return true;
+}
+
+export async function getHookStatus(hook: string, id: string): Promise<HookStatus> {
+  const hookPath = await getHookPath(hook);
+  const manager = getHuskyDir(await getHooksDir()) ? "husky" : undefined;
+  if (!fs.existsSync(hookPath)) {
+    return { hook, path: hookPath, exists: false, installed: false, hasOtherContent: false, manager };
+  }
+
+  const content = fs.readFileSync(hookPath, "utf8");
+  return {
+    hook,
+    path: hookPath,
+    exists: true,
+    installed: blockPattern(id).test(content),
+    hasOtherContent: !isEmptyScript(content.replace(blockPattern(id), "")),
+    manager,
+  };
+}
+
+// Put a generated message at the top of a COMMIT_EDITMSG-style file, keeping git's
+// comment lines below it. Returns false (and writes nothing) if the file already
+// holds a message, so anything the user or another tool provided is never replaced.
+export function prefillCommitMessageFile(file: string, message: string): boolean {
+  const existing = fs.existsSync(file) ? fs.readFileSync(file, "utf8") : "";
+  const hasMessage = existing
+    .split("\n")
+    .some((line) => line.trim() && !line.startsWith("#"));
+  if (hasMessage || !message.trim()) {
+    return false;
+  }
+
+  fs.writeFileSync(file, `${message.trim()}\n${existing.startsWith("\n") ? "" : "\n"}${existing}`);
+  return true;
+}
@@ -0,0 +1,155 @@
+// Hunk-level diff parsing and partial patch building for staging through `git apply --cached`
+
+export interface DiffHunk {
+  /** Path in the new version (old path for deletions) */
+  file: string;
+  /** Everything before the first @@ line: diff --git, index, ---/+++ */
+  fileHeader: string;
+  /** The @@ -a,b +c,d @@ line */
+  header: string;
+  /** Hunk body lines (" ", "+", "-" and "\ No newline" markers) */
+  lines: string[];
+  additions: number;
+  deletions: number;
+}
+
+export interface ParsedDiff {
+  hunks: DiffHunk[];
+  /** Files that have no text hunks (binary, mode-only, new/deleted) and can only be staged whole */
+  wholeFiles: string[];
+}
+
+// Parse a unified diff (git diff --no-color) into hunks. New, deleted and binary
+// files are reported in wholeFiles instead, since they are staged as a unit.
+export function parseHunks(diff: string): ParsedDiff {
+  const hunks: DiffHunk[] = [];
+  const wholeFiles: string[] = [];
+
+  for (const section of diff.split(/(?=^diff --git )/m)) {
+    if (!section.startsWith("diff --git ")) continue;
+
+    const nameMatch = section.match(/^diff --git a\/(.+?) b\/(.+)$/m);
+    const file = nameMatch ? nameMatch[2] : "";
+    if (!file) continue;
+
+    const firstHunk = section.search(/^@@ /m);
+    const isWholeFile =
+      firstHunk === -1 ||
+      /^(new|deleted) file mode /m.test(section.substring(0, firstHunk)) ||
+      /^rename from /m.test(section.substring(0, firstHunk));
+
+    if (isWholeFile) {
+      wholeFiles.push(file);
+      continue;
+    }
+
+    const fileHeader = section.substring(0, firstHunk);
+    for (const chunk of section.substring(firstHunk).split(/(?=^@@ )/m)) {
+      const [header, ...body] = chunk.split("\n");
+      // Drop the empty string left by the trailing newline
+      while (body.length > 0 && body[body.length - 1] === "") {
+        body.pop();
+      }
+      hunks.push({
+        file,
+        fileHeader,
+        header,
+        lines: body,
+        additions: body.filter((l) => l.startsWith("+")).length,
+        deletions: body.filter((l) => l.startsWith("-")).length,
+      });
+    }
+  }
+
+  return { hunks, wholeFiles };
+}
+
+// Render a single hunk as diff text (for previews)
+export function formatHunk(hunk: DiffHunk): string {
+  return `${hunk.header}\n${hunk.lines.join("\n")}`;
+}
+
+// Build a patch containing only the given hunks, grouped under their file headers.
+// Hunks keep their original line numbers; git apply locates them by context, so
+// a patch still applies after earlier hunks of the same file were staged.
+export function buildPatch(hunks: DiffHunk[]): string {
+  const byFile = new Map<string, DiffHunk[]>();
+  for (const hunk of hunks) {
+    if (!byFile.has(hunk.file)) byFile.set(hunk.file, []);
+    byFile.get(hunk.file)!.push(hunk);
+  }
+
+  let patch = "";
+  for (const fileHunks of byFile.values()) {
+    patch += fileHunks[0].fileHeader;
+    for (const hunk of fileHunks) {
+      patch += `${formatHunk(hunk)}\n`;
+    }
+  }
+  return patch;
+}
+
+// Which changed lines of a hunk to stage; `lines` are indexes into DiffHunk.lines
+// and omitting it selects the whole hunk
+export interface HunkSelection {
+  file: string;
+  hunk: number;
+  lines?: number[];
+}
+
+// Indexes of the "+" and "-" lines of a hunk (the ones that can be picked individually)
+export function changedLineIndexes(hunk: DiffHunk): number[] {
+  return hunk.lines.flatMap((line, i) => (line.startsWith("+") || line.startsWith("-") ? [i] : []));
+}
+
+// Narrow a hunk down to some of its changed lines: unpicked additions are dropped and
+// unpicked deletions become context, as `git add -p` does when editing a hunk.
+// Returns null when none of the picked lines is a change.
+export function selectHunkLines(hunk: DiffHunk, picked: Iterable<number>): DiffHunk | null {
+  const keep = new Set(picked);
+  const lines: string[] = [];
+  let droppedPrevious = false;
+
+  hunk.lines.forEach((line, i) => {
+    if (line.startsWith("\\")) {
+      // "\ No newline at end of file" belongs to the line before it
+      if (!droppedPrevious) lines.push(line);
+      return;
+    }
+    droppedPrevious = false;
+    if (line.startsWith("+") && !keep.has(i)) {
+      droppedPrevious = true;
+    } else if (line.startsWith("-") && !keep.has(i)) {
+      lines.push(` ${line.substring(1)}`);
+    } else {
+      lines.push(line);
+    }
+  });
+
+  const additions = lines.filter((l) => l.startsWith("+")).length;
+  const deletions = lines.filter((l) => l.startsWith("-")).length;
+  if (additions + deletions === 0) {
+    return null;
+  }
+
+  const match = hunk.header.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@(.*)$/);
+  if (!match) {
+    return null;
+  }
+  const context = lines.filter((l) => l.startsWith(" ")).length;
+  const header = `@@ -${match[1]},${context + deletions} +${match[2]},${context + additions} @@${match[3]}`;
+
+  return { ...hunk, header, lines, additions, deletions };
+}
+
+// Resolve selections against the parsed hunks of each file, skipping unknown indexes
+export function resolveHunkSelections(hunksByFile: Map<string, DiffHunk[]>, selections: HunkSelection[]): DiffHunk[] {
+  const result: DiffHunk[] = [];
+  for (const selection of selections) {
+    const hunk = hunksByFile.get(selection.file)?.[selection.hunk];
+    if (!hunk) continue;
+    const narrowed = selection.lines ? selectHunkLines(hunk, selection.lines) : hunk;
+    if (narrowed) result.push(narrowed);
+  }
+  return result;
+}
@@ -0,0 +1,393 @@
+// Operation journal (.kunj/journal.jsonl) - what each kunj command changed, so it can be undone
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BranchesMetadata, BranchMetadata } from '../types';
+import { getKunjDir, initKunjDirectory } from './config';
+import { loadBranchMetadata, saveBranchMetadata } from './metadata';
+import { listWorktrees } from './worktree';
+import { getGitRoot, runGit, runGitOrThrow } from './runner';
+import { JOURNAL_FILE, JOURNAL_PENDING_FILE } from '../constants';
+
+// Oldest entries are dropped once the journal grows past this
+const JOURNAL_LIMIT = 200;
+
+export interface HeadState {
+  branch: string | null; // null when detached
+  sha: string | null;
+}
+
+export interface RefChange {
+  ref: string;
+  before: string | null; // null when the ref did not exist
+  after: string | null;
+}
+
+export interface StashRecord {
+  sha: string;
+  message: string;
+}
+
+export interface MetadataChange {
+  branch: string;
+  before: BranchMetadata | null;
+  after: BranchMetadata | null;
+}
+
+export interface JournalEntry {
+  id: string;
+  timestamp: string;
+  command: string;
+  head: { before: HeadState; after: HeadState };
+  refs: RefChange[];
+  stashes: { added: StashRecord[]; removed: StashRecord[] };
+  metadata: MetadataChange[];
+  undoneAt?: string;
+}
+
+// Repository state captured before an operation runs
+export interface Snapshot {
+  command: string;
+  timestamp: string;
+  head: HeadState;
+  refs: Record<string, string>;
+  stashes: StashRecord[];
+  metadata: BranchesMetadata['branches'];
+}
+
+export interface UndoOptions {
+  force?: boolean; // Undo even if refs moved since the operation
+}
+
+export interface UndoResult {
+  entry: JournalEntry;
+  warnings: string[];
+  savedStash?: string; // Message of the stash holding uncommitted changes found before undoing
+}
+
+function getJournalPath(): string {
+  return path.join(getKunjDir(), JOURNAL_FILE);
+}
+
+function getPendingPath(): string {
+  return path.join(getKunjDir(), JOURNAL_PENDING_FILE);
+}
+
+// Capture branches, tags, HEAD, the stash list and branch metadata
+export async function takeSnapshot(command: string): Promise<Snapshot> {
+  const [refs, head, sha, stashes] = await Promise.all([
+    runGitOrThrow(['for-each-ref', '--format=%(objectname) %(refname)', 'refs/heads', 'refs/tags']),
+    runGit(['symbolic-ref', '--quiet', 'HEAD']),
+    runGit(['rev-parse', '--verify', '--quiet', 'HEAD']),
+    runGit(['stash', 'list', '--format=%H %gs']),
+  ]);
+
+  const refMap: Record<string, string> = {};
+  for (const line of refs.stdout.split('\n').filter((l) => l.trim())) {
+    const [objectName, refName] = line.split(' ');
+    refMap[refName] = objectName;
+  }
+
+  return {
+    command,
+    timestamp: new Date().toISOString(),
+    head: {
+      branch: head.success ? head.stdout.trim().replace(/^refs\/heads\//, '') : null,
+      sha: sha.success ? sha.stdout.trim() : null,
+    },
+    refs: refMap,
+    stashes: parseStashList(stashes.stdout),
+    metadata: loadBranchMetadata().branches,
+  };
+}
+
+function parseStashList(output: string): StashRecord[] {
+  return output
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => {
+      const space = line.indexOf(' ');
+      return { sha: line.substring(0, space), message: line.substring(space + 1) };
+    });
+}
+
+// Compare two snapshots; returns null when nothing changed
+export function diffSnapshots(before: Snapshot, after: Snapshot): JournalEntry | null {
+  const refs: RefChange[] = [];
+  for (const ref of new Set([...Object.keys(before.refs), ...Object.keys(after.refs)])) {
+    const from = before.refs[ref] ?? null;
+    const to = after.refs[ref] ?? null;
+    if (from !== to) {
+      refs.push({ ref, before: from, after: to });
+    }
+  }
+
+  const beforeShas = new Set(before.stashes.map((s) => s.sha));
+  const afterShas = new Set(after.stashes.map((s) => s.sha));
+  const stashes = {
+    added: after.stashes.filter((s) => !beforeShas.has(s.sha)),
+    removed: before.stashes.filter((s) => !afterShas.has(s.sha)),
+  };
+
+  const metadata: MetadataChange[] = [];
+  for (const branch of new Set([...Object.keys(before.metadata), ...Object.keys(after.metadata)])) {
+    const from = before.metadata[branch] ?? null;
+    const to = after.metadata[branch] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      metadata.push({ branch, before: from, after: to });
+    }
+  }
+
+  const headChanged = before.head.branch !== after.head.branch || before.head.sha !== after.head.sha;
+  if (!headChanged && refs.length === 0 && metadata.length === 0 &&
+      stashes.added.length === 0 && stashes.removed.length === 0) {
+    return null;
+  }
+
+  return {
+    id: Date.parse(before.timestamp).toString(36),
+    timestamp: before.timestamp,
+    command: before.command,
+    head: { before: before.head, after: after.head },
+    refs,
+    stashes,
+    metadata,
+  };
+}
+
+// Load journal entries, oldest first
+export function loadJournal(): JournalEntry[] {
+  const journalPath = getJournalPath();
+  if (!fs.existsSync(journalPath)) {
+    return [];
+  }
+  return fs
+    .readFileSync(journalPath, 'utf8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as JournalEntry];
+      } catch {
+        return [];
+      }
+    });
+}
+
+function saveJournal(entries: JournalEntry[]): void {
+  initKunjDirectory();
+  const lines = entries.slice(-JOURNAL_LIMIT).map((entry) => JSON.stringify(entry));
+  fs.writeFileSync(getJournalPath(), lines.length > 0 ? lines.join('\n') + '\n' : '');
+}
+
+export function appendJournalEntry(entry: JournalEntry): void {
+  saveJournal([...loadJournal(), entry]);
+}
+
+// Snapshot before a mutating command. The snapshot is also written to disk so that a command
+// ending in process.exit() is still journaled: the next journaled command finishes it.
+export async function beginOperation(command: string): Promise<Snapshot | null> {
+  try {
+    await finishPendingOperation();
+    const snapshot = await takeSnapshot(command);
+    initKunjDirectory();
+    fs.writeFileSync(getPendingPath(), JSON.stringify(snapshot));
+    return snapshot;
+  } catch {
+    return null; // Not a repository or git unavailable - nothing to journal
+  }
+}
+
+// Snapshot again and record what changed since beginOperation
+export async function finishOperation(before: Snapshot): Promise<JournalEntry | null> {
+  try {
+    const entry = diffSnapshots(before, await takeSnapshot(before.command));
+    if (entry) {
+      appendJournalEntry(entry);
+    }
+    return entry;
+  } catch {
+    return null;
+  } finally {
+    fs.rmSync(getPendingPath(), { force: true });
+  }
+}
+
+// Record an operation whose process exited before finishOperation ran
+export async function finishPendingOperation(): Promise<void> {
+  const pendingPath = getPendingPath();
+  if (!fs.existsSync(pendingPath)) {
+    return;
+  }
+  let snapshot: Snapshot;
+  try {
+    snapshot = JSON.parse(fs.readFileSync(pendingPath, 'utf8'));
+  } catch {
+    fs.rmSync(pendingPath, { force: true });
+    return;
+  }
+  await finishOperation(snapshot);
+}
+
+// Entries that can still be undone, most recent first
+export async function getUndoableEntries(): Promise<JournalEntry[]> {
+  await finishPendingOperation();
+  return loadJournal().filter((entry) => !entry.undoneAt).reverse();
+}
+
+async function resolveRef(ref: string): Promise<string | null> {
+  const result = await runGit(['rev-parse', '--verify', '--quiet', ref]);
+  return result.success ? result.stdout.trim() : null;
+}
+
+async function setRef(ref: string, target: string | null, expected: string | null, force: boolean): Promise<void> {
+  const guard = force ? [] : [expected ?? ''];
+  if (target) {
+    await runGitOrThrow(['update-ref', '-m', 'kunj undo', ref, target, ...guard]);
+  } else {
+    await runGitOrThrow(['update-ref', '-d', ref, ...guard]);
+  }
+}
+
+// Restore refs, HEAD, stashes and branch metadata to their state before the entry's operation
+export async function undoEntry(entry: JournalEntry, options: UndoOptions = {}): Promise<UndoResult> {
+  const force = !!options.force;
+  const warnings: string[] = [];
+  const current = (await takeSnapshot('')).head;
+
+  // Refuse when something moved since the operation (e.g. new commits on a restored branch)
+  const stale: string[] = [];
+  for (const change of entry.refs) {
+    if ((await resolveRef(change.ref)) !== change.after) {
+      stale.push(change.ref.replace(/^refs\/heads\//, ''));
+    }
+  }
+  if (current.branch !== entry.head.after.branch) {
+    stale.push(`HEAD (now ${current.branch || 'detached'}, was ${entry.head.after.branch || 'detached'})`);
+  }
+  if (stale.length > 0 && !force) {
+    throw new Error(`Changed since '${entry.command}': ${stale.join(', ')}. Use --force to undo anyway.`);
+  }
+
+  // Branches checked out in other worktrees would end up out of sync with their files
+  const gitRoot = await getGitRoot();
+  const elsewhere = new Set(
+    (await listWorktrees().catch(() => []))
+      .filter((wt) => wt.branch && path.resolve(wt.path) !== path.resolve(gitRoot))
+      .map((wt) => `refs/heads/${wt.branch}`)
+  );
+  const blocked = entry.refs.filter((change) => elsewhere.has(change.ref));
+  if (blocked.length > 0 && !force) {
+    throw new Error(
+      `Checked out in another worktree: ${blocked.map((c) => c.ref.replace(/^refs\/heads\//, '')).join(', ')}`
+    );
+  }
+
+  const headMoves = current.branch !== entry.head.before.branch ||
+    (!entry.head.before.branch && current.sha !== entry.head.before.sha);
+
+  // Keep uncommitted work safe before checking out another branch or re-applying stashes
+  let savedStash: string | undefined;
+  if ((headMoves || entry.stashes.added.length > 0) &&
+      (await runGitOrThrow(['status', '--porcelain'])).stdout.trim()) {
+    savedStash = `kunj-undo-${entry.id}`;
+    await runGitOrThrow(['stash', 'push', '--include-untracked', '-m', savedStash]);
+  }
+
+  // Move every ref except the checked-out branch, then restore HEAD
+  const currentRef = current.branch ? `refs/heads/${current.branch}` : null;
+  for (const change of entry.refs.filter((c) => c.ref !== currentRef)) {
+    await setRef(change.ref, change.before, change.after, force);
+  }
+
+  if (headMoves) {
+    if (entry.head.before.branch) {
+      await runGitOrThrow(['switch', entry.head.before.branch]);
+    } else if (entry.head.before.sha) {
+      await runGitOrThrow(['switch', '--detach', entry.head.before.sha]);
+    }
+  }
+
+  const currentChange = entry.refs.find((c) => c.ref === currentRef);
+  if (currentChange) {
+    if (headMoves) {
+      await setRef(currentChange.ref, currentChange.before, currentChange.after, force);
+    } else if (currentChange.before) {
+      // Same branch still checked out (commit, amend): keep the undone changes staged
+      await runGitOrThrow(['reset', '--soft', currentChange.before]);
+    }
+  }
+
+  // Stashes the operation created go back into the working tree
+  for (const stash of entry.stashes.added) {
+    const list = parseStashList((await runGitOrThrow(['stash', 'list', '--format=%H %gs'])).stdout);
+    const index = list.findIndex((s) => s.sha === stash.sha);
+    if (index === -1) {
+      warnings.push(`Stash '${stash.message}' no longer exists`);
+      continue;
+    }
+    const result = await runGit(['stash', 'pop', `stash@{${index}}`]);
+    if (!result.success) {
+      warnings.push(`Could not re-apply '${stash.message}' cleanly; it is still in the stash list`);
+    }
+  }
+
+  // Stashes the operation popped or dropped are stored again, oldest first so the order is kept
+  for (const stash of [...entry.stashes.removed].reverse()) {
+    const result = await runGit(['stash', 'store', '-m', stash.message, stash.sha]);
+    if (!result.success) {
+      warnings.push(`Could not restore stash '${stash.message}' (${stash.sha.substring(0, 7)})`);
+    }
+  }
+
+  if (entry.metadata.length > 0) {
+    const metadata = loadBranchMetadata();
+    for (const change of entry.metadata) {
+      if (change.before) {
+        metadata.branches[change.branch] = change.before;
+      } else {
+        delete metadata.branches[change.branch];
+      }
+    }
+    saveBranchMetadata(metadata);
+  }
+
+  const entries = loadJournal();
+  const stored = entries.find((e) => e.id === entry.id && e.timestamp === entry.timestamp);
+  if (stored) {
+    stored.undoneAt = new Date().toISOString();
+    saveJournal(entries);
+  }
+
+  return { entry, warnings, savedStash };
+}
+
+// One line per change, for history and undo output
+export function describeEntry(entry: JournalEntry): string[] {
+  const short = (sha: string | null) => (sha ? sha.substring(0, 7) : '(none)');
+  const lines: string[] = [];
+
+  if (entry.head.before.branch !== entry.head.after.branch) {
+    lines.push(`HEAD: ${entry.head.before.branch || short(entry.head.before.sha)} → ${entry.head.after.branch || short(entry.head.after.sha)}`);
+  }
+  for (const change of entry.refs) {
+    const name = change.ref.replace(/^refs\/(heads|tags)\//, (_m, kind) => (kind === 'tags' ? 'tag ' : ''));
+    if (!change.before) {
+      lines.push(`${name}: created at ${short(change.after)}`);
+    } else if (!change.after) {
+      lines.push(`${name}: deleted (was ${short(change.before)})`);
+    } else {
+      lines.push(`${name}: ${short(change.before)} → ${short(change.after)}`);
+    }
+  }
+  for (const stash of entry.stashes.added) {
+    lines.push(`stash added: ${stash.message}`);
+  }
+  for (const stash of entry.stashes.removed) {
+    lines.push(`stash removed: ${stash.message}`);
+  }
+  if (entry.metadata.length > 0) {
+    lines.push(`metadata: ${entry.metadata.map((m) => m.branch).join(', ')}`);
+  }
+  return lines;
+}
@@ -0,0 +1,261 @@
+// Metadata sync - share branch metadata through refs/kunj/metadata with a field-level three-way merge
+
+import { BranchMetadata } from '../types';
+import { loadBranchMetadata, saveBranchMetadata } from './metadata';
+import { runGit, runGitOrThrow } from './runner';
+
+export const METADATA_REF = 'refs/kunj/metadata';
+const METADATA_FILE = 'branches.json';
+
+// Fields that describe the branch itself; stashes, worktree paths and the like stay on this machine
+export const SHARED_FIELDS: Array<keyof BranchMetadata> = [
+  'description',
+  'tags',
+  'notes',
+  'relatedIssues',
+  'prUrl',
+  'stackParent',
+  'flowType',
+  'flowBase',
+  'flowStatus',
+  'flowCreated',
+  'jiraIssueKey',
+  'jiraIssueTitle',
+  'jiraIssueStatus',
+  'jiraIssueType',
+];
+
+export type SharedMetadata = Record<string, Partial<BranchMetadata>>;
+
+export interface MetadataConflict {
+  branch: string;
+  field: string;
+  ours: unknown;
+  theirs: unknown;
+}
+
+export interface MetadataMergeResult {
+  merged: SharedMetadata;
+  conflicts: MetadataConflict[];
+}
+
+export interface MetadataSyncResult {
+  remote: string;
+  pulled: boolean; // The remote had metadata to merge
+  pushed: boolean;
+  changedBranches: string[]; // Local branches whose metadata changed
+  conflicts: MetadataConflict[];
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export function getTrackingRef(remote: string): string {
+  return `refs/kunj/remotes/${remote}/metadata`;
+}
+
+function setField<K extends keyof BranchMetadata>(target: Partial<BranchMetadata>, key: K, value: BranchMetadata[K]): void {
+  target[key] = value;
+}
+
+// Shared fields of every branch that has any
+export function pickSharedMetadata(branches: Record<string, BranchMetadata>): SharedMetadata {
+  const shared: SharedMetadata = {};
+  for (const [branch, data] of Object.entries(branches)) {
+    const fields: Partial<BranchMetadata> = {};
+    for (const field of SHARED_FIELDS) {
+      if (data[field] !== undefined) {
+        setField(fields, field, data[field]);
+      }
+    }
+    if (Object.keys(fields).length > 0) {
+      shared[branch] = fields;
+    }
+  }
+  return shared;
+}
+
+function mergeField<K extends keyof BranchMetadata>(
+  branch: string,
+  field: K,
+  base: BranchMetadata[K],
+  ours: BranchMetadata[K],
+  theirs: BranchMetadata[K],
+  prefer: 'ours' | 'theirs',
+  conflicts: MetadataConflict[]
+): BranchMetadata[K] {
+  if (same(ours, theirs) || same(theirs, base)) {
+    return ours;
+  }
+  if (same(ours, base)) {
+    return theirs;
+  }
+
+  // Both sides changed the field
+  if (Array.isArray(ours) || Array.isArray(theirs)) {
+    const baseItems: unknown[] = Array.isArray(base) ? base : [];
+    const ourItems: unknown[] = Array.isArray(ours) ? ours : [];
+    const theirItems: unknown[] = Array.isArray(theirs) ? theirs : [];
+    const removed = (item: unknown) =>
+      baseItems.some((b) => same(b, item)) &&
+      (!ourItems.some((o) => same(o, item)) || !theirItems.some((t) => same(t, item)));
+    const union: unknown[] = [];
+    for (const item of [...ourItems, ...theirItems]) {
+      if (!removed(item) && !union.some((u) => same(u, item))) {
+        union.push(item);
+      }
+    }
+    return (union.length > 0 ? union : undefined) as BranchMetadata[K];
+  }
+  if (field === 'notes' && ours && theirs) {
+    return `${ours}\n\n${theirs}` as BranchMetadata[K];
+  }
+
+  conflicts.push({ branch, field, ours, theirs });
+  return prefer === 'theirs' ? theirs : ours;
+}
+
+// Three-way merge per branch and field against the last synced state
+export function mergeMetadata(
+  base: SharedMetadata,
+  ours: SharedMetadata,
+  theirs: SharedMetadata,
+  prefer: 'ours' | 'theirs' = 'ours'
+): MetadataMergeResult {
+  const merged: SharedMetadata = {};
+  const conflicts: MetadataConflict[] = [];
+
+  for (const branch of new Set([...Object.keys(base), ...Object.keys(ours), ...Object.keys(theirs)])) {
+    const b = base[branch] || {};
+    const o = ours[branch] || {};
+    const t = theirs[branch] || {};
+    const result: Partial<BranchMetadata> = {};
+
+    for (const field of SHARED_FIELDS) {
+      const value = mergeField(branch, field, b[field], o[field], t[field], prefer, conflicts);
+      if (value !== undefined) {
+        setField(result, field, value);
+      }
+    }
+    if (Object.keys(result).length > 0) {
+      merged[branch] = result;
+    }
+  }
+
+  return { merged, conflicts };
+}
+
+// Read the shared metadata stored in a metadata commit ({} when the ref does not exist)
+export async function readMetadataRef(ref: string): Promise<SharedMetadata> {
+  const result = await runGit(['show', `${ref}:${METADATA_FILE}`]);
+  if (!result.success) {
+    return {};
+  }
+  try {
+    return JSON.parse(result.stdout);
+  } catch {
+    return {};
+  }
+}
+
+async function resolveRef(ref: string): Promise<string | null> {
+  const result = await runGit(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+  return result.success ? result.stdout.trim() : null;
+}
+
+// Record shared metadata as a new commit on refs/kunj/metadata (no-op when nothing changed)
+export async function writeMetadataRef(shared: SharedMetadata, parents: string[], message: string): Promise<string> {
+  const sorted = Object.fromEntries(Object.keys(shared).sort().map((branch) => [branch, shared[branch]]));
+  const blob = (await runGitOrThrow(['hash-object', '-w', '--stdin'], { input: JSON.stringify(sorted, null, 2) + '\n' })).stdout.trim();
+  const tree = (await runGitOrThrow(['mktree'], { input: `100644 blob ${blob}\t${METADATA_FILE}\n` })).stdout.trim();
+
+  const current = await resolveRef(METADATA_REF);
+  if (current && parents.length <= 1) {
+    const currentTree = (await runGitOrThrow(['rev-parse', `${current}^{tree}`])).stdout.trim();
+    if (currentTree === tree) {
+      return current;
+    }
+  }
+
+  const parentArgs = [...new Set(parents)].flatMap((parent) => ['-p', parent]);
+  const commit = (await runGitOrThrow(['commit-tree', tree, ...parentArgs, '-m', message])).stdout.trim();
+  await runGitOrThrow(['update-ref', METADATA_REF, commit]);
+  return commit;
+}
+
+// Replace the shared fields in branches.json, keeping machine-local fields as they are
+export function applySharedMetadata(shared: SharedMetadata): string[] {
+  const metadata = loadBranchMetadata();
+  const changed: string[] = [];
+
+  for (const branch of new Set([...Object.keys(metadata.branches), ...Object.keys(shared)])) {
+    const current = metadata.branches[branch] || {};
+    const next: BranchMetadata = { ...current };
+    for (const field of SHARED_FIELDS) {
+      delete next[field];
+    }
+    Object.assign(next, shared[branch] || {});
+
+    if (!same(current, next)) {
+      changed.push(branch);
+    }
+    if (Object.keys(next).length > 0) {
+      metadata.branches[branch] = next;
+    } else {
+      delete metadata.branches[branch];
+    }
+  }
+
+  if (changed.length > 0) {
+    saveBranchMetadata(metadata);
+  }
+  return changed;
+}
+
+// Fetch the remote's metadata and merge it into branches.json
+export async function pullMetadata(remote: string, prefer: 'ours' | 'theirs' = 'ours'): Promise<MetadataSyncResult> {
+  const trackingRef = getTrackingRef(remote);
+  const fetch = await runGit(['fetch', '--no-tags', remote, `+${METADATA_REF}:${trackingRef}`]);
+  const result: MetadataSyncResult = { remote, pulled: false, pushed: false, changedBranches: [], conflicts: [] };
+
+  if (!fetch.success) {
+    if (/couldn't find remote ref/i.test(fetch.stderr)) {
+      return result; // Nothing shared on this remote yet
+    }
+    throw new Error(`Failed to fetch metadata from ${remote}: ${fetch.stderr.trim()}`);
+  }
+
+  const theirsCommit = (await resolveRef(trackingRef)) as string;
+  const localCommit = await resolveRef(METADATA_REF);
+  // Diff both sides against the last state they shared, not against the local ref itself
+  const mergeBase = localCommit ? await runGit(['merge-base', localCommit, theirsCommit]) : null;
+  const base = mergeBase?.success ? await readMetadataRef(mergeBase.stdout.trim()) : {};
+  const ours = pickSharedMetadata(loadBranchMetadata().branches);
+  const theirs = await readMetadataRef(trackingRef);
+
+  const { merged, conflicts } = mergeMetadata(base, ours, theirs, prefer);
+  result.pulled = true;
+  result.conflicts = conflicts;
+  result.changedBranches = applySharedMetadata(merged);
+
+  const alreadyMerged = localCommit && (await runGit(['merge-base', '--is-ancestor', theirsCommit, localCommit])).success;
+  const parents = alreadyMerged ? [localCommit as string] : [localCommit, theirsCommit].filter(Boolean) as string[];
+  await writeMetadataRef(merged, parents, `kunj: merge metadata from ${remote}`);
+  return result;
+}
+
+// Merge in the remote's metadata, record the local state and publish it
+export async function pushMetadata(remote: string, prefer: 'ours' | 'theirs' = 'ours'): Promise<MetadataSyncResult> {
+  const result = await pullMetadata(remote, prefer);
+
+  const current = await resolveRef(METADATA_REF);
+  const shared = pickSharedMetadata(loadBranchMetadata().branches);
+  await writeMetadataRef(shared, current ? [current] : [], 'kunj: update branch metadata');
+
+  const push = await runGit(['push', remote, `${METADATA_REF}:${METADATA_REF}`]);
+  if (!push.success) {
+    throw new Error(`Failed to push metadata to ${remote}: ${push.stderr.trim()}`);
+  }
+  await runGitOrThrow(['update-ref', getTrackingRef(remote), METADATA_REF]);
+  result.pushed = true;
+  return result;
+}
@@ -0,0 +1,220 @@
+// Patches - hand work to someone else as a patch file plus a sidecar carrying the branch metadata
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BranchMetadata } from '../types';
+import { snapshotWorkingTree } from './checkpoint';
+import { branchExists, getCurrentBranch, getMainBranch, hasUncommittedChanges } from './git';
+import { getBranchMetadataItem, updateBranchMetadata } from './metadata';
+import { SHARED_FIELDS } from './metadata-sync';
+import { runGit, runGitOrThrow } from './runner';
+import { listStashEntries } from './stash';
+
+export type PatchKind = 'commits' | 'stash' | 'working';
+
+// Contents of the .kunj.json file written next to the patch
+export interface PatchSidecar {
+  version: 1;
+  kind: PatchKind;
+  branch: string;
+  base: string; // Commit the patch applies to
+  range?: string;
+  createdAt: string;
+  metadata: Partial<BranchMetadata>;
+}
+
+export interface PatchExportOptions {
+  range?: string;
+  stash?: number;
+  working?: boolean;
+  output?: string;
+}
+
+export interface PatchExportResult {
+  file: string;
+  sidecarFile: string;
+  sidecar: PatchSidecar;
+  patch: string;
+}
+
+export interface PatchApplyResult {
+  branch: string;
+  base: string;
+  status: 'applied' | 'conflict';
+  conflictedFiles: string[];
+  metadata: Partial<BranchMetadata>;
+  message?: string;
+}
+
+// A PR link or stack parent belongs to the original branch, not to the copy made from the patch
+const PATCH_FIELDS = SHARED_FIELDS.filter((field) => field !== 'prUrl' && field !== 'stackParent');
+
+export function getSidecarPath(patchFile: string): string {
+  return patchFile.replace(/\.(patch|diff)$/, '') + '.kunj.json';
+}
+
+function pickPatchMetadata(branch: string): Partial<BranchMetadata> {
+  const item = getBranchMetadataItem(branch);
+  const picked: Record<string, unknown> = {};
+  for (const field of PATCH_FIELDS) {
+    if (item[field] !== undefined) {
+      picked[field] = item[field];
+    }
+  }
+  return picked as Partial<BranchMetadata>;
+}
+
+// Build the patch text and describe where it came from; nothing is written
+export async function createPatch(options: PatchExportOptions = {}): Promise<{ patch: string; sidecar: PatchSidecar }> {
+  const modes = [options.range !== undefined, options.stash !== undefined, !!options.working].filter(Boolean);
+  if (modes.length > 1) {
+    throw new Error('Pass only one of a range, --stash or --working');
+  }
+
+  let kind: PatchKind;
+  let branch = await getCurrentBranch();
+  let base: string;
+  let patch: string;
+  let range: string | undefined;
+
+  if (options.stash !== undefined) {
+    const entry = (await listStashEntries())[options.stash];
+    if (!entry) {
+      throw new Error(`No stash at index ${options.stash}`);
+    }
+    kind = 'stash';
+    branch = entry.message.match(/^(?:WIP on|On) ([^:]+):/)?.[1] ?? branch;
+    base = (await runGitOrThrow(['rev-parse', `${entry.sha}^1`])).stdout.trim();
+    patch = (await runGitOrThrow(['stash', 'show', '-p', '--binary', '--include-untracked', '--no-color', entry.sha])).stdout;
+  } else if (options.working) {
+    kind = 'working';
+    base = (await runGitOrThrow(['rev-parse', 'HEAD'])).stdout.trim();
+    const tree = await snapshotWorkingTree();
+    patch = (await runGitOrThrow(['diff', '--binary', '--no-color', base, tree])).stdout;
+  } else {
+    kind = 'commits';
+    if (options.range) {
+      // Like format-patch, a single revision means everything since it
+      range = options.range.includes('..') ? options.range : `${options.range}..HEAD`;
+    } else {
+      const mergeBase = await runGitOrThrow(['merge-base', await getMainBranch(), 'HEAD']);
+      range = `${mergeBase.stdout.trim()}..HEAD`;
+    }
+    base = (await runGitOrThrow(['rev-parse', `${range.split('..')[0] || 'HEAD'}^{commit}`])).stdout.trim();
+    patch = (await runGitOrThrow(['format-patch', '--stdout', '--binary', '--no-color', range])).stdout;
+  }
+
+  if (!patch.trim()) {
+    throw new Error(kind === 'commits' ? `No commits in ${range}; use --working to export uncommitted changes` : 'Nothing to export');
+  }
+
+  return {
+    patch,
+    sidecar: { version: 1, kind, branch, base, range, createdAt: new Date().toISOString(), metadata: pickPatchMetadata(branch) },
+  };
+}
+
+// Write <name>.patch and <name>.kunj.json; the name defaults to the branch
+export async function exportPatch(options: PatchExportOptions = {}): Promise<PatchExportResult> {
+  const { patch, sidecar } = await createPatch(options);
+  const file = path.resolve(options.output || `${(sidecar.branch || 'detached').replace(/\//g, '-')}.patch`);
+  const sidecarFile = getSidecarPath(file);
+
+  fs.writeFileSync(file, patch);
+  fs.writeFileSync(sidecarFile, JSON.stringify(sidecar, null, 2) + '\n');
+  return { file, sidecarFile, sidecar, patch };
+}
+
+// Read a patch and its sidecar; patches without one are still accepted
+export function readPatch(file: string): { patch: string; sidecar: PatchSidecar | null } {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Patch file not found: ${file}`);
+  }
+  const patch = fs.readFileSync(file, 'utf8');
+  const sidecarFile = getSidecarPath(file);
+  if (!fs.existsSync(sidecarFile)) {
+    return { patch, sidecar: null };
+  }
+  try {
+    return { patch, sidecar: JSON.parse(fs.readFileSync(sidecarFile, 'utf8')) };
+  } catch {
+    throw new Error(`Could not parse ${sidecarFile}`);
+  }
+}
+
+// Plain diff text of a patch, without the mail headers format-patch adds around each commit
+export function patchDiff(patch: string): string {
+  const lines: string[] = [];
+  let inDiff = false;
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('diff --git')) {
+      inDiff = true;
+    } else if (line === '-- ' || line.startsWith('From ')) {
+      inDiff = false;
+    }
+    if (inDiff) {
+      lines.push(line);
+    }
+  }
+  return lines.join('\n');
+}
+
+async function getConflictedFiles(): Promise<string[]> {
+  const { stdout } = await runGit(['diff', '--name-only', '--diff-filter=U']);
+  return stdout.split('\n').filter((f) => f.trim());
+}
+
+// Create a branch at the patch's base (or the current commit), apply the patch there with a
+// three-way fallback and copy the sender's branch metadata onto it
+export async function applyPatch(file: string, options: { branch?: string; base?: string } = {}): Promise<PatchApplyResult> {
+  const { patch, sidecar } = readPatch(file);
+  if (await hasUncommittedChanges()) {
+    throw new Error('Commit or stash your changes before applying a patch');
+  }
+
+  const branch = options.branch || sidecar?.branch || path.basename(file).replace(/\.(patch|diff)$/, '');
+  if (await branchExists(branch)) {
+    throw new Error(`Branch '${branch}' already exists; pass --branch to pick another name`);
+  }
+  const check = await runGit(['check-ref-format', '--branch', branch]);
+  if (!check.success) {
+    throw new Error(`Invalid branch name '${branch}'`);
+  }
+
+  // The sender's base may not exist here; the three-way fallback covers the difference
+  let base = options.base || 'HEAD';
+  if (!options.base && sidecar?.base && (await runGit(['cat-file', '-e', `${sidecar.base}^{commit}`])).success) {
+    base = sidecar.base;
+  }
+  base = (await runGitOrThrow(['rev-parse', '--verify', `${base}^{commit}`])).stdout.trim();
+
+  await runGitOrThrow(['switch', '-c', branch, base]);
+  const metadata = sidecar?.metadata ?? {};
+  const result: PatchApplyResult = { branch, base, status: 'applied', conflictedFiles: [], metadata };
+  const absolute = path.resolve(file);
+  const isMailbox = sidecar ? sidecar.kind === 'commits' : patch.startsWith('From ');
+
+  const applied = isMailbox
+    ? await runGit(['am', '--3way', absolute])
+    : await runGit(['apply', '--3way', absolute]);
+
+  if (!applied.success) {
+    result.conflictedFiles = await getConflictedFiles();
+    if (!isMailbox && result.conflictedFiles.length === 0) {
+      // Nothing was applied; leave no empty branch behind
+      await runGit(['switch', '-']);
+      await runGit(['branch', '-D', branch]);
+      throw new Error(`Patch does not apply: ${applied.stderr.trim()}`);
+    }
+    result.status = 'conflict';
+    result.message = applied.stderr.trim() || applied.stdout.trim();
+  } else if (!isMailbox) {
+    // Hand uncommitted work back as uncommitted work
+    await runGitOrThrow(['reset', '-q']);
+  }
+
+  if (Object.keys(metadata).length > 0) {
+    updateBranchMetadata(branch, metadata);
+  }
+  return result;
+}
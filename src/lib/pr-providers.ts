@@ -1,14 +1,27 @@
 // Pull Request Provider abstraction for Git Flow
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runTool, runToolOrThrow } from './runner';
 
-const execAsync = promisify(exec);
+// Inline review comment anchored to a line in the new version of a file
+export interface PRReviewComment {
+  path: string;
+  line: number;
+  body: string;
+}
 
 export interface PRProvider {
   name: string;
   createPR(sourceBranch: string, targetBranch: string, title: string, body?: string): Promise<{ success: boolean; prUrl?: string; message: string }>;
   mergePR(sourceBranch: string, targetBranch: string): Promise<{ success: boolean; message: string }>;
+  postReview(sourceBranch: string, body: string, comments: PRReviewComment[]): Promise<{ success: boolean; message: string }>;
+  getPRBody(sourceBranch: string): Promise<string | null>;
+  getPRState(sourceBranch: string): Promise<'open' | 'merged' | 'closed' | null>;
+  updatePRBody(sourceBranch: string, body: string): Promise<{ success: boolean; message: string }>;
+  updatePRBase(sourceBranch: string, targetBranch: string): Promise<{ success: boolean; message: string }>;
+  renameBranch(oldName: string, newName: string): Promise<{ success: boolean; message: string }>;
   checkCLIAvailable(): Promise<boolean>;
 }
 
@@ -17,12 +30,7 @@ export class GitHubProvider implements PRProvider {
   name = 'github';
 
   async checkCLIAvailable(): Promise<boolean> {
-    try {
-      await execAsync('gh --version');
-      return true;
-    } catch {
-      return false;
-    }
+    return (await runTool('gh', ['--version'])).success;
   }
 
   async createPR(sourceBranch: string, targetBranch: string, title: string, body?: string): Promise<{ success: boolean; prUrl?: string; message: string }> {
@@ -37,13 +45,12 @@ export class GitHubProvider implements PRProvider {
       }
 
       // Build command
-      let command = `gh pr create --base ${targetBranch} --head ${sourceBranch} --title "${title}"`;
+      const args = ['pr', 'create', '--base', targetBranch, '--head', sourceBranch, '--title', title];
       if (body) {
-        const escapedBody = body.replace(/"/g, '\\"');
-        command += ` --body "${escapedBody}"`;
+        args.push('--body', body);
       }
 
-      const { stdout, stderr } = await execAsync(command);
+      const { stdout } = await runToolOrThrow('gh', args);
       const prUrl = stdout.trim();
 
       return {
@@ -53,7 +60,7 @@ export class GitHubProvider implements PRProvider {
       };
     } catch (error: any) {
       // Include both stderr and the error message for better debugging
-      const errorMsg = error.stderr || error.message || 'Failed to create GitHub PR';
+      const errorMsg = error.result?.stderr?.trim() || error.message || 'Failed to create GitHub PR';
       return {
         success: false,
         message: errorMsg
@@ -73,7 +80,7 @@ export class GitHubProvider implements PRProvider {
       }
 
       // Find PR for this branch
-      const { stdout: prList } = await execAsync(`gh pr list --head ${sourceBranch} --base ${targetBranch} --json number --jq '.[0].number'`);
+      const { stdout: prList } = await runToolOrThrow('gh', ['pr', 'list', '--head', sourceBranch, '--base', targetBranch, '--json', 'number', '--jq', '.[0].number']);
       const prNumber = prList.trim();
 
       if (!prNumber) {
@@ -84,7 +91,7 @@ export class GitHubProvider implements PRProvider {
       }
 
       // Merge the PR
-      await execAsync(`gh pr merge ${prNumber} --merge --delete-branch`);
+      await runToolOrThrow('gh', ['pr', 'merge', prNumber, '--merge', '--delete-branch']);
 
       return {
         success: true,
@@ -97,6 +104,92 @@ export class GitHubProvider implements PRProvider {
       };
     }
   }
+
+  async postReview(sourceBranch: string, body: string, comments: PRReviewComment[]): Promise<{ success: boolean; message: string }> {
+    let payloadFile: string | undefined;
+    try {
+      // Check if gh CLI is available
+      const available = await this.checkCLIAvailable();
+      if (!available) {
+        return {
+          success: false,
+          message: 'GitHub CLI (gh) is not installed. Install it from https://cli.github.com/'
+        };
+      }
+
+      // Find PR for this branch
+      const { stdout: prList } = await runToolOrThrow('gh', ['pr', 'list', '--head', sourceBranch, '--json', 'number', '--jq', '.[0].number']);
+      const prNumber = prList.trim();
+
+      if (!prNumber) {
+        return {
+          success: false,
+          message: `No open PR found for ${sourceBranch}`
+        };
+      }
+
+      // Post a single review (event COMMENT) with all inline comments
+      const payload = {
+        event: 'COMMENT',
+        body,
+        comments: comments.map(c => ({ path: c.path, line: c.line, side: 'RIGHT', body: c.body })),
+      };
+      payloadFile = path.join(os.tmpdir(), `kunj-review-${process.pid}-${Date.now()}.json`);
+      fs.writeFileSync(payloadFile, JSON.stringify(payload));
+
+      await runToolOrThrow('gh', ['api', `repos/{owner}/{repo}/pulls/${prNumber}/reviews`, '--method', 'POST', '--input', payloadFile]);
+
+      return {
+        success: true,
+        message: `Posted review on PR #${prNumber} (${comments.length} inline comment${comments.length === 1 ? '' : 's'})`
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        message: error.result?.stderr?.trim() || error.message || 'Failed to post GitHub review'
+      };
+    } finally {
+      if (payloadFile && fs.existsSync(payloadFile)) {
+        fs.unlinkSync(payloadFile);
+      }
+    }
+  }
+
+  async getPRBody(sourceBranch: string): Promise<string | null> {
+    const result = await runTool('gh', ['pr', 'view', sourceBranch, '--json', 'body', '--jq', '.body']);
+    return result.success ? result.stdout.replace(/\n$/, '') : null;
+  }
+
+  async getPRState(sourceBranch: string): Promise<'open' | 'merged' | 'closed' | null> {
+    const result = await runTool('gh', ['pr', 'view', sourceBranch, '--json', 'state', '--jq', '.state']);
+    const state = result.stdout.trim().toLowerCase();
+    return result.success && ['open', 'merged', 'closed'].includes(state) ? (state as 'open' | 'merged' | 'closed') : null;
+  }
+
+  async updatePRBody(sourceBranch: string, body: string): Promise<{ success: boolean; message: string }> {
+    const result = await runTool('gh', ['pr', 'edit', sourceBranch, '--body', body]);
+    return {
+      success: result.success,
+      message: result.success ? `Updated PR for ${sourceBranch}` : result.stderr.trim() || 'Failed to update GitHub PR'
+    };
+  }
+
+  async updatePRBase(sourceBranch: string, targetBranch: string): Promise<{ success: boolean; message: string }> {
+    const result = await runTool('gh', ['pr', 'edit', sourceBranch, '--base', targetBranch]);
+    return {
+      success: result.success,
+      message: result.success ? `Retargeted PR for ${sourceBranch} to ${targetBranch}` : result.stderr.trim() || 'Failed to update GitHub PR'
+    };
+  }
+
+  // GitHub renames the branch server-side and retargets open PRs to the new head
+  async renameBranch(oldName: string, newName: string): Promise<{ success: boolean; message: string }> {
+    const result = await runTool('gh', ['api', '--method', 'POST', `repos/{owner}/{repo}/branches/${oldName}/rename`, '-f', `new_name=${newName}`]);
+    return {
+      success: result.success,
+      message: result.success ? `Renamed ${oldName} to ${newName} on GitHub` : result.stderr.trim() || 'Failed to rename GitHub branch'
+    };
+  }
 }
 
 // GitLab PR Provider using glab CLI
@@ -104,12 +197,7 @@ export class GitLabProvider implements PRProvider {
   name = 'gitlab';
 
   async checkCLIAvailable(): Promise<boolean> {
-    try {
-      await execAsync('glab --version');
-      return true;
-    } catch {
-      return false;
-    }
+    return (await runTool('glab', ['--version'])).success;
   }
 
   async createPR(sourceBranch: string, targetBranch: string, title: string, body?: string): Promise<{ success: boolean; prUrl?: string; message: string }> {
@@ -124,13 +212,12 @@ export class GitLabProvider implements PRProvider {
       }
 
       // Build command
-      let command = `glab mr create --source-branch ${sourceBranch} --target-branch ${targetBranch} --title "${title}"`;
+      const args = ['mr', 'create', '--source-branch', sourceBranch, '--target-branch', targetBranch, '--title', title];
       if (body) {
-        const escapedBody = body.replace(/"/g, '\\"');
-        command += ` --description "${escapedBody}"`;
+        args.push('--description', body);
       }
 
-      const { stdout, stderr } = await execAsync(command);
+      const { stdout } = await runToolOrThrow('glab', args);
       const mrUrl = stdout.trim().split('\n').find(line => line.includes('https://')) || stdout.trim();
 
       return {
@@ -140,7 +227,7 @@ export class GitLabProvider implements PRProvider {
       };
     } catch (error: any) {
       // Include both stderr and the error message for better debugging
-      const errorMsg = error.stderr || error.message || 'Failed to create GitLab MR';
+      const errorMsg = error.result?.stderr?.trim() || error.message || 'Failed to create GitLab MR';
       return {
         success: false,
         message: errorMsg
@@ -160,7 +247,7 @@ export class GitLabProvider implements PRProvider {
       }
 
       // Find MR for this branch
-      const { stdout: mrList } = await execAsync(`glab mr list --source-branch ${sourceBranch} --target-branch ${targetBranch}`);
+      const { stdout: mrList } = await runToolOrThrow('glab', ['mr', 'list', '--source-branch', sourceBranch, '--target-branch', targetBranch]);
 
       // Parse MR number from output (format: !123)
       const mrMatch = mrList.match(/!(\d+)/);
@@ -174,7 +261,7 @@ export class GitLabProvider implements PRProvider {
       const mrNumber = mrMatch[1];
 
       // Merge the MR
-      await execAsync(`glab mr merge ${mrNumber} --yes`);
+      await runToolOrThrow('glab', ['mr', 'merge', mrNumber, '--yes']);
 
       return {
         success: true,
@@ -187,6 +274,94 @@ export class GitLabProvider implements PRProvider {
       };
     }
   }
+
+  async postReview(sourceBranch: string, body: string, comments: PRReviewComment[]): Promise<{ success: boolean; message: string }> {
+    try {
+      // Check if glab CLI is available
+      const available = await this.checkCLIAvailable();
+      if (!available) {
+        return {
+          success: false,
+          message: 'GitLab CLI (glab) is not installed. Install it from https://gitlab.com/gitlab-org/cli'
+        };
+      }
+
+      // Find MR for this branch
+      const { stdout: mrList } = await runToolOrThrow('glab', ['mr', 'list', '--source-branch', sourceBranch]);
+      const mrMatch = mrList.match(/!(\d+)/);
+      if (!mrMatch) {
+        return {
+          success: false,
+          message: `No open MR found for ${sourceBranch}`
+        };
+      }
+
+      const mrNumber = mrMatch[1];
+
+      // glab has no inline review API — post one note listing each finding by file:line
+      const lines = comments.map(c => `- \`${c.path}:${c.line}\` ${c.body.replace(/\n+/g, ' ')}`);
+      const note = lines.length > 0 ? `${body}\n\n${lines.join('\n')}` : body;
+      await runToolOrThrow('glab', ['mr', 'note', mrNumber, '--message', note]);
+
+      return {
+        success: true,
+        message: `Posted review note on MR !${mrNumber} (${comments.length} finding${comments.length === 1 ? '' : 's'})`
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        message: error.result?.stderr?.trim() || error.message || 'Failed to post GitLab review'
+      };
+    }
+  }
+
+  async getPRBody(sourceBranch: string): Promise<string | null> {
+    const result = await runTool('glab', ['mr', 'view', sourceBranch, '--output', 'json']);
+    if (!result.success) {
+      return null;
+    }
+    try {
+      return JSON.parse(result.stdout).description || '';
+    } catch {
+      return null;
+    }
+  }
+
+  async getPRState(sourceBranch: string): Promise<'open' | 'merged' | 'closed' | null> {
+    const result = await runTool('glab', ['mr', 'view', sourceBranch, '--output', 'json']);
+    if (!result.success) {
+      return null;
+    }
+    try {
+      const state = JSON.parse(result.stdout).state;
+      return state === 'opened' ? 'open' : state === 'merged' || state === 'closed' ? state : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async updatePRBody(sourceBranch: string, body: string): Promise<{ success: boolean; message: string }> {
+    const result = await runTool('glab', ['mr', 'update', sourceBranch, '--description', body]);
+    return {
+      success: result.success,
+      message: result.success ? `Updated MR for ${sourceBranch}` : result.stderr.trim() || 'Failed to update GitLab MR'
+    };
+  }
+
+  async updatePRBase(sourceBranch: string, targetBranch: string): Promise<{ success: boolean; message: string }> {
+    const result = await runTool('glab', ['mr', 'update', sourceBranch, '--target-branch', targetBranch]);
+    return {
+      success: result.success,
+      message: result.success ? `Retargeted MR for ${sourceBranch} to ${targetBranch}` : result.stderr.trim() || 'Failed to update GitLab MR'
+    };
+  }
+
+  async renameBranch(oldName: string, newName: string): Promise<{ success: boolean; message: string }> {
+    return {
+      success: false,
+      message: `GitLab cannot change the source branch of an open MR; push ${newName} and open a new MR, then close the one for ${oldName}`
+    };
+  }
 }
 
 // Factory function to get the appropriate provider
@@ -0,0 +1,178 @@
+// Secret and PII redaction applied to every prompt before it leaves the machine
+
+import { loadConfig } from "./config";
+
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp;
+  /** Capture group holding the secret; the rest of the match (e.g. "password=") is kept */
+  group?: number;
+}
+
+export interface RedactionMatch {
+  rule: string;
+  placeholder: string;
+  /** 1-based line in the original text */
+  line: number;
+  /** First characters of the secret followed by asterisks — never the full value */
+  masked: string;
+}
+
+export interface RedactionResult {
+  text: string;
+  matches: RedactionMatch[];
+}
+
+// Built-in detectors, ordered most specific first so a private key block is
+// not partially claimed by the generic rules
+export const BUILTIN_REDACTION_RULES: RedactionRule[] = [
+  {
+    name: "private-key",
+    pattern: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY-----/g,
+  },
+  {
+    name: "aws-access-key",
+    pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA|ANVA|AIPA)[A-Z0-9]{16}\b/g,
+  },
+  {
+    name: "aws-secret-key",
+    pattern: /((?:aws_?secret_?access_?key|aws_?secret_?key|secret_?access_?key)["']?\s*[:=]\s*["']?)([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    group: 2,
+  },
+  {
+    name: "github-token",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  },
+  {
+    name: "slack-token",
+    pattern: /\b(?:xox[abposr]|xapp)-[A-Za-z0-9-]{10,}\b/g,
+  },
+  {
+    name: "api-key",
+    pattern: /\b(?:sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}|AIza[A-Za-z0-9_-]{35})\b/g,
+  },
+  {
+    name: "jwt",
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\b/g,
+  },
+  {
+    name: "bearer-token",
+    pattern: /(\bBearer\s+)([A-Za-z0-9._~+/-]{20,}=*)/g,
+    group: 2,
+  },
+  {
+    name: "secret-assignment",
+    pattern: /((?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|client[_-]?secret)["']?\s*[:=]\s*["'])([^"'\s]{8,})(?=["'])/gi,
+    group: 2,
+  },
+  {
+    name: "email",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g,
+  },
+];
+
+// Build the active rule list from config: built-ins minus ai.redaction.disabledRules,
+// plus ai.redaction.patterns (plain regex strings, or "name=regex")
+export function getRedactionRules(): RedactionRule[] {
+  const config = loadConfig();
+  const disabled = new Set(config.ai?.redaction?.disabledRules || []);
+  const rules = BUILTIN_REDACTION_RULES.filter((rule) => !disabled.has(rule.name));
+
+  (config.ai?.redaction?.patterns || []).forEach((entry, i) => {
+    const named = entry.match(/^([a-z0-9_-]+)=(.+)$/i);
+    const name = named ? named[1] : `custom-${i + 1}`;
+    const source = named ? named[2] : entry;
+    try {
+      rules.push({ name, pattern: new RegExp(source, "g") });
+    } catch {
+      // Invalid user regex — skip it rather than block every AI call
+    }
+  });
+
+  return rules;
+}
+
+function maskValue(value: string): string {
+  const visible = value.length > 12 ? 4 : 0;
+  return `${value.substring(0, visible)}${"*".repeat(Math.min(8, Math.max(4, value.length - visible)))}`;
+}
+
+// Replace every match with a numbered placeholder. The same value always gets the
+// same placeholder, so the model can still tell that two occurrences are equal.
+// Matches are collected against the original text first so that line numbers are
+// exact and a value claimed by an earlier rule is not redacted twice.
+export function redactText(text: string, rules: RedactionRule[] = getRedactionRules()): RedactionResult {
+  const spans: Array<{ start: number; end: number; rule: string; secret: string }> = [];
+
+  for (const rule of rules) {
+    const flags = rule.pattern.flags.includes("d") ? rule.pattern.flags : `${rule.pattern.flags}d`;
+    const regex = new RegExp(rule.pattern.source, flags.includes("g") ? flags : `${flags}g`);
+
+    for (const m of text.matchAll(regex)) {
+      const group = rule.group || 0;
+      const range = m.indices?.[group];
+      if (!range || range[0] === range[1]) continue;
+
+      const [start, end] = range;
+      if (spans.some((s) => start < s.end && end > s.start)) continue;
+      spans.push({ start, end, rule: rule.name, secret: text.substring(start, end) });
+    }
+  }
+
+  spans.sort((a, b) => a.start - b.start);
+
+  const matches: RedactionMatch[] = [];
+  const placeholders = new Map<string, string>();
+  const counters: Record<string, number> = {};
+  let result = "";
+  let cursor = 0;
+
+  for (const span of spans) {
+    const key = `${span.rule}\u0000${span.secret}`;
+    let placeholder = placeholders.get(key);
+    if (!placeholder) {
+      counters[span.rule] = (counters[span.rule] || 0) + 1;
+      placeholder = `[REDACTED:${span.rule}:${counters[span.rule]}]`;
+      placeholders.set(key, placeholder);
+    }
+
+    matches.push({
+      rule: span.rule,
+      placeholder,
+      line: text.substring(0, span.start).split("\n").length,
+      masked: maskValue(span.secret),
+    });
+
+    result += text.substring(cursor, span.start) + placeholder;
+    cursor = span.end;
+  }
+  result += text.substring(cursor);
+
+  return { text: result, matches };
+}
+
+// Redact a prompt according to config (ai.redaction.enabled, default on)
+export function redactPrompt(prompt: string): RedactionResult {
+  if (loadConfig().ai?.redaction?.enabled === false) {
+    return { text: prompt, matches: [] };
+  }
+  return redactText(prompt);
+}
+
+// Count redactions per rule
+export function getRedactionCounts(matches: RedactionMatch[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const match of matches) {
+    counts[match.rule] = (counts[match.rule] || 0) + 1;
+  }
+  return counts;
+}
+
+// One-line audit summary, e.g. "Redacted 3 value(s): aws-access-key ×1, email ×2"
+export function summarizeRedactions(matches: RedactionMatch[]): string {
+  if (matches.length === 0) {
+    return "Nothing redacted";
+  }
+  const parts = Object.entries(getRedactionCounts(matches)).map(([rule, count]) => `${rule} ×${count}`);
+  return `Redacted ${matches.length} value(s): ${parts.join(", ")}`;
+}
@@ -0,0 +1,138 @@
+// Branch rename - move a branch along with its metadata, auto-stashes, remote branch and PR
+
+import { loadBranchMetadata, saveBranchMetadata } from './metadata';
+import { getPushRemote } from './git';
+import { PRProvider } from './pr-providers';
+import { runGit } from './runner';
+import { getAutoStashPrefix, listStashEntries, parseAutoStashMessage, relabelStashes } from './stash';
+
+export interface RemoteRenameResult {
+  renamed: boolean;
+  via: 'pr-provider' | 'push' | null;
+  message: string;
+}
+
+export interface RenameResult {
+  oldName: string;
+  newName: string;
+  metadataMoved: boolean;
+  stashesRewritten: number;
+  stackChildren: string[]; // Branches whose stack parent now points at the new name
+  remote?: RemoteRenameResult;
+}
+
+// Rewrite an auto-stash reflog message ("On <branch>: kunj-auto-stash-<branch>-<ts>") for the new name.
+// Messages of other branches, including ones named <old>-something, are returned unchanged.
+export function renameStashMessage(message: string, oldName: string, newName: string): string {
+  const parsed = parseAutoStashMessage(message);
+  if (parsed?.branch !== oldName) {
+    return message;
+  }
+  const onPrefix = `On ${oldName}: `;
+  const renamed = message.startsWith(onPrefix) ? `On ${newName}: ${message.substring(onPrefix.length)}` : message;
+  const tail = `${getAutoStashPrefix(oldName)}${parsed.timestamp}`;
+  return `${renamed.slice(0, -tail.length)}${getAutoStashPrefix(newName)}${parsed.timestamp}`;
+}
+
+// Relabel the branch's auto-stashes so the messages keep matching the branch
+export async function rewriteAutoStashes(oldName: string, newName: string): Promise<number> {
+  const messages = new Map<string, string>();
+  for (const entry of await listStashEntries()) {
+    if (parseAutoStashMessage(entry.message)?.branch === oldName) {
+      messages.set(entry.sha, renameStashMessage(entry.message, oldName, newName));
+    }
+  }
+  await relabelStashes(messages);
+  return messages.size;
+}
+
+// Move the branch's metadata to the new name and repoint stack children at it
+export function moveBranchMetadata(oldName: string, newName: string): { moved: boolean; stackChildren: string[] } {
+  const metadata = loadBranchMetadata();
+  const entry = metadata.branches[oldName];
+  const stackChildren: string[] = [];
+
+  for (const [branch, data] of Object.entries(metadata.branches)) {
+    if (data.stackParent === oldName) {
+      data.stackParent = newName;
+      stackChildren.push(branch);
+    }
+  }
+
+  if (entry) {
+    const stashes = entry.stashes?.map((stash) => ({
+      ...stash,
+      message: renameStashMessage(stash.message, oldName, newName),
+    }));
+    metadata.branches[newName] = { ...metadata.branches[newName], ...entry, ...(stashes ? { stashes } : {}) };
+    delete metadata.branches[oldName];
+  }
+
+  if (entry || stackChildren.length > 0) {
+    saveBranchMetadata(metadata);
+  }
+  return { moved: !!entry, stackChildren };
+}
+
+// Rename the branch on its push remote (origin by default). With an open PR the provider renames it
+// server-side so the PR follows; otherwise the new name is pushed and the old one deleted.
+export async function renameRemoteBranch(oldName: string, newName: string, provider: PRProvider | null): Promise<RemoteRenameResult> {
+  // Called after the local rename, which carried the branch's remote config over to the new name
+  const remote = await getPushRemote(newName);
+  const exists = await runGit(['ls-remote', '--exit-code', '--heads', remote, oldName]);
+  if (!exists.success) {
+    return { renamed: false, via: null, message: `${remote} has no branch '${oldName}'` };
+  }
+
+  if (provider && (await provider.getPRState(oldName)) === 'open') {
+    const result = await provider.renameBranch(oldName, newName);
+    if (!result.success) {
+      // Leave the remote alone; deleting the old head would close the PR
+      return { renamed: false, via: 'pr-provider', message: result.message };
+    }
+    await runGit(['fetch', '--prune', remote]);
+    await runGit(['branch', `--set-upstream-to=${remote}/${newName}`, newName]);
+    return { renamed: true, via: 'pr-provider', message: `${result.message}; the open PR now tracks ${newName}` };
+  }
+
+  const push = await runGit(['push', '-u', remote, `${newName}:${newName}`]);
+  if (!push.success) {
+    return { renamed: false, via: 'push', message: push.stderr.trim() || `Failed to push ${newName}` };
+  }
+  const del = await runGit(['push', remote, '--delete', oldName]);
+  if (!del.success) {
+    return { renamed: false, via: 'push', message: `Pushed ${newName} but could not delete ${remote}/${oldName}: ${del.stderr.trim()}` };
+  }
+  return { renamed: true, via: 'push', message: `Renamed ${remote}/${oldName} to ${remote}/${newName}` };
+}
+
+// Rename the local branch and carry everything kunj tracks for it along
+export async function renameBranch(
+  oldName: string,
+  newName: string,
+  options: { remote?: boolean; provider?: PRProvider | null } = {}
+): Promise<RenameResult> {
+  if (!(await runGit(['rev-parse', '--verify', '--quiet', `refs/heads/${oldName}`])).success) {
+    throw new Error(`Branch '${oldName}' does not exist`);
+  }
+  if ((await runGit(['rev-parse', '--verify', '--quiet', `refs/heads/${newName}`])).success) {
+    throw new Error(`Branch '${newName}' already exists`);
+  }
+  if (!(await runGit(['check-ref-format', '--branch', newName])).success) {
+    throw new Error(`'${newName}' is not a valid branch name`);
+  }
+
+  const rename = await runGit(['branch', '-m', oldName, newName]);
+  if (!rename.success) {
+    throw new Error(rename.stderr.trim() || `Failed to rename ${oldName}`);
+  }
+
+  const { moved, stackChildren } = moveBranchMetadata(oldName, newName);
+  const stashesRewritten = await rewriteAutoStashes(oldName, newName);
+  const result: RenameResult = { oldName, newName, metadataMoved: moved, stashesRewritten, stackChildren };
+
+  if (options.remote) {
+    result.remote = await renameRemoteBranch(oldName, newName, options.provider || null);
+  }
+  return result;
+}
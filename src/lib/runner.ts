@@ -0,0 +1,146 @@
+// Process runner - every external command goes through here as an argv array,
+// never a shell string, so branch names, titles and bodies are passed verbatim
+
+import { spawn } from "child_process";
+
+export interface RunOptions {
+  /** Working directory (runGit defaults to the repository root) */
+  cwd?: string;
+  /** Written to stdin, then stdin is closed */
+  input?: string;
+  /** Kill the process after this many milliseconds (0 disables; interactive runs default to none) */
+  timeout?: number;
+  env?: NodeJS.ProcessEnv;
+  /** "inherit" hands the terminal to the child (pagers, editors); stdin stays piped when input is given */
+  stdio?: "pipe" | "inherit";
+}
+
+export interface RunResult {
+  success: boolean;
+  /** Exit code, or null when the process could not start or was killed */
+  code: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  /** Printable form of the command, for error messages */
+  command: string;
+}
+
+export class CommandError extends Error {
+  result: RunResult;
+
+  constructor(result: RunResult) {
+    const reason = result.timedOut
+      ? "timed out"
+      : result.stderr.trim() || result.stdout.trim() || `exited with code ${result.code}`;
+    super(`${result.command}: ${reason}`);
+    this.name = "CommandError";
+    this.result = result;
+  }
+}
+
+export const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Quote an argument for display only (never passed to a shell)
+function displayArg(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+// Run a program with an argv array. Resolves for any exit code; check result.success.
+export function runTool(bin: string, args: string[], options: RunOptions = {}): Promise<RunResult> {
+  const command = [bin, ...args].map(displayArg).join(" ");
+
+  return new Promise((resolve) => {
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let timedOut = false;
+    let settled = false;
+
+    const finish = (code: number | null, error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve({
+        success: code === 0 && !timedOut,
+        code,
+        stdout: Buffer.concat(stdout).toString("utf8"),
+        stderr: error ? error.message : Buffer.concat(stderr).toString("utf8"),
+        timedOut,
+        command,
+      });
+    };
+
+    const interactive = options.stdio === "inherit";
+    const child = spawn(bin, args, {
+      cwd: options.cwd,
+      env: options.env || process.env,
+      stdio: interactive
+        ? [options.input !== undefined ? "pipe" : "inherit", "inherit", "inherit"]
+        : ["pipe", "pipe", "pipe"],
+    });
+
+    const timeout = options.timeout ?? (interactive ? 0 : DEFAULT_TIMEOUT_MS);
+    const timer = timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          child.kill("SIGTERM");
+        }, timeout)
+      : undefined;
+
+    child.stdout?.on("data", (chunk: Buffer) => stdout.push(chunk));
+    child.stderr?.on("data", (chunk: Buffer) => stderr.push(chunk));
+    child.on("error", (error) => finish(null, error));
+    child.on("close", (code) => finish(code));
+
+    if (child.stdin) {
+      child.stdin.on("error", () => {
+        // The process may exit before reading its input
+      });
+      child.stdin.end(options.input ?? "");
+    }
+  });
+}
+
+// Like runTool, but throws a CommandError when the command fails
+export async function runToolOrThrow(bin: string, args: string[], options: RunOptions = {}): Promise<RunResult> {
+  const result = await runTool(bin, args, options);
+  if (!result.success) {
+    throw new CommandError(result);
+  }
+  return result;
+}
+
+// Repository root per working directory (tests and worktrees change cwd)
+const gitRootCache = new Map<string, string>();
+
+// Get the git repository root directory
+export async function getGitRoot(): Promise<string> {
+  const cwd = process.cwd();
+  const cached = gitRootCache.get(cwd);
+  if (cached) {
+    return cached;
+  }
+
+  const result = await runTool("git", ["rev-parse", "--show-toplevel"], { cwd });
+  if (!result.success) {
+    throw new Error("Not in a git repository");
+  }
+  const root = result.stdout.trim();
+  gitRootCache.set(cwd, root);
+  return root;
+}
+
+// Run git from the repository root (or options.cwd). Outside a repository it
+// falls back to the current directory so commands like rev-parse still work.
+export async function runGit(args: string[], options: RunOptions = {}): Promise<RunResult> {
+  const cwd = options.cwd ?? (await getGitRoot().catch(() => process.cwd()));
+  return runTool("git", args, { ...options, cwd });
+}
+
+export async function runGitOrThrow(args: string[], options: RunOptions = {}): Promise<RunResult> {
+  const result = await runGit(args, options);
+  if (!result.success) {
+    throw new CommandError(result);
+  }
+  return result;
+}
@@ -0,0 +1,167 @@
+// Stacked branches - parent links in branch metadata, restacking and stacked PR navigation
+
+import { BranchesMetadata } from '../types';
+import { loadBranchMetadata, updateBranchMetadata } from './metadata';
+import { branchExists, getCurrentBranch, hasUncommittedChanges } from './git';
+import { runGit, runGitOrThrow } from './runner';
+
+export interface StackNode {
+  branch: string;
+  children: StackNode[];
+}
+
+export interface RestackResult {
+  branch: string;
+  parent: string;
+  status: 'rebased' | 'up-to-date' | 'conflict';
+  reparented?: string; // Previous parent, when it no longer exists
+}
+
+export interface StackNavItem {
+  branch: string;
+  prUrl?: string;
+}
+
+const NAV_START = '<!-- kunj-stack:start -->';
+const NAV_END = '<!-- kunj-stack:end -->';
+
+export function getStackParent(branch: string, metadata: BranchesMetadata = loadBranchMetadata()): string | undefined {
+  return metadata.branches[branch]?.stackParent;
+}
+
+export function getStackChildren(branch: string, metadata: BranchesMetadata = loadBranchMetadata()): string[] {
+  return Object.entries(metadata.branches)
+    .filter(([, data]) => data.stackParent === branch)
+    .map(([name]) => name)
+    .sort();
+}
+
+// The trunk a stack grows from: the first ancestor without a parent link
+export function getStackTrunk(branch: string, metadata: BranchesMetadata = loadBranchMetadata()): string {
+  const seen = new Set<string>();
+  let current = branch;
+  while (!seen.has(current)) {
+    seen.add(current);
+    const parent = getStackParent(current, metadata);
+    if (!parent) {
+      return current;
+    }
+    current = parent;
+  }
+  return current; // Parent links form a cycle; stop where it closes
+}
+
+export function buildStackTree(branch: string, metadata: BranchesMetadata = loadBranchMetadata(), seen = new Set<string>()): StackNode {
+  seen.add(branch);
+  return {
+    branch,
+    children: getStackChildren(branch, metadata)
+      .filter((child) => !seen.has(child))
+      .map((child) => buildStackTree(child, metadata, seen)),
+  };
+}
+
+// Branches below a node in parent-before-child order (the node itself excluded)
+export function flattenStack(node: StackNode): string[] {
+  return node.children.flatMap((child) => [child.branch, ...flattenStack(child)]);
+}
+
+// Every stacked branch that shares a trunk with the given branch, parents first
+export function getStackBranches(branch: string, metadata: BranchesMetadata = loadBranchMetadata()): string[] {
+  return flattenStack(buildStackTree(getStackTrunk(branch, metadata), metadata));
+}
+
+// Trunks that have at least one stacked child
+export function getStackTrunks(metadata: BranchesMetadata = loadBranchMetadata()): string[] {
+  const trunks = new Set<string>();
+  for (const data of Object.values(metadata.branches)) {
+    if (data.stackParent && !getStackParent(data.stackParent, metadata)) {
+      trunks.add(data.stackParent);
+    }
+  }
+  return [...trunks].sort();
+}
+
+async function resolveCommit(ref: string): Promise<string> {
+  return (await runGitOrThrow(['rev-parse', '--verify', `${ref}^{commit}`])).stdout.trim();
+}
+
+// Create a branch on top of parent, switch to it and record the parent link
+export async function createStackedBranch(branch: string, parent: string): Promise<void> {
+  if (await branchExists(branch)) {
+    throw new Error(`Branch '${branch}' already exists`);
+  }
+  const parentHead = await resolveCommit(parent);
+  await runGitOrThrow(['switch', '-c', branch, parent]);
+  updateBranchMetadata(branch, { stackParent: parent, stackParentHead: parentHead });
+}
+
+// Rebase every branch of the stack onto its parent's current tip, parents first.
+// Stops at the first conflict and leaves the rebase in progress for the user to resolve.
+export async function restackBranches(branches: string[], fallbackTrunk: string): Promise<RestackResult[]> {
+  if (await hasUncommittedChanges()) {
+    throw new Error('Working tree has uncommitted changes; commit or stash them before restacking');
+  }
+
+  const original = await getCurrentBranch();
+  const results: RestackResult[] = [];
+
+  for (const branch of branches) {
+    const metadata = loadBranchMetadata();
+    const data = metadata.branches[branch] || {};
+    let parent = data.stackParent as string;
+    let reparented: string | undefined;
+
+    // Parent was merged and deleted: move onto its own parent (or the trunk)
+    if (!(await branchExists(parent))) {
+      reparented = parent;
+      parent = getStackParent(parent, metadata) || fallbackTrunk;
+      updateBranchMetadata(branch, { stackParent: parent });
+    }
+
+    const parentHead = await resolveCommit(parent);
+    const isAncestor = await runGit(['merge-base', '--is-ancestor', parentHead, branch]);
+    if (isAncestor.success) {
+      updateBranchMetadata(branch, { stackParentHead: parentHead });
+      results.push({ branch, parent, status: 'up-to-date', reparented });
+      continue;
+    }
+
+    // Rebase only the branch's own commits: those after the parent commit it was stacked on
+    const base = data.stackParentHead && (await runGit(['merge-base', '--is-ancestor', data.stackParentHead, branch])).success
+      ? data.stackParentHead
+      : (await runGitOrThrow(['merge-base', parent, branch])).stdout.trim();
+
+    const rebase = await runGit(['rebase', '--onto', parentHead, base, branch]);
+    if (!rebase.success) {
+      results.push({ branch, parent, status: 'conflict', reparented });
+      return results;
+    }
+    updateBranchMetadata(branch, { stackParentHead: parentHead });
+    results.push({ branch, parent, status: 'rebased', reparented });
+  }
+
+  if ((await getCurrentBranch()) !== original) {
+    await runGitOrThrow(['switch', original]);
+  }
+  return results;
+}
+
+// Markdown block listing the stack's PRs, bottom first, with the current one highlighted
+export function renderStackNav(trunk: string, items: StackNavItem[], current: string): string {
+  const lines = items.map((item, index) => {
+    const label = item.prUrl ? `${item.prUrl} (\`${item.branch}\`)` : `\`${item.branch}\``;
+    return item.branch === current ? `${index + 1}. **${label}** ← this PR` : `${index + 1}. ${label}`;
+  });
+  return [NAV_START, `**Stack** (merges into \`${trunk}\`, bottom first)`, '', ...lines, NAV_END].join('\n');
+}
+
+// Replace an existing stack block in a PR body, or append one
+export function upsertStackNav(body: string, nav: string): string {
+  const start = body.indexOf(NAV_START);
+  const end = body.indexOf(NAV_END);
+  if (start !== -1 && end > start) {
+    return body.substring(0, start) + nav + body.substring(end + NAV_END.length);
+  }
+  return body.trim() ? `${body.trimEnd()}\n\n${nav}` : nav;
+}
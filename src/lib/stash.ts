@@ -1,16 +1,65 @@
 // Stash operations for Kunj CLI
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import chalk from 'chalk';
 import { BranchStash } from '../types';
-import { getBranchMetadataItem, updateBranchMetadata } from './metadata';
+import { getBranchMetadataItem, updateBranchMetadata, loadBranchMetadata, saveBranchMetadata } from './metadata';
 import { executeGitCommand, hasUncommittedChanges } from './git';
+import { runGit, runGitOrThrow } from './runner';
 
-const execAsync = promisify(exec);
+// Auto-stash messages embed the branch name so they can be matched back to it
+export function getAutoStashPrefix(branchName: string): string {
+  return `kunj-auto-stash-${branchName}-`;
+}
+
+// Branch and timestamp of an auto-stash message; branch names may contain dashes, so match the whole name
+export function parseAutoStashMessage(message: string): { branch: string; timestamp: string } | null {
+  const match = message.match(/kunj-auto-stash-(.+)-(\d+)$/);
+  return match ? { branch: match[1], timestamp: match[2] } : null;
+}
+
+export interface StashEntry {
+  index: number;
+  sha: string;
+  message: string; // Reflog subject, e.g. "On main: kunj-auto-stash-main-1700000000000"
+}
+
+export type StashPopStatus = 'none' | 'restored' | 'conflict' | 'failed';
+
+export interface StashPopResult {
+  status: StashPopStatus;
+  stash?: BranchStash;
+  ref?: string; // stash@{n} at the time of the pop
+  conflictedFiles?: string[];
+  message?: string;
+}
+
+// The current stash list, with the commit SHA of each entry
+export async function listStashEntries(): Promise<StashEntry[]> {
+  const { stdout } = await runGitOrThrow(['stash', 'list', '--format=%H%x00%gs']);
+  return stdout
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line, index) => {
+      const [sha, message] = line.split('\0');
+      return { index, sha, message };
+    });
+}
+
+// Locate a recorded stash in the stash list: by SHA, or by message for records made before SHAs were tracked
+export function findStashEntry(stash: BranchStash, entries: StashEntry[]): StashEntry | undefined {
+  if (stash.sha) {
+    return entries.find((entry) => entry.sha === stash.sha);
+  }
+  return entries.find((entry) => entry.message.includes(stash.message));
+}
+
+// Options for the logging stash helpers; quiet keeps stdout clean for JSON output
+export interface StashLogOptions {
+  quiet?: boolean; // Skip progress messages and send warnings to stderr
+}
 
 // Create a stash for a branch with metadata tracking
-export async function createStash(branchName: string): Promise<boolean> {
+export async function createStash(branchName: string, options: StashLogOptions = {}): Promise<boolean> {
   try {
     const hasChanges = await hasUncommittedChanges();
     if (!hasChanges) {
@@ -20,7 +69,7 @@ export async function createStash(branchName: string): Promise<boolean> {
     // Get diff stats before stashing
     let files = 0, additions = 0, deletions = 0;
     try {
-      const { stdout } = await execAsync('git diff --stat');
+      const { stdout } = await runGitOrThrow(['diff', '--stat']);
       const lines = stdout.split('\n').filter(line => line.trim());
       const summaryLine = lines[lines.length - 1];
 
@@ -36,16 +85,17 @@ export async function createStash(branchName: string): Promise<boolean> {
     }
 
     const timestamp = Date.now();
-    const stashMessage = `kunj-auto-stash-${branchName}-${timestamp}`;
+    const stashMessage = `${getAutoStashPrefix(branchName)}${timestamp}`;
 
     const result = await executeGitCommand(
-      `git stash push --include-untracked -m "${stashMessage}"`
+      ['stash', 'push', '--include-untracked', '-m', stashMessage]
     );
 
     if (result.success) {
-      // Save stash info to branch metadata
+      // Save stash info to branch metadata, keyed by the new stash commit
+      const sha = (await runGit(['rev-parse', '--verify', '--quiet', 'refs/stash'])).stdout.trim();
       const stashInfo: BranchStash = {
-        ref: "stash@{0}",
+        sha: sha || undefined,
         message: stashMessage,
         timestamp: new Date().toISOString(),
         files,
@@ -58,9 +108,11 @@ export async function createStash(branchName: string): Promise<boolean> {
       stashes.unshift(stashInfo); // Add to beginning
       updateBranchMetadata(branchName, { stashes });
 
-      console.log(
-        chalk.yellow(`📦 Stashed changes from branch '${branchName}'`)
-      );
+      if (!options.quiet) {
+        console.log(
+          chalk.yellow(`📦 Stashed changes from branch '${branchName}'`)
+        );
+      }
       return true;
     }
     return false;
@@ -69,77 +121,255 @@ export async function createStash(branchName: string): Promise<boolean> {
   }
 }
 
+// Pop the branch's most recent stash, resolving its current stash@{n} from the recorded SHA.
+// A pop that conflicts leaves the stash in place (git keeps it), so its record is kept too.
+export async function popBranchStash(branchName: string): Promise<StashPopResult> {
+  const records = getBranchMetadataItem(branchName).stashes || [];
+  if (records.length === 0) {
+    return { status: 'none' };
+  }
+
+  // Forget records whose stash was popped or dropped outside kunj
+  const entries = await listStashEntries();
+  const live = records.filter((record) => findStashEntry(record, entries));
+  if (live.length !== records.length) {
+    updateBranchMetadata(branchName, { stashes: live });
+  }
+  if (live.length === 0) {
+    return { status: 'none' };
+  }
+
+  const stash = live[0];
+  const ref = `stash@{${findStashEntry(stash, entries)!.index}}`;
+  const result = await runGit(['stash', 'pop', ref]);
+
+  if (result.success) {
+    updateBranchMetadata(branchName, { stashes: live.slice(1) });
+    return { status: 'restored', stash, ref };
+  }
+
+  const unmerged = await runGit(['diff', '--name-only', '--diff-filter=U']);
+  const conflictedFiles = unmerged.stdout.split('\n').filter((f) => f.trim());
+  if (conflictedFiles.length > 0) {
+    return { status: 'conflict', stash, ref, conflictedFiles };
+  }
+  return { status: 'failed', stash, ref, message: result.stderr.trim() || result.stdout.trim() };
+}
+
 // Pop a stash for a branch using metadata
-export async function popStashForBranch(branchName: string): Promise<boolean> {
+export async function popStashForBranch(branchName: string, options: StashLogOptions = {}): Promise<boolean> {
+  const warn = options.quiet ? console.error : console.log;
   try {
-    // Get branch metadata to find stashes
-    const metadata = getBranchMetadataItem(branchName);
-    if (!metadata.stashes || metadata.stashes.length === 0) {
-      return false; // No stashes for this branch
+    const result = await popBranchStash(branchName);
+
+    switch (result.status) {
+      case 'restored':
+        if (!options.quiet) {
+          console.log(
+            chalk.yellow(
+              `📤 Restored stashed changes for branch '${branchName}'`
+            )
+          );
+        }
+        return true;
+      case 'conflict':
+        warn(
+          chalk.yellow(
+            `⚠️  Stash applied with conflicts in ${result.conflictedFiles!.join(', ')}. Please resolve them manually.`
+          )
+        );
+        warn(chalk.gray(`   The stash is kept as ${result.ref}; drop it once resolved: git stash drop ${result.ref}`));
+        return true;
+      case 'failed':
+        warn(chalk.red(`✗ Could not restore the stash for '${branchName}' (${result.ref}): ${result.message}`));
+        warn(chalk.gray("   It is still in the stash list; see 'kunj stash doctor'"));
+        return false;
+      default:
+        return false;
     }
+  } catch {
+    return false;
+  }
+}
 
-    // Get the most recent stash (first in array)
-    const stashInfo = metadata.stashes[0];
-
-    // Try to pop the stash using the message to find it
-    const { stdout } = await execAsync("git stash list");
-    if (!stdout.trim()) {
-      // No stashes in git, but we have metadata - clean it up
-      updateBranchMetadata(branchName, { stashes: [] });
-      return false;
-    }
+// Parse "2" or "stash@{2}" into a stash index
+export function parseStashIndex(value: string): number {
+  const match = value.trim().match(/^(?:stash@\{)?(\d+)\}?$/);
+  if (!match) {
+    throw new Error(`Invalid stash index '${value}': expected a number like 0 or stash@{0}`);
+  }
+  return parseInt(match[1], 10);
+}
 
-    // Find the stash by message
-    const stashes = stdout.trim().split("\n");
-    let stashIndex = -1;
+// Stash messages cannot be edited in place, so drop the list down to the deepest relabelled entry
+// and store it back, oldest first. Entries keep their order and their commit SHAs.
+export async function relabelStashes(messages: Map<string, string>): Promise<void> {
+  const entries = await listStashEntries();
+  let deepest = -1;
+  entries.forEach((entry) => {
+    if (messages.has(entry.sha)) deepest = entry.index;
+  });
+  if (deepest === -1) {
+    return;
+  }
 
-    for (let i = 0; i < stashes.length; i++) {
-      if (stashes[i].includes(stashInfo.message)) {
-        const match = stashes[i].match(/stash@{(\d+)}/);
-        if (match) {
-          stashIndex = parseInt(match[1]);
-          break;
-        }
-      }
+  const affected = entries.slice(0, deepest + 1);
+  for (let i = 0; i < affected.length; i++) {
+    await runGitOrThrow(['stash', 'drop', '-q', 'stash@{0}']);
+  }
+  for (const [index, entry] of [...affected].reverse().entries()) {
+    const store = await runGit(['stash', 'store', '-m', messages.get(entry.sha) ?? entry.message, entry.sha]);
+    if (!store.success) {
+      const missing = affected.slice(0, affected.length - index).map((e) => e.sha).join(' ');
+      throw new Error(`Failed to restore stashes (${store.stderr.trim()}); recover them with 'git stash store <sha>' for: ${missing}`);
     }
+  }
+}
 
-    if (stashIndex === -1) {
-      // Stash not found in git, remove from metadata
-      const updatedStashes = metadata.stashes.slice(1);
-      updateBranchMetadata(branchName, { stashes: updatedStashes });
-      return false;
+// The branch whose metadata records this stash, if any
+function findStashOwner(entry: StashEntry, entries: StashEntry[]): { branch: string; record: BranchStash } | null {
+  for (const [branch, data] of Object.entries(loadBranchMetadata().branches)) {
+    const record = (data.stashes || []).find((stash) => findStashEntry(stash, entries)?.sha === entry.sha);
+    if (record) {
+      return { branch, record };
     }
+  }
+  return null;
+}
 
-    // Pop the stash
-    const result = await executeGitCommand(
-      `git stash pop stash@{${stashIndex}}`
-    );
+function removeStashRecord(branch: string, entry: StashEntry, entries: StashEntry[]): void {
+  const stashes = getBranchMetadataItem(branch).stashes || [];
+  updateBranchMetadata(branch, { stashes: stashes.filter((stash) => findStashEntry(stash, entries)?.sha !== entry.sha) });
+}
+
+async function getStashEntry(index: number): Promise<{ entry: StashEntry; entries: StashEntry[] }> {
+  const entries = await listStashEntries();
+  const entry = entries[index];
+  if (!entry) {
+    throw new Error(`Stash stash@{${index}} does not exist`);
+  }
+  return { entry, entries };
+}
 
-    if (result.success || result.message.includes("conflict")) {
-      // Remove from metadata even if there are conflicts
-      const updatedStashes = metadata.stashes.slice(1);
-      updateBranchMetadata(branchName, { stashes: updatedStashes });
+// Turn a stash into a new branch (git stash branch): the branch starts at the stash's base commit,
+// the changes are applied there and the stash is dropped along with its record
+export async function stashToBranch(index: number, newBranch: string): Promise<{ stash: StashEntry; sourceBranch: string | null }> {
+  if (await hasUncommittedChanges()) {
+    throw new Error('You have uncommitted changes; commit or stash them first');
+  }
+  const { entry, entries } = await getStashEntry(index);
+  const owner = findStashOwner(entry, entries);
 
-      if (result.success) {
-        console.log(
-          chalk.yellow(
-            `📤 Restored stashed changes for branch '${branchName}'`
-          )
-        );
+  const result = await runGit(['stash', 'branch', newBranch, `stash@{${index}}`]);
+  if (!result.success && !(await runGit(['rev-parse', '--verify', '--quiet', `refs/heads/${newBranch}`])).success) {
+    throw new Error(result.stderr.trim() || `Failed to create ${newBranch} from stash@{${index}}`);
+  }
+
+  // On conflicts git keeps the stash, so only forget it once it is gone
+  const remaining = await listStashEntries();
+  if (owner && !remaining.some((e) => e.sha === entry.sha)) {
+    removeStashRecord(owner.branch, entry, entries);
+  }
+  if (!result.success) {
+    throw new Error(`Created ${newBranch}, but applying the stash failed; it is kept in the stash list:\n${result.stderr.trim()}`);
+  }
+  return { stash: entry, sourceBranch: owner?.branch || null };
+}
+
+// Hand a stash over to another branch so switching there pops it. kunj auto-stash messages are
+// relabelled for the new branch; other stashes keep their message.
+export async function moveStash(index: number, targetBranch: string): Promise<{ stash: StashEntry; sourceBranch: string | null }> {
+  if (!(await runGit(['rev-parse', '--verify', '--quiet', `refs/heads/${targetBranch}`])).success) {
+    throw new Error(`Branch '${targetBranch}' does not exist`);
+  }
+  const { entry, entries } = await getStashEntry(index);
+  const owner = findStashOwner(entry, entries);
+  if (owner?.branch === targetBranch) {
+    return { stash: entry, sourceBranch: owner.branch };
+  }
+
+  const autoMatch = entry.message.match(/kunj-auto-stash-.+-(\d+)$/);
+  let message = entry.message.replace(/^On [^:]+: /, '');
+  if (autoMatch) {
+    message = `${getAutoStashPrefix(targetBranch)}${autoMatch[1]}`;
+    await relabelStashes(new Map([[entry.sha, `On ${targetBranch}: ${message}`]]));
+  }
+
+  const timestamp = owner?.record.timestamp || (await runGitOrThrow(['log', '-1', '--format=%cI', entry.sha])).stdout.trim();
+  const record: BranchStash = { ...owner?.record, sha: entry.sha, message, timestamp };
+  delete record.ref;
+
+  if (owner) {
+    removeStashRecord(owner.branch, entry, entries);
+  }
+  const stashes = [...(getBranchMetadataItem(targetBranch).stashes || []), record]
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  updateBranchMetadata(targetBranch, { stashes });
+
+  return { stash: entry, sourceBranch: owner?.branch || null };
+}
+
+export interface StashDoctorReport {
+  linked: Array<{ branch: string; message: string; sha: string }>; // Records upgraded from message matching to a SHA
+  removed: Array<{ branch: string; message: string }>; // Records whose stash is gone (or claimed twice)
+  adopted: Array<{ branch: string; sha: string; ref: string }>; // Untracked auto-stashes added to their branch
+  orphaned: StashEntry[]; // Auto-stashes of branches that no longer exist
+}
+
+// Reconcile the stash records in branch metadata with the actual stash list
+export async function runStashDoctor(options: { dryRun?: boolean } = {}): Promise<StashDoctorReport> {
+  const entries = await listStashEntries();
+  const metadata = loadBranchMetadata();
+  const report: StashDoctorReport = { linked: [], removed: [], adopted: [], orphaned: [] };
+  const claimed = new Set<string>();
+
+  for (const [branch, data] of Object.entries(metadata.branches)) {
+    if (!data.stashes || data.stashes.length === 0) {
+      continue;
+    }
+    const kept: BranchStash[] = [];
+    for (const stash of data.stashes) {
+      const entry = findStashEntry(stash, entries);
+      if (!entry || claimed.has(entry.sha)) {
+        report.removed.push({ branch, message: stash.message });
+        continue;
+      }
+      claimed.add(entry.sha);
+      if (stash.sha) {
+        kept.push(stash);
       } else {
-        console.log(
-          chalk.yellow(
-            `⚠️  Stash applied with conflicts. Please resolve them manually.`
-          )
-        );
+        const { ref: _legacyRef, ...rest } = stash;
+        kept.push({ ...rest, sha: entry.sha });
+        report.linked.push({ branch, message: stash.message, sha: entry.sha });
       }
-      return true;
     }
+    data.stashes = kept;
+  }
 
-    return false;
-  } catch {
-    return false;
+  const { stdout } = await runGitOrThrow(['for-each-ref', '--format=%(refname:short)', 'refs/heads']);
+  const localBranches = new Set(stdout.split('\n').filter((b) => b.trim()));
+
+  for (const entry of entries) {
+    const match = entry.message.match(/kunj-auto-stash-(.+)-(\d+)$/);
+    if (claimed.has(entry.sha) || !match) {
+      continue;
+    }
+    const [message, branch, timestamp] = match;
+    if (!localBranches.has(branch)) {
+      report.orphaned.push(entry);
+      continue;
+    }
+    const data = metadata.branches[branch] || (metadata.branches[branch] = {});
+    data.stashes = [...(data.stashes || []), { sha: entry.sha, message, timestamp: new Date(Number(timestamp)).toISOString() }]
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    report.adopted.push({ branch, sha: entry.sha, ref: `stash@{${entry.index}}` });
+  }
+
+  const changed = report.linked.length + report.removed.length + report.adopted.length > 0;
+  if (changed && !options.dryRun) {
+    saveBranchMetadata(metadata);
   }
+  return report;
 }
 
 // Get all stashes from metadata organized by branch
@@ -149,6 +379,7 @@ export async function getAllStashesWithBranch(): Promise<Map<string, Array<{ mes
 
   try {
     const metadata = loadBranchMetadata();
+    const entries = await listStashEntries().catch(() => [] as StashEntry[]);
 
     // Go through each branch and get its stashes
     for (const [branchName, branchData] of Object.entries(metadata.branches)) {
@@ -178,10 +409,12 @@ export async function getAllStashesWithBranch(): Promise<Map<string, Array<{ mes
             }
           }
 
+          // Resolve where the stash sits in the list right now
+          const entry = findStashEntry(stash, entries);
           stashesForBranch.push({
             message,
             details: detailsStr,
-            ref: stash.ref
+            ref: entry ? `stash@{${entry.index}}` : stash.ref || ''
           });
         }
 
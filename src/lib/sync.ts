@@ -0,0 +1,144 @@
+// Sync - bring branches up to date with their base (stack parent, flow base or default base branch)
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadConfig, getKunjDir, initKunjDirectory } from './config';
+import { getBranchMetadataItem, updateBranchMetadata } from './metadata';
+import { branchExists, getMainBranch, getPushRemote } from './git';
+import { getGitRoot, runGit, runGitOrThrow } from './runner';
+import { SYNC_STATE_FILE } from '../constants';
+
+export type SyncStrategy = 'rebase' | 'merge';
+
+export interface SyncResult {
+  branch: string;
+  base: string;
+  upstream: string; // Ref the branch was updated from (<push remote>/<base> when it exists)
+  strategy: SyncStrategy;
+  status: 'up-to-date' | 'updated' | 'conflict' | 'skipped';
+  behind: number;
+  conflicts?: string[];
+  reason?: string;
+}
+
+// Saved when a sync stops on a conflict, so `kunj sync --continue` can finish the run
+export interface SyncState {
+  originalBranch: string;
+  stashed: boolean;
+  strategy: SyncStrategy;
+  remaining: string[];
+  results: SyncResult[];
+}
+
+function getSyncStatePath(): string {
+  return path.join(getKunjDir(), SYNC_STATE_FILE);
+}
+
+export function loadSyncState(): SyncState | null {
+  try {
+    return JSON.parse(fs.readFileSync(getSyncStatePath(), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+export function saveSyncState(state: SyncState | null): void {
+  if (!state) {
+    fs.rmSync(getSyncStatePath(), { force: true });
+    return;
+  }
+  initKunjDirectory();
+  fs.writeFileSync(getSyncStatePath(), JSON.stringify(state, null, 2));
+}
+
+// Base of a branch: its stack parent, then its flow base, then the configured or detected main branch
+export async function resolveSyncBase(branch: string): Promise<{ base: string; stacked: boolean }> {
+  const metadata = getBranchMetadataItem(branch);
+  if (metadata.stackParent && (await branchExists(metadata.stackParent))) {
+    return { base: metadata.stackParent, stacked: true };
+  }
+  if (metadata.flowBase) {
+    return { base: metadata.flowBase, stacked: false };
+  }
+  const configured = loadConfig().preferences?.defaultBaseBranch?.trim();
+  return { base: configured || (await getMainBranch()), stacked: false };
+}
+
+export async function hasRemote(remote: string): Promise<boolean> {
+  return (await runGit(['remote', 'get-url', remote])).success;
+}
+
+export async function getConflictedFiles(): Promise<string[]> {
+  const { stdout } = await runGit(['diff', '--name-only', '--diff-filter=U']);
+  return stdout.split('\n').filter((line) => line.trim());
+}
+
+// A rebase or merge left unfinished in the working tree, if any
+export async function getOperationInProgress(): Promise<SyncStrategy | null> {
+  const gitRoot = await getGitRoot();
+  const exists = async (name: string) => {
+    const { stdout } = await runGitOrThrow(['rev-parse', '--git-path', name]);
+    return fs.existsSync(path.resolve(gitRoot, stdout.trim()));
+  };
+  if ((await exists('rebase-merge')) || (await exists('rebase-apply'))) {
+    return 'rebase';
+  }
+  return (await exists('MERGE_HEAD')) ? 'merge' : null;
+}
+
+// Finish (continue) or abort the rebase/merge in progress; continuing never opens an editor
+export async function resolveOperationInProgress(action: 'continue' | 'abort'): Promise<boolean> {
+  const operation = await getOperationInProgress();
+  if (!operation) {
+    return true;
+  }
+  const result = await runGit([operation, `--${action}`], { env: { ...process.env, GIT_EDITOR: 'true' } });
+  return result.success;
+}
+
+// Update the checked-out branch from its base. Expects a clean working tree.
+export async function syncBranch(branch: string, strategy: SyncStrategy): Promise<SyncResult> {
+  const { base, stacked } = await resolveSyncBase(branch);
+  // The same remote `kunj stack submit` pushes the branch to
+  const remote = await getPushRemote(branch);
+  const upstream = !stacked && (await runGit(['rev-parse', '--verify', '--quiet', `refs/remotes/${remote}/${base}`])).success
+    ? `${remote}/${base}`
+    : base;
+  const result: SyncResult = { branch, base, upstream, strategy, status: 'up-to-date', behind: 0 };
+
+  if (branch === base) {
+    return { ...result, status: 'skipped', reason: 'is its own base branch' };
+  }
+  if (!(await runGit(['rev-parse', '--verify', '--quiet', upstream])).success) {
+    return { ...result, status: 'skipped', reason: `base '${base}' not found` };
+  }
+
+  const behind = (await runGitOrThrow(['rev-list', '--count', `${branch}..${upstream}`])).stdout.trim();
+  result.behind = parseInt(behind, 10) || 0;
+  if (result.behind === 0) {
+    return result;
+  }
+
+  let args: string[];
+  if (strategy === 'merge') {
+    args = ['merge', '--no-edit', upstream];
+  } else {
+    // Stacked branches replay only their own commits, not the parent's pre-rewrite ones
+    const parentHead = getBranchMetadataItem(branch).stackParentHead;
+    const forkPoint = stacked && parentHead && (await runGit(['merge-base', '--is-ancestor', parentHead, branch])).success
+      ? parentHead
+      : null;
+    args = forkPoint ? ['rebase', '--onto', upstream, forkPoint] : ['rebase', upstream];
+  }
+
+  const update = await runGit(args, { env: { ...process.env, GIT_EDITOR: 'true' } });
+  if (!update.success) {
+    return { ...result, status: 'conflict', conflicts: await getConflictedFiles(), reason: update.stderr.trim() || undefined };
+  }
+
+  if (stacked) {
+    const head = (await runGitOrThrow(['rev-parse', base])).stdout.trim();
+    updateBranchMetadata(branch, { stackParentHead: head });
+  }
+  return { ...result, status: 'updated' };
+}
@@ -1,7 +1,7 @@
 // Shared team analysis logic — AI prompt, invocation, and response parsing
 // Used by both CLI (team command) and UI (data layer)
 
-import { getBedrockClient } from "./ai-commit";
+import { invokeModel } from "./ai-providers";
 
 // --- Input types ---
 
@@ -278,9 +278,7 @@ export async function analyzeTeamActivity(
   const { prContext, jiraContext, slackContext } = buildTeamContext(summaries, jiraIssues, slackMessages);
   const prompt = buildPrompt(prContext, jiraContext, slackContext);
 
-  const client = await getBedrockClient();
-  const response = await client.invoke([{ role: "user", content: prompt }]);
-  const content = response.content?.toString() || "";
+  const content = await invokeModel(prompt, { feature: "team" });
 
   return parseTeamAnalysisResponse(content);
 }
@@ -294,8 +292,6 @@ export async function generateProjectReport(
   slackMessages: SlackMessageInput[],
   jiraIssues: JiraIssueInput[]
 ): Promise<ProjectReport> {
-  const client = await getBedrockClient();
-
   // Build diff context per PR (truncated per PR, generous total)
   let diffContext = "";
   for (const pr of project.prs) {
@@ -373,8 +369,7 @@ Rules:
 - IMPORTANT_MESSAGES should highlight Slack messages that contain decisions, blockers, questions, context, or coordination relevant to this project. Include 0-5 messages. Quote the actual message text. If no Slack data, omit the section.
 - Be concise but thorough`;
 
-  const response = await client.invoke([{ role: "user", content: prompt }]);
-  const content = response.content?.toString() || "";
+  const content = await invokeModel(prompt, { feature: "team" });
 
   // Parse response
   const overviewMatch = content.match(/OVERVIEW:\s*([^\n]*(?:\n(?!KEY_CHANGES:).*)*)/i);
@@ -0,0 +1,143 @@
+// Git worktree support - one working directory per branch instead of stash-and-switch
+
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { loadConfig } from './config';
+import { loadBranchMetadata, saveBranchMetadata, updateBranchMetadata } from './metadata';
+import { runGitOrThrow } from './runner';
+
+export interface WorktreeInfo {
+  path: string;
+  head: string;
+  branch: string | null; // null when detached or bare
+  main: boolean;
+  locked: boolean;
+  prunable: boolean;
+}
+
+export interface EnsureWorktreeOptions {
+  create?: boolean; // Create the branch as well (from base, default HEAD)
+  base?: string;
+  path?: string;
+}
+
+// Parse `git worktree list --porcelain`; the first entry is always the main worktree
+export function parseWorktreeList(output: string): WorktreeInfo[] {
+  return output
+    .split(/\n\s*\n/)
+    .map((block) => block.split('\n').filter((line) => line.trim()))
+    .filter((lines) => lines.length > 0 && lines[0].startsWith('worktree '))
+    .map((lines, index) => {
+      const value = (key: string) => {
+        const line = lines.find((l) => l === key || l.startsWith(`${key} `));
+        return line === undefined ? undefined : line.substring(key.length + 1);
+      };
+      const branchRef = value('branch');
+      return {
+        path: value('worktree') as string,
+        head: value('HEAD') || '',
+        branch: branchRef ? branchRef.replace(/^refs\/heads\//, '') : null,
+        main: index === 0,
+        locked: value('locked') !== undefined,
+        prunable: value('prunable') !== undefined,
+      };
+    });
+}
+
+// List all worktrees of the repository
+export async function listWorktrees(): Promise<WorktreeInfo[]> {
+  const { stdout } = await runGitOrThrow(['worktree', 'list', '--porcelain']);
+  return parseWorktreeList(stdout);
+}
+
+// Find the worktree that has a branch checked out
+export async function findWorktree(branch: string): Promise<WorktreeInfo | undefined> {
+  return (await listWorktrees()).find((wt) => wt.branch === branch);
+}
+
+// Default location for a branch's worktree: <worktreeDir>/<repo>-<branch>
+export async function getDefaultWorktreePath(branch: string): Promise<string> {
+  const [main] = await listWorktrees();
+  const baseDir = loadConfig().preferences.worktreeDir?.trim() || '..';
+  const name = `${path.basename(main.path)}-${branch.replace(/[\\/]+/g, '-')}`;
+  return path.resolve(main.path, baseDir, name);
+}
+
+// Return the branch's worktree, adding it first if needed. Records the path in branch metadata.
+export async function ensureWorktree(
+  branch: string,
+  options: EnsureWorktreeOptions = {}
+): Promise<{ path: string; created: boolean }> {
+  const existing = await findWorktree(branch);
+  if (existing) {
+    if (!existing.main) {
+      updateBranchMetadata(branch, { worktreePath: existing.path });
+    }
+    return { path: existing.path, created: false };
+  }
+
+  const target = options.path ? path.resolve(options.path) : await getDefaultWorktreePath(branch);
+  if (fs.existsSync(target)) {
+    throw new Error(`Cannot add worktree: ${target} already exists`);
+  }
+
+  const args = options.create
+    ? ['worktree', 'add', '-b', branch, target, options.base || 'HEAD']
+    : ['worktree', 'add', target, branch];
+  await runGitOrThrow(args);
+
+  updateBranchMetadata(branch, { worktreePath: target });
+  return { path: target, created: true };
+}
+
+// Remove a branch's linked worktree (the branch itself is kept)
+export async function removeWorktree(branch: string, force: boolean = false): Promise<string> {
+  const worktree = await findWorktree(branch);
+  if (!worktree) {
+    throw new Error(`No worktree has '${branch}' checked out`);
+  }
+  if (worktree.main) {
+    throw new Error(`'${branch}' is checked out in the main worktree, which cannot be removed`);
+  }
+
+  await runGitOrThrow(['worktree', 'remove', ...(force ? ['--force'] : []), worktree.path]);
+  updateBranchMetadata(branch, { worktreePath: undefined });
+  return worktree.path;
+}
+
+// Bring metadata worktree paths in line with git (new worktrees added, removed ones cleared)
+export function syncWorktreeMetadata(worktrees: WorktreeInfo[]): void {
+  const metadata = loadBranchMetadata();
+  const linked = new Map(
+    worktrees.filter((wt) => !wt.main && wt.branch).map((wt) => [wt.branch as string, wt.path])
+  );
+  let changed = false;
+
+  for (const [branch, data] of Object.entries(metadata.branches)) {
+    if (data.worktreePath && linked.get(branch) !== data.worktreePath) {
+      delete data.worktreePath;
+      changed = true;
+    }
+  }
+  for (const [branch, worktreePath] of linked) {
+    const data = metadata.branches[branch] || (metadata.branches[branch] = {});
+    if (data.worktreePath !== worktreePath) {
+      data.worktreePath = worktreePath;
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    saveBranchMetadata(metadata);
+  }
+}
+
+// Show where a branch's worktree is and how to get there
+export function printWorktreeHint(branch: string, worktreePath: string, created: boolean): void {
+  console.log(
+    chalk.green(`✓ ${created ? 'Created' : 'Using'} worktree for '${branch}'`) + chalk.gray(` (${worktreePath})`)
+  );
+  console.log(chalk.gray(`  cd ${JSON.stringify(worktreePath)}`));
+  console.log(chalk.gray(`  or: kunj worktree open ${branch}`));
+}
@@ -1,6 +1,7 @@
-// AI settings - used by AI commit message generation
+// AI settings - used by AI commit message generation and the LLM providers
 
 import { registerSettings } from '../lib/settings-registry';
+import { getCommitStyleNames } from '../lib/commit-styles';
 
 export function registerAISettings(): void {
   registerSettings([
@@ -14,10 +15,69 @@ export function registerAISettings(): void {
     {
       key: 'ai.provider',
       description: 'AI provider',
+      detailedDescription: 'Which model API all AI features use. "bedrock" uses AWS credentials, "openai" calls any OpenAI-compatible Chat Completions endpoint (including self-hosted servers like llama.cpp or Ollama), "anthropic" calls the Anthropic Messages API, and "fixture" replays previously recorded responses offline (for tests and demos).',
       type: 'enum',
       defaultValue: 'bedrock',
-      options: ['bedrock', 'openai', 'anthropic'],
-      category: 'ai'
+      options: ['bedrock', 'openai', 'anthropic', 'fixture'],
+      category: 'ai',
+      examples: [
+        'bedrock - AWS Bedrock (uses the AWS credential chain)',
+        'openai - OpenAI or a self-hosted OpenAI-compatible server',
+        'anthropic - Anthropic API directly',
+        'fixture - Replay recorded responses, no network'
+      ],
+      relatedSettings: ['ai.model', 'ai.openaiBaseUrl', 'ai.openaiApiKey', 'ai.anthropicApiKey', 'ai.recordFixtures']
+    },
+    {
+      key: 'ai.openaiBaseUrl',
+      description: 'OpenAI-compatible base URL',
+      detailedDescription: 'Base URL for the OpenAI provider. Leave empty for api.openai.com, or point it at a self-hosted OpenAI-compatible server. Falls back to the OPENAI_BASE_URL environment variable.',
+      type: 'string',
+      defaultValue: '',
+      category: 'ai',
+      examples: [
+        'http://localhost:8080/v1 - llama.cpp server',
+        'http://localhost:11434/v1 - Ollama'
+      ],
+      relatedSettings: ['ai.provider', 'ai.openaiApiKey']
+    },
+    {
+      key: 'ai.openaiApiKey',
+      description: 'OpenAI API key',
+      detailedDescription: 'API key for the OpenAI provider. Falls back to the OPENAI_API_KEY environment variable. Optional for self-hosted servers.',
+      type: 'string',
+      defaultValue: '',
+      category: 'ai',
+      sensitive: true,
+      relatedSettings: ['ai.provider', 'ai.openaiBaseUrl']
+    },
+    {
+      key: 'ai.anthropicApiKey',
+      description: 'Anthropic API key',
+      detailedDescription: 'API key for the Anthropic provider. Falls back to the ANTHROPIC_API_KEY environment variable.',
+      type: 'string',
+      defaultValue: '',
+      category: 'ai',
+      sensitive: true,
+      relatedSettings: ['ai.provider']
+    },
+    {
+      key: 'ai.recordFixtures',
+      description: 'Record AI responses as fixtures',
+      detailedDescription: 'When enabled, every response from the real provider is saved to the fixture directory, keyed by a hash of the prompt. Switch ai.provider to "fixture" afterwards to replay them without network access.',
+      type: 'boolean',
+      defaultValue: false,
+      category: 'ai',
+      relatedSettings: ['ai.provider', 'ai.fixtureDir']
+    },
+    {
+      key: 'ai.fixtureDir',
+      description: 'AI fixture directory',
+      detailedDescription: 'Where recorded AI responses are read from and written to. Leave empty to use .kunj/ai-fixtures in the current repository.',
+      type: 'string',
+      defaultValue: '',
+      category: 'ai',
+      relatedSettings: ['ai.provider', 'ai.recordFixtures']
     },
     {
       key: 'ai.model',
@@ -35,7 +95,7 @@ export function registerAISettings(): void {
     },
     {
       key: 'ai.awsRegion',
-      description: 'AWS region',
+      description: 'AWS region (Bedrock only)',
       type: 'string',
       defaultValue: 'us-east-1',
       category: 'ai'
@@ -65,10 +125,14 @@ export function registerAISettings(): void {
     {
       key: 'ai.commitStyle',
       description: 'Commit message style',
-      detailedDescription: 'Choose the format for AI-generated commit messages and PR descriptions. Each style follows different conventions for organizing and presenting changes. This applies to both commit messages and pull request descriptions.',
+      detailedDescription: 'Choose the format for AI-generated commit messages and PR descriptions. Each style follows different conventions for organizing and presenting changes. This applies to both commit messages and pull request descriptions. Add your own styles (prompt, types, examples, validation pattern) as .kunj/commit-styles/<name>.json or .md in the project or in ~/.kunj.',
       type: 'enum',
       defaultValue: 'conventional',
-      options: ['conventional', 'semantic', 'simple', 'gitmoji', 'caveman', 'custom'],
+      // Resolved on access so styles from .kunj/commit-styles/*.json|md are listed too
+      get options() {
+        return getCommitStyleNames();
+      },
+      validate: (value: string) => getCommitStyleNames().includes(value),
       category: 'ai',
       examples: [
         'conventional - "feat: Add user authentication" (standard)',
@@ -76,7 +140,8 @@ export function registerAISettings(): void {
         'simple - "Add user authentication" (no prefix)',
         'gitmoji - "✨ Add user authentication" (with emoji)',
         'caveman - "feat(api): add GET /users/:id" (terse, no fluff)',
-        'custom - Use customInstructions for your own format'
+        'custom - Use customInstructions for your own format',
+        '<name> - Your own style from .kunj/commit-styles/<name>.json or .md (project or ~/.kunj)'
       ],
       relatedSettings: ['ai.customInstructions', 'ai.includeBody']
     },
@@ -135,7 +200,143 @@ export function registerAISettings(): void {
         'true - Analyze full code changes (better quality)',
         'false - Only use commit messages (faster)'
       ],
-      relatedSettings: ['ai.autoGeneratePRDescription']
+      relatedSettings: ['ai.autoGeneratePRDescription', 'ai.diffTokenBudget']
+    },
+    {
+      key: 'ai.diffTokenBudget',
+      description: 'Max diff tokens sent in one prompt',
+      detailedDescription: 'Diffs up to this size (estimated at ~4 characters per token) are sent to the model as-is when generating commit messages, PR descriptions and Jira tickets. Larger diffs are split per file and per hunk, each chunk is summarized with ai.modelSmall, and the summaries are used instead of truncating the diff.',
+      type: 'number',
+      defaultValue: 6000,
+      category: 'ai',
+      validate: (value: number) => value >= 500,
+      examples: [
+        '6000 - Default, covers most single commits',
+        '20000 - Send larger diffs whole to models with big context windows'
+      ],
+      relatedSettings: ['ai.diffChunkTokens', 'ai.modelSmall']
+    },
+    {
+      key: 'ai.diffChunkTokens',
+      description: 'Tokens per chunk when summarizing large diffs',
+      type: 'number',
+      defaultValue: 3000,
+      category: 'ai',
+      validate: (value: number) => value >= 200,
+      relatedSettings: ['ai.diffTokenBudget']
+    },
+    {
+      key: 'ai.redaction.enabled',
+      description: 'Redact secrets before sending to AI',
+      detailedDescription: 'Scan every prompt (diffs, Jira descriptions, Slack history) for secrets and personal data before it is sent to the model, and replace matches with placeholders like [REDACTED:aws-access-key:1]. Built-in detectors cover AWS keys, GitHub/Slack/API tokens, JWTs, bearer tokens, password assignments, private keys and email addresses. Use "kunj ai preview" to see exactly what would be sent.',
+      type: 'boolean',
+      defaultValue: true,
+      category: 'ai',
+      relatedSettings: ['ai.redaction.patterns', 'ai.redaction.disabledRules']
+    },
+    {
+      key: 'ai.redaction.patterns',
+      description: 'Extra redaction regexes',
+      detailedDescription: 'Additional regular expressions to redact, as plain patterns or "name=pattern" to label them in the audit summary.',
+      type: 'array',
+      defaultValue: [],
+      category: 'ai',
+      examples: [
+        'internal-host=[a-z0-9-]+\\.corp\\.example\\.com',
+        'CUST-[0-9]{6}'
+      ],
+      relatedSettings: ['ai.redaction.enabled']
+    },
+    {
+      key: 'ai.redaction.disabledRules',
+      description: 'Built-in redaction rules to skip',
+      detailedDescription: 'Names of built-in detectors to turn off: private-key, aws-access-key, aws-secret-key, github-token, slack-token, api-key, jwt, bearer-token, secret-assignment, email.',
+      type: 'array',
+      defaultValue: [],
+      category: 'ai',
+      examples: ['email'],
+      relatedSettings: ['ai.redaction.enabled']
+    },
+    {
+      key: 'ai.cache.enabled',
+      description: 'Cache AI responses',
+      detailedDescription: 'Reuse the response when the same prompt is sent to the same provider and model again (for example re-running "kunj pr" or "kunj team" without new changes). Responses are stored in ~/.kunj/ai-cache. Pass --no-cache to a command to force a fresh generation, and use "kunj ai cache stats|clear" to inspect or empty the cache.',
+      type: 'boolean',
+      defaultValue: true,
+      category: 'ai',
+      relatedSettings: ['ai.cache.ttlHours', 'ai.cache.maxSizeMB']
+    },
+    {
+      key: 'ai.cache.ttlHours',
+      description: 'Hours a cached AI response stays valid',
+      type: 'number',
+      defaultValue: 168,
+      category: 'ai',
+      validate: (value: number) => value > 0,
+      examples: ['24', '168'],
+      relatedSettings: ['ai.cache.enabled']
+    },
+    {
+      key: 'ai.cache.maxSizeMB',
+      description: 'Maximum size of the AI response cache',
+      detailedDescription: 'When the cache grows beyond this size, the oldest responses are evicted first.',
+      type: 'number',
+      defaultValue: 50,
+      category: 'ai',
+      validate: (value: number) => value > 0,
+      relatedSettings: ['ai.cache.enabled']
+    },
+    {
+      key: 'ai.usage.enabled',
+      description: 'Record AI token usage',
+      detailedDescription: 'Append model, input/output tokens, latency and the calling feature for every AI request to ~/.kunj/ai-usage.jsonl. View the totals with "kunj ai usage".',
+      type: 'boolean',
+      defaultValue: true,
+      category: 'ai',
+      relatedSettings: ['ai.usage.prices', 'ai.budget.monthlyUSD']
+    },
+    {
+      key: 'ai.usage.prices',
+      description: 'Model prices for cost reports',
+      detailedDescription: 'Price table entries as "model=input/output" in USD per million tokens. The model name matches any model id containing it; the longest match wins. Entries override the built-in list prices for Claude and GPT models.',
+      type: 'array',
+      defaultValue: [],
+      category: 'ai',
+      examples: [
+        'claude-3-5-haiku=0.8/4',
+        'llama3=0/0'
+      ],
+      relatedSettings: ['ai.usage.enabled']
+    },
+    {
+      key: 'ai.budget.monthlyUSD',
+      description: 'Monthly AI budget in USD (0 = no budget)',
+      detailedDescription: 'When the estimated spend for the current calendar month reaches this amount, kunj warns on every AI request, or blocks non-essential generations if ai.budget.action is "block".',
+      type: 'number',
+      defaultValue: 0,
+      category: 'ai',
+      validate: (value: number) => value >= 0,
+      examples: ['10', '25'],
+      relatedSettings: ['ai.budget.action', 'ai.budget.nonEssential', 'ai.usage.prices']
+    },
+    {
+      key: 'ai.budget.action',
+      description: 'What to do when the monthly AI budget is exceeded',
+      type: 'enum',
+      defaultValue: 'warn',
+      category: 'ai',
+      options: ['warn', 'block'],
+      relatedSettings: ['ai.budget.monthlyUSD']
+    },
+    {
+      key: 'ai.budget.nonEssential',
+      description: 'Features blocked when over budget',
+      detailedDescription: 'AI features that are skipped when the budget is exceeded and ai.budget.action is "block". Other features only warn. Features: commit, commit-split, pr, jira, review, diff-summary, stash, worklog, standup, team.',
+      type: 'array',
+      defaultValue: ['team'],
+      category: 'ai',
+      examples: ['team', 'standup'],
+      relatedSettings: ['ai.budget.action']
     }
   ]);
 }
@@ -33,6 +33,14 @@ export function registerBranchFilteringSettings(): void {
       category: 'filtering',
       validate: (value: number) => value > 0
     },
+    {
+      key: 'preferences.staleBranchDays',
+      description: 'Days before a branch is stale',
+      type: 'number',
+      defaultValue: 90,
+      category: 'filtering',
+      validate: (value: number) => value > 0
+    },
     {
       key: 'preferences.wipTags',
       description: 'WIP tags',
@@ -15,7 +15,57 @@ export function registerCoreSettings(): void {
         'true - Automatically stash changes (recommended)',
         'false - Never stash, require clean working tree'
       ],
-      relatedSettings: ['preferences.showStashDetails']
+      relatedSettings: ['preferences.showStashDetails', 'preferences.switchMode']
+    },
+    {
+      key: 'preferences.switchMode',
+      description: 'Switch mode: stash/worktree',
+      detailedDescription: 'How "kunj switch" and "kunj create" keep uncommitted work apart. "stash" switches in place and stashes changes (see preferences.autoStash). "worktree" gives each branch its own sibling worktree, so untracked files and build output stay where they are; switching opens the branch\'s worktree, creating it if needed.',
+      type: 'enum',
+      defaultValue: 'stash',
+      options: ['stash', 'worktree'],
+      category: 'general',
+      examples: [
+        'stash - Switch in place, stashing uncommitted changes (default)',
+        'worktree - Open or create a separate worktree per branch'
+      ],
+      relatedSettings: ['preferences.autoStash', 'preferences.worktreeDir']
+    },
+    {
+      key: 'preferences.worktreeDir',
+      description: 'Directory for new worktrees',
+      detailedDescription: 'Where "kunj worktree add" and worktree switch mode create worktrees, relative to the main repository root. Each worktree is named <repo>-<branch>, with slashes in the branch name replaced by dashes.',
+      type: 'string',
+      defaultValue: '..',
+      category: 'general',
+      examples: [
+        '.. - Next to the repository (default)',
+        '../worktrees - A shared folder beside the repository'
+      ],
+      relatedSettings: ['preferences.switchMode']
+    },
+    {
+      key: 'metadata.remote',
+      description: 'Remote for kunj meta push/pull',
+      detailedDescription: 'Remote that "kunj meta push" and "kunj meta pull" use to share branch descriptions, notes, tags, PR and Jira links. Metadata is stored under refs/kunj/metadata, so it never appears in branches or pull requests. Machine-specific fields (stashes, worktree paths, last switched) are never shared.',
+      type: 'string',
+      defaultValue: 'origin',
+      category: 'general',
+      relatedSettings: ['metadata.conflictStrategy']
+    },
+    {
+      key: 'metadata.conflictStrategy',
+      description: 'Metadata conflicts: ours/theirs',
+      detailedDescription: 'Which side wins when the same metadata field was changed both locally and on the remote since the last sync. Tags and related issues are always merged item by item, and differing notes are kept side by side.',
+      type: 'enum',
+      defaultValue: 'ours',
+      options: ['ours', 'theirs'],
+      category: 'general',
+      examples: [
+        'ours - Keep the local value (default)',
+        'theirs - Take the remote value'
+      ],
+      relatedSettings: ['metadata.remote']
     },
     {
       key: 'preferences.branchSort',
@@ -73,6 +123,32 @@ export function registerCoreSettings(): void {
       ],
       relatedSettings: ['preferences.graphUnicode']
     },
+    {
+      key: 'preferences.syncStrategy',
+      description: 'Sync strategy: rebase/merge',
+      detailedDescription: 'How "kunj sync" brings a branch up to date with its base (stack parent, flow base or default base branch). "rebase" replays your commits on top of the base for a linear history; "merge" creates a merge commit and never rewrites pushed commits. Override per run with --rebase or --merge.',
+      type: 'enum',
+      defaultValue: 'rebase',
+      options: ['rebase', 'merge'],
+      category: 'general',
+      examples: [
+        'rebase - Replay branch commits onto the updated base (default)',
+        'merge - Merge the updated base into the branch'
+      ],
+      relatedSettings: ['preferences.defaultBaseBranch']
+    },
+    {
+      key: 'preferences.autoCheckpoint',
+      description: 'Checkpoint before flow and amend',
+      detailedDescription: 'Save a checkpoint of the working tree (see "kunj checkpoint") before every mutating "kunj flow" command and before "kunj commit --amend", so uncommitted work can be brought back with "kunj checkpoint restore". Nothing is saved when the working tree is clean.',
+      type: 'boolean',
+      defaultValue: false,
+      category: 'general',
+      examples: [
+        'true - Checkpoint uncommitted work before flow start/finish and amends',
+        'false - Only checkpoint when asked (default)'
+      ]
+    },
     {
       key: 'preferences.defaultBaseBranch',
       description: 'Default base branch for PRs',
@@ -63,6 +63,15 @@ export function registerJiraSettings(): void {
         return /^[A-Z]+$/.test(value);
       }
     },
+    {
+      key: 'jira.requireCommitKey',
+      description: 'Require a Jira key in commit messages',
+      detailedDescription: 'When enabled, "kunj lint-commits" and its commit-msg hook reject commits whose message does not mention an issue key of jira.projectKey (e.g. PROJ-123), or any issue key when no project key is set.',
+      type: 'boolean',
+      defaultValue: false,
+      category: 'jira',
+      relatedSettings: ['jira.projectKey']
+    },
     {
       key: 'jira.defaultIssueType',
       description: 'Default issue type',
@@ -24,30 +24,66 @@ export interface KunjConfig {
     doneTags: string[];
     personalWIPMode: boolean;
     recentDays: number;
+    staleBranchDays?: number;
     stashAgeDays: number;
     showOnlyConfigured: boolean;
     graphUnicode?: boolean;
     graphStyle?: "default" | "light" | "dark";
     defaultBaseBranch?: string;
+    switchMode?: "stash" | "worktree";
+    worktreeDir?: string;
+    syncStrategy?: "rebase" | "merge";
+    autoCheckpoint?: boolean;
   };
   aliases: Record<string, string>;
   ai?: {
-    provider?: "bedrock" | "openai" | "anthropic";
+    provider?: "bedrock" | "openai" | "anthropic" | "fixture";
     model?: string;
     modelSmall?: string;
     awsRegion?: string;
+    openaiBaseUrl?: string;
+    openaiApiKey?: string;
+    anthropicApiKey?: string;
+    fixtureDir?: string;
+    recordFixtures?: boolean;
     enabled?: boolean;
     autoGenerateCommitMessage?: boolean;
     includeBranchContext?: boolean;
     maxContextCommits?: number;
-    commitStyle?: "conventional" | "semantic" | "simple" | "gitmoji" | "caveman" | "custom";
+    // Built-in style name or a user-defined style from .kunj/commit-styles
+    commitStyle?: string;
     subjectMaxLength?: number;
     includeBody?: boolean;
     customInstructions?: string;
     autoGeneratePRDescription?: boolean;
     includeDiffInPR?: boolean;
+    diffTokenBudget?: number;
+    diffChunkTokens?: number;
+    redaction?: {
+      enabled?: boolean;
+      patterns?: string[];
+      disabledRules?: string[];
+    };
+    cache?: {
+      enabled?: boolean;
+      ttlHours?: number;
+      maxSizeMB?: number;
+    };
+    usage?: {
+      enabled?: boolean;
+      prices?: string[];
+    };
+    budget?: {
+      monthlyUSD?: number;
+      action?: "warn" | "block";
+      nonEssential?: string[];
+    };
   };
   flow?: FlowConfig;
+  metadata?: {
+    remote?: string;
+    conflictStrategy?: "ours" | "theirs";
+  };
   jira?: {
     enabled: boolean;
     baseUrl: string;
@@ -57,6 +93,7 @@ export interface KunjConfig {
     defaultIssueType: 'Story' | 'Bug' | 'Task' | 'Epic';
     boardId?: string;
     aiGeneration?: boolean;
+    requireCommitKey?: boolean;
   };
   slack?: {
     enabled: boolean;
@@ -68,7 +105,8 @@ export interface KunjConfig {
 }
 
 export interface BranchStash {
-  ref: string;  // git stash reference like stash@{0}
+  sha?: string;  // Stash commit; unlike stash@{n} it stays valid as other stashes come and go
+  ref?: string;  // Position at creation time, kept from records made before SHAs were tracked
   message: string;
   timestamp: string;
   files?: number;
@@ -88,6 +126,9 @@ export interface BranchMetadata {
   flowStatus?: 'active' | 'finished';
   flowCreated?: string;
   prUrl?: string;
+  worktreePath?: string;
+  stackParent?: string;
+  stackParentHead?: string; // Parent commit the branch was last stacked onto
   jiraIssueKey?: string;
   jiraIssueTitle?: string;
   jiraIssueStatus?: string;
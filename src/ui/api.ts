@@ -1,8 +1,8 @@
 // API helpers for executing commands and fetching data
 
-import { execFile } from "child_process";
 import * as path from "path";
 import { CommandConfig } from "../lib/command";
+import { runTool } from "../lib/runner";
 
 export async function executeCommandForJSON(
   commandName: string,
@@ -11,39 +11,31 @@ export async function executeCommandForJSON(
   // Use the same entry point that's currently running
   const kunjBin = path.resolve(__dirname, "..", "index.js");
 
-  return new Promise<any>((resolve, reject) => {
-    execFile(
-      process.execPath,
-      [kunjBin, commandName, ...args, "--json"],
-      {
-        cwd: process.cwd(),
-        timeout: 60000,
-        maxBuffer: 10 * 1024 * 1024,
-        env: { ...process.env },
-      },
-      (err, stdout, stderr) => {
-        if (err) {
-          // Try to parse JSON error from stdout
-          try {
-            const parsed = JSON.parse(stdout);
-            if (parsed.error) {
-              reject(new Error(parsed.error));
-              return;
-            }
-          } catch {
-            // not JSON
-          }
-          reject(new Error(stderr || err.message));
-          return;
-        }
-        try {
-          resolve(JSON.parse(stdout));
-        } catch {
-          reject(new Error(`Invalid JSON output from ${commandName}`));
-        }
-      }
-    );
-  });
+  const { success, stdout, stderr, timedOut, code } = await runTool(
+    process.execPath,
+    [kunjBin, commandName, ...args, "--json"],
+    { cwd: process.cwd(), timeout: 60000 }
+  );
+
+  if (!success) {
+    // Try to parse JSON error from stdout
+    let jsonError: string | undefined;
+    try {
+      jsonError = JSON.parse(stdout).error;
+    } catch {
+      // not JSON
+    }
+    if (jsonError) {
+      throw new Error(jsonError);
+    }
+    throw new Error(stderr || (timedOut ? `${commandName} timed out` : `${commandName} exited with code ${code}`));
+  }
+
+  try {
+    return JSON.parse(stdout);
+  } catch {
+    throw new Error(`Invalid JSON output from ${commandName}`);
+  }
 }
 
 export function parseFormToArgs(
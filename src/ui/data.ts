@@ -1,13 +1,13 @@
 // Data layer for web UI — calls src/lib/*.ts directly, no subprocess spawning
 
-import { exec } from "child_process";
-import { promisify } from "util";
 import {
   getFileStatuses,
   getBranchesWithActivity,
   getCurrentBranch,
   getRecentCommitMessages,
   stageFiles,
+  stageHunks,
+  getFileHunks,
   createCommit,
   getCommitsSinceBranch,
   pushBranch,
@@ -17,13 +17,12 @@ import {
   revertFile,
   deleteFile,
 } from "../lib/git";
+import { HunkSelection } from "../lib/hunks";
 import { loadBranchMetadata } from "../lib/metadata";
 import { loadConfig, loadGlobalConfig, loadLocalConfig } from "../lib/config";
 import { getAllStashesWithBranch } from "../lib/stash";
-import {
-  generateAICommitMessage,
-  checkAWSCredentials,
-} from "../lib/ai-commit";
+import { generateAICommitMessage } from "../lib/ai-commit";
+import { checkAICredentials } from "../lib/ai-providers";
 import {
   analyzeTeamActivity,
   generateProjectReport,
@@ -34,11 +33,10 @@ import {
 } from "../lib/team-analysis";
 import { getAllWorkLogs, readWorkLog, getTodayDate } from "../lib/work-log";
 import { getKunjDir } from "../lib/config";
+import { runGit, runGitOrThrow, runToolOrThrow } from "../lib/runner";
 import * as fs from "fs";
 import * as path from "path";
 
-const execAsync = promisify(exec);
-
 // --- Dashboard data ---
 
 export async function getBranchList(): Promise<any> {
@@ -68,9 +66,11 @@ export async function getBranchList(): Promise<any> {
 
 export async function getOpenPRs(): Promise<any> {
   try {
-    const { stdout } = await execAsync(
-      `gh pr list --json number,title,author,isDraft,headRefName,baseRefName,url,additions,deletions,createdAt,updatedAt,reviews,statusCheckRollup --limit 50`
-    );
+    const { stdout } = await runToolOrThrow("gh", [
+      "pr", "list",
+      "--json", "number,title,author,isDraft,headRefName,baseRefName,url,additions,deletions,createdAt,updatedAt,reviews,statusCheckRollup",
+      "--limit", "50",
+    ]);
     const prs = JSON.parse(stdout || "[]");
     return {
       pullRequests: prs.map((pr: any) => {
@@ -127,8 +127,8 @@ export async function getFileChanges(): Promise<any> {
 
 export async function getCommitGraph(limit = 20): Promise<any> {
   try {
-    const { stdout } = await execAsync(
-      `git log --format=%H%x00%an%x00%aI%x00%D%x00%s -n ${limit}`
+    const { stdout } = await runGitOrThrow(
+      ["log", "--format=%H%x00%an%x00%aI%x00%D%x00%s", "-n", String(limit)]
     );
     const commits = stdout
       .trim()
@@ -146,7 +146,7 @@ export async function getCommitGraph(limit = 20): Promise<any> {
 
 export async function getStashList(): Promise<any> {
   try {
-    const { stdout } = await execAsync("git stash list");
+    const { stdout } = await runGitOrThrow(["stash", "list"]);
     if (!stdout.trim()) return { stashes: [] };
     const stashes = stdout
       .trim()
@@ -375,7 +375,7 @@ export async function generateTeamAnalysis(): Promise<TeamAnalysis> {
   }
 
   // Check if AI is available
-  const hasAI = await checkAWSCredentials();
+  const hasAI = await checkAICredentials();
   if (!hasAI) {
     // No AI — group by area from summaries as fallback
     return buildFallbackAnalysis(summaries, jiraIssues, jiraByStatus, slackMessages, cache);
@@ -573,9 +573,23 @@ export function getConfiguration(): any {
 
 // --- Action endpoints ---
 
-export async function doStageFiles(files: string[]): Promise<any> {
-  const result = await stageFiles(files);
-  return { success: result.success, message: result.message };
+// Stage whole files and/or selected hunks (and lines) of the unstaged diff
+export async function doStageFiles(files: string[], hunks: HunkSelection[] = []): Promise<any> {
+  const messages: string[] = [];
+  if (files.length > 0 || hunks.length === 0) {
+    const result = await stageFiles(files);
+    if (!result.success || hunks.length === 0) {
+      return { success: result.success, message: result.message };
+    }
+    messages.push(result.message);
+  }
+  const result = await stageHunks(hunks);
+  messages.push(result.message);
+  return { success: result.success, message: messages.join("; ") };
+}
+
+export async function doGetHunks(filePath: string): Promise<any> {
+  return { filePath, hunks: await getFileHunks(filePath) };
 }
 
 export async function doCommit(message: string): Promise<any> {
@@ -584,9 +598,9 @@ export async function doCommit(message: string): Promise<any> {
 }
 
 export async function doGenerateAIMessage(): Promise<any> {
-  const hasCredentials = await checkAWSCredentials();
+  const hasCredentials = await checkAICredentials();
   if (!hasCredentials) {
-    return { error: "AWS credentials not configured" };
+    return { error: "AI provider credentials not configured" };
   }
   const branch = await getCurrentBranch();
   const files = await getFileStatuses();
@@ -629,21 +643,14 @@ export async function doDeleteFile(filePath: string): Promise<any> {
 
 export async function getRecentCommits(limit = 5): Promise<any> {
   const messages = await getRecentCommitMessages(limit);
-  const aiAvailable = await checkAWSCredentials();
+  const aiAvailable = await checkAICredentials();
   return { messages, aiAvailable };
 }
 
 export async function doPush(): Promise<any> {
   const branch = await getCurrentBranch();
-  let hasUpstream = false;
-  try {
-    const { stdout } = await execAsync(
-      `git rev-parse --abbrev-ref --symbolic-full-name @{u} 2>/dev/null`
-    );
-    hasUpstream = !!stdout.trim();
-  } catch {
-    hasUpstream = false;
-  }
+  const upstream = await runGit(["rev-parse", "--abbrev-ref", "--symbolic-full-name", "@{u}"]);
+  const hasUpstream = upstream.success && !!upstream.stdout.trim();
   const result = await pushBranch(branch, !hasUpstream);
   return { success: result.success, message: result.message };
 }
@@ -1,7 +1,7 @@
 // UI command - Start web dashboard for kunj
 
-import { exec } from "child_process";
 import { BaseCommand } from "../lib/command";
+import { runTool } from "../lib/runner";
 
 interface UIOptions {
   port?: string;
@@ -38,13 +38,14 @@ export class UICommand extends BaseCommand {
       console.log(`\n  kunj dashboard running at ${url}\n`);
 
       if (options.open !== false) {
-        const openCmd =
+        // "start" is a cmd.exe builtin; its first quoted argument is the window title
+        const [openCmd, ...openArgs] =
           process.platform === "darwin"
-            ? "open"
+            ? ["open"]
             : process.platform === "win32"
-              ? "start"
-              : "xdg-open";
-        exec(`${openCmd} ${url}`);
+              ? ["cmd", "/c", "start", ""]
+              : ["xdg-open"];
+        runTool(openCmd, [...openArgs, url]);
       }
     });
 
@@ -127,8 +127,8 @@ export function createServer(): express.Application {
       const config = data.getConfiguration().merged;
       let repoUrl: string | undefined;
       try {
-        const { execSync } = require("child_process");
-        const remote = execSync("git remote get-url origin", { encoding: "utf8" }).trim();
+        const { runGitOrThrow } = await import("../lib/runner");
+        const remote = (await runGitOrThrow(["remote", "get-url", "origin"])).stdout.trim();
         // Convert SSH to HTTPS
         repoUrl = remote
           .replace(/^git@github\.com:/, "https://github.com/")
@@ -287,7 +287,7 @@ export function createServer(): express.Application {
   // --- API: Actions (call data layer directly) ---
   app.post("/api/stage", async (req, res) => {
     try {
-      const result = await data.doStageFiles(req.body.files || []);
+      const result = await data.doStageFiles(req.body.files || [], req.body.hunks || []);
       res.json(result);
     } catch (err: any) {
       res.status(500).json({ error: err.message });
@@ -326,6 +326,19 @@ export function createServer(): express.Application {
     }
   });
 
+  app.get("/api/hunks", async (req, res) => {
+    try {
+      const filePath = req.query.file as string;
+      if (!filePath) {
+        res.status(400).json({ error: "file parameter required" });
+        return;
+      }
+      res.json(await data.doGetHunks(filePath));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
   app.post("/api/revert", async (req, res) => {
     try {
       res.json(await data.doRevertFile(req.body.file));